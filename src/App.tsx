@@ -7,12 +7,25 @@ import { Leaderboard } from './components/Leaderboard';
 import { UsernameInput } from './components/UsernameInput';
 import { PauseScreen } from './components/PauseScreen';
 import { GameOverScreen } from './components/GameOverScreen';
+import { ReplayScreen } from './components/ReplayScreen';
+import { LevelEditorScreen } from './components/LevelEditorScreen';
+import { ControlsScreen } from './components/ControlsScreen';
+import { TouchControls } from './components/TouchControls';
+import { SettingsScreen } from './components/SettingsScreen';
+import { PerformanceOverlay } from './components/PerformanceOverlay';
 import { WeaponType } from './game/Player';
 import { AudioManager } from './game/AudioManager';
+import { ReplayData, parseReplay, serializeReplay } from './game/Replay';
+import { WaveEvent } from './game/WaveDirector';
+import { DEFAULT_LEVEL_ID, LevelDefinition, getLevelDefinition, getLevelDefinitions } from './game/LevelDefinitions';
+import { isTouchDevice } from './game/TouchInputAdapter';
+import { QualityStats } from './game/QualityGovernor';
+import { PoolStats } from './game/ObjectPool';
+import { Settings, SettingsValues } from './game/Settings';
 import { supabase } from './lib/supabase';
 import StatusAlert from './components/StatusAlert';
 
-export type GameState = 'menu' | 'playing' | 'paused' | 'gameOver' | 'leaderboard' | 'usernameInput';
+export type GameState = 'menu' | 'playing' | 'paused' | 'gameOver' | 'leaderboard' | 'usernameInput' | 'replay' | 'editor';
 
 // Define a type for our status messages to ensure consistency
 type StatusMessage = {
@@ -34,10 +47,27 @@ function App() {
   const [survivalTime, setSurvivalTime] = useState(0);
   const [currentWave, setCurrentWave] = useState(1);
   const [waveProgress, setWaveProgress] = useState(0);
+  const [waveEvent, setWaveEvent] = useState<WaveEvent | null>(null);
+  const [selectedArena, setSelectedArena] = useState(DEFAULT_LEVEL_ID); // Where runs start
+  const [arena, setArena] = useState<LevelDefinition>(() => getLevelDefinition(DEFAULT_LEVEL_ID)); // Where the player is now
+  const [editorLevel, setEditorLevel] = useState<LevelDefinition>(() => getLevelDefinition(DEFAULT_LEVEL_ID)); // Kept across play-tests
+  const [playTestLevel, setPlayTestLevel] = useState<LevelDefinition | null>(null); // Set while play-testing from the editor
+  const startArenaRef = useRef<string | LevelDefinition>(selectedArena); // The game setup effect only reruns on gameState changes, so it reads the arena from here
+  startArenaRef.current = playTestLevel ?? selectedArena;
   const [username, setUsername] = useState<string>('');
   const [playerPosition, setPlayerPosition] = useState(new THREE.Vector3(0, 1.6, 0));
   const [score, setScore] = useState(0);
+  const [seed, setSeed] = useState(0);
+  const [replay, setReplay] = useState<ReplayData | null>(null);
   const [statusMessage, setStatusMessage] = useState<StatusMessage | null>(null);
+  const [showControls, setShowControls] = useState(false); // Overlays the menu or pause screen
+  const [showSettings, setShowSettings] = useState(false); // Likewise
+  const [touchMode, setTouchMode] = useState(isTouchDevice);
+  const [performanceStats, setPerformanceStats] = useState<QualityStats | null>(null);
+  const [poolStats, setPoolStats] = useState<PoolStats[]>([]);
+  const [settings, setSettings] = useState<SettingsValues>(() => Settings.getInstance().get());
+
+  useEffect(() => Settings.getInstance().subscribe(setSettings), []);
 
   // Create audio manager instance
   const audioManagerRef = useRef<AudioManager | null>(null);
@@ -45,6 +75,14 @@ function App() {
     audioManagerRef.current = new AudioManager();
   }
 
+  // Touch laptops report a mouse as their main pointer; the first touch switches the controls over
+  useEffect(() => {
+    if (touchMode) return;
+    const onTouchStart = () => setTouchMode(true);
+    window.addEventListener('touchstart', onTouchStart, { once: true });
+    return () => window.removeEventListener('touchstart', onTouchStart);
+  }, [touchMode]);
+
   useEffect(() => {
     // Check for stored username
     const storedUsername = localStorage.getItem('galacticWarsUsername');
@@ -67,11 +105,19 @@ function App() {
           onWeaponChange: setCurrentWeapon,
           onWaveComplete: setCurrentWave,
           onWaveProgress: setWaveProgress,
+          onWaveEvent: setWaveEvent,
+          onArenaChange: level => {
+            setArena(level);
+            showStatusMessage(`Arena: ${level.name}`, 3000);
+          },
           onSurvivalTimeChange: setSurvivalTime,
           onPlayerPositionChange: setPlayerPosition,
           onGameOver: handleGameOver,
+          onPause: pauseGame,
           onStatusMessage: showStatusMessage,
+          onPerformanceUpdate: updatePerformanceStats,
         });
+        gameRef.current.setArena(startArenaRef.current);
         
         // Initialize game with audio manager asynchronously
         (async () => {
@@ -114,11 +160,19 @@ function App() {
         onWeaponChange: setCurrentWeapon,
         onWaveComplete: setCurrentWave,
         onWaveProgress: setWaveProgress,
+        onWaveEvent: setWaveEvent,
+        onArenaChange: level => {
+          setArena(level);
+          showStatusMessage(`Arena: ${level.name}`, 3000);
+        },
         onSurvivalTimeChange: setSurvivalTime,
         onPlayerPositionChange: setPlayerPosition,
         onGameOver: handleGameOver,
+        onPause: pauseGame,
         onStatusMessage: showStatusMessage,
+        onPerformanceUpdate: updatePerformanceStats,
       });
+      gameInstance.setArena(selectedArena);
 
       const audioManager = new AudioManager();
       await gameInstance.init(audioManager);
@@ -128,7 +182,40 @@ function App() {
     }
   };
 
+  const startPlayTest = (level: LevelDefinition) => {
+    setPlayTestLevel(level);
+    setHealth(100);
+    setSurvivalTime(0);
+    setCurrentWave(1);
+    setWaveProgress(0);
+    setGameState('playing');
+  };
+
+  const exitPlayTest = () => {
+    setPlayTestLevel(null);
+    setGameState('editor');
+  };
+
   const handleGameOver = () => {
+    // Play-tests go straight back to the editor; their scores don't count. Read from the ref,
+    // since this handler is captured when the game is created
+    if (typeof startArenaRef.current !== 'string') {
+      const simulation = gameRef.current?.getSimulation();
+      if (simulation) {
+        const message = `Play-test over: ${simulation.getSurvivalTime()}s, wave ${simulation.getCurrentWave()}`;
+        setStatusMessage({ message, duration: 3000, key: Date.now() });
+      }
+      setPlayTestLevel(null);
+      setGameState('editor');
+      return;
+    }
+
+    if (gameRef.current) {
+      // Take the final time from the simulation; the per-frame HUD value can lag a frame behind
+      setSurvivalTime(gameRef.current.getSimulation().getSurvivalTime());
+      setSeed(gameRef.current.getSeed());
+      setReplay(gameRef.current.getReplay());
+    }
     setGameState('gameOver');
   };
 
@@ -157,15 +244,41 @@ function App() {
     }
   };
 
+  const downloadReplay = () => {
+    if (!replay) return;
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `galactic-wars-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadReplay = async (file: File) => {
+    try {
+      setReplay(parseReplay(await file.text()));
+      setGameState('replay');
+    } catch (error) {
+      console.warn('Failed to load replay:', error);
+      showStatusMessage('Could not load replay file', 3000);
+    }
+  };
+
   const showStatusMessage = (message: string, duration: number = 2000) => {
     setStatusMessage({ message, duration, key: Date.now() });
   };
 
+  const updatePerformanceStats = (stats: QualityStats, pools: PoolStats[]) => {
+    setPerformanceStats(stats);
+    setPoolStats(pools);
+  };
+
   return (
     <div className="w-full h-screen bg-black relative overflow-hidden">
       <canvas
         ref={canvasRef}
-        className="w-full h-full"
+        className="w-full h-full touch-none"
         style={{ display: gameState === 'playing' ? 'block' : 'none' }}
       />
 
@@ -173,6 +286,13 @@ function App() {
         <MenuScreen 
           onStart={startGame} 
           onShowLeaderboard={() => setGameState('leaderboard')}
+          onShowControls={() => setShowControls(true)}
+          onShowSettings={() => setShowSettings(true)}
+          onLoadReplay={loadReplay}
+          onOpenEditor={() => setGameState('editor')}
+          arenas={getLevelDefinitions()}
+          selectedArena={selectedArena}
+          onSelectArena={setSelectedArena}
         />
       )}
 
@@ -195,30 +315,75 @@ function App() {
           survivalTime={survivalTime}
           currentWave={currentWave}
           waveProgress={waveProgress}
+          waveEvent={waveEvent}
           playerPosition={playerPosition}
+          arena={arena}
           onPause={pauseGame}
           enemies={gameRef.current?.getEnemies ? gameRef.current.getEnemies() : []}
+          touchMode={touchMode}
         />
       )}
 
+      {gameState === 'playing' && settings.showPerformanceOverlay && performanceStats && (
+        <PerformanceOverlay stats={performanceStats} pools={poolStats} adaptive={settings.adaptiveQuality} />
+      )}
+
+      {gameState === 'playing' && touchMode && gameRef.current && (
+        <TouchControls input={gameRef.current.getTouchInput()} currentWeapon={currentWeapon} />
+      )}
+
       {gameState === 'paused' && (
         <PauseScreen
           onResume={resumeGame}
           onRestart={restartGame}
-          onMainMenu={() => setGameState('menu')}
+          onShowSettings={() => setShowSettings(true)}
+          onMainMenu={() => (playTestLevel ? exitPlayTest() : setGameState('menu'))}
         />
       )}
 
+      {showControls && (gameState === 'menu' || gameState === 'paused') && (
+        <ControlsScreen onBack={() => setShowControls(false)} />
+      )}
+
+      {showSettings && (gameState === 'menu' || gameState === 'paused') && (
+        <SettingsScreen onBack={() => setShowSettings(false)} />
+      )}
+
       {gameState === 'gameOver' && (
         <GameOverScreen
           survivalTime={survivalTime}
           waveReached={currentWave}
+          seed={seed}
+          replay={replay}
           username={username}
           onRestart={restartGame}
+          onWatchReplay={() => setGameState('replay')}
+          onDownloadReplay={downloadReplay}
           onMainMenu={() => setGameState('menu')}
         />
       )}
 
+      {gameState === 'replay' && replay && (
+        <ReplayScreen
+          replay={replay}
+          onExit={() => setGameState('menu')}
+          onError={message => {
+            showStatusMessage(message, 3000);
+            setGameState('menu');
+          }}
+        />
+      )}
+
+      {gameState === 'editor' && (
+        <LevelEditorScreen
+          level={editorLevel}
+          onChange={setEditorLevel}
+          onPlayTest={startPlayTest}
+          onExit={() => setGameState('menu')}
+          onMessage={message => showStatusMessage(message, 3000)}
+        />
+      )}
+
       {statusMessage && (
         <StatusAlert 
           key={statusMessage.key} 
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Keyboard, RotateCcw, X } from 'lucide-react';
+import {
+  ACTION_LABELS,
+  INPUT_ACTIONS,
+  InputAction,
+  InputBindings,
+  MAX_BINDINGS_PER_ACTION
+} from '../game/InputBindings';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
+interface ControlsScreenProps {
+  onBack: () => void;
+}
+
+interface SlotRef {
+  action: InputAction;
+  slot: number;
+}
+
+interface PendingConflict extends SlotRef {
+  binding: string;
+  owner: InputAction;
+}
+
+export const ControlsScreen: React.FC<ControlsScreenProps> = ({ onBack }) => {
+  const input = InputBindings.getInstance();
+  const [bindings, setBindings] = useState(() => input.getAll());
+  const [capturing, setCapturing] = useState<SlotRef | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onBack);
+
+  useEffect(() => {
+    // Key names follow the player's keyboard layout once the browser reports it
+    input.loadKeyboardLayout().then(() => setBindings(input.getAll()));
+  }, [input]);
+
+  const assign = (target: SlotRef, binding: string) => {
+    const takenFrom = input.bind(target.action, target.slot, binding);
+    setBindings(input.getAll());
+    setConflict(null);
+    setNotice(takenFrom ? `${input.describe(binding)} was removed from ${ACTION_LABELS[takenFrom]}` : null);
+  };
+
+  const capture = (target: SlotRef, binding: string) => {
+    setCapturing(null);
+    const owner = input.findConflict(target.action, binding);
+    if (owner) {
+      setConflict({ ...target, binding, owner });
+    } else {
+      assign(target, binding);
+    }
+  };
+
+  // Listen on window in the capture phase so the game and pause screen never see these keys
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (capturing) {
+        // Escape cancels, unless it's being given back to pause (browsers reserve it for leaving pointer lock)
+        if (event.code === 'Escape' && capturing.action !== 'pause') {
+          setCapturing(null);
+        } else {
+          capture(capturing, event.code);
+        }
+      } else if (event.code === 'Escape' || input.getActionFor(event.code) === 'pause') {
+        onBack();
+      }
+    };
+
+    const onMouseDown = (event: MouseEvent) => {
+      if (!capturing) return;
+      event.preventDefault();
+      event.stopPropagation();
+      capture(capturing, `Mouse${event.button}`);
+    };
+
+    const onWheel = (event: WheelEvent) => {
+      if (!capturing || event.deltaY === 0) return;
+      event.preventDefault();
+      capture(capturing, event.deltaY < 0 ? 'WheelUp' : 'WheelDown');
+    };
+
+    const onContextMenu = (event: MouseEvent) => {
+      if (capturing) event.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    window.addEventListener('mousedown', onMouseDown, true);
+    window.addEventListener('wheel', onWheel, { capture: true, passive: false });
+    window.addEventListener('contextmenu', onContextMenu, true);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown, true);
+      window.removeEventListener('mousedown', onMouseDown, true);
+      window.removeEventListener('wheel', onWheel, true);
+      window.removeEventListener('contextmenu', onContextMenu, true);
+    };
+  });
+
+  const unbound = input.getUnboundActions();
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+      <div className="bg-gray-900 bg-opacity-95 p-8 rounded-lg max-w-2xl w-full mx-4 max-h-[85vh] overflow-y-auto border border-cyan-400 border-opacity-20">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-400 flex items-center gap-3">
+            <Keyboard className="w-8 h-8 text-cyan-400" />
+            Controls
+          </h2>
+          <button
+            onClick={onBack}
+            className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-gray-400 text-sm mb-4">
+          Click a slot, then press a key, mouse button or scroll the wheel. Esc cancels.
+        </p>
+
+        {conflict && (
+          <div className="bg-yellow-900 bg-opacity-60 border border-yellow-500 rounded-lg p-3 mb-4 flex items-center justify-between gap-4">
+            <span className="text-yellow-200 text-sm">
+              <span className="font-bold">{input.describe(conflict.binding)}</span> is already bound to{' '}
+              <span className="font-bold">{ACTION_LABELS[conflict.owner]}</span>. Move it to {ACTION_LABELS[conflict.action]}?
+            </span>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => assign(conflict, conflict.binding)}
+                className="bg-yellow-600 hover:bg-yellow-500 text-white text-sm font-bold px-3 py-1 rounded"
+              >
+                Replace
+              </button>
+              <button
+                onClick={() => setConflict(null)}
+                className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold px-3 py-1 rounded"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {notice && !conflict && (
+          <div className="text-cyan-300 text-sm mb-4">{notice}</div>
+        )}
+
+        <div className="space-y-2">
+          {INPUT_ACTIONS.map(action => (
+            <div key={action} className="flex items-center justify-between bg-gray-800 rounded-lg px-4 py-2">
+              <span className={`font-semibold ${bindings[action].length === 0 ? 'text-red-400' : 'text-white'}`}>
+                {ACTION_LABELS[action]}
+              </span>
+              <div className="flex gap-2">
+                {Array.from({ length: MAX_BINDINGS_PER_ACTION }, (_, slot) => {
+                  const binding = bindings[action][slot];
+                  const isCapturing = capturing?.action === action && capturing.slot === slot;
+                  return (
+                    <div key={slot} className="flex items-center">
+                      <button
+                        onClick={() => {
+                          setConflict(null);
+                          setCapturing({ action, slot: binding ? slot : bindings[action].length });
+                        }}
+                        className={`w-32 py-1 rounded-l text-sm font-mono transition-colors ${
+                          isCapturing
+                            ? 'bg-cyan-600 text-white animate-pulse'
+                            : binding
+                              ? 'bg-gray-700 hover:bg-gray-600 text-cyan-300'
+                              : 'bg-gray-800 hover:bg-gray-700 text-gray-500 border border-dashed border-gray-600'
+                        } ${binding ? '' : 'rounded-r'}`}
+                      >
+                        {isCapturing ? 'Press...' : binding ? input.describe(binding) : '—'}
+                      </button>
+                      {binding && (
+                        <button
+                          onClick={() => {
+                            input.unbind(action, slot);
+                            setBindings(input.getAll());
+                          }}
+                          className="bg-gray-700 hover:bg-red-700 text-gray-400 hover:text-white py-1 px-1 rounded-r transition-colors"
+                          title="Clear"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {unbound.length > 0 && (
+          <p className="text-red-400 text-sm mt-4">
+            Not bound: {unbound.map(action => ACTION_LABELS[action]).join(', ')}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between mt-6">
+          <span className="text-gray-500 text-xs">Mouse movement always looks around.</span>
+          <button
+            onClick={() => {
+              input.resetToDefaults();
+              setBindings(input.getAll());
+              setConflict(null);
+              setNotice('Controls reset to defaults');
+            }}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset to Defaults</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
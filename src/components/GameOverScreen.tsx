@@ -1,27 +1,40 @@
-import React, { useState, useEffect } from 'react';
-import { Trophy, Clock, Zap, Target, Award } from 'lucide-react';
-import { LeaderboardService } from '../lib/supabase';
+import React, { useState, useEffect, useRef } from 'react';
+import { Trophy, Clock, Zap, Target, Award, Hash, Film, Download } from 'lucide-react';
+import { LeaderboardService, ScoreSubmissionStatus } from '../lib/supabase';
+import { ReplayData } from '../game/Replay';
+import { calculateScore } from '../game/ScoreVerifier';
+import { useGamepadNavigation } from './useGamepadNavigation';
 
 interface GameOverScreenProps {
   survivalTime: number;
   waveReached: number;
+  seed: number;
+  replay: ReplayData | null;
   username: string;
   onRestart: () => void;
+  onWatchReplay: () => void;
+  onDownloadReplay: () => void;
   onMainMenu: () => void;
 }
 
 export const GameOverScreen: React.FC<GameOverScreenProps> = ({
   survivalTime,
   waveReached,
+  seed,
+  replay,
   username,
   onRestart,
+  onWatchReplay,
+  onDownloadReplay,
   onMainMenu
 }) => {
-  const [scoreSubmitted, setScoreSubmitted] = useState(false);
+  const [submissionStatus, setSubmissionStatus] = useState<ScoreSubmissionStatus>('error');
   const [personalBest, setPersonalBest] = useState<boolean>(false);
   const [submitting, setSubmitting] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef);
 
-  const currentScore = Math.floor(survivalTime * 10 + waveReached * 500);
+  const currentScore = calculateScore(survivalTime, waveReached);
 
   useEffect(() => {
     submitScore();
@@ -35,9 +48,10 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
     const isPersonalBest = !best || currentScore > best.score;
     setPersonalBest(isPersonalBest);
 
-    // Submit the score
-    const success = await LeaderboardService.submitScore(username, survivalTime, waveReached);
-    setScoreSubmitted(success);
+    // Submit the score along with the replay so the server can verify it
+    if (replay) {
+      setSubmissionStatus(await LeaderboardService.submitScore(username, survivalTime, waveReached, replay));
+    }
     setSubmitting(false);
   };
 
@@ -48,7 +62,7 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
   };
 
   return (
-    <div className="absolute inset-0 bg-black bg-opacity-90 flex items-center justify-center">
+    <div ref={containerRef} className="absolute inset-0 bg-black bg-opacity-90 flex items-center justify-center">
       <div className="bg-gray-900 p-8 rounded-lg text-center max-w-md w-full mx-4">
         <div className="mb-6">
           {personalBest ? (
@@ -97,6 +111,12 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
             </div>
             <p className="text-3xl font-bold text-cyan-400">{currentScore.toLocaleString()}</p>
           </div>
+
+          <div className="flex items-center justify-center space-x-2 text-sm text-gray-400">
+            <Hash className="w-4 h-4" />
+            <span>Seed</span>
+            <span className="font-mono text-gray-200 select-all">{seed}</span>
+          </div>
         </div>
 
         {submitting ? (
@@ -106,11 +126,18 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
           </div>
         ) : (
           <div className="mb-6">
-            {scoreSubmitted ? (
+            {submissionStatus === 'pending' ? (
+              <p className="text-green-400 flex items-center justify-center space-x-2">
+                <Trophy className="w-5 h-5" />
+                <span>Score saved! It joins the leaderboard once it's verified.</span>
+              </p>
+            ) : submissionStatus === 'verified' ? (
               <p className="text-green-400 flex items-center justify-center space-x-2">
                 <Trophy className="w-5 h-5" />
-                <span>Score saved to leaderboard!</span>
+                <span>Score verified and saved to leaderboard!</span>
               </p>
+            ) : submissionStatus === 'flagged' ? (
+              <p className="text-yellow-400">Score could not be verified and is held for review.</p>
             ) : (
               <p className="text-red-400">Failed to save score. Try again later.</p>
             )}
@@ -120,10 +147,27 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
         <div className="flex flex-col items-center space-y-3">
           <button
             onClick={onRestart}
+            data-gamepad-default
             className="w-full bg-gradient-to-r from-red-500 to-orange-500 hover:from-red-600 hover:to-orange-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-200"
           >
             Fight Again
           </button>
+          <div className="w-full flex space-x-3">
+            <button
+              onClick={onWatchReplay}
+              className="flex-1 bg-cyan-700 hover:bg-cyan-600 text-white font-bold py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <Film className="w-5 h-5" />
+              <span>Watch Replay</span>
+            </button>
+            <button
+              onClick={onDownloadReplay}
+              className="flex-1 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <Download className="w-5 h-5" />
+              <span>Save Replay</span>
+            </button>
+          </div>
           <button
             onClick={onMainMenu}
             className="w-full bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-lg transition-all duration-200"
@@ -4,6 +4,11 @@ import { WeaponType } from '../game/Player';
 import { MiniMap } from './MiniMap';
 import * as THREE from 'three';
 import { AICoordinator } from '../game/AIBehavior';
+import { getEnemyArchetype } from '../game/EnemyArchetypes';
+import { WaveEvent } from '../game/WaveDirector';
+import { Enemy } from '../game/Enemy';
+import { BossAttack } from '../game/BossController';
+import { LevelDefinition } from '../game/LevelDefinitions';
 
 interface GameUIProps {
   health: number;
@@ -15,9 +20,12 @@ interface GameUIProps {
   currentWave: number;
   waveProgress: number;
   enemiesInWave: number;
+  waveEvent?: WaveEvent | null; // Set during special event waves
   playerPosition: THREE.Vector3;
+  arena: LevelDefinition; // Current arena, for the mini map
   onPause: () => void;
   enemies?: any[]; // For showing enemy stats
+  touchMode?: boolean; // On-screen controls are showing; keyboard hints are hidden and the bottom is theirs
 }
 
 const EnemyThreatIndicator: React.FC<{ threatLevel: number }> = ({ threatLevel }) => {
@@ -54,6 +62,42 @@ const EnemyThreatIndicator: React.FC<{ threatLevel: number }> = ({ threatLevel }
     </div>
   );
 };
+const BOSS_ATTACK_WARNINGS: Record<BossAttack, string> = {
+  slam: 'GROUND SLAM - JUMP OR GET CLEAR!',
+  laserSweep: 'LASER SWEEP - JUMP OR TAKE COVER!',
+  summon: 'SUMMONING REINFORCEMENTS'
+};
+
+const BossHealthBar: React.FC<{ enemy: Enemy }> = ({ enemy }) => {
+  const boss = enemy.getBoss();
+  if (!boss) return null;
+
+  const healthFraction = Math.max(0, enemy.getHealthFraction());
+  const telegraphed = boss.getTelegraphedAttack();
+
+  return (
+    <div className="bg-black bg-opacity-60 px-4 py-2 rounded-lg w-[90vw] max-w-[420px]">
+      <div className="flex items-center justify-between text-sm font-bold mb-1">
+        <span className="text-fuchsia-400 uppercase tracking-wide">
+          {enemy.getArchetype().hud.icon} {enemy.getArchetype().name}
+        </span>
+        <span className="text-gray-300 text-xs">PHASE {boss.getPhaseNumber()}/{boss.getPhaseCount()}</span>
+      </div>
+      <div className="w-full h-3 bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-gradient-to-r from-fuchsia-600 to-red-500 transition-all duration-200"
+          style={{ width: `${healthFraction * 100}%` }}
+        />
+      </div>
+      {telegraphed && (
+        <div className="text-yellow-300 text-xs font-bold text-center mt-1 animate-pulse">
+          {BOSS_ATTACK_WARNINGS[telegraphed]}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const GameUI: React.FC<GameUIProps> = ({ 
   health, 
   enemiesLeft, 
@@ -64,9 +108,12 @@ export const GameUI: React.FC<GameUIProps> = ({
   currentWave,
   waveProgress,
   enemiesInWave,
+  waveEvent = null,
   playerPosition,
+  arena,
   onPause,
-  enemies = []
+  enemies = [],
+  touchMode = false
 }) => {
   const formatTime = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
@@ -84,15 +131,17 @@ export const GameUI: React.FC<GameUIProps> = ({
     }
   };
 
+  const bossEnemy: Enemy | undefined = enemies.find(enemy => enemy.isAlive?.() && enemy.getBoss?.());
+
   return (
     <div className="absolute inset-0 pointer-events-none">
       {/* Health Bar - Top Left */}
-      <div className="absolute top-4 left-4 pointer-events-auto">
-        <div className="bg-black bg-opacity-50 p-4 rounded-lg space-y-3">
+      <div className="absolute top-2 left-2 sm:top-4 sm:left-4 pointer-events-auto">
+        <div className="bg-black bg-opacity-50 p-2 sm:p-4 rounded-lg space-y-2 sm:space-y-3">
           <div className="flex items-center space-x-4">
             <div className="flex items-center space-x-2">
               <Heart className="w-5 h-5 text-red-400" />
-              <div className="w-32 h-3 bg-gray-700 rounded-full overflow-hidden">
+              <div className="w-20 sm:w-32 h-3 bg-gray-700 rounded-full overflow-hidden">
                 <div 
                   className="h-full bg-gradient-to-r from-red-500 to-red-400 transition-all duration-300"
                   style={{ width: `${Math.max(0, health)}%` }}
@@ -117,7 +166,7 @@ export const GameUI: React.FC<GameUIProps> = ({
             
             {currentWeapon !== 'lightsaber' && (
               <div className="flex items-center space-x-2">
-                <div className="w-24 h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div className="w-16 sm:w-24 h-2 bg-gray-700 rounded-full overflow-hidden">
                   <div 
                     className={`h-full transition-all duration-300 ${
                       currentWeapon === 'blaster' 
@@ -147,9 +196,14 @@ export const GameUI: React.FC<GameUIProps> = ({
       </div>
         
       {/* Wave Information - Top Center */}
-      <div className="absolute top-4 left-1/2 transform -translate-x-1/2 pointer-events-auto">
-        <div className="bg-black bg-opacity-50 p-4 rounded-lg text-center min-w-[160px]">
-          <div className="text-cyan-400 text-lg font-bold">WAVE {currentWave}</div>
+      <div className="absolute top-2 sm:top-4 left-1/2 transform -translate-x-1/2 pointer-events-auto">
+        <div className="bg-black bg-opacity-50 p-2 sm:p-4 rounded-lg text-center min-w-[120px] sm:min-w-[160px]">
+          <div className="text-cyan-400 text-base sm:text-lg font-bold">WAVE {currentWave}</div>
+          {waveEvent && (
+            <div className="text-red-400 text-xs font-bold uppercase tracking-wide" title={waveEvent.description}>
+              {waveEvent.name}
+            </div>
+          )}
           <div className="flex items-center space-x-2 mt-1">
             <Users className="w-4 h-4 text-orange-400" />
             <span className="text-white text-sm">{enemiesLeft}/{enemiesInWave} enemies</span>
@@ -157,7 +211,7 @@ export const GameUI: React.FC<GameUIProps> = ({
           
           {/* Enemy type breakdown */}
           {enemies.length > 0 && (
-            <div className="text-xs text-gray-300 mt-2">
+            <div className="hidden sm:block text-xs text-gray-300 mt-2">
               <div className="grid grid-cols-2 gap-1">
                 {Object.entries(getEnemyTypeCount(enemies)).map(([type, count]) => (
                   <div key={type} className="flex items-center justify-between">
@@ -179,35 +233,27 @@ export const GameUI: React.FC<GameUIProps> = ({
         </div>
       </div>
         
-      {/* Mini Map - Top Right */}
-      <div className="absolute top-4 right-4 pointer-events-auto">
-        <div className="bg-black bg-opacity-50 p-2 rounded-lg">
+      {/* Right column: mini map, survival timer, threat level and pause */}
+      <div className="absolute top-2 right-2 sm:top-4 sm:right-4 flex flex-col items-end gap-2 sm:gap-3 pointer-events-auto">
+        <div className="bg-black bg-opacity-50 p-1 sm:p-2 rounded-lg">
           <MiniMap 
             playerPosition={playerPosition}
             enemies={enemies}
             currentWave={currentWave}
+            arena={arena}
           />
         </div>
-      </div>
-      
-      {/* Survival Timer - Top Right (below minimap) */}
-      <div className="absolute top-[200px] right-4 pointer-events-auto">
-        <div className="bg-black bg-opacity-50 p-4 rounded-lg text-center">
-          <div className="text-green-400 text-sm font-semibold">SURVIVAL TIME</div>
-          <div className="text-white text-lg font-bold">{formatTime(survivalTime)}</div>
+
+        <div className="bg-black bg-opacity-50 p-2 sm:p-4 rounded-lg text-center">
+          <div className="text-green-400 text-xs sm:text-sm font-semibold">SURVIVAL TIME</div>
+          <div className="text-white text-base sm:text-lg font-bold">{formatTime(survivalTime)}</div>
         </div>
-      </div>
-        
-      {/* AI Threat Level - Top Right (below survival timer) */}
-      <div className="absolute top-[280px] right-4 pointer-events-auto">
+
         <EnemyThreatIndicator threatLevel={getThreatLevel()} />
-      </div>
-        
-      {/* Pause Button - Top Right (below threat level) */}
-      <div className="absolute top-[340px] right-4 pointer-events-auto">
+
         <button
           onClick={onPause}
-          className="bg-black bg-opacity-50 p-3 rounded-lg hover:bg-opacity-70 transition-colors"
+          className={`bg-black bg-opacity-50 rounded-lg hover:bg-opacity-70 transition-colors ${touchMode ? 'p-4' : 'p-3'}`}
         >
           <Pause className="w-5 h-5 text-white" />
         </button>
@@ -221,21 +267,30 @@ export const GameUI: React.FC<GameUIProps> = ({
         </div>
       </div>
 
+      {/* Boss Health Bar - Bottom Center (above instructions); higher up when touch controls own the bottom */}
+      {bossEnemy && (
+        <div className={`absolute left-1/2 transform -translate-x-1/2 ${touchMode ? 'top-1/4' : 'bottom-24'}`}>
+          <BossHealthBar enemy={bossEnemy} />
+        </div>
+      )}
+
       {/* Bottom instructions */}
-      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2">
-        <div className="bg-black bg-opacity-50 px-4 py-2 rounded-lg">
-          <div className="flex space-x-6 text-xs text-gray-300">
-            <span><span className="text-cyan-400">Left Click</span> - Attack (Hold for Auto)</span>
-            <span><span className="text-purple-400">Right Click</span> - Telekinesis</span>
-            <span><span className="text-yellow-400">Wheel</span> - Switch Weapon</span>
-            <span><span className="text-green-400">R</span> - Reload</span>
-            <span><span className="text-blue-400">Space</span> - Jump</span>
-          </div>
-          <div className="flex justify-center space-x-6 text-xs text-gray-400 mt-1">
-            <span>💀 Normal • 🏃 Scout • 🛡️ Heavy • 🔫 Ranged • 💥 Exploder • 🛡️ Shielded • 🚁 Drone • 📦 Boxes</span>
+      {!touchMode && (
+        <div className="hidden md:block absolute bottom-4 left-1/2 transform -translate-x-1/2">
+          <div className="bg-black bg-opacity-50 px-4 py-2 rounded-lg">
+            <div className="flex space-x-6 text-xs text-gray-300">
+              <span><span className="text-cyan-400">Left Click</span> - Attack (Hold for Auto)</span>
+              <span><span className="text-purple-400">Right Click</span> - Telekinesis</span>
+              <span><span className="text-yellow-400">Wheel</span> - Switch Weapon</span>
+              <span><span className="text-green-400">R</span> - Reload</span>
+              <span><span className="text-blue-400">Space</span> - Jump</span>
+            </div>
+            <div className="flex justify-center space-x-6 text-xs text-gray-400 mt-1">
+              <span>💀 Normal • 🏃 Scout • 🛡️ Heavy • 🔫 Ranged • 💥 Exploder • 🛡️ Shielded • 🚁 Drone • ⚡ Laser Trooper • 👑 Boss • 📦 Boxes</span>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -253,14 +308,9 @@ function getEnemyTypeCount(enemies: any[]): Record<string, number> {
 }
 
 function getEnemyIcon(type: string): string {
-  switch (type) {
-    case 'normal': return '💀';
-    case 'scout': return '🏃';
-    case 'heavy': return '🛡️';
-    case 'ranged': return '🔫';
-    case 'exploder': return '💥';
-    case 'shielded': return '🛡️';
-    case 'drone': return '🚁';
-    default: return '👾';
+  try {
+    return getEnemyArchetype(type).hud.icon;
+  } catch {
+    return '👾';
   }
-}
\ No newline at end of file
+}
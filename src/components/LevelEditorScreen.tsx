@@ -0,0 +1,332 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Move, RotateCw, Maximize2, Magnet, Route, Trash2, Upload, Download, Play, Home, Plus, PencilRuler } from 'lucide-react';
+import { EditorTool, LevelEditor } from '../game/LevelEditor';
+import { AddableKind, EditorSelection } from '../game/LevelEditing';
+import {
+  LIGHTING_PRESETS,
+  LevelDefinition,
+  LightingPresetName,
+  getLevelDefinitions,
+  parseLevelDefinition,
+  serializeLevelDefinition,
+  validateLevelDefinition
+} from '../game/LevelDefinitions';
+
+interface LevelEditorScreenProps {
+  level: LevelDefinition; // Only read on mount; edits are reported through onChange
+  onChange: (level: LevelDefinition) => void;
+  onPlayTest: (level: LevelDefinition) => void;
+  onExit: () => void;
+  onMessage: (message: string) => void;
+}
+
+const ADDABLE: { kind: AddableKind; label: string }[] = [
+  { kind: 'platforms', label: 'Platform' },
+  { kind: 'ramps', label: 'Ramp' },
+  { kind: 'pillars', label: 'Pillar' },
+  { kind: 'walls', label: 'Wall' },
+  { kind: 'spawnZones', label: 'Spawn Zone' },
+  { kind: 'boxSpawns', label: 'Box Spawner' }
+];
+
+const SELECTION_LABELS: Record<EditorSelection['kind'], string> = {
+  platforms: 'Platform',
+  ramps: 'Ramp',
+  pillars: 'Pillar',
+  walls: 'Wall',
+  spawnZones: 'Spawn Zone',
+  boxSpawns: 'Box Spawner',
+  playerStart: 'Player Start'
+};
+
+const TOOLS: { tool: EditorTool; label: string; key: string; icon: React.ReactNode }[] = [
+  { tool: 'translate', label: 'Move', key: 'W', icon: <Move className="w-5 h-5" /> },
+  { tool: 'rotate', label: 'Rotate', key: 'E', icon: <RotateCw className="w-5 h-5" /> },
+  { tool: 'scale', label: 'Scale', key: 'R', icon: <Maximize2 className="w-5 h-5" /> }
+];
+
+export const LevelEditorScreen: React.FC<LevelEditorScreenProps> = ({ level, onChange, onPlayTest, onExit, onMessage }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const editorRef = useRef<LevelEditor | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [current, setCurrent] = useState(level);
+  const [selection, setSelection] = useState<EditorSelection | null>(null);
+  const [tool, setTool] = useState<EditorTool>('translate');
+  const [snap, setSnap] = useState(true);
+  const [navPreview, setNavPreview] = useState(false);
+  // Read through refs so the editor is only created once
+  const initialLevelRef = useRef(level);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    editorRef.current = new LevelEditor(canvasRef.current, initialLevelRef.current, {
+      onChange: changed => {
+        setCurrent(changed);
+        onChangeRef.current(changed);
+      },
+      onSelectionChange: setSelection
+    });
+
+    return () => {
+      editorRef.current?.cleanup();
+      editorRef.current = null;
+    };
+  }, []);
+
+  const changeTool = (newTool: EditorTool) => {
+    setTool(newTool);
+    editorRef.current?.setTool(newTool);
+  };
+
+  const deleteSelected = () => {
+    if (selection && !editorRef.current?.deleteSelected()) {
+      onMessage(`A level needs its ${SELECTION_LABELS[selection.kind].toLowerCase()}`);
+    }
+  };
+
+  // Same shortcuts as the three.js editor, ignored while typing into the side panel
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+      const shortcut = TOOLS.find(entry => entry.key === event.key.toUpperCase());
+      if (shortcut) {
+        changeTool(shortcut.tool);
+      } else if (event.key === 'Delete' || event.key === 'Backspace') {
+        deleteSelected();
+      } else if (event.key === 'Escape') {
+        editorRef.current?.select(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Playing and exporting both need a level the game will accept
+  const validated = (): LevelDefinition | null => {
+    try {
+      return validateLevelDefinition(editorRef.current?.getLevel() ?? current, 'the editor');
+    } catch (error) {
+      console.warn('Level is not valid:', error);
+      const [, firstProblem] = error instanceof Error ? error.message.split('\n  - ') : [];
+      onMessage(firstProblem ? `Level is not valid: ${firstProblem}` : 'Level is not valid');
+      return null;
+    }
+  };
+
+  const exportLevel = () => {
+    const checked = validated();
+    if (!checked) return;
+    const blob = new Blob([serializeLevelDefinition(checked)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${checked.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importLevel = async (file: File) => {
+    try {
+      editorRef.current?.setLevel(parseLevelDefinition(await file.text(), file.name));
+    } catch (error) {
+      console.warn('Failed to import level:', error);
+      onMessage('Could not import level file');
+    }
+  };
+
+  const playTest = () => {
+    const checked = validated();
+    if (checked) onPlayTest(checked);
+  };
+
+  // Sizes apply when the field is left, so the layout isn't squashed into each digit typed on the way
+  const commitSize = (dimension: 'width' | 'depth', value: string) => {
+    const size = Number(value);
+    if (Number.isFinite(size) && size !== current.floor[dimension]) {
+      editorRef.current?.setProperties({ [dimension]: size });
+    }
+  };
+
+  const toggleButton = (active: boolean) =>
+    `p-2 rounded-lg transition-colors ${active ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+  const fieldClass = 'w-full bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-white focus:border-cyan-400 outline-none';
+
+  return (
+    <div className="absolute inset-0 bg-black">
+      <canvas ref={canvasRef} className="w-full h-full" />
+
+      {/* Level properties and the palette of things to add */}
+      <div className="absolute top-4 left-4 w-64 bg-black bg-opacity-75 rounded-lg p-4 text-white space-y-3 max-h-[calc(100%-7rem)] overflow-y-auto">
+        <div className="flex items-center space-x-2">
+          <PencilRuler className="w-5 h-5 text-cyan-400" />
+          <span className="font-semibold">Level Editor</span>
+        </div>
+
+        <label className="block text-xs text-gray-400">
+          Start from
+          <select
+            className={fieldClass}
+            value=""
+            onChange={event => {
+              const base = getLevelDefinitions().find(candidate => candidate.id === event.target.value);
+              if (base) editorRef.current?.setLevel(base);
+            }}
+          >
+            <option value="" disabled>Choose an arena…</option>
+            {getLevelDefinitions().map(arena => (
+              <option key={arena.id} value={arena.id}>{arena.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block text-xs text-gray-400">
+          Name
+          <input className={fieldClass} value={current.name} onChange={event => editorRef.current?.setProperties({ name: event.target.value })} />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Id (file name)
+          <input className={fieldClass} value={current.id} onChange={event => editorRef.current?.setProperties({ id: event.target.value })} />
+        </label>
+        <label className="block text-xs text-gray-400">
+          Description
+          <input className={fieldClass} value={current.description} onChange={event => editorRef.current?.setProperties({ description: event.target.value })} />
+        </label>
+        <div className="flex space-x-2">
+          <label className="block text-xs text-gray-400">
+            Width
+            <input
+              key={current.floor.width} type="number" min={10} step={5} className={fieldClass} defaultValue={current.floor.width}
+              onBlur={event => commitSize('width', event.target.value)}
+              onKeyDown={event => event.key === 'Enter' && event.currentTarget.blur()}
+            />
+          </label>
+          <label className="block text-xs text-gray-400">
+            Depth
+            <input
+              key={current.floor.depth} type="number" min={10} step={5} className={fieldClass} defaultValue={current.floor.depth}
+              onBlur={event => commitSize('depth', event.target.value)}
+              onKeyDown={event => event.key === 'Enter' && event.currentTarget.blur()}
+            />
+          </label>
+        </div>
+        <label className="block text-xs text-gray-400">
+          Lighting
+          <select
+            className={fieldClass}
+            value={current.lighting}
+            onChange={event => editorRef.current?.setProperties({ lighting: event.target.value as LightingPresetName })}
+          >
+            {Object.keys(LIGHTING_PRESETS).map(preset => (
+              <option key={preset} value={preset}>{preset}</option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-2 gap-2 pt-2">
+          {ADDABLE.map(({ kind, label }) => (
+            <button
+              key={kind}
+              onClick={() => editorRef.current?.add(kind)}
+              className="bg-gray-700 hover:bg-gray-600 rounded px-2 py-1 text-sm flex items-center space-x-1"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Gizmo tools */}
+      <div className="absolute top-4 right-4 bg-black bg-opacity-75 rounded-lg p-2 flex items-center space-x-2 text-white">
+        {TOOLS.map(entry => (
+          <button key={entry.tool} onClick={() => changeTool(entry.tool)} className={toggleButton(tool === entry.tool)} title={`${entry.label} (${entry.key})`}>
+            {entry.icon}
+          </button>
+        ))}
+        <button
+          onClick={() => {
+            setSnap(!snap);
+            editorRef.current?.setSnap(!snap);
+          }}
+          className={toggleButton(snap)}
+          title="Snap to grid"
+        >
+          <Magnet className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => {
+            setNavPreview(!navPreview);
+            editorRef.current?.setNavPreview(!navPreview);
+          }}
+          className={toggleButton(navPreview)}
+          title="Show where enemies can't walk"
+        >
+          <Route className="w-5 h-5" />
+        </button>
+        <button onClick={deleteSelected} disabled={!selection} className="p-2 rounded-lg bg-red-700 hover:bg-red-600 disabled:opacity-40 transition-colors" title="Delete (Del)">
+          <Trash2 className="w-5 h-5" />
+        </button>
+      </div>
+
+      {selection && (
+        <div className="absolute top-20 right-4 bg-black bg-opacity-75 rounded-lg px-3 py-2 text-sm text-white">
+          {SELECTION_LABELS[selection.kind]}{selection.kind !== 'playerStart' && ` ${selection.index + 1}`}
+        </div>
+      )}
+
+      <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-75 p-4 flex items-center justify-between text-white">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="bg-gray-700 hover:bg-gray-600 font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <Upload className="w-5 h-5" />
+            <span>Import</span>
+          </button>
+          <button
+            onClick={exportLevel}
+            className="bg-gray-700 hover:bg-gray-600 font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <Download className="w-5 h-5" />
+            <span>Export</span>
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              if (file) importLevel(file);
+              event.target.value = '';
+            }}
+          />
+        </div>
+
+        <span className="hidden md:block text-xs text-gray-400">
+          Click to select · drag to orbit · right-drag to pan · W/E/R move, rotate, scale
+        </span>
+
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={playTest}
+            className="bg-cyan-600 hover:bg-cyan-500 font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <Play className="w-5 h-5" />
+            <span>Play-test</span>
+          </button>
+          <button
+            onClick={onExit}
+            className="bg-gray-600 hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <Home className="w-5 h-5" />
+            <span>Main Menu</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
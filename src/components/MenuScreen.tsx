@@ -1,14 +1,44 @@
-import React from 'react';
-import { Trophy, Zap, Gamepad2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Trophy, Zap, Gamepad2, Film, Keyboard, Settings, MapIcon, PencilRuler } from 'lucide-react';
+import { InputAction, InputBindings } from '../game/InputBindings';
+import { LevelDefinition } from '../game/LevelDefinitions';
+import { useGamepadNavigation } from './useGamepadNavigation';
 
 interface MenuScreenProps {
   onStart: () => void;
   onShowLeaderboard: () => void;
+  onShowControls: () => void;
+  onShowSettings: () => void;
+  onLoadReplay: (file: File) => void;
+  onOpenEditor: () => void;
+  arenas: LevelDefinition[];
+  selectedArena: string;
+  onSelectArena: (id: string) => void;
 }
 
-export const MenuScreen: React.FC<MenuScreenProps> = ({ onStart, onShowLeaderboard }) => {
+export const MenuScreen: React.FC<MenuScreenProps> = ({ onStart, onShowLeaderboard, onShowControls, onShowSettings, onLoadReplay, onOpenEditor, arenas, selectedArena, onSelectArena }) => {
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const input = InputBindings.getInstance();
+  const [, setLayoutLoaded] = useState(false);
+  useGamepadNavigation(containerRef);
+
+  useEffect(() => {
+    // Re-render once key names can follow the player's keyboard layout
+    input.loadKeyboardLayout().then(() => setLayoutLoaded(true));
+  }, [input]);
+
+  // First binding of each action, so WASD reads as "WASD" rather than four separate entries
+  const primaryKey = (action: InputAction) => {
+    const [binding] = input.getBindings(action);
+    return binding ? input.describe(binding) : '—';
+  };
+  const moveKeys = (['moveForward', 'moveLeft', 'moveBackward', 'moveRight'] as InputAction[]).map(primaryKey);
+  const moveLabel = moveKeys.every(key => key.length === 1) ? moveKeys.join('') : moveKeys.join('/');
+  const weaponKeys = (['weapon1', 'weapon2', 'weapon3'] as InputAction[]).map(primaryKey).join(',');
+
   return (
-    <div className="absolute inset-0 bg-gradient-to-b from-gray-900 via-blue-900 to-black flex items-center justify-center overflow-hidden">
+    <div ref={containerRef} className="absolute inset-0 bg-gradient-to-b from-gray-900 via-blue-900 to-black flex items-center justify-center overflow-hidden">
       {/* Animated Starfield */}
       <div id="stars" />
       <div id="stars2" />
@@ -27,16 +57,28 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({ onStart, onShowLeaderboa
 
         <div className="flex justify-center gap-12 mb-12">
             <div className="text-left">
-                <h3 className="text-white font-semibold mb-4 text-lg flex items-center gap-2"><Gamepad2/>Controls</h3>
+                <h3 className="text-white font-semibold mb-4 text-lg flex items-center gap-2">
+                    <Gamepad2/>Controls
+                    <button
+                        onClick={onShowControls}
+                        className="ml-2 text-xs font-normal text-cyan-300 hover:text-cyan-100 border border-cyan-400 border-opacity-40 rounded px-2 py-0.5 flex items-center gap-1"
+                    >
+                        <Keyboard className="w-3 h-3" />Customize
+                    </button>
+                </h3>
                 <div className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm text-gray-300">
-                    <span>WASD - Move</span>
+                    <span>{moveLabel} - Move</span>
                     <span>Mouse - Look</span>
-                    <span>L-Click - Attack</span>
-                    <span>R-Click - Telekinesis</span>
-                    <span>1,2,3 - Switch Weapon</span>
-                    <span>R - Reload</span>
-                    <span>ESC - Pause</span>
+                    <span>{primaryKey('attack')} - Attack</span>
+                    <span>{primaryKey('telekinesis')} - Telekinesis</span>
+                    <span>{weaponKeys} - Switch Weapon</span>
+                    <span>{primaryKey('reload')} - Reload</span>
+                    <span>{primaryKey('jump')} - Jump</span>
+                    <span>{primaryKey('pause')} - Pause</span>
                 </div>
+                <p className="text-xs text-gray-400 mt-3">
+                    Gamepad: sticks move and look, RT attack, LT telekinesis, LB/RB switch weapon
+                </p>
             </div>
             <div className="text-left">
                 <h3 className="text-white font-semibold mb-4 text-lg">Credit</h3>
@@ -47,9 +89,33 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({ onStart, onShowLeaderboa
             </div>
         </div>
         
-        <div className="space-y-4 flex flex-col items-center my-12">
+        <div className="mb-8">
+          <h3 className="text-white font-semibold mb-3 text-lg flex items-center justify-center gap-2">
+            <MapIcon />Arena
+          </h3>
+          <div className="grid grid-cols-2 gap-3 max-w-xl mx-auto">
+            {arenas.map(arena => (
+              <button
+                key={arena.id}
+                onClick={() => onSelectArena(arena.id)}
+                className={`text-left rounded-lg px-4 py-2 border transition-all duration-300 ${
+                  arena.id === selectedArena
+                    ? 'bg-cyan-500 bg-opacity-20 border-cyan-400 text-white'
+                    : 'bg-gray-800 bg-opacity-60 border-gray-600 text-gray-300 hover:border-cyan-400'
+                }`}
+              >
+                <span className="block font-bold">{arena.name}</span>
+                <span className="block text-xs text-gray-400">{arena.description}</span>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-2">The arena changes every few waves, starting from your pick</p>
+        </div>
+
+        <div className="space-y-4 flex flex-col items-center mb-12">
           <button
             onClick={onStart}
+            data-gamepad-default
             className="bg-gradient-to-r from-cyan-500 to-purple-500 hover:from-cyan-400 hover:to-purple-400 text-white text-2xl font-bold px-12 py-4 rounded-lg transform hover:scale-105 transition-all duration-300 shadow-lg w-full max-w-md h-16 animate-gradient-x"
           >
             Begin Survival
@@ -62,6 +128,41 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({ onStart, onShowLeaderboa
             <Trophy className="w-6 h-6" />
             <span>Leaderboard</span>
           </button>
+
+          <button
+            onClick={() => replayInputRef.current?.click()}
+            className="bg-gray-700 hover:bg-gray-600 text-white text-lg font-bold px-12 py-3 rounded-lg transition-all duration-300 w-full max-w-md flex items-center justify-center space-x-2"
+          >
+            <Film className="w-5 h-5" />
+            <span>Watch Replay File</span>
+          </button>
+
+          <button
+            onClick={onOpenEditor}
+            className="bg-gray-700 hover:bg-gray-600 text-white text-lg font-bold px-12 py-3 rounded-lg transition-all duration-300 w-full max-w-md flex items-center justify-center space-x-2"
+          >
+            <PencilRuler className="w-5 h-5" />
+            <span>Level Editor</span>
+          </button>
+
+          <button
+            onClick={onShowSettings}
+            className="bg-gray-700 hover:bg-gray-600 text-white text-lg font-bold px-12 py-3 rounded-lg transition-all duration-300 w-full max-w-md flex items-center justify-center space-x-2"
+          >
+            <Settings className="w-5 h-5" />
+            <span>Settings</span>
+          </button>
+          <input
+            ref={replayInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              if (file) onLoadReplay(file);
+              event.target.value = '';
+            }}
+          />
         </div>
         
         {/* Built with Bolt.new badge */}
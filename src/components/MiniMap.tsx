@@ -1,11 +1,13 @@
 import React, { useEffect, useRef } from 'react';
 import { Enemy } from '../game/Enemy';
+import { LevelDefinition } from '../game/LevelDefinitions';
 import * as THREE from 'three';
 
 interface MiniMapProps {
   playerPosition: THREE.Vector3;
   enemies: Enemy[];
   currentWave: number;
+  arena: LevelDefinition;
   className?: string;
 }
 
@@ -13,6 +15,7 @@ export const MiniMap: React.FC<MiniMapProps> = ({
   playerPosition, 
   enemies, 
   currentWave,
+  arena,
   className = "" 
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -33,32 +36,53 @@ export const MiniMap: React.FC<MiniMapProps> = ({
     ctx.fillStyle = '#1a1a1a';
     ctx.fillRect(0, 0, size, size);
 
-    // Calculate scale for 50x50 arena
-    const arenaSize = 50;
-    const scale = size / arenaSize;
+    // Fit the arena's longer side to the map, centering the shorter one
+    const { width, depth } = arena.floor;
+    const scale = size / Math.max(width, depth);
+    const mapWidth = width * scale;
+    const mapDepth = depth * scale;
+    const offsetX = (size - mapWidth) / 2;
+    const offsetZ = (size - mapDepth) / 2;
+    const toMapX = (x: number) => offsetX + (x + width / 2) * scale;
+    const toMapZ = (z: number) => offsetZ + (z + depth / 2) * scale;
 
     // Draw arena floor
     ctx.fillStyle = '#334455';
-    ctx.fillRect(0, 0, size, size);
+    ctx.fillRect(offsetX, offsetZ, mapWidth, mapDepth);
 
     // Draw arena boundary walls
     ctx.strokeStyle = '#556677';
     ctx.lineWidth = 2;
-    ctx.strokeRect(0, 0, size, size);
+    ctx.strokeRect(offsetX, offsetZ, mapWidth, mapDepth);
     
-    // Draw inner grid for reference
+    // Draw inner grid for reference, every 5 units
     ctx.strokeStyle = '#445566';
     ctx.lineWidth = 1;
-    const gridSize = 10;
-    for (let i = 1; i < gridSize; i++) {
-      const pos = (i / gridSize) * size;
-      ctx.beginPath();
-      ctx.moveTo(pos, 0);
-      ctx.lineTo(pos, size);
-      ctx.moveTo(0, pos);
-      ctx.lineTo(size, pos);
-      ctx.stroke();
+    const gridSpacing = 5 * scale;
+    ctx.beginPath();
+    for (let x = offsetX + gridSpacing; x < offsetX + mapWidth - 1; x += gridSpacing) {
+      ctx.moveTo(x, offsetZ);
+      ctx.lineTo(x, offsetZ + mapDepth);
+    }
+    for (let z = offsetZ + gridSpacing; z < offsetZ + mapDepth - 1; z += gridSpacing) {
+      ctx.moveTo(offsetX, z);
+      ctx.lineTo(offsetX + mapWidth, z);
     }
+    ctx.stroke();
+
+    // Draw obstacles
+    ctx.fillStyle = '#667788';
+    (arena.walls.inner ?? []).forEach(wall => {
+      ctx.fillRect(toMapX(wall.x - wall.width / 2), toMapZ(wall.z - wall.depth / 2), wall.width * scale, wall.depth * scale);
+    });
+    [...arena.platforms, ...arena.ramps].forEach(platform => {
+      ctx.fillRect(toMapX(platform.x - platform.size / 2), toMapZ(platform.z - platform.size / 2), platform.size * scale, platform.size * scale);
+    });
+    arena.pillars.forEach(pillar => {
+      ctx.beginPath();
+      ctx.arc(toMapX(pillar.x), toMapZ(pillar.z), pillar.radius * scale, 0, Math.PI * 2);
+      ctx.fill();
+    });
 
     // Draw enemies
     enemies.forEach(enemy => {
@@ -66,31 +90,30 @@ export const MiniMap: React.FC<MiniMapProps> = ({
       
       const pos = enemy.getPosition();
       // Convert world coordinates to minimap coordinates
-      const drawX = ((pos.x + arenaSize/2) / arenaSize) * size;
-      const drawZ = ((pos.z + arenaSize/2) / arenaSize) * size;
+      const drawX = toMapX(pos.x);
+      const drawZ = toMapZ(pos.z);
       
       // Different colors for different enemy types
-      const type = enemy.getType();
-      let color = '#ff4444';
-      switch (type) {
-        case 'scout': color = '#44aa44'; break;
-        case 'heavy': color = '#aa4444'; break;
-        case 'ranged': color = '#4444aa'; break;
-        case 'exploder': color = '#aa4400'; break;
-        case 'shielded': color = '#6666aa'; break;
-        case 'drone': color = '#aaaaaa'; break;
-        default: color = '#ff4444';
-      }
+      const color = enemy.getArchetype().hud.minimapColor;
       
       ctx.fillStyle = color;
       ctx.beginPath();
-      ctx.arc(drawX, drawZ, 2, 0, Math.PI * 2);
+      ctx.arc(drawX, drawZ, enemy.getBoss() ? 4 : 2, 0, Math.PI * 2); // Bosses stand out
       ctx.fill();
+
+      // Ring around shooters that are charging up a shot
+      if (enemy.isChargingShot()) {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(drawX, drawZ, 4, 0, Math.PI * 2);
+        ctx.stroke();
+      }
     });
 
     // Draw player
-    const playerDrawX = ((playerPosition.x + arenaSize/2) / arenaSize) * size;
-    const playerDrawZ = ((playerPosition.z + arenaSize/2) / arenaSize) * size;
+    const playerDrawX = toMapX(playerPosition.x);
+    const playerDrawZ = toMapZ(playerPosition.z);
     
     // Player dot with glow effect
     ctx.shadowColor = '#00ffff';
@@ -113,15 +136,15 @@ export const MiniMap: React.FC<MiniMapProps> = ({
     ctx.lineTo(playerDrawX + directionLength * 0.7, playerDrawZ - directionLength * 0.7);
     ctx.stroke();
 
-  }, [playerPosition, enemies, currentWave]);
+  }, [playerPosition, enemies, currentWave, arena]);
 
   return (
     <div className={`relative ${className}`}>
       <canvas 
         ref={canvasRef}
-        className="w-40 h-40 rounded border border-gray-600"
+        className="w-24 h-24 sm:w-40 sm:h-40 rounded border border-gray-600"
       />
-      <div className="absolute top-1 right-1 bg-black bg-opacity-50 px-1 py-0.5 rounded text-xs text-white">
+      <div className="hidden sm:block absolute top-1 right-1 bg-black bg-opacity-50 px-1 py-0.5 rounded text-xs text-white">
         Wave {currentWave}
       </div>
       <div className="absolute bottom-1 left-1 bg-black bg-opacity-50 px-1 py-0.5 rounded text-xs text-cyan-400">
@@ -1,19 +1,38 @@
-import React from 'react';
-import { Play, Home, RotateCcw } from 'lucide-react';
+import React, { useEffect, useRef } from 'react';
+import { Play, Home, RotateCcw, Settings } from 'lucide-react';
+import { InputBindings } from '../game/InputBindings';
+import { useGamepadNavigation } from './useGamepadNavigation';
 
 interface PauseScreenProps {
   onResume: () => void;
   onRestart: () => void;
+  onShowSettings: () => void;
   onMainMenu: () => void;
 }
 
 export const PauseScreen: React.FC<PauseScreenProps> = ({
   onResume,
   onRestart,
+  onShowSettings,
   onMainMenu
 }) => {
+  const input = InputBindings.getInstance();
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onResume);
+
+  // The pause binding toggles back out of the pause screen
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!event.repeat && input.getActionFor(event.code) === 'pause') {
+        onResume();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [input, onResume]);
+
   return (
-    <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center">
+    <div ref={containerRef} className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center">
       <div className="bg-gray-900 p-8 rounded-lg text-center max-w-md w-full mx-4">
         <h2 className="text-3xl font-bold text-cyan-400 mb-2">Game Paused</h2>
         <p className="text-gray-300 mb-8">Take a breather, commander. The galaxy can wait.</p>
@@ -21,6 +40,7 @@ export const PauseScreen: React.FC<PauseScreenProps> = ({
         <div className="flex flex-col items-center space-y-4">
           <button
             onClick={onResume}
+            data-gamepad-default
             className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2"
           >
             <Play className="w-5 h-5" />
@@ -34,6 +54,14 @@ export const PauseScreen: React.FC<PauseScreenProps> = ({
             <RotateCcw className="w-5 h-5" />
             <span>Restart Mission</span>
           </button>
+
+          <button
+            onClick={onShowSettings}
+            className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-lg transition-all duration-200 flex items-center justify-center space-x-2"
+          >
+            <Settings className="w-5 h-5" />
+            <span>Settings</span>
+          </button>
           
           <button
             onClick={onMainMenu}
@@ -45,7 +73,7 @@ export const PauseScreen: React.FC<PauseScreenProps> = ({
         </div>
         
         <div className="mt-6 text-xs text-gray-400">
-          <p>Press ESC to resume or use the buttons above</p>
+          <p>Press {input.describeAction('pause', ' or ')} to resume or use the buttons above</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { QUALITY_TIERS, QualityStats } from '../game/QualityGovernor';
+import { PoolStats } from '../game/ObjectPool';
+
+interface PerformanceOverlayProps {
+  stats: QualityStats;
+  pools: PoolStats[];
+  adaptive: boolean;
+}
+
+// Bottom corner, low enough to sit under the touch joystick
+export const PerformanceOverlay: React.FC<PerformanceOverlayProps> = ({ stats, pools, adaptive }) => {
+  const fpsColor = stats.fps >= 55 ? 'text-green-400' : stats.fps >= 30 ? 'text-yellow-400' : 'text-red-400';
+
+  return (
+    <div className="absolute bottom-1 left-2 pointer-events-none bg-black bg-opacity-60 rounded px-2 py-0.5 text-xs font-mono text-gray-300">
+      {/* Active / allocated objects per pool; allocated stops climbing once a pool is warm */}
+      {pools.map(pool => (
+        <div key={pool.name} title={`Peak ${pool.peak}`}>
+          {pool.name}: {pool.active}/{pool.created}
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Activity className="w-3 h-3 text-cyan-400" />
+        <span className={fpsColor}>{stats.fps > 0 ? Math.round(stats.fps) : '--'} FPS</span>
+        <span>{stats.frameTime > 0 ? (stats.frameTime * 1000).toFixed(1) : '--'} ms</span>
+        <span className="text-cyan-300">
+          {stats.tier.name} ({stats.tierIndex + 1}/{QUALITY_TIERS.length}){adaptive ? '' : ' fixed'}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Pause, RotateCcw, Home, Film } from 'lucide-react';
+import { ReplayData } from '../game/Replay';
+import { ReplayViewer } from '../game/ReplayViewer';
+
+interface ReplayScreenProps {
+  replay: ReplayData;
+  onExit: () => void;
+  onError: (message: string) => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export const ReplayScreen: React.FC<ReplayScreenProps> = ({ replay, onExit, onError }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewerRef = useRef<ReplayViewer | null>(null);
+  const [tick, setTick] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  // Read through a ref so a new callback identity doesn't restart the replay
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+
+    try {
+      viewerRef.current = new ReplayViewer(canvasRef.current, replay, {
+        onProgress: currentTick => setTick(currentTick),
+        onPlayingChange: setPlaying
+      });
+      viewerRef.current.play();
+    } catch (error) {
+      console.warn('Failed to start replay:', error);
+      onErrorRef.current(error instanceof Error ? error.message : 'Failed to start replay');
+    }
+
+    return () => {
+      viewerRef.current?.cleanup();
+      viewerRef.current = null;
+    };
+  }, [replay]);
+
+  const togglePlaying = () => {
+    if (playing) {
+      viewerRef.current?.pause();
+    } else {
+      viewerRef.current?.play();
+    }
+  };
+
+  const changeSpeed = (newSpeed: number) => {
+    setSpeed(newSpeed);
+    viewerRef.current?.setSpeed(newSpeed);
+  };
+
+  const formatTime = (ticks: number): string => {
+    const seconds = Math.floor(ticks / replay.tickRate);
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black">
+      <canvas ref={canvasRef} className="w-full h-full" />
+
+      <div className="absolute top-4 left-4 bg-black bg-opacity-50 px-3 py-2 rounded-lg flex items-center space-x-2 text-white">
+        <Film className="w-5 h-5 text-cyan-400" />
+        <span className="font-semibold">Replay</span>
+        <span className="text-gray-400 text-sm font-mono">seed {replay.seed}</span>
+      </div>
+
+      <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-75 p-4">
+        <input
+          type="range"
+          min={0}
+          max={replay.totalTicks}
+          value={tick}
+          onChange={event => viewerRef.current?.seek(Number(event.target.value))}
+          className="w-full mb-3 accent-cyan-400"
+        />
+
+        <div className="flex items-center justify-between text-white">
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={togglePlaying}
+              className="bg-cyan-600 hover:bg-cyan-500 p-2 rounded-lg transition-colors"
+              title={playing ? 'Pause' : 'Play'}
+            >
+              {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            </button>
+            <button
+              onClick={() => viewerRef.current?.seek(0)}
+              className="bg-gray-700 hover:bg-gray-600 p-2 rounded-lg transition-colors"
+              title="Restart"
+            >
+              <RotateCcw className="w-5 h-5" />
+            </button>
+            <span className="font-mono text-sm text-gray-300">
+              {formatTime(tick)} / {formatTime(replay.totalTicks)}
+            </span>
+          </div>
+
+          <div className="flex items-center space-x-1">
+            {SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => changeSpeed(option)}
+                className={`px-2 py-1 rounded text-sm font-semibold transition-colors ${
+                  speed === option ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={onExit}
+            className="bg-gray-600 hover:bg-gray-700 font-bold py-2 px-4 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <Home className="w-5 h-5" />
+            <span>Main Menu</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
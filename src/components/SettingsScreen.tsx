@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Keyboard, RotateCcw, Settings as SettingsIcon } from 'lucide-react';
+import {
+  SETTING_RANGES,
+  SHADOW_QUALITIES,
+  Settings,
+  SettingsValues
+} from '../game/Settings';
+import { InputBindings } from '../game/InputBindings';
+import { ControlsScreen } from './ControlsScreen';
+import { useGamepadNavigation } from './useGamepadNavigation';
+
+interface SettingsScreenProps {
+  onBack: () => void;
+}
+
+type SliderSetting = keyof typeof SETTING_RANGES;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="mb-6">
+    <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wide mb-3">{title}</h3>
+    <div className="space-y-3">{children}</div>
+  </div>
+);
+
+const Row: React.FC<{ label: string; value?: string; children: React.ReactNode }> = ({ label, value, children }) => (
+  <div className="flex items-center justify-between gap-4 bg-gray-800 rounded-lg px-4 py-2">
+    <span className="text-white font-semibold">{label}</span>
+    <div className="flex items-center gap-3">
+      {children}
+      {value !== undefined && <span className="text-cyan-300 text-sm font-mono w-12 text-right">{value}</span>}
+    </div>
+  </div>
+);
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
+  const settings = Settings.getInstance();
+  const [values, setValues] = useState<SettingsValues>(() => settings.get());
+  const [showBindings, setShowBindings] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  useGamepadNavigation(containerRef, onBack);
+
+  useEffect(() => settings.subscribe(setValues), [settings]);
+
+  // Escape (or the pause binding) closes the screen without also resuming a paused game
+  useEffect(() => {
+    if (showBindings) return; // The key bindings screen handles keys while it's open
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.code === 'Escape' || InputBindings.getInstance().getActionFor(event.code) === 'pause') {
+        event.preventDefault();
+        event.stopPropagation();
+        onBack();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [showBindings, onBack]);
+
+  const slider = (label: string, key: SliderSetting, step: number, format: (value: number) => string) => {
+    const [min, max] = SETTING_RANGES[key];
+    return (
+      <Row label={label} value={format(values[key])}>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={values[key]}
+          onChange={event => settings.update({ [key]: Number(event.target.value) })}
+          className="w-40 accent-cyan-400"
+        />
+      </Row>
+    );
+  };
+
+  return (
+    <>
+      <div ref={containerRef} className="absolute inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50">
+        <div className="bg-gray-900 bg-opacity-95 p-8 rounded-lg max-w-2xl w-full mx-4 max-h-[85vh] overflow-y-auto border border-cyan-400 border-opacity-20">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-3xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-purple-400 flex items-center gap-3">
+              <SettingsIcon className="w-8 h-8 text-cyan-400" />
+              Settings
+            </h2>
+            <button
+              onClick={onBack}
+              className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+          </div>
+
+          <Section title="Controls">
+            {slider('Look Sensitivity', 'lookSensitivity', 0.05, value => `${value.toFixed(2)}x`)}
+            <Row label="Invert Look Up/Down">
+              <input
+                type="checkbox"
+                checked={values.invertY}
+                onChange={event => settings.update({ invertY: event.target.checked })}
+                className="w-5 h-5 accent-cyan-400"
+              />
+            </Row>
+            <Row label="Gamepad Aim Assist">
+              <input
+                type="checkbox"
+                checked={values.aimAssist}
+                onChange={event => settings.update({ aimAssist: event.target.checked })}
+                className="w-5 h-5 accent-cyan-400"
+              />
+            </Row>
+            <Row label="Key Bindings">
+              <button
+                onClick={() => setShowBindings(true)}
+                className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold py-1 px-3 rounded flex items-center gap-2"
+              >
+                <Keyboard className="w-4 h-4" />
+                <span>Customize</span>
+              </button>
+            </Row>
+          </Section>
+
+          <Section title="Graphics">
+            {slider('Field of View', 'fov', 1, value => `${value}°`)}
+            <Row label="Shadows">
+              <div className="flex gap-1">
+                {SHADOW_QUALITIES.map(quality => (
+                  <button
+                    key={quality}
+                    onClick={() => settings.update({ shadowQuality: quality })}
+                    className={`text-sm font-bold py-1 px-3 rounded capitalize transition-colors ${
+                      values.shadowQuality === quality
+                        ? 'bg-cyan-600 text-white'
+                        : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+                    }`}
+                  >
+                    {quality}
+                  </button>
+                ))}
+              </div>
+            </Row>
+            {slider('Particle Density', 'particleDensity', 0.05, percent)}
+            <Row label="Adaptive Quality">
+              <input
+                type="checkbox"
+                checked={values.adaptiveQuality}
+                onChange={event => settings.update({ adaptiveQuality: event.target.checked })}
+                className="w-5 h-5 accent-cyan-400"
+              />
+            </Row>
+            <Row label="Performance Overlay">
+              <input
+                type="checkbox"
+                checked={values.showPerformanceOverlay}
+                onChange={event => settings.update({ showPerformanceOverlay: event.target.checked })}
+                className="w-5 h-5 accent-cyan-400"
+              />
+            </Row>
+          </Section>
+
+          <Section title="Audio">
+            {slider('Master Volume', 'masterVolume', 0.05, percent)}
+            {slider('Music Volume', 'musicVolume', 0.05, percent)}
+            {slider('Effects Volume', 'sfxVolume', 0.05, percent)}
+          </Section>
+
+          <Section title="Accessibility">
+            {slider('Camera Shake', 'cameraShake', 0.05, percent)}
+          </Section>
+
+          <div className="flex justify-end">
+            <button
+              onClick={() => settings.resetToDefaults()}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Reset to Defaults</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {showBindings && <ControlsScreen onBack={() => setShowBindings(false)} />}
+    </>
+  );
+};
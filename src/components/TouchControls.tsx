@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronsUp, Crosshair, Hand, RotateCcw, Sword, Zap } from 'lucide-react';
+import { WeaponType } from '../game/Player';
+import { InputAction } from '../game/InputBindings';
+import { TouchInputAdapter } from '../game/TouchInputAdapter';
+
+interface TouchControlsProps {
+  input: TouchInputAdapter;
+  currentWeapon: WeaponType;
+}
+
+const JOYSTICK_RADIUS = 56; // px the knob can travel from the center
+const JOYSTICK_DEAD_ZONE = 0.12;
+const WHEEL_RADIUS = 72; // px from the wheel button to each weapon
+const WHEEL_SELECT_DISTANCE = 28; // Drag at least this far to pick from the wheel instead of cycling
+
+// Fanned up and to the left of the wheel button, away from the screen edge (degrees, y up)
+const WEAPON_WHEEL: Array<{ weapon: WeaponType; action: InputAction; angle: number }> = [
+  { weapon: 'lightsaber', action: 'weapon1', angle: 90 },
+  { weapon: 'blaster', action: 'weapon2', angle: 135 },
+  { weapon: 'shotgun', action: 'weapon3', angle: 180 }
+];
+
+const WeaponIcon: React.FC<{ weapon: WeaponType; className?: string }> = ({ weapon, className = 'w-6 h-6' }) => {
+  if (weapon === 'lightsaber') return <Sword className={`${className} text-cyan-300`} />;
+  return <Zap className={`${className} ${weapon === 'blaster' ? 'text-red-400' : 'text-yellow-400'}`} />;
+};
+
+const Joystick: React.FC<{ onMove: (x: number, y: number) => void }> = ({ onMove }) => {
+  const [knob, setKnob] = useState({ x: 0, y: 0 });
+  const pointerId = useRef<number | null>(null);
+  const center = useRef({ x: 0, y: 0 });
+
+  const track = (event: React.PointerEvent) => {
+    let dx = event.clientX - center.current.x;
+    let dy = event.clientY - center.current.y;
+    const distance = Math.hypot(dx, dy);
+    if (distance > JOYSTICK_RADIUS) {
+      dx *= JOYSTICK_RADIUS / distance;
+      dy *= JOYSTICK_RADIUS / distance;
+    }
+    setKnob({ x: dx, y: dy });
+
+    const magnitude = Math.min(1, distance / JOYSTICK_RADIUS);
+    if (magnitude < JOYSTICK_DEAD_ZONE) {
+      onMove(0, 0);
+    } else {
+      onMove(dx / JOYSTICK_RADIUS, -dy / JOYSTICK_RADIUS); // Screen y grows downwards
+    }
+  };
+
+  const release = () => {
+    pointerId.current = null;
+    setKnob({ x: 0, y: 0 });
+    onMove(0, 0);
+  };
+
+  return (
+    <div
+      className="w-32 h-32 rounded-full bg-white bg-opacity-10 border-2 border-white border-opacity-30 relative touch-none select-none pointer-events-auto"
+      onPointerDown={event => {
+        if (pointerId.current !== null) return;
+        pointerId.current = event.pointerId;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const rect = event.currentTarget.getBoundingClientRect();
+        center.current = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+        track(event);
+      }}
+      onPointerMove={event => {
+        if (event.pointerId === pointerId.current) track(event);
+      }}
+      onPointerUp={event => {
+        if (event.pointerId === pointerId.current) release();
+      }}
+      onPointerCancel={event => {
+        if (event.pointerId === pointerId.current) release();
+      }}
+    >
+      <div
+        className="absolute top-1/2 left-1/2 w-14 h-14 -ml-7 -mt-7 rounded-full bg-cyan-400 bg-opacity-50 border-2 border-cyan-300"
+        style={{ transform: `translate(${knob.x}px, ${knob.y}px)` }}
+      />
+    </div>
+  );
+};
+
+// Held for as long as the finger stays down, like a key
+const HoldButton: React.FC<{
+  input: TouchInputAdapter;
+  action: InputAction;
+  className: string;
+  children: React.ReactNode;
+}> = ({ input, action, className, children }) => {
+  const [pressed, setPressed] = useState(false);
+
+  const setHeld = (held: boolean) => {
+    setPressed(held);
+    input.setAction(action, held);
+  };
+
+  return (
+    <button
+      className={`absolute rounded-full flex items-center justify-center border-2 touch-none select-none pointer-events-auto transition-transform ${
+        pressed ? 'scale-90 bg-opacity-80' : 'bg-opacity-40'
+      } ${className}`}
+      onPointerDown={event => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        setHeld(true);
+      }}
+      onPointerUp={() => setHeld(false)}
+      onPointerCancel={() => setHeld(false)}
+      onContextMenu={event => event.preventDefault()}
+    >
+      {children}
+    </button>
+  );
+};
+
+// Tap to cycle weapons, or hold and drag onto one to pick it directly
+const WeaponWheel: React.FC<{ input: TouchInputAdapter; currentWeapon: WeaponType }> = ({ input, currentWeapon }) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState<WeaponType | null>(null);
+  const start = useRef({ x: 0, y: 0 });
+
+  const pick = (event: React.PointerEvent) => {
+    const dx = event.clientX - start.current.x;
+    const dy = start.current.y - event.clientY;
+    if (Math.hypot(dx, dy) < WHEEL_SELECT_DISTANCE) {
+      setHighlighted(null);
+      return;
+    }
+
+    const angle = Math.atan2(dy, dx) * 180 / Math.PI;
+    const nearest = WEAPON_WHEEL.reduce((best, option) => {
+      const difference = Math.abs(((angle - option.angle + 540) % 360) - 180);
+      const bestDifference = Math.abs(((angle - best.angle + 540) % 360) - 180);
+      return difference < bestDifference ? option : best;
+    });
+    setHighlighted(nearest.weapon);
+  };
+
+  const finish = (cancelled: boolean) => {
+    if (!cancelled) {
+      const choice = WEAPON_WHEEL.find(option => option.weapon === highlighted);
+      input.tapAction(choice ? choice.action : 'nextWeapon');
+    }
+    setOpen(false);
+    setHighlighted(null);
+  };
+
+  return (
+    <div className="absolute bottom-0 right-48 w-14 h-14">
+      {open && WEAPON_WHEEL.map(option => (
+        <div
+          key={option.weapon}
+          className={`absolute w-12 h-12 rounded-full flex items-center justify-center border-2 ${
+            highlighted === option.weapon ? 'bg-cyan-600 border-cyan-200' : 'bg-gray-900 bg-opacity-70 border-gray-500'
+          }`}
+          style={{
+            left: 4 + WHEEL_RADIUS * Math.cos(option.angle * Math.PI / 180),
+            top: 4 - WHEEL_RADIUS * Math.sin(option.angle * Math.PI / 180)
+          }}
+        >
+          <WeaponIcon weapon={option.weapon} />
+        </div>
+      ))}
+      <button
+        className="w-14 h-14 rounded-full bg-gray-800 bg-opacity-60 border-2 border-gray-400 flex items-center justify-center touch-none select-none pointer-events-auto"
+        onPointerDown={event => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          start.current = { x: event.clientX, y: event.clientY };
+          setOpen(true);
+        }}
+        onPointerMove={event => {
+          if (open) pick(event);
+        }}
+        onPointerUp={() => finish(false)}
+        onPointerCancel={() => finish(true)}
+        onContextMenu={event => event.preventDefault()}
+      >
+        <WeaponIcon weapon={currentWeapon} />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * On-screen controls for touch devices: a movement joystick on the left, action buttons and
+ * the weapon wheel on the right. Looking around is a swipe on the game canvas itself, which
+ * TouchInputAdapter handles, so everything here leaves the rest of the screen to the canvas.
+ */
+export const TouchControls: React.FC<TouchControlsProps> = ({ input, currentWeapon }) => {
+  // Nothing may stay held while the controls are hidden (pause, game over)
+  useEffect(() => () => input.releaseAll(), [input]);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div className="absolute bottom-8 left-8">
+        <Joystick onMove={(x, y) => input.setMove(x, y)} />
+      </div>
+
+      <div className="absolute bottom-6 right-6 w-44 h-44">
+        <HoldButton input={input} action="attack" className="bottom-0 right-0 w-20 h-20 bg-red-600 border-red-300">
+          <Crosshair className="w-9 h-9 text-white" />
+        </HoldButton>
+        <HoldButton input={input} action="telekinesis" className="bottom-2 right-24 w-14 h-14 bg-purple-600 border-purple-300">
+          <Hand className="w-6 h-6 text-white" />
+        </HoldButton>
+        <HoldButton input={input} action="jump" className="bottom-24 right-2 w-14 h-14 bg-blue-600 border-blue-300">
+          <ChevronsUp className="w-6 h-6 text-white" />
+        </HoldButton>
+        <HoldButton input={input} action="reload" className="bottom-20 right-20 w-12 h-12 bg-green-600 border-green-300">
+          <RotateCcw className="w-5 h-5 text-white" />
+        </HoldButton>
+        <WeaponWheel input={input} currentWeapon={currentWeapon} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { GAMEPAD_BUTTONS, getActiveGamepad, isGamepadButtonPressed } from '../game/GamepadInputAdapter';
+
+type NavInput = 'previous' | 'next' | 'confirm' | 'back';
+
+const STICK_THRESHOLD = 0.6; // The left stick steps through menus too, once pushed this far
+const REPEAT_DELAY = 400; // ms a direction is held before it starts repeating
+const REPEAT_INTERVAL = 150;
+const FOCUS_ATTRIBUTE = 'data-gamepad-focus';
+
+// Only the most recently opened screen listens, so an overlay doesn't drive the menu beneath it
+const activeScreens: symbol[] = [];
+
+function readNavInputs(pad: Gamepad): Set<NavInput> {
+  const inputs = new Set<NavInput>();
+  const stickY = pad.axes[1] ?? 0;
+  const stickX = pad.axes[0] ?? 0;
+  const pressed = (index: number) => isGamepadButtonPressed(pad, index);
+
+  if (pressed(GAMEPAD_BUTTONS.DPAD_UP) || pressed(GAMEPAD_BUTTONS.DPAD_LEFT) ||
+      stickY < -STICK_THRESHOLD || stickX < -STICK_THRESHOLD) {
+    inputs.add('previous');
+  }
+  if (pressed(GAMEPAD_BUTTONS.DPAD_DOWN) || pressed(GAMEPAD_BUTTONS.DPAD_RIGHT) ||
+      stickY > STICK_THRESHOLD || stickX > STICK_THRESHOLD) {
+    inputs.add('next');
+  }
+  if (pressed(GAMEPAD_BUTTONS.A)) inputs.add('confirm');
+  if (pressed(GAMEPAD_BUTTONS.B) || pressed(GAMEPAD_BUTTONS.START)) inputs.add('back');
+  return inputs;
+}
+
+/**
+ * D-pad (or left stick) moves focus through the buttons inside the container in document
+ * order, A clicks the focused one and B or Start calls onBack. Buttons held when the screen
+ * opens are ignored until released, so the Start press that paused doesn't also resume.
+ */
+export function useGamepadNavigation(containerRef: RefObject<HTMLElement>, onBack?: () => void) {
+  const onBackRef = useRef(onBack);
+  onBackRef.current = onBack;
+
+  useEffect(() => {
+    const id = Symbol('gamepad-screen');
+    activeScreens.push(id);
+
+    let frame = 0;
+    let held: Set<NavInput> | null = null;
+    let repeatAt = 0;
+
+    const getButtons = () => Array.from(
+      containerRef.current?.querySelectorAll<HTMLButtonElement>('button:not([disabled])') ?? []
+    );
+
+    const clearHighlight = () => {
+      containerRef.current?.querySelectorAll(`[${FOCUS_ATTRIBUTE}]`).forEach(element => {
+        element.removeAttribute(FOCUS_ATTRIBUTE);
+      });
+    };
+
+    const moveFocus = (step: number) => {
+      const buttons = getButtons();
+      if (buttons.length === 0) return;
+
+      // With nothing focused yet, start on the screen's main button (data-gamepad-default)
+      const current = buttons.indexOf(document.activeElement as HTMLButtonElement);
+      const preferred = buttons.findIndex(button => button.hasAttribute('data-gamepad-default'));
+      const next = current === -1
+        ? Math.max(0, preferred)
+        : (current + step + buttons.length) % buttons.length;
+
+      clearHighlight();
+      buttons[next].setAttribute(FOCUS_ATTRIBUTE, '');
+      buttons[next].focus();
+    };
+
+    const handle = (input: NavInput) => {
+      switch (input) {
+        case 'previous': moveFocus(-1); break;
+        case 'next': moveFocus(1); break;
+        case 'confirm': {
+          const focused = document.activeElement;
+          if (focused instanceof HTMLButtonElement && containerRef.current?.contains(focused)) {
+            focused.click();
+          } else {
+            moveFocus(0);
+          }
+          break;
+        }
+        case 'back': onBackRef.current?.(); break;
+      }
+    };
+
+    const poll = (timestamp: number) => {
+      frame = requestAnimationFrame(poll);
+      if (activeScreens[activeScreens.length - 1] !== id) {
+        held = null; // Start fresh when the overlay closes; the button that closed it may still be down
+        return;
+      }
+
+      const pad = getActiveGamepad();
+      const inputs = pad ? readNavInputs(pad) : new Set<NavInput>();
+      if (held === null) {
+        held = inputs;
+        return;
+      }
+
+      inputs.forEach(input => {
+        if (!held!.has(input)) {
+          handle(input);
+          repeatAt = timestamp + REPEAT_DELAY;
+        } else if ((input === 'previous' || input === 'next') && timestamp >= repeatAt) {
+          handle(input);
+          repeatAt = timestamp + REPEAT_INTERVAL;
+        }
+      });
+      held = inputs;
+    };
+
+    // The highlight follows focus, so a mouse click elsewhere takes it away
+    const container = containerRef.current;
+    const onFocusOut = (event: FocusEvent) => {
+      (event.target as Element).removeAttribute(FOCUS_ATTRIBUTE);
+    };
+    container?.addEventListener('focusout', onFocusOut);
+
+    frame = requestAnimationFrame(poll);
+    return () => {
+      cancelAnimationFrame(frame);
+      container?.removeEventListener('focusout', onFocusOut);
+      clearHighlight();
+      activeScreens.splice(activeScreens.indexOf(id), 1);
+    };
+  }, [containerRef]);
+}
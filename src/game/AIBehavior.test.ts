@@ -0,0 +1,178 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { AICoordinator, PathFinder, PriorityQueue } from './AIBehavior';
+import { Level } from './Level';
+import { getLevelDefinition } from './LevelDefinitions';
+
+interface GridCell {
+  x: number;
+  z: number;
+}
+
+// Just enough of an enemy for the coordinator's grouping
+const stubEnemy = (id: string, x: number, z: number) => ({
+  getId: () => id,
+  getPosition: () => new THREE.Vector3(x, 0, z)
+});
+
+// Private members are reached by name; they're internal to the coordinator and pathfinder
+const clusterEnemies = (coordinator: AICoordinator, enemies: ReturnType<typeof stubEnemy>[], maxDistance: number) =>
+  coordinator['clusterEnemies'](enemies, maxDistance) as ReturnType<typeof stubEnemy>[][];
+const selectFormationType = (coordinator: AICoordinator, groupSize: number) =>
+  coordinator['selectFormationType'](groupSize, new THREE.Vector3(), []);
+const aStar = (start: GridCell, end: GridCell): GridCell[] => PathFinder['aStar'](start, end);
+const isBlocked = (cell: GridCell) => PathFinder['grid']![cell.x][cell.z];
+const heightAt = (cell: GridCell): number => PathFinder['heights']![cell.x][cell.z];
+
+// Arena cells are 1 unit, with cell 0 at the -25 edge
+const cellAt = (x: number, z: number): GridCell => ({ x: Math.floor(x + 25), z: Math.floor(z + 25) });
+
+describe('PriorityQueue', () => {
+  it('dequeues in priority order', () => {
+    const queue = new PriorityQueue<string>();
+    [5, 1, 4, 2, 3, 0.5].forEach(priority => queue.enqueue(`p${priority}`, priority));
+
+    const order: (string | undefined)[] = [];
+    while (!queue.isEmpty()) {
+      order.push(queue.dequeue());
+    }
+    expect(order).toEqual(['p0.5', 'p1', 'p2', 'p3', 'p4', 'p5']);
+  });
+
+  it('returns undefined when empty', () => {
+    const queue = new PriorityQueue<number>();
+    expect(queue.dequeue()).toBeUndefined();
+    queue.enqueue(1, 1);
+    queue.dequeue();
+    expect(queue.dequeue()).toBeUndefined();
+  });
+
+  it('keeps duplicate priorities', () => {
+    const queue = new PriorityQueue<number>();
+    [3, 1, 3, 1].forEach((priority, index) => queue.enqueue(index, priority));
+    const dequeued = [queue.dequeue(), queue.dequeue(), queue.dequeue(), queue.dequeue()];
+    expect(dequeued.slice(0, 2).sort()).toEqual([1, 3]);
+    expect(dequeued.slice(2).sort()).toEqual([0, 2]);
+  });
+});
+
+describe('AICoordinator', () => {
+  it('clusters enemies within range of each cluster seed', () => {
+    const coordinator = new AICoordinator();
+    const enemies = [
+      stubEnemy('a', 0, 0),
+      stubEnemy('b', 10, 0),
+      stubEnemy('c', 30, 0),
+      stubEnemy('d', 0, 11),
+      stubEnemy('e', 31, 5)
+    ];
+
+    const clusters = clusterEnemies(coordinator, enemies, 12);
+    expect(clusters.map(cluster => cluster.map(enemy => enemy.getId()))).toEqual([['a', 'b', 'd'], ['c', 'e']]);
+  });
+
+  it('measures from the seed, not from every member', () => {
+    const coordinator = new AICoordinator();
+    // c is within range of b but not of a, so it starts its own cluster
+    const enemies = [stubEnemy('a', 0, 0), stubEnemy('b', 10, 0), stubEnemy('c', 20, 0)];
+
+    const clusters = clusterEnemies(coordinator, enemies, 12);
+    expect(clusters.map(cluster => cluster.length)).toEqual([2, 1]);
+  });
+
+  it('picks a formation by group size', () => {
+    const coordinator = new AICoordinator();
+    expect(selectFormationType(coordinator, 2)).toBe('line');
+    expect(selectFormationType(coordinator, 3)).toBe('pincer');
+    expect(selectFormationType(coordinator, 4)).toBe('surround');
+    expect(selectFormationType(coordinator, 8)).toBe('surround');
+  });
+
+  it('scatters every group once the player is a high threat', () => {
+    const coordinator = new AICoordinator();
+    for (let i = 0; i < 4; i++) {
+      coordinator.updatePlayerThreatLevel('headshot');
+    }
+    expect(coordinator.getPlayerThreatLevel()).toBeGreaterThan(70);
+    expect(selectFormationType(coordinator, 2)).toBe('scatter');
+    expect(selectFormationType(coordinator, 6)).toBe('scatter');
+
+    // Threat decays 5 seconds after each action
+    coordinator.update(5);
+    expect(coordinator.getPlayerThreatLevel()).toBeLessThanOrEqual(70);
+    expect(selectFormationType(coordinator, 6)).toBe('surround');
+  });
+});
+
+describe('PathFinder.aStar', () => {
+  beforeAll(() => {
+    const level = new Level(new THREE.Scene());
+    level.loadLevel(getLevelDefinition('classic'));
+    PathFinder.initializeGrid(level);
+  });
+
+  const expectConnected = (path: GridCell[]) => {
+    for (let i = 1; i < path.length; i++) {
+      const dx = Math.abs(path[i].x - path[i - 1].x);
+      const dz = Math.abs(path[i].z - path[i - 1].z);
+      expect(Math.max(dx, dz)).toBe(1);
+      expect(isBlocked(path[i])).toBe(false);
+    }
+  };
+
+  it('walks straight across open ground', () => {
+    const start = cellAt(-5, 0);
+    const end = cellAt(5, 0);
+    const path = aStar(start, end);
+
+    expect(path[0]).toEqual(start);
+    expect(path[path.length - 1]).toEqual(end);
+    expect(path).toHaveLength(11);
+    expectConnected(path);
+  });
+
+  it('routes around an obstacle', () => {
+    // One of the pillars stands at (12, 0)
+    const start = cellAt(8, 0);
+    const end = cellAt(16, 0);
+    expect(isBlocked(cellAt(12, 0))).toBe(true);
+
+    const path = aStar(start, end);
+    expect(path[0]).toEqual(start);
+    expect(path[path.length - 1]).toEqual(end);
+    expect(path.length).toBeGreaterThan(9);
+    expectConnected(path);
+  });
+
+  it('returns just the start when already there', () => {
+    const cell = cellAt(0, 0);
+    expect(aStar(cell, cell)).toEqual([cell]);
+  });
+
+  it('climbs onto low platforms but not onto pillars or tall platforms', () => {
+    // 2 tall at (15, 15), 3 tall at (-15, -15)
+    expect(isBlocked(cellAt(15, 15))).toBe(false);
+    expect(heightAt(cellAt(15, 15))).toBeCloseTo(2);
+    expect(isBlocked(cellAt(-15, -15))).toBe(true);
+
+    const path = aStar(cellAt(8, 15), cellAt(15, 15));
+    expect(path[path.length - 1]).toEqual(cellAt(15, 15));
+    expectConnected(path);
+  });
+
+  it('walks up ramps', () => {
+    // The ramp at (0, 18) rises towards -z
+    const cells = [20, 19, 18, 17, 16].map(z => cellAt(0, z));
+    cells.forEach(cell => expect(isBlocked(cell)).toBe(false));
+    for (let i = 1; i < cells.length; i++) {
+      expect(heightAt(cells[i])).toBeGreaterThan(heightAt(cells[i - 1]));
+    }
+  });
+
+  it('smooths open paths down to the destination', () => {
+    const end = new THREE.Vector3(5.5, 0, 0.5);
+    const path = PathFinder.findPath(new THREE.Vector3(-4.5, 0, 0.5), end);
+    expect(path).toHaveLength(1);
+    expect(path[0].distanceTo(end)).toBeLessThan(1e-9);
+  });
+});
@@ -1,7 +1,9 @@
 import * as THREE from 'three';
+import { SeededRandom } from './SeededRandom';
+import { Level, STEP_HEIGHT } from './Level';
 
 // Simple priority queue for A*
-class PriorityQueue<T> {
+export class PriorityQueue<T> {
   private heap: { element: T; priority: number }[] = [];
 
   enqueue(element: T, priority: number) {
@@ -82,8 +84,11 @@ export class AICoordinator {
   private static instance: AICoordinator;
   private formations: Map<string, FormationGroup> = new Map();
   private alertNetwork: Map<string, Set<string>> = new Map(); // Enemy ID -> Set of nearby enemy IDs
-  private lastFormationUpdate = 0;
+  private lastFormationUpdate = -Infinity;
   private playerThreatLevel = 0; // Increases based on player actions
+  private elapsedTime = 0; // Simulated seconds, advanced by update()
+  private pendingThreatDecays: number[] = []; // Seconds remaining until each decay step applies
+  private random = new SeededRandom(SeededRandom.generateSeed()); // Replaced by the simulation's PRNG via setRandom
 
   static getInstance(): AICoordinator {
     if (!AICoordinator.instance) {
@@ -92,6 +97,10 @@ export class AICoordinator {
     return AICoordinator.instance;
   }
 
+  public setRandom(random: SeededRandom) {
+    this.random = random;
+  }
+
   public updatePlayerThreatLevel(action: 'kill' | 'damage' | 'telekinesis' | 'headshot') {
     switch (action) {
       case 'kill': this.playerThreatLevel += 15; break;
@@ -102,9 +111,20 @@ export class AICoordinator {
     this.playerThreatLevel = Math.min(100, this.playerThreatLevel);
     
     // Decay threat level over time
-    setTimeout(() => {
-      this.playerThreatLevel = Math.max(0, this.playerThreatLevel - 5);
-    }, 5000);
+    this.pendingThreatDecays.push(5);
+  }
+
+  public update(dt: number) {
+    this.elapsedTime += dt;
+
+    // Apply threat decay steps that have expired
+    for (let i = this.pendingThreatDecays.length - 1; i >= 0; i--) {
+      this.pendingThreatDecays[i] -= dt;
+      if (this.pendingThreatDecays[i] <= 0) {
+        this.playerThreatLevel = Math.max(0, this.playerThreatLevel - 5);
+        this.pendingThreatDecays.splice(i, 1);
+      }
+    }
   }
 
   public getPlayerThreatLevel(): number {
@@ -125,9 +145,9 @@ export class AICoordinator {
   }
 
   public updateFormations(enemies: any[], playerPosition: THREE.Vector3) {
-    if (Date.now() - this.lastFormationUpdate < 2000) return; // Update every 2 seconds
+    if (this.elapsedTime - this.lastFormationUpdate < 2) return; // Update every 2 seconds
     
-    this.lastFormationUpdate = Date.now();
+    this.lastFormationUpdate = this.elapsedTime;
     
     // Clear old formations
     this.formations.clear();
@@ -149,7 +169,7 @@ export class AICoordinator {
           members: group.map(e => e.getId()),
           targetPosition: playerPosition.clone(),
           formationType: this.selectFormationType(group.length, playerPosition, group),
-          lastUpdate: Date.now()
+          lastUpdate: this.elapsedTime
         };
         
         this.formations.set(formationId, formation);
@@ -207,7 +227,7 @@ export class AICoordinator {
     if (!formation) return currentPos.clone();
     
     const angle = Math.atan2(playerPos.z - currentPos.z, playerPos.x - currentPos.x);
-    const distance = 8 + Math.random() * 4; // 8-12 units from player
+    const distance = 8 + this.random.next() * 4; // 8-12 units from player
     
     switch (formation.formationType) {
       case 'surround':
@@ -260,163 +280,411 @@ export class AICoordinator {
   private getScatterPosition(currentPos: THREE.Vector3, playerPos: THREE.Vector3, distance: number): THREE.Vector3 {
     // Move away from player and add randomness
     const direction = currentPos.clone().sub(playerPos).normalize();
-    const randomAngle = (Math.random() - 0.5) * Math.PI / 2; // +/- 45 degrees
+    const randomAngle = this.random.range(-0.5, 0.5) * Math.PI / 2; // +/- 45 degrees
     
     direction.applyAxisAngle(new THREE.Vector3(0, 1, 0), randomAngle);
     
-    return playerPos.clone().add(direction.multiplyScalar(distance + Math.random() * 5));
+    return playerPos.clone().add(direction.multiplyScalar(distance + this.random.next() * 5));
   }
 
   public cleanup() {
     this.formations.clear();
     this.alertNetwork.clear();
     this.playerThreatLevel = 0;
+    this.pendingThreatDecays = [];
+    this.lastFormationUpdate = -Infinity;
+    this.elapsedTime = 0;
   }
 }
 
+interface GridCell {
+  x: number;
+  z: number;
+}
+
+// An A* search that can be advanced a few node expansions at a time
+interface PathSearch {
+  startIndex: number;
+  endIndex: number;
+  openSet: PriorityQueue<number>;
+  gScore: Float64Array;
+  cameFrom: Int32Array;
+  closed: Uint8Array;
+  lastRequestTick: number;
+  result: THREE.Vector3[] | null;
+}
+
+const NEIGHBOR_OFFSETS = [
+  { x: 1, z: 0, cost: 1 },
+  { x: -1, z: 0, cost: 1 },
+  { x: 0, z: 1, cost: 1 },
+  { x: 0, z: -1, cost: 1 },
+  { x: 1, z: 1, cost: Math.SQRT2 },
+  { x: 1, z: -1, cost: Math.SQRT2 },
+  { x: -1, z: 1, cost: Math.SQRT2 },
+  { x: -1, z: -1, cost: Math.SQRT2 }
+];
+
+export const CLIMB_HEIGHT = 2.25; // Ledges walkers hop up, about as high as the player's double jump
+const PROBE_HEIGHT = 100; // Ground probes for the grid start above anything a level builds
+
 export class PathFinder {
   private static gridSize = 1; // 1 unit per grid cell
-  private static arenaSize = 50;
+  private static arenaWidth = 50; // Taken from the level on initializeGrid
+  private static arenaDepth = 50;
+  private static agentRadius = 0.6; // Obstacles are inflated by this much when marking the grid
+  private static agentHeight = 1.6;
   private static grid: boolean[][] | null = null;
-  
-  static async initializeGrid(level: any) {
+  private static heights: number[][] | null = null; // Ground height at each cell's center
+
+  // Shared search budget: node expansions per simulation tick across all enemies
+  private static searchBudget = 600;
+  private static staleSearchTicks = 30; // Drop searches nobody has asked for in this many ticks
+  private static maxCachedPaths = 256;
+  private static tick = 0;
+  private static pendingSearches: Map<string, PathSearch> = new Map();
+  private static pathCache: Map<string, THREE.Vector3[]> = new Map();
+
+  static initializeGrid(level: Level | null) {
     if (!level) {
       console.warn('Cannot initialize pathfinding: level is null');
       return;
     }
     
-    const size = Math.floor(this.arenaSize / this.gridSize);
-    this.grid = Array(size).fill(null).map(() => Array(size).fill(false));
-    
-    // Mark obstacle cells asynchronously to prevent blocking
-    const step = 3; // Check every 3rd cell to further reduce load
-    const batchSize = 50; // Process cells in batches
-    let processedCells = 0;
+    const { width, depth } = level.getSize();
+    this.arenaWidth = width;
+    this.arenaDepth = depth;
+    const columns = Math.floor(width / this.gridSize);
+    const rows = Math.floor(depth / this.gridSize);
+    this.grid = Array(columns).fill(null).map(() => Array(rows).fill(true));
+    this.heights = Array(columns).fill(null).map(() => Array(rows).fill(0));
+    this.pendingSearches.clear();
+    this.pathCache.clear();
     
-    for (let x = 0; x < size; x += step) {
-      for (let z = 0; z < size; z += step) {
-        const worldX = (x - size / 2) * this.gridSize;
-        const worldZ = (z - size / 2) * this.gridSize;
-        const worldPos = new THREE.Vector3(worldX, 1, worldZ);
-        
-        if (level.checkCollision && level.checkCollision(worldPos, 0.5, 1)) {
-          this.grid[x][z] = true; // Mark as obstacle
+    // Find the top of whatever each cell stands on and whether an enemy fits there
+    const fits: boolean[][] = Array(columns).fill(null).map(() => Array(rows).fill(false));
+    for (let x = 0; x < columns; x++) {
+      for (let z = 0; z < rows; z++) {
+        const worldPos = this.gridToWorld({ x, z });
+        worldPos.y = level.getGroundHeight(worldPos.setY(PROBE_HEIGHT), this.agentRadius);
+        this.heights[x][z] = worldPos.y;
+        fits[x][z] = !level.checkCollision(worldPos, this.agentRadius, this.agentHeight, STEP_HEIGHT);
+      }
+    }
+
+    // Open up the cells a walker can reach from the floor; pillar tops and the like stay blocked
+    const queue: GridCell[] = [];
+    for (let x = 0; x < columns; x++) {
+      for (let z = 0; z < rows; z++) {
+        if (fits[x][z] && this.heights[x][z] <= STEP_HEIGHT) {
+          this.grid[x][z] = false;
+          queue.push({ x, z });
         }
-        
-        processedCells++;
-        // Yield control back to the main thread every batchSize cells
-        if (processedCells % batchSize === 0) {
-          await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    for (let i = 0; i < queue.length; i++) {
+      const cell = queue[i];
+      for (const offset of NEIGHBOR_OFFSETS) {
+        const nx = cell.x + offset.x;
+        const nz = cell.z + offset.z;
+        if (nx < 0 || nx >= columns || nz < 0 || nz >= rows) continue;
+        if (fits[nx][nz] && this.grid[nx][nz] && this.canClimb(cell, nx, nz)) {
+          this.grid[nx][nz] = false;
+          queue.push({ x: nx, z: nz });
         }
       }
     }
   }
-  
+
+  /**
+   * Returns a smoothed path (excluding the start) or null while the search is still running.
+   * Searches are shared and cached per start/end cell, and advanced by update().
+   */
+  static requestPath(start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3[] | null {
+    if (!this.grid) {
+      return [end.clone()];
+    }
+
+    const startCell = this.findNearestOpenCell(this.worldToGrid(start));
+    const endCell = this.findNearestOpenCell(this.worldToGrid(end));
+    if (!startCell || !endCell) {
+      return [end.clone()];
+    }
+
+    const key = `${this.cellIndex(startCell)}:${this.cellIndex(endCell)}`;
+    const cached = this.pathCache.get(key);
+    if (cached) {
+      // Refresh LRU order
+      this.pathCache.delete(key);
+      this.pathCache.set(key, cached);
+      return cached.map(point => point.clone());
+    }
+
+    let search = this.pendingSearches.get(key);
+    if (!search) {
+      search = this.createSearch(startCell, endCell);
+      this.pendingSearches.set(key, search);
+    }
+    search.lastRequestTick = this.tick;
+    return null;
+  }
+
+  // Advance pending searches by at most searchBudget node expansions; call once per simulation tick
+  static update() {
+    this.tick++;
+    let budget = this.searchBudget;
+
+    for (const [key, search] of this.pendingSearches) {
+      if (this.tick - search.lastRequestTick > this.staleSearchTicks) {
+        this.pendingSearches.delete(key);
+        continue;
+      }
+      if (budget <= 0) continue;
+
+      budget -= this.expandSearch(search, budget);
+      if (search.result) {
+        this.pendingSearches.delete(key);
+        this.cachePath(key, search.result);
+      }
+    }
+  }
+
+  // Synchronous search, ignoring the per-tick budget
   static findPath(start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3[] {
     if (!this.grid) {
       console.warn("Pathfinder grid not initialized. Returning direct path.");
       return [end.clone()];
     }
-    
-    // Temporarily disabled for debugging performance.
-    // This will make enemies move in a straight line towards their target.
-    console.log("A* pathfinding is temporarily disabled. Enemies will move in a straight line.");
-    return [end.clone()];
 
-    /*
-    const startPoint = this.worldToGrid(start);
-    const endPoint = this.worldToGrid(end);
+    const startPoint = this.findNearestOpenCell(this.worldToGrid(start));
+    const endPoint = this.findNearestOpenCell(this.worldToGrid(end));
 
-    if (!this.isValidCell(startPoint.x, startPoint.z) || !this.isValidCell(endPoint.x, endPoint.z)) {
+    if (!startPoint || !endPoint) {
       console.warn("Start or end point is outside the valid grid. Returning direct path.");
       return [end.clone()];
     }
 
     const path = this.aStar(startPoint, endPoint);
-    return path.map(p => this.gridToWorld(p));
-    */
+    return this.smoothPath(path).slice(1).map(p => this.gridToWorld(p));
+  }
+
+  // Centers of the cells enemies can't stand on, for the level editor's navigation preview
+  static getBlockedCells(): THREE.Vector3[] {
+    const cells: THREE.Vector3[] = [];
+    this.grid?.forEach((column, x) => column.forEach((blocked, z) => {
+      if (blocked) cells.push(this.gridToWorld({ x, z }));
+    }));
+    return cells;
+  }
+
+  static clearCache() {
+    this.pendingSearches.clear();
+    this.pathCache.clear();
   }
   
-  private static worldToGrid(pos: THREE.Vector3): { x: number, z: number } {
-    const half = this.arenaSize / 2;
-    const x = Math.floor((pos.x + half) / this.gridSize);
-    const z = Math.floor((pos.z + half) / this.gridSize);
-    return { x: Math.max(0, Math.min(this.grid.length - 1, x)), z: Math.max(0, Math.min(this.grid[0].length - 1, z)) };
+  private static worldToGrid(pos: THREE.Vector3): GridCell {
+    const columns = this.grid ? this.grid.length : Math.floor(this.arenaWidth / this.gridSize);
+    const rows = this.grid ? this.grid[0].length : Math.floor(this.arenaDepth / this.gridSize);
+    const x = Math.floor((pos.x + this.arenaWidth / 2) / this.gridSize);
+    const z = Math.floor((pos.z + this.arenaDepth / 2) / this.gridSize);
+    return { x: Math.max(0, Math.min(columns - 1, x)), z: Math.max(0, Math.min(rows - 1, z)) };
   }
   
-  private static gridToWorld(point: { x: number, z: number }): THREE.Vector3 {
-    const worldX = (point.x - Math.floor(this.arenaSize / this.gridSize) / 2) * this.gridSize;
-    const worldZ = (point.z - Math.floor(this.arenaSize / this.gridSize) / 2) * this.gridSize;
-    return new THREE.Vector3(worldX, 1, worldZ);
+  // World position of a cell's center (on the ground, which may be a platform or ramp)
+  private static gridToWorld(point: GridCell): THREE.Vector3 {
+    const worldX = (point.x + 0.5) * this.gridSize - this.arenaWidth / 2;
+    const worldZ = (point.z + 0.5) * this.gridSize - this.arenaDepth / 2;
+    return new THREE.Vector3(worldX, this.heights?.[point.x]?.[point.z] ?? 0, worldZ);
   }
   
   private static isValidCell(x: number, z: number): boolean {
     if (!this.grid) return false;
     return x >= 0 && x < this.grid.length && z >= 0 && z < this.grid[0].length && !this.grid[x][z];
   }
-  
-  private static aStar(start: { x: number, z: number }, end: { x: number, z: number }): { x: number, z: number }[] {
-    // Simplified A* implementation
-    const openSet = new PriorityQueue<{ x: number, z: number }>();
-    openSet.enqueue(start, 0);
-
-    const cameFrom = new Map<string, { x: number, z: number }>();
-    const gScore = new Map<string, number>();
-    const fScore = new Map<string, number>();
-    
-    const getKey = (point: { x: number, z: number }) => `${point.x},${point.z}`;
-    const heuristic = (a: { x: number, z: number }, b: { x: number, z: number }) =>
-      Math.abs(a.x - b.x) + Math.abs(a.z - b.z);
-    
-    gScore.set(getKey(start), 0);
-    fScore.set(getKey(start), heuristic(start, end));
-    
-    const openSetKeys = new Set<string>();
-    openSetKeys.add(getKey(start));
-
-    while (!openSet.isEmpty()) {
-      const current = openSet.dequeue()!;
-      openSetKeys.delete(getKey(current));
-      
-      if (current.x === end.x && current.z === end.z) {
-        // Reconstruct path
-        const path = [current];
-        let curr = current;
-        while (cameFrom.has(getKey(curr))) {
-          curr = cameFrom.get(getKey(curr))!;
-          path.unshift(curr);
+
+  // Walkers can drop off any ledge but only hop up CLIMB_HEIGHT
+  private static canClimb(from: GridCell, x: number, z: number): boolean {
+    return this.heights![x][z] - this.heights![from.x][from.z] <= CLIMB_HEIGHT;
+  }
+
+  private static cellIndex(cell: GridCell): number {
+    return cell.x * this.grid![0].length + cell.z;
+  }
+
+  private static indexToCell(index: number): GridCell {
+    const rows = this.grid![0].length;
+    return { x: Math.floor(index / rows), z: index % rows };
+  }
+
+  // Enemies pressed against an obstacle may stand in a blocked cell; search outward for a free one
+  private static findNearestOpenCell(cell: GridCell, maxRadius = 3): GridCell | null {
+    if (this.isValidCell(cell.x, cell.z)) return cell;
+
+    for (let radius = 1; radius <= maxRadius; radius++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        for (let dz = -radius; dz <= radius; dz++) {
+          if (Math.max(Math.abs(dx), Math.abs(dz)) !== radius) continue;
+          if (this.isValidCell(cell.x + dx, cell.z + dz)) {
+            return { x: cell.x + dx, z: cell.z + dz };
+          }
         }
-        return path;
       }
-      
-      // Check neighbors
-      const neighbors = [
-        { x: current.x + 1, z: current.z },
-        { x: current.x - 1, z: current.z },
-        { x: current.x, z: current.z + 1 },
-        { x: current.x, z: current.z - 1 }
-      ];
-      
-      for (const neighbor of neighbors) {
-        if (!this.isValidCell(neighbor.x, neighbor.z)) continue;
-        
-        const tentativeGScore = (gScore.get(getKey(current)) || 0) + 1;
-        const neighborKey = getKey(neighbor);
-        
-        if (tentativeGScore < (gScore.get(neighborKey) || Infinity)) {
-          cameFrom.set(neighborKey, current);
-          gScore.set(neighborKey, tentativeGScore);
-          const newFScore = tentativeGScore + heuristic(neighbor, end);
-          fScore.set(neighborKey, newFScore);
-          
-          if (!openSetKeys.has(neighborKey)) {
-            openSet.enqueue(neighbor, newFScore);
-            openSetKeys.add(neighborKey);
-          }
+    }
+    return null;
+  }
+
+  // Octile distance, admissible for 8-way movement
+  private static heuristic(a: GridCell, b: GridCell): number {
+    const dx = Math.abs(a.x - b.x);
+    const dz = Math.abs(a.z - b.z);
+    return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz);
+  }
+
+  private static createSearch(start: GridCell, end: GridCell): PathSearch {
+    const cellCount = this.grid!.length * this.grid![0].length;
+    const search: PathSearch = {
+      startIndex: this.cellIndex(start),
+      endIndex: this.cellIndex(end),
+      openSet: new PriorityQueue<number>(),
+      gScore: new Float64Array(cellCount).fill(Infinity),
+      cameFrom: new Int32Array(cellCount).fill(-1),
+      closed: new Uint8Array(cellCount),
+      lastRequestTick: this.tick,
+      result: null
+    };
+    search.gScore[search.startIndex] = 0;
+    search.openSet.enqueue(search.startIndex, this.heuristic(start, end));
+    return search;
+  }
+
+  // Expands up to maxExpansions nodes; returns how many were used. Sets search.result when done.
+  private static expandSearch(search: PathSearch, maxExpansions: number): number {
+    const end = this.indexToCell(search.endIndex);
+    let expansions = 0;
+
+    while (expansions < maxExpansions) {
+      const currentIndex = search.openSet.dequeue();
+      if (currentIndex === undefined) {
+        // No route: fall back to heading straight for the target
+        search.result = [this.gridToWorld(end)];
+        return expansions;
+      }
+      if (search.closed[currentIndex]) continue;
+      search.closed[currentIndex] = 1;
+      expansions++;
+
+      if (currentIndex === search.endIndex) {
+        const path = this.reconstructPath(search);
+        search.result = this.smoothPath(path).slice(1).map(p => this.gridToWorld(p));
+        if (search.result.length === 0) {
+          search.result = [this.gridToWorld(end)];
+        }
+        return expansions;
+      }
+
+      const current = this.indexToCell(currentIndex);
+      for (const offset of NEIGHBOR_OFFSETS) {
+        const nx = current.x + offset.x;
+        const nz = current.z + offset.z;
+        if (!this.isValidCell(nx, nz) || !this.canClimb(current, nx, nz)) continue;
+
+        // Don't cut corners around obstacles on diagonal moves
+        if (offset.x !== 0 && offset.z !== 0 &&
+            (!this.isValidCell(current.x + offset.x, current.z) || !this.isValidCell(current.x, current.z + offset.z))) {
+          continue;
+        }
+
+        const neighbor = { x: nx, z: nz };
+        const neighborIndex = this.cellIndex(neighbor);
+        if (search.closed[neighborIndex]) continue;
+
+        const tentativeGScore = search.gScore[currentIndex] + offset.cost;
+        if (tentativeGScore < search.gScore[neighborIndex]) {
+          search.cameFrom[neighborIndex] = currentIndex;
+          search.gScore[neighborIndex] = tentativeGScore;
+          search.openSet.enqueue(neighborIndex, tentativeGScore + this.heuristic(neighbor, end));
         }
       }
     }
-    
-    return [end]; // Fallback to direct path
+
+    return expansions;
   }
-}
\ No newline at end of file
+
+  private static reconstructPath(search: PathSearch): GridCell[] {
+    const path: GridCell[] = [];
+    let index = search.endIndex;
+    while (index !== -1) {
+      path.unshift(this.indexToCell(index));
+      if (index === search.startIndex) break;
+      index = search.cameFrom[index];
+    }
+    return path;
+  }
+
+  private static aStar(start: GridCell, end: GridCell): GridCell[] {
+    const search = this.createSearch(start, end);
+    while (!search.result) {
+      this.expandSearch(search, Infinity);
+    }
+    return search.cameFrom[search.endIndex] === -1 && search.startIndex !== search.endIndex
+      ? [start, end] // No route
+      : this.reconstructPath(search);
+  }
+
+  // String-pulling: drop waypoints that have a clear straight line to a later one
+  private static smoothPath(path: GridCell[]): GridCell[] {
+    if (path.length <= 2) return path;
+
+    const smoothed: GridCell[] = [path[0]];
+    let anchor = 0;
+    while (anchor < path.length - 1) {
+      let next = path.length - 1;
+      while (next > anchor + 1 && !this.hasLineOfSight(path[anchor], path[next])) {
+        next--;
+      }
+      smoothed.push(path[next]);
+      anchor = next;
+    }
+    return smoothed;
+  }
+
+  // Walks every cell the segment between two cell centers passes through
+  private static hasLineOfSight(a: GridCell, b: GridCell): boolean {
+    let x = a.x;
+    let z = a.z;
+    const dx = Math.abs(b.x - a.x);
+    const dz = Math.abs(b.z - a.z);
+    const stepX = b.x > a.x ? 1 : -1;
+    const stepZ = b.z > a.z ? 1 : -1;
+    let error = dx - dz;
+
+    for (let n = dx + dz; n > 0; n--) {
+      const from = { x, z };
+      if (error > 0) {
+        x += stepX;
+        error -= 2 * dz;
+      } else if (error < 0) {
+        z += stepZ;
+        error += 2 * dx;
+      } else {
+        // Passing exactly through a corner: both neighbours must be open
+        if (!this.isValidCell(x + stepX, z) || !this.isValidCell(x, z + stepZ)) return false;
+        x += stepX;
+        z += stepZ;
+        error += 2 * dx - 2 * dz;
+        n--;
+      }
+      if (!this.isValidCell(x, z) || !this.canClimb(from, x, z)) return false;
+    }
+    return true;
+  }
+
+  private static cachePath(key: string, path: THREE.Vector3[]) {
+    this.pathCache.set(key, path);
+    if (this.pathCache.size > this.maxCachedPaths) {
+      // Evict the least recently used entry
+      const oldestKey = this.pathCache.keys().next().value;
+      if (oldestKey !== undefined) this.pathCache.delete(oldestKey);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AudioManager } from './AudioManager';
+import { OFFLINE_SAMPLE_RATE, synthesizeSound } from './SoundSynth';
+
+const MASTER_VOLUME = 0.7;
+const SFX_VOLUME = 0.6;
+
+const offlineAudio = async () => {
+  const audio = new AudioManager({ offline: true });
+  await audio.init();
+  return audio;
+};
+
+const peakOf = (samples: Float32Array) => samples.reduce((peak, sample) => Math.max(peak, Math.abs(sample)), 0);
+
+const maxDifference = (a: Float32Array, b: ArrayLike<number>) => {
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference = Math.max(difference, Math.abs(a[i] - b[i]));
+  }
+  return difference;
+};
+
+const scaled = (samples: Float32Array, factor: number) => samples.map(sample => sample * factor);
+
+// What the mix should hold for blaster shots started at the given sample offsets
+const blasterShots = (length: number, starts: number[]) => {
+  const blaster = synthesizeSound('blaster');
+  const mix = new Float32Array(length);
+  for (const start of starts) {
+    for (let i = start; i < Math.min(length, start + blaster.length); i++) {
+      mix[i] += blaster[i - start] * SFX_VOLUME * MASTER_VOLUME;
+    }
+  }
+  return mix;
+};
+
+describe('AudioManager.renderOffline', () => {
+  it('only scales music with the music volume', async () => {
+    const audio = await offlineAudio();
+    audio.startBackgroundMusic();
+    const music = audio.renderOffline(1);
+    expect(peakOf(music)).toBeGreaterThan(0.01);
+
+    audio.setSfxVolume(0.1);
+    expect(audio.renderOffline(1)).toEqual(music);
+
+    audio.setMusicVolume(0.15);
+    expect(maxDifference(audio.renderOffline(1), scaled(music, 0.5))).toBeLessThan(1e-6);
+  });
+
+  it('only scales sound effects with the SFX volume', async () => {
+    const audio = await offlineAudio();
+    audio.playWeaponSound('blaster');
+    const sfx = audio.renderOffline(0.3);
+    expect(peakOf(sfx)).toBeGreaterThan(0.01);
+
+    audio.setMusicVolume(0.9);
+    expect(audio.renderOffline(0.3)).toEqual(sfx);
+
+    audio.setSfxVolume(0.3);
+    expect(maxDifference(audio.renderOffline(0.3), scaled(sfx, 0.5))).toBeLessThan(1e-6);
+  });
+
+  it('lets overlapping shots of the same sound play out', async () => {
+    const audio = await offlineAudio();
+    audio.playWeaponSound('blaster');
+    audio.advanceOffline(0.05);
+    audio.playWeaponSound('blaster');
+
+    const mix = audio.renderOffline(0.3);
+    const expected = blasterShots(mix.length, [0, Math.round(0.05 * OFFLINE_SAMPLE_RATE)]);
+    expect(maxDifference(mix, expected)).toBeLessThan(1e-6);
+  });
+
+  it('fades out the oldest shot only once the sound runs out of voices', async () => {
+    const audio = await offlineAudio();
+    const starts: number[] = [];
+    for (let shot = 0; shot < 9; shot++) {
+      starts.push(Math.round(shot * 0.01 * OFFLINE_SAMPLE_RATE));
+      audio.playWeaponSound('blaster');
+      audio.advanceOffline(0.01);
+    }
+    expect(audio.getActiveVoiceCount()).toBe(8);
+
+    // The first shot is stolen when the ninth (the blaster's limit is 8) starts at 0.08s
+    const mix = audio.renderOffline(0.3);
+    const fadeEnd = Math.round(0.1 * OFFLINE_SAMPLE_RATE);
+    const allShots = blasterShots(mix.length, starts);
+    const withoutFirst = blasterShots(mix.length, starts.slice(1));
+    expect(maxDifference(mix.subarray(0, starts[8]), allShots.subarray(0, starts[8]))).toBeLessThan(1e-6);
+    expect(maxDifference(mix.subarray(fadeEnd), withoutFirst.subarray(fadeEnd))).toBeLessThan(1e-6);
+  });
+});
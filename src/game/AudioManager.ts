@@ -1,23 +1,175 @@
+import * as THREE from 'three';
+import { WeaponType } from './Player';
+import { EnemyType } from './Enemy';
+import { getEnemyArchetype } from './EnemyArchetypes';
+import { BossAttack } from './BossController';
+import { Level } from './Level';
+import {
+  MUSIC_STEMS,
+  MusicStem,
+  OFFLINE_SAMPLE_RATE,
+  SOUND_IDS,
+  SoundId,
+  getSoundDuration,
+  synthesizeMusicStem,
+  synthesizeSound,
+  synthesizeStinger
+} from './SoundSynth';
+
+export type EnemySoundEvent = 'shoot' | 'charge' | 'death' | 'explode' | 'step';
+
+// A looping sound that follows something around the world (drone hums)
+export interface SpatialLoop {
+  setPosition(position: THREE.Vector3): void;
+  stop(): void;
+}
+
+export interface AudioManagerOptions {
+  // Mix into a sample buffer instead of a Web Audio graph (Node, snapshot tests)
+  offline?: boolean;
+  sampleRate?: number;
+}
+
+type Bus = 'music' | 'sfx';
+
+interface ActiveVoice {
+  id: SoundId;
+  startedAt: number; // seconds on the audio clock
+  endsAt: number;
+  stop: (fadeTime: number) => void;
+}
+
+// One looping music stem; all stems start together and stay in sync
+interface MusicStemVoice {
+  setLevel: (level: number) => void;
+  stop: (fadeTime: number) => void;
+}
+
+interface OfflineVoice {
+  samples: Float32Array;
+  bus: Bus;
+  gain: number;
+  gainChanges: { at: number; gain: number }[]; // Later gains for moving spatial loops
+  start: number; // seconds
+  stopAt: number | null; // seconds; set when the voice is stolen or stopped
+  loop: boolean;
+}
+
+const MAX_VOICES = 24; // Across all sound effects
+const DEFAULT_VOICE_LIMIT = 4; // Per sound effect
+const VOICE_LIMITS: Partial<Record<SoundId, number>> = {
+  blaster: 8,
+  hit: 6,
+  enemyBolt: 6,
+  enemyLaser: 6,
+  robotDeath: 5,
+  bossSweep: 1,
+  footstep: 6,
+  droneHum: 6
+};
+const STEAL_FADE_TIME = 0.02; // seconds
+
+// Distance model, shared by the Web Audio panners and the offline mix
+const REF_DISTANCE = 3; // Full volume inside this radius
+const MAX_DISTANCE = 60;
+const ROLLOFF = 0.8;
+const AUDIBLE_GAIN = 0.08; // Spatial one-shots quieter than this aren't played at all
+const OCCLUDED_GAIN = 0.45; // Sounds behind walls are quieter...
+const OCCLUDED_CUTOFF = 700; // ...and muffled (Hz)
+const OPEN_CUTOFF = 20000;
+const OCCLUSION_RECHECK = 0.25; // seconds between occlusion tests for moving loops
+
+// Matches PannerNode's 'inverse' distance model
+function distanceGain(distance: number): number {
+  const clamped = Math.min(MAX_DISTANCE, Math.max(REF_DISTANCE, distance));
+  return REF_DISTANCE / (REF_DISTANCE + ROLLOFF * (clamped - REF_DISTANCE));
+}
+
+/**
+ * Keeps track of playing voices. Each sound gets a few voices of its own so rapid fire
+ * overlaps instead of restarting; past the limit the oldest voice fades out to make room.
+ */
+class VoicePool {
+  private voices: ActiveVoice[] = [];
+
+  public add(voice: ActiveVoice, now: number) {
+    this.voices = this.voices.filter(active => active.endsAt > now);
+
+    const limit = VOICE_LIMITS[voice.id] ?? DEFAULT_VOICE_LIMIT;
+    const sameSound = this.voices.filter(active => active.id === voice.id);
+    if (sameSound.length >= limit) {
+      this.steal(sameSound[0]);
+    } else if (this.voices.length >= MAX_VOICES) {
+      this.steal(this.voices[0]);
+    }
+
+    this.voices.push(voice);
+  }
+
+  public getActiveCount(now: number): number {
+    return this.voices.filter(active => active.endsAt > now).length;
+  }
+
+  public remove(voice: ActiveVoice) {
+    const index = this.voices.indexOf(voice);
+    if (index !== -1) this.voices.splice(index, 1);
+  }
+
+  public stopAll() {
+    this.voices.forEach(voice => voice.stop(STEAL_FADE_TIME));
+    this.voices = [];
+  }
+
+  private steal(voice: ActiveVoice) {
+    voice.stop(STEAL_FADE_TIME);
+    this.voices.splice(this.voices.indexOf(voice), 1);
+  }
+}
+
+/**
+ * Procedural game audio. Sounds are synthesized once (see SoundSynth) and played through a
+ * Web Audio graph: voice -> music or SFX bus -> master -> speakers. In offline mode the same
+ * voices and bus gains are mixed into a plain sample buffer instead, so Node can render them.
+ *
+ * Enemy sounds are positional: they go through a panner relative to the listener (the
+ * camera) and a lowpass that closes when level geometry sits between the sound and the
+ * listener. The offline mix applies the same distance and occlusion gains, but in mono.
+ */
 export class AudioManager {
-  private backgroundMusic: HTMLAudioElement | null = null;
-  private hitSound: HTMLAudioElement | null = null;
-  private throwSound: HTMLAudioElement | null = null;
-  private weaponSound: HTMLAudioElement | null = null;
-  private reloadSound: HTMLAudioElement | null = null;
-  private jumpSound: HTMLAudioElement | null = null;
-  private landingSound: HTMLAudioElement | null = null;
+  private context: AudioContext | null = null;
+  private masterGain: GainNode | null = null;
+  private musicBus: GainNode | null = null;
+  private sfxBus: GainNode | null = null;
+  private buffers = new Map<string, AudioBuffer>();
+  private musicStems = new Map<MusicStem, MusicStemVoice>();
+  private musicLevels: Record<MusicStem, number> = { calm: 0, pulse: 1, drums: 0, lead: 0, danger: 0 };
+  private voices = new VoicePool();
   private masterVolume = 0.7;
   private musicVolume = 0.3;
   private sfxVolume = 0.6;
   private isInitialized = false;
-
-  constructor() {
+  private offline: boolean;
+  private sampleRate: number;
+  private offlineClock = 0; // seconds
+  private offlineVoices: OfflineVoice[] = [];
+  private offlineSamples = new Map<string, Float32Array>();
+  private level: Level | null = null;
+  private listenerPosition = new THREE.Vector3();
+  private listenerForward = new THREE.Vector3(0, 0, -1);
+  private listenerUp = new THREE.Vector3(0, 1, 0);
+  private listenerQuaternion = new THREE.Quaternion();
+
+  constructor(options: AudioManagerOptions = {}) {
     // Don't initialize audio in constructor - wait for async init()
+    this.offline = options.offline ?? false;
+    this.sampleRate = options.sampleRate ?? OFFLINE_SAMPLE_RATE;
   }
 
   public async init() {
     try {
-      await this.initializeAudio();
+      if (!this.offline) {
+        await this.initializeAudio();
+      }
       this.isInitialized = true;
     } catch (error) {
       console.warn('Audio initialization failed:', error);
@@ -25,485 +177,503 @@ export class AudioManager {
   }
 
   private async initializeAudio() {
-    try {
-      // Create background music
-      this.backgroundMusic = new Audio();
-      this.backgroundMusic.loop = true;
-      this.backgroundMusic.volume = this.musicVolume * this.masterVolume;
-      
-      // Create single sound instances
-      this.hitSound = new Audio();
-      this.hitSound.volume = this.sfxVolume * this.masterVolume;
-      
-      this.throwSound = new Audio();
-      this.throwSound.volume = this.sfxVolume * this.masterVolume;
-      
-      this.weaponSound = new Audio();
-      this.weaponSound.volume = this.sfxVolume * this.masterVolume;
-      
-      this.reloadSound = new Audio();
-      this.reloadSound.volume = this.sfxVolume * this.masterVolume;
-      
-      this.jumpSound = new Audio();
-      this.jumpSound.volume = this.sfxVolume * this.masterVolume;
-      
-      this.landingSound = new Audio();
-      this.landingSound.volume = this.sfxVolume * this.masterVolume;
-
-      // Generate synthetic sounds
-      await this.generateSyntheticSounds();
-    } catch (error) {
-      console.warn('Audio initialization failed:', error);
-    }
-  }
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    this.context = new AudioContextClass();
+    this.sampleRate = this.context.sampleRate;
+
+    this.masterGain = this.context.createGain();
+    this.masterGain.connect(this.context.destination);
+    this.musicBus = this.context.createGain();
+    this.musicBus.connect(this.masterGain);
+    this.sfxBus = this.context.createGain();
+    this.sfxBus.connect(this.masterGain);
+    this.updateVolumes();
 
-  private async generateSyntheticSounds() {
-    // Skip audio generation to improve performance
-    // Just create silent audio elements
-    if (this.backgroundMusic) {
-      this.backgroundMusic.src = 'data:audio/wav;base64,UklGRigAAABXQVZFZm10IAAAAAEAAQESAAABEgAAAQAIAGRhdGEEAAAAAA==';
+    // Render every effect up front, yielding between them so the page stays responsive
+    for (const id of SOUND_IDS) {
+      this.getBuffer(id, 1);
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
-    
-    // Create minimal silent audio for all sound effects
-    const silentAudio = 'data:audio/wav;base64,UklGRigAAABXQVZFZm10IAAAAAEAAQESAAABEgAAAQAIAGRhdGEEAAAAAA==';
-    
-    if (this.hitSound) this.hitSound.src = silentAudio;
-    if (this.throwSound) this.throwSound.src = silentAudio;
-    if (this.weaponSound) this.weaponSound.src = silentAudio;
-    if (this.reloadSound) this.reloadSound.src = silentAudio;
-    if (this.jumpSound) this.jumpSound.src = silentAudio;
-    if (this.landingSound) this.landingSound.src = silentAudio;
-    
-    // Wait a brief moment for audio elements to be ready
-    await new Promise(resolve => setTimeout(resolve, 10));
-  }
-
-  private async generateBackgroundMusic() {
-    if (!this.backgroundMusic) return;
-
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const duration = 2; // Reduced to 2 seconds to minimize generation time
-    const sampleRate = audioContext.sampleRate;
-    const buffer = audioContext.createBuffer(2, duration * sampleRate, sampleRate);
-
-    // Process audio generation in chunks to prevent blocking
-    const chunkSize = sampleRate * 0.1; // Process 0.1 seconds at a time
-    const totalSamples = duration * sampleRate;
-    
-    for (let chunk = 0; chunk < Math.ceil(totalSamples / chunkSize); chunk++) {
-      const startSample = chunk * chunkSize;
-      const endSample = Math.min(startSample + chunkSize, totalSamples);
-      
-      for (let channel = 0; channel < 2; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        
-        for (let i = startSample; i < endSample; i++) {
-          const time = i / sampleRate;
-          
-          // Simplified ambient drone
-          const bass = Math.sin(2 * Math.PI * 55 * time) * 0.1;
-          const mid = Math.sin(2 * Math.PI * 110 * time) * 0.05;
-          
-          // Combine and apply fade
-          const fadeIn = Math.min(1, time * 2);
-          const fadeOut = Math.min(1, (duration - time) * 2);
-          const fade = Math.min(fadeIn, fadeOut);
-          
-          channelData[i] = (bass + mid) * fade;
-        }
-      }
-      
-      // Yield control back to main thread after each chunk
-      if (chunk % 2 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
+    for (const stem of MUSIC_STEMS) {
+      this.getMusicBuffer(stem);
+      await new Promise(resolve => setTimeout(resolve, 0));
     }
-
-    // Convert buffer to blob URL and wait for it to load
-    await this.bufferToAudioElement(buffer, this.backgroundMusic, audioContext);
-  }
-
-  private async generateHitSound(audioElement: HTMLAudioElement) {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const duration = 0.3;
-    const sampleRate = audioContext.sampleRate;
-    const buffer = audioContext.createBuffer(1, duration * sampleRate, sampleRate);
-    const channelData = buffer.getChannelData(0);
-
-    for (let i = 0; i < channelData.length; i++) {
-      const time = i / sampleRate;
-      const decay = Math.exp(-time * 8); // Quick decay
-      
-      // Metallic hit sound
-      const frequency = 800 + Math.sin(time * 100) * 200;
-      const sound = Math.sin(2 * Math.PI * frequency * time) * decay;
-      
-      // Add some noise for impact texture
-      const noise = (Math.random() - 0.5) * 0.3 * decay;
-      
-      channelData[i] = (sound + noise) * 0.5;
+    this.getMusicBuffer('stinger');
+
+    // Browsers start audio suspended until the first user gesture
+    if (this.context.state === 'suspended') {
+      const resume = () => {
+        this.context?.resume().catch(() => {});
+        document.removeEventListener('click', resume);
+        document.removeEventListener('keydown', resume);
+      };
+      document.addEventListener('click', resume);
+      document.addEventListener('keydown', resume);
     }
+  }
 
-    await this.bufferToAudioElement(buffer, audioElement, audioContext);
-  }
-
-  private async generateThrowSound(audioElement: HTMLAudioElement) {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const duration = 0.8;
-    const sampleRate = audioContext.sampleRate;
-    const buffer = audioContext.createBuffer(1, duration * sampleRate, sampleRate);
-    const channelData = buffer.getChannelData(0);
-
-    for (let i = 0; i < channelData.length; i++) {
-      const time = i / sampleRate;
-      const progress = time / duration;
-      
-      // Whoosh sound - frequency sweep
-      const startFreq = 200;
-      const endFreq = 50;
-      const frequency = startFreq + (endFreq - startFreq) * progress;
-      
-      const envelope = Math.sin(Math.PI * progress); // Bell curve
-      const sound = Math.sin(2 * Math.PI * frequency * time) * envelope;
-      
-      // Add wind noise
-      const noise = (Math.random() - 0.5) * 0.2 * envelope;
-      
-      channelData[i] = (sound + noise) * 0.4;
-    }
+  private getBuffer(id: SoundId, pitch: number): AudioBuffer | null {
+    if (!this.context) return null;
 
-    await this.bufferToAudioElement(buffer, audioElement, audioContext);
-  }
-
-  private async generateReloadSound(audioElement: HTMLAudioElement) {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const duration = 0.6;
-    const sampleRate = audioContext.sampleRate;
-    const buffer = audioContext.createBuffer(1, duration * sampleRate, sampleRate);
-    const channelData = buffer.getChannelData(0);
-
-    for (let i = 0; i < channelData.length; i++) {
-      const time = i / sampleRate;
-      const progress = time / duration;
-      
-      // Create mechanical reload sound - multiple clicks and mechanical noises
-      let sound = 0;
-      
-      // Click sounds at specific intervals
-      if (progress < 0.2) {
-        // Initial click
-        const clickFreq = 800 + Math.sin(time * 200) * 100;
-        sound = Math.sin(2 * Math.PI * clickFreq * time) * Math.exp(-time * 20);
-      } else if (progress > 0.4 && progress < 0.6) {
-        // Mechanical whir
-        const whirFreq = 300 + Math.sin(time * 50) * 50;
-        sound = Math.sin(2 * Math.PI * whirFreq * time) * 0.3;
-      } else if (progress > 0.8) {
-        // Final click
-        const finalClickFreq = 600 + Math.sin((time - 0.8 * duration) * 300) * 200;
-        const finalTime = time - 0.8 * duration;
-        sound = Math.sin(2 * Math.PI * finalClickFreq * finalTime) * Math.exp(-finalTime * 25);
-      }
-      
-      // Add some digital noise for sci-fi effect
-      const noise = (Math.random() - 0.5) * 0.1 * Math.exp(-time * 2);
-      
-      channelData[i] = (sound + noise) * 0.4;
+    const key = `${id}@${pitch}`;
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      const samples = synthesizeSound(id, this.context.sampleRate, pitch);
+      buffer = this.context.createBuffer(1, samples.length, this.context.sampleRate);
+      buffer.getChannelData(0).set(samples);
+      this.buffers.set(key, buffer);
     }
+    return buffer;
+  }
 
-    await this.bufferToAudioElement(buffer, audioElement, audioContext);
-  }
-
-  private async generateJumpSound(audioElement: HTMLAudioElement) {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const duration = 0.3;
-    const sampleRate = audioContext.sampleRate;
-    const buffer = audioContext.createBuffer(1, duration * sampleRate, sampleRate);
-    const channelData = buffer.getChannelData(0);
-
-    for (let i = 0; i < channelData.length; i++) {
-      const time = i / sampleRate;
-      const decay = Math.exp(-time * 5);
-      
-      // Whoosh sound with upward pitch sweep
-      const startFreq = 100;
-      const endFreq = 300;
-      const progress = time / duration;
-      const frequency = startFreq + (endFreq - startFreq) * progress;
-      
-      const sound = Math.sin(2 * Math.PI * frequency * time) * decay;
-      
-      // Add wind noise
-      const noise = (Math.random() - 0.5) * 0.3 * decay;
-      
-      channelData[i] = (sound + noise) * 0.3;
-    }
+  private getMusicBuffer(key: MusicStem | 'stinger'): AudioBuffer | null {
+    if (!this.context) return null;
 
-    await this.bufferToAudioElement(buffer, audioElement, audioContext);
-  }
-
-  private async generateLandingSound(audioElement: HTMLAudioElement) {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const duration = 0.4;
-    const sampleRate = audioContext.sampleRate;
-    const buffer = audioContext.createBuffer(1, duration * sampleRate, sampleRate);
-    const channelData = buffer.getChannelData(0);
-
-    for (let i = 0; i < channelData.length; i++) {
-      const time = i / sampleRate;
-      const decay = Math.exp(-time * 8);
-      
-      // Thud sound with low frequency impact
-      const impactFreq = 80 + Math.sin(time * 30) * 20;
-      const sound = Math.sin(2 * Math.PI * impactFreq * time) * decay;
-      
-      // Add impact noise
-      const noise = (Math.random() - 0.5) * 0.4 * decay;
-      
-      // Add brief high-frequency component for realism
-      const scrape = Math.sin(2 * Math.PI * 1000 * time) * 0.1 * Math.exp(-time * 15);
-      
-      channelData[i] = (sound + noise + scrape) * 0.5;
+    let buffer = this.buffers.get(`music:${key}`);
+    if (!buffer) {
+      const samples = this.synthesizeMusic(key, this.context.sampleRate);
+      buffer = this.context.createBuffer(1, samples.length, this.context.sampleRate);
+      buffer.getChannelData(0).set(samples);
+      this.buffers.set(`music:${key}`, buffer);
     }
+    return buffer;
+  }
 
-    await this.bufferToAudioElement(buffer, audioElement, audioContext);
-  }
-
-  private async generateWeaponSound(audioElement: HTMLAudioElement) {
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const duration = 0.15; // Shorter for rapid fire
-    const sampleRate = audioContext.sampleRate;
-    const buffer = audioContext.createBuffer(1, duration * sampleRate, sampleRate);
-    const channelData = buffer.getChannelData(0);
-
-    for (let i = 0; i < channelData.length; i++) {
-      const time = i / sampleRate;
-      const decay = Math.exp(-time * 20); // Even quicker decay for rapid fire
-      
-      // Enhanced laser/blaster sound for automatic fire
-      const frequency = 800 + Math.sin(time * 80) * 200;
-      const sound = Math.sin(2 * Math.PI * frequency * time) * decay;
-      
-      // Add some digital noise
-      const digitalNoise = Math.sin(2 * Math.PI * 1500 * time) * 0.3 * decay;
-      
-      // Add punch for more impact
-      const punch = Math.sin(2 * Math.PI * 200 * time) * 0.2 * decay;
-      
-      channelData[i] = (sound + digitalNoise + punch) * 0.4;
+  private synthesizeMusic(key: MusicStem | 'stinger', sampleRate: number): Float32Array {
+    return key === 'stinger' ? synthesizeStinger(sampleRate) : synthesizeMusicStem(key, sampleRate);
+  }
+
+  private getOfflineSamples(id: SoundId, pitch: number): Float32Array {
+    const key = `${id}@${pitch}`;
+    let samples = this.offlineSamples.get(key);
+    if (!samples) {
+      samples = synthesizeSound(id, this.sampleRate, pitch);
+      this.offlineSamples.set(key, samples);
     }
+    return samples;
+  }
 
-    await this.bufferToAudioElement(buffer, audioElement, audioContext);
-  }
-
-  private async bufferToAudioElement(buffer: AudioBuffer, audioElement: HTMLAudioElement, audioContext: AudioContext): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      try {
-        // Create offline context to render the buffer
-        const offlineContext = new OfflineAudioContext(
-          buffer.numberOfChannels,
-          buffer.length,
-          buffer.sampleRate
-        );
-        
-        const source = offlineContext.createBufferSource();
-        source.buffer = buffer;
-        source.connect(offlineContext.destination);
-        source.start();
-        
-        const renderedBuffer = await offlineContext.startRendering();
-        
-        // Convert to wav blob
-        const wavBlob = this.bufferToWav(renderedBuffer);
-        const url = URL.createObjectURL(wavBlob);
-        
-        // Set up event listeners to know when audio is ready
-        const onCanPlay = () => {
-          audioElement.removeEventListener('canplaythrough', onCanPlay);
-          audioElement.removeEventListener('error', onError);
-          resolve();
-        };
-        
-        const onError = (error: Event) => {
-          audioElement.removeEventListener('canplaythrough', onCanPlay);
-          audioElement.removeEventListener('error', onError);
-          reject(error);
-        };
-        
-        audioElement.addEventListener('canplaythrough', onCanPlay);
-        audioElement.addEventListener('error', onError);
-        
-        audioElement.src = url;
-        audioElement.load();
-      } catch (error) {
-        console.warn('Error converting buffer to audio:', error);
-        reject(error);
-      }
-    });
+  private getOfflineMusicSamples(key: MusicStem | 'stinger'): Float32Array {
+    let samples = this.offlineSamples.get(`music:${key}`);
+    if (!samples) {
+      samples = this.synthesizeMusic(key, this.sampleRate);
+      this.offlineSamples.set(`music:${key}`, samples);
+    }
+    return samples;
   }
 
-  private bufferToWav(buffer: AudioBuffer): Blob {
-    const length = buffer.length;
-    const numberOfChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const arrayBuffer = new ArrayBuffer(44 + length * numberOfChannels * 2);
-    const view = new DataView(arrayBuffer);
+  private now(): number {
+    return this.offline ? this.offlineClock : this.context?.currentTime ?? 0;
+  }
 
-    // WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
+  // Level geometry between a sound and the listener muffles it
+  public setLevel(level: Level | null) {
+    this.level = level;
+  }
 
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + length * numberOfChannels * 2, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, 1, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numberOfChannels * 2, true);
-    view.setUint16(32, numberOfChannels * 2, true);
-    view.setUint16(34, 16, true);
-    writeString(36, 'data');
-    view.setUint32(40, length * numberOfChannels * 2, true);
-
-    // Convert float samples to 16-bit PCM
-    let offset = 44;
-    for (let i = 0; i < length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        const sample = Math.max(-1, Math.min(1, buffer.getChannelData(channel)[i]));
-        view.setInt16(offset, sample * 0x7FFF, true);
-        offset += 2;
-      }
+  // Called every tick with the camera so positional sounds are heard from the player's head
+  public updateListener(listener: THREE.Camera) {
+    listener.getWorldPosition(this.listenerPosition);
+    listener.getWorldDirection(this.listenerForward);
+    this.listenerUp.set(0, 1, 0).applyQuaternion(listener.getWorldQuaternion(this.listenerQuaternion));
+
+    if (!this.context) return;
+    const audioListener = this.context.listener;
+    const { x, y, z } = this.listenerPosition;
+    const forward = this.listenerForward;
+    const up = this.listenerUp;
+
+    if (audioListener.positionX) {
+      const now = this.context.currentTime;
+      audioListener.positionX.setTargetAtTime(x, now, 0.01);
+      audioListener.positionY.setTargetAtTime(y, now, 0.01);
+      audioListener.positionZ.setTargetAtTime(z, now, 0.01);
+      audioListener.forwardX.setTargetAtTime(forward.x, now, 0.01);
+      audioListener.forwardY.setTargetAtTime(forward.y, now, 0.01);
+      audioListener.forwardZ.setTargetAtTime(forward.z, now, 0.01);
+      audioListener.upX.setTargetAtTime(up.x, now, 0.01);
+      audioListener.upY.setTargetAtTime(up.y, now, 0.01);
+      audioListener.upZ.setTargetAtTime(up.z, now, 0.01);
+    } else {
+      // Firefox only has the older setter API
+      audioListener.setPosition(x, y, z);
+      audioListener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
     }
+  }
 
-    return new Blob([arrayBuffer], { type: 'audio/wav' });
+  private isOccluded(position: THREE.Vector3): boolean {
+    return this.level?.isLineBlocked(position, this.listenerPosition) ?? false;
   }
 
-  public startBackgroundMusic() {
-    if (this.backgroundMusic && this.isInitialized) {
-      try {
-        console.log('Starting background music...', this.backgroundMusic.readyState);
-        
-        // Handle autoplay restrictions
-        const playPromise = this.backgroundMusic.play();
-        if (playPromise !== undefined) {
-          playPromise
-            .then(() => {
-              console.log('Background music started successfully');
-            })
-            .catch(error => {
-              console.warn('Background music autoplay prevented:', error);
-              // Try to play on first user interaction
-              const playOnInteraction = () => {
-                this.backgroundMusic?.play()
-                  .then(() => {
-                    console.log('Background music started after user interaction');
-                  })
-                  .catch(() => {});
-                document.removeEventListener('click', playOnInteraction);
-                document.removeEventListener('keydown', playOnInteraction);
-              };
-              document.addEventListener('click', playOnInteraction, { once: true });
-              document.addEventListener('keydown', playOnInteraction, { once: true });
-            });
-        }
-      } catch (error) {
-        console.warn('Failed to start background music:', error);
-      }
+  private createPanner(position: THREE.Vector3): PannerNode | null {
+    if (!this.context) return null;
+
+    const panner = this.context.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'inverse';
+    panner.refDistance = REF_DISTANCE;
+    panner.maxDistance = MAX_DISTANCE;
+    panner.rolloffFactor = ROLLOFF;
+    this.setPannerPosition(panner, position);
+    return panner;
+  }
+
+  private setPannerPosition(panner: PannerNode, position: THREE.Vector3) {
+    if (!this.context) return;
+
+    if (panner.positionX) {
+      const now = this.context.currentTime;
+      panner.positionX.setTargetAtTime(position.x, now, 0.01);
+      panner.positionY.setTargetAtTime(position.y, now, 0.01);
+      panner.positionZ.setTargetAtTime(position.z, now, 0.01);
     } else {
-      console.warn('Background music not ready or not initialized');
+      panner.setPosition(position.x, position.y, position.z);
     }
   }
 
-  public stopBackgroundMusic() {
-    if (this.backgroundMusic) {
-      this.backgroundMusic.pause();
-      this.backgroundMusic.currentTime = 0;
+  /**
+   * Builds source -> voice gain -> (occlusion lowpass -> panner) -> SFX bus. Returns null when
+   * the graph isn't there; a positional voice that's too far away to hear is never started.
+   */
+  private createVoiceChain(id: SoundId, pitch: number, gain: number, position?: THREE.Vector3, loop = false) {
+    const buffer = this.getBuffer(id, pitch);
+    if (!this.context || !this.sfxBus || !buffer) return null;
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    const voiceGain = this.context.createGain();
+    source.connect(voiceGain);
+
+    if (!position) {
+      voiceGain.gain.value = gain;
+      voiceGain.connect(this.sfxBus);
+      source.onended = () => voiceGain.disconnect();
+      return { source, voiceGain, filter: null, panner: null };
     }
+
+    const occluded = this.isOccluded(position);
+    voiceGain.gain.value = gain * (occluded ? OCCLUDED_GAIN : 1);
+    const filter = this.context.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = occluded ? OCCLUDED_CUTOFF : OPEN_CUTOFF;
+    const panner = this.createPanner(position);
+    if (!panner) return null;
+
+    voiceGain.connect(filter);
+    filter.connect(panner);
+    panner.connect(this.sfxBus);
+    source.onended = () => {
+      voiceGain.disconnect();
+      filter.disconnect();
+      panner.disconnect();
+    };
+    return { source, voiceGain, filter, panner };
   }
 
-  public playHitSound() {
-    if (!this.isInitialized || !this.hitSound) return;
-    
+  // The offline mix has no panners, so positional voices bake distance and occlusion into their gain
+  private getOfflineSpatialGain(position: THREE.Vector3, occluded: boolean): number {
+    return distanceGain(position.distanceTo(this.listenerPosition)) * (occluded ? OCCLUDED_GAIN : 1);
+  }
+
+  // Starts one voice of a sound effect on the SFX bus, positional when given a world position
+  private playSound(id: SoundId, pitch = 1, gain = 1, position?: THREE.Vector3) {
+    if (!this.isInitialized) return;
+    if (position && distanceGain(position.distanceTo(this.listenerPosition)) < AUDIBLE_GAIN) return;
+
     try {
-      const clonedSound = this.hitSound.cloneNode() as HTMLAudioElement;
-      clonedSound.volume = this.sfxVolume * this.masterVolume;
-      clonedSound.currentTime = 0;
-      clonedSound.play().catch(() => {});
+      const now = this.now();
+      const endsAt = now + getSoundDuration(id, pitch);
+
+      if (this.offline) {
+        const voiceGain = position ? gain * this.getOfflineSpatialGain(position, this.isOccluded(position)) : gain;
+        const voice: OfflineVoice = { samples: this.getOfflineSamples(id, pitch), bus: 'sfx', gain: voiceGain, gainChanges: [], start: now, stopAt: null, loop: false };
+        this.offlineVoices.push(voice);
+        this.voices.add({ id, startedAt: now, endsAt, stop: () => { voice.stopAt = this.offlineClock; } }, now);
+        return;
+      }
+
+      const chain = this.createVoiceChain(id, pitch, gain, position);
+      if (!chain) return;
+      const { source, voiceGain } = chain;
+      source.start(now);
+
+      this.voices.add({
+        id,
+        startedAt: now,
+        endsAt,
+        stop: fadeTime => this.fadeOutAndStop(source, voiceGain, fadeTime)
+      }, now);
     } catch (error) {
-      console.warn('Failed to play hit sound:', error);
+      console.warn(`Failed to play ${id} sound:`, error);
     }
   }
 
-  public playThrowSound() {
-    if (!this.isInitialized || !this.throwSound) return;
-    
+  private fadeOutAndStop(source: AudioBufferSourceNode, gain: GainNode, fadeTime: number) {
+    if (!this.context) return;
+    const now = this.context.currentTime;
+    gain.gain.setValueAtTime(gain.gain.value, now);
+    gain.gain.linearRampToValueAtTime(0, now + fadeTime);
     try {
-      const clonedSound = this.throwSound.cloneNode() as HTMLAudioElement;
-      clonedSound.volume = this.sfxVolume * this.masterVolume;
-      clonedSound.currentTime = 0;
-      clonedSound.play().catch(() => {});
-    } catch (error) {
-      console.warn('Failed to play throw sound:', error);
+      source.stop(now + fadeTime);
+    } catch {
+      // Already stopped
     }
   }
 
-  public playWeaponSound() {
-    if (!this.isInitialized || !this.weaponSound) return;
-    
+  /**
+   * Starts a looping positional sound. The owner moves it with setPosition every tick and must
+   * stop it; if the voice pool steals it, the handle just goes quiet.
+   */
+  private playSpatialLoop(id: SoundId, position: THREE.Vector3, pitch = 1, gain = 1): SpatialLoop | null {
+    if (!this.isInitialized) return null;
+
     try {
-      const clonedSound = this.weaponSound.cloneNode() as HTMLAudioElement;
-      clonedSound.volume = this.sfxVolume * this.masterVolume;
-      clonedSound.currentTime = 0;
-      clonedSound.play().catch(() => {});
+      const now = this.now();
+      let occluded = this.isOccluded(position);
+      let lastOcclusionCheck = now;
+      let stopped = false;
+
+      // Occlusion is a ray test against the level, so moving loops only redo it a few times a second
+      const updateOcclusion = (position: THREE.Vector3): boolean => {
+        const current = this.now();
+        if (current - lastOcclusionCheck < OCCLUSION_RECHECK) return false;
+        lastOcclusionCheck = current;
+        const wasOccluded = occluded;
+        occluded = this.isOccluded(position);
+        return occluded !== wasOccluded;
+      };
+
+      if (this.offline) {
+        const voice: OfflineVoice = {
+          samples: this.getOfflineSamples(id, pitch),
+          bus: 'sfx',
+          gain: gain * this.getOfflineSpatialGain(position, occluded),
+          gainChanges: [],
+          start: now,
+          stopAt: null,
+          loop: true
+        };
+        this.offlineVoices.push(voice);
+        const active: ActiveVoice = { id, startedAt: now, endsAt: Infinity, stop: () => { voice.stopAt = this.offlineClock; } };
+        this.voices.add(active, now);
+
+        return {
+          setPosition: (position: THREE.Vector3) => {
+            if (stopped) return;
+            updateOcclusion(position);
+            const previous = voice.gainChanges[voice.gainChanges.length - 1]?.gain ?? voice.gain;
+            const next = gain * this.getOfflineSpatialGain(position, occluded);
+            if (Math.abs(next - previous) > 0.01) {
+              voice.gainChanges.push({ at: this.offlineClock, gain: next });
+            }
+          },
+          stop: () => {
+            if (stopped) return;
+            stopped = true;
+            active.stop(STEAL_FADE_TIME);
+            this.voices.remove(active);
+          }
+        };
+      }
+
+      const chain = this.createVoiceChain(id, pitch, gain, position, true);
+      if (!chain || !chain.filter || !chain.panner) return null;
+      const { source, voiceGain, filter, panner } = chain;
+      source.start(now);
+
+      const active: ActiveVoice = {
+        id,
+        startedAt: now,
+        endsAt: Infinity,
+        stop: fadeTime => {
+          stopped = true;
+          this.fadeOutAndStop(source, voiceGain, fadeTime);
+        }
+      };
+      this.voices.add(active, now);
+
+      return {
+        setPosition: (position: THREE.Vector3) => {
+          if (stopped || !this.context) return;
+          this.setPannerPosition(panner, position);
+          if (updateOcclusion(position)) {
+            const current = this.context.currentTime;
+            voiceGain.gain.setTargetAtTime(gain * (occluded ? OCCLUDED_GAIN : 1), current, 0.05);
+            filter.frequency.setTargetAtTime(occluded ? OCCLUDED_CUTOFF : OPEN_CUTOFF, current, 0.05);
+          }
+        },
+        stop: () => {
+          if (stopped) return;
+          active.stop(0.1);
+          this.voices.remove(active);
+        }
+      };
     } catch (error) {
-      console.warn('Failed to play weapon sound:', error);
+      console.warn(`Failed to play ${id} loop:`, error);
+      return null;
     }
   }
 
-  public playReloadSound() {
-    if (!this.isInitialized || !this.reloadSound) return;
-    
+  // Starts every music stem at once, each at its current layer level
+  public startBackgroundMusic() {
+    if (!this.isInitialized || this.musicStems.size > 0) return;
+
     try {
-      const clonedSound = this.reloadSound.cloneNode() as HTMLAudioElement;
-      clonedSound.volume = this.sfxVolume * this.masterVolume;
-      clonedSound.currentTime = 0;
-      clonedSound.play().catch(() => {});
+      const now = this.now();
+      for (const stem of MUSIC_STEMS) {
+        const voice = this.startMusicStem(stem, now);
+        if (voice) this.musicStems.set(stem, voice);
+      }
     } catch (error) {
-      console.warn('Failed to play reload sound:', error);
+      console.warn('Failed to start background music:', error);
     }
   }
 
-  public playJumpSound() {
-    if (!this.isInitialized || !this.jumpSound) return;
-    
+  private startMusicStem(stem: MusicStem, now: number): MusicStemVoice | null {
+    const level = this.musicLevels[stem];
+
+    if (this.offline) {
+      const voice: OfflineVoice = { samples: this.getOfflineMusicSamples(stem), bus: 'music', gain: level, gainChanges: [], start: now, stopAt: null, loop: true };
+      this.offlineVoices.push(voice);
+      return {
+        setLevel: level => { voice.gainChanges.push({ at: this.offlineClock, gain: level }); },
+        stop: () => { voice.stopAt = this.offlineClock; }
+      };
+    }
+
+    const buffer = this.getMusicBuffer(stem);
+    if (!this.context || !this.musicBus || !buffer) return null;
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    const stemGain = this.context.createGain();
+    stemGain.gain.value = level;
+    source.connect(stemGain);
+    stemGain.connect(this.musicBus);
+    source.start(now);
+    source.onended = () => stemGain.disconnect();
+
+    return {
+      setLevel: level => {
+        if (this.context) stemGain.gain.setTargetAtTime(level, this.context.currentTime, 0.05);
+      },
+      stop: fadeTime => this.fadeOutAndStop(source, stemGain, fadeTime)
+    };
+  }
+
+  public stopBackgroundMusic() {
+    this.musicStems.forEach(voice => voice.stop(0.5));
+    this.musicStems.clear();
+  }
+
+  // Sets how loud each music stem is (0-1); the MusicDirector calls this every frame
+  public setMusicLayers(levels: Partial<Record<MusicStem, number>>) {
+    for (const stem of Object.keys(levels) as MusicStem[]) {
+      const level = Math.max(0, Math.min(1, levels[stem] ?? 0));
+      if (Math.abs(level - this.musicLevels[stem]) < 0.005) continue;
+      this.musicLevels[stem] = level;
+      this.musicStems.get(stem)?.setLevel(level);
+    }
+  }
+
+  // Tension cue for an incoming wave, on the music bus over the running stems
+  public playMusicStinger() {
+    if (!this.isInitialized) return;
+
     try {
-      const clonedSound = this.jumpSound.cloneNode() as HTMLAudioElement;
-      clonedSound.volume = this.sfxVolume * this.masterVolume;
-      clonedSound.currentTime = 0;
-      clonedSound.play().catch(() => {});
+      const now = this.now();
+
+      if (this.offline) {
+        this.offlineVoices.push({ samples: this.getOfflineMusicSamples('stinger'), bus: 'music', gain: 1, gainChanges: [], start: now, stopAt: null, loop: false });
+        return;
+      }
+
+      const buffer = this.getMusicBuffer('stinger');
+      if (!this.context || !this.musicBus || !buffer) return;
+
+      const source = this.context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(this.musicBus);
+      source.start(now);
+      source.onended = () => source.disconnect();
     } catch (error) {
-      console.warn('Failed to play jump sound:', error);
+      console.warn('Failed to play music stinger:', error);
     }
   }
 
+  public playHitSound() {
+    this.playSound('hit');
+  }
+
+  public playThrowSound() {
+    this.playSound('throw');
+  }
+
+  public playWeaponSound(weapon: WeaponType = 'blaster') {
+    this.playSound(weapon);
+  }
+
+  public playTelekinesisSound() {
+    this.playSound('telekinesis');
+  }
+
+  public playReloadSound(weapon: WeaponType = 'blaster') {
+    this.playSound('reload', weapon === 'shotgun' ? 0.8 : 1); // The shotgun's action is heavier
+  }
+
+  public playJumpSound() {
+    this.playSound('jump');
+  }
+
   public playLandingSound() {
-    if (!this.isInitialized || !this.landingSound) return;
-    
+    this.playSound('landing');
+  }
+
+  public playPickupSound() {
+    this.playSound('pickup');
+  }
+
+  // Enemy sounds come from the archetype: drones whine, lasers zap, bigger robots sound deeper
+  public playEnemySound(type: EnemyType, event: EnemySoundEvent, position?: THREE.Vector3) {
+    if (!this.isInitialized) return;
+
     try {
-      const clonedSound = this.landingSound.cloneNode() as HTMLAudioElement;
-      clonedSound.volume = this.sfxVolume * this.masterVolume;
-      clonedSound.currentTime = 0;
-      clonedSound.play().catch(() => {});
+      const archetype = getEnemyArchetype(type);
+      const pitch = this.getEnemyPitch(type);
+
+      if (event === 'shoot') {
+        this.playSound(archetype.projectile?.type === 'laser' ? 'enemyLaser' : 'enemyBolt', pitch, 1, position);
+      } else if (event === 'charge') {
+        this.playSound('laserCharge', (archetype.projectile?.chargeTime ? 1.2 / archetype.projectile.chargeTime : 1), 1, position);
+      } else if (event === 'death') {
+        this.playSound(archetype.mesh.model === 'drone' ? 'droneDeath' : 'robotDeath', pitch, 1, position);
+      } else if (event === 'explode') {
+        this.playSound('explosion', 1, 1, position);
+      } else if (event === 'step') {
+        this.playSound('footstep', pitch, 0.7, position);
+      }
     } catch (error) {
-      console.warn('Failed to play landing sound:', error);
+      console.warn('Failed to play enemy sound:', error);
     }
   }
 
+  // Propeller hum that follows a flying enemy until it's stopped
+  public playEnemyHum(type: EnemyType, position: THREE.Vector3): SpatialLoop | null {
+    return this.playSpatialLoop('droneHum', position, this.getEnemyPitch(type));
+  }
+
+  // Bucketed to 0.05 steps so a handful of pitched buffers get cached, not one per enemy size
+  private getEnemyPitch(type: EnemyType): number {
+    const size = getEnemyArchetype(type).mesh.size;
+    return Math.round(Math.min(1.6, Math.max(0.5, 1 / size)) * 20) / 20;
+  }
+
+  public playBossSound(attack: BossAttack, position?: THREE.Vector3) {
+    this.playSound(attack === 'slam' ? 'bossSlam' : attack === 'laserSweep' ? 'bossSweep' : 'bossSummon', 1, 1, position);
+  }
+
   public setMasterVolume(volume: number) {
     this.masterVolume = Math.max(0, Math.min(1, volume));
     this.updateVolumes();
@@ -520,38 +690,64 @@ export class AudioManager {
   }
 
   private updateVolumes() {
-    if (this.backgroundMusic) {
-      this.backgroundMusic.volume = this.musicVolume * this.masterVolume;
+    if (!this.context || !this.masterGain || !this.musicBus || !this.sfxBus) return;
+
+    // Short ramps so slider drags don't zipper
+    const now = this.context.currentTime;
+    this.masterGain.gain.setTargetAtTime(this.masterVolume, now, 0.02);
+    this.musicBus.gain.setTargetAtTime(this.musicVolume, now, 0.02);
+    this.sfxBus.gain.setTargetAtTime(this.sfxVolume, now, 0.02);
+  }
+
+  public getActiveVoiceCount(): number {
+    return this.voices.getActiveCount(this.now());
+  }
+
+  // Offline mode: move the audio clock forward (sounds played after this start later)
+  public advanceOffline(seconds: number) {
+    this.offlineClock += seconds;
+  }
+
+  /**
+   * Offline mode: mixes everything played so far into mono samples, from time 0 to the given
+   * duration (default: the current clock), through the same bus and master volumes.
+   */
+  public renderOffline(duration: number = this.offlineClock): Float32Array {
+    const length = Math.round(duration * this.sampleRate);
+    const mix = new Float32Array(length);
+    const fadeSamples = Math.round(STEAL_FADE_TIME * this.sampleRate);
+
+    for (const voice of this.offlineVoices) {
+      const busVolume = (voice.bus === 'music' ? this.musicVolume : this.sfxVolume) * this.masterVolume;
+      const start = Math.round(voice.start * this.sampleRate);
+      const stop = voice.stopAt === null ? length : Math.min(length, Math.round(voice.stopAt * this.sampleRate) + fadeSamples);
+      const end = voice.loop ? stop : Math.min(stop, start + voice.samples.length);
+      let gain = voice.gain;
+      let change = 0;
+
+      for (let i = Math.max(0, start); i < end; i++) {
+        while (change < voice.gainChanges.length && voice.gainChanges[change].at * this.sampleRate <= i) {
+          gain = voice.gainChanges[change++].gain;
+        }
+        const offset = i - start;
+        const sample = voice.samples[voice.loop ? offset % voice.samples.length : offset];
+        const fade = voice.stopAt === null ? 1 : Math.min(1, (stop - i) / fadeSamples);
+        mix[i] += sample * gain * busVolume * fade;
+      }
     }
-    
-    // Update base volumes for future clones
-    if (this.hitSound) this.hitSound.volume = this.sfxVolume * this.masterVolume;
-    if (this.throwSound) this.throwSound.volume = this.sfxVolume * this.masterVolume;
-    if (this.weaponSound) this.weaponSound.volume = this.sfxVolume * this.masterVolume;
-    if (this.reloadSound) this.reloadSound.volume = this.sfxVolume * this.masterVolume;
-    if (this.jumpSound) this.jumpSound.volume = this.sfxVolume * this.masterVolume;
-    if (this.landingSound) this.landingSound.volume = this.sfxVolume * this.masterVolume;
+
+    for (let i = 0; i < length; i++) {
+      mix[i] = Math.max(-1, Math.min(1, mix[i]));
+    }
+    return mix;
   }
 
   public cleanup() {
     this.stopBackgroundMusic();
-    
-    // Clean up all audio elements and revoke URLs
-    const allSounds = [
-      this.backgroundMusic,
-      this.hitSound,
-      this.throwSound,
-      this.weaponSound,
-      this.reloadSound,
-      this.jumpSound,
-      this.landingSound
-    ].filter(Boolean) as HTMLAudioElement[];
-    
-    allSounds.forEach(sound => {
-      sound.pause();
-      if (sound.src && sound.src.startsWith('blob:')) {
-        URL.revokeObjectURL(sound.src);
-      }
-    });
+    this.voices.stopAll();
+    this.buffers.clear();
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.isInitialized = false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,339 @@
+import * as THREE from 'three';
+import { EnemyType } from './Enemy';
+import { ParticleSystem } from './ParticleSystem';
+import { PowerUpType } from './PowerUp';
+import { SeededRandom } from './SeededRandom';
+import { AudioManager } from './AudioManager';
+
+export type BossAttack = 'slam' | 'laserSweep' | 'summon';
+
+export const BOSS_ATTACKS: BossAttack[] = ['slam', 'laserSweep', 'summon'];
+
+export interface BossPhaseConfig {
+  healthAbove: number; // Phase lasts while health fraction is above this
+  speedMultiplier: number;
+  attackInterval: number; // seconds between special attacks
+  attacks: BossAttack[];
+}
+
+export interface BossConfig {
+  phases: BossPhaseConfig[]; // Ordered from full health down; the last one ends at 0
+  slam?: { radius: number; damage: number; telegraph: number };
+  laserSweep?: { range: number; arc: number; duration: number; damagePerSecond: number; telegraph: number };
+  summon?: { type: EnemyType; count: number; telegraph: number };
+  weakPoints: { offset: [number, number, number]; radius: number; damageMultiplier: number }[];
+  drop: PowerUpType;
+}
+
+const SWEEP_HEIGHT = 1.0; // Beam height above the boss's feet
+const SWEEP_HALF_WIDTH = 0.8;
+const DODGE_HEIGHT = 2.4; // Player eye height above which slams and sweeps miss (mid-jump)
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Runs a boss's phases and telegraphed special attacks. The owning Enemy moves it around;
+ * the simulation collects the results each tick (consumePlayerDamage, consumeSummons),
+ * the same polling style it uses for projectiles and explosions.
+ */
+export class BossController {
+  private config: BossConfig;
+  private scene: THREE.Scene;
+  private random: SeededRandom;
+  private size: number;
+  private particleSystem: ParticleSystem | null = null;
+  private audioManager: AudioManager | null = null;
+  private phaseIndex = 0;
+  private attackCooldown: number;
+  private attack: BossAttack | null = null;
+  private attackState: 'telegraph' | 'active' | null = null;
+  private attackTimer = 0; // seconds left in the current attack state
+  private sweepStartAngle = 0;
+  private pendingDamage = 0;
+  private pendingSummons: EnemyType[] = [];
+  private telegraphMesh: THREE.Object3D | null = null;
+
+  constructor(config: BossConfig, scene: THREE.Scene, random: SeededRandom, size: number) {
+    this.config = config;
+    this.scene = scene;
+    this.random = random;
+    this.size = size;
+    this.attackCooldown = config.phases[0].attackInterval;
+  }
+
+  public setParticleSystem(particleSystem: ParticleSystem) {
+    this.particleSystem = particleSystem;
+  }
+
+  public setAudioManager(audioManager: AudioManager | null) {
+    this.audioManager = audioManager;
+  }
+
+  // Glowing spheres on the boss mesh so players can see where to aim
+  public attachWeakPoints(mesh: THREE.Group) {
+    for (const weakPoint of this.config.weakPoints) {
+      const geometry = new THREE.SphereGeometry(weakPoint.radius * 0.6, 12, 8);
+      const material = new THREE.MeshBasicMaterial({ color: 0xffcc00, transparent: true, opacity: 0.9 });
+      const marker = new THREE.Mesh(geometry, material);
+      marker.position.set(...weakPoint.offset);
+      marker.name = 'weakPoint';
+      mesh.add(marker);
+    }
+  }
+
+  public update(dt: number, position: THREE.Vector3, healthFraction: number, playerPosition: THREE.Vector3) {
+    this.updatePhase(healthFraction, position);
+
+    if (this.attack === null) {
+      this.attackCooldown -= dt;
+      if (this.attackCooldown <= 0) {
+        const attacks = this.getPhase().attacks;
+        this.startTelegraph(attacks[this.random.int(attacks.length)], position, playerPosition);
+      }
+      return;
+    }
+
+    this.attackTimer -= dt;
+    this.updateTelegraphMesh(position);
+
+    if (this.attackState === 'telegraph' && this.attackTimer <= 0) {
+      this.executeAttack(position, playerPosition);
+    } else if (this.attackState === 'active') {
+      this.updateSweep(dt, position, playerPosition);
+      if (this.attackTimer <= 0) {
+        this.finishAttack();
+      }
+    }
+  }
+
+  private updatePhase(healthFraction: number, position: THREE.Vector3) {
+    const phases = this.config.phases;
+    let index = phases.findIndex(phase => healthFraction > phase.healthAbove);
+    if (index === -1) index = phases.length - 1;
+
+    if (index > this.phaseIndex) {
+      // Entering a new phase: attack again soon rather than waiting out the old interval
+      this.phaseIndex = index;
+      this.attackCooldown = Math.min(this.attackCooldown, 1);
+      this.particleSystem?.createExplosionBurst(position);
+    }
+  }
+
+  private startTelegraph(attack: BossAttack, position: THREE.Vector3, playerPosition: THREE.Vector3) {
+    const settings = this.config[attack];
+    if (!settings) {
+      this.attackCooldown = this.getPhase().attackInterval;
+      return;
+    }
+
+    this.attack = attack;
+    this.attackState = 'telegraph';
+    this.attackTimer = settings.telegraph;
+
+    if (attack === 'laserSweep' && this.config.laserSweep) {
+      // Sweep across the arc centered on where the player stood when it was announced
+      const toPlayer = playerPosition.clone().sub(position);
+      this.sweepStartAngle = Math.atan2(toPlayer.x, toPlayer.z) - this.config.laserSweep.arc / 2;
+    }
+
+    this.createTelegraphMesh(attack);
+    this.updateTelegraphMesh(position);
+  }
+
+  private executeAttack(position: THREE.Vector3, playerPosition: THREE.Vector3) {
+    if (this.attack === 'slam' && this.config.slam) {
+      const slam = this.config.slam;
+      const distance = Math.hypot(playerPosition.x - position.x, playerPosition.z - position.z);
+      if (distance <= slam.radius && playerPosition.y < DODGE_HEIGHT) {
+        this.pendingDamage += slam.damage * (1 - 0.5 * distance / slam.radius); // Full damage at the center, half at the edge
+      }
+      this.particleSystem?.createExplosion(position);
+      this.audioManager?.playBossSound('slam', position);
+      this.finishAttack();
+    } else if (this.attack === 'summon' && this.config.summon) {
+      for (let i = 0; i < this.config.summon.count; i++) {
+        this.pendingSummons.push(this.config.summon.type);
+      }
+      this.particleSystem?.createPickupEffect(position);
+      this.audioManager?.playBossSound('summon', position);
+      this.finishAttack();
+    } else if (this.attack === 'laserSweep' && this.config.laserSweep) {
+      this.attackState = 'active';
+      this.attackTimer = this.config.laserSweep.duration;
+      this.audioManager?.playBossSound('laserSweep', position);
+      this.createTelegraphMesh('laserSweep');
+      this.updateTelegraphMesh(position);
+    } else {
+      this.finishAttack();
+    }
+  }
+
+  private updateSweep(dt: number, position: THREE.Vector3, playerPosition: THREE.Vector3) {
+    const sweep = this.config.laserSweep;
+    if (!sweep || playerPosition.y >= DODGE_HEIGHT) return;
+
+    const dx = playerPosition.x - position.x;
+    const dz = playerPosition.z - position.z;
+    const distance = Math.hypot(dx, dz);
+    if (distance > sweep.range) return;
+
+    const beamAngle = this.getSweepAngle();
+    let difference = Math.atan2(dx, dz) - beamAngle;
+    difference = Math.atan2(Math.sin(difference), Math.cos(difference)); // Wrap to [-PI, PI]
+
+    if (Math.abs(difference) < Math.PI / 2 && distance * Math.sin(Math.abs(difference)) < SWEEP_HALF_WIDTH) {
+      this.pendingDamage += sweep.damagePerSecond * dt;
+    }
+  }
+
+  private getSweepAngle(): number {
+    const sweep = this.config.laserSweep;
+    if (!sweep || this.attackState !== 'active') return this.sweepStartAngle;
+    const progress = 1 - Math.max(0, this.attackTimer) / sweep.duration;
+    return this.sweepStartAngle + sweep.arc * progress;
+  }
+
+  private finishAttack() {
+    this.attack = null;
+    this.attackState = null;
+    this.attackTimer = 0;
+    this.attackCooldown = this.getPhase().attackInterval;
+    this.removeTelegraphMesh();
+  }
+
+  private createTelegraphMesh(attack: BossAttack) {
+    this.removeTelegraphMesh();
+
+    if (attack === 'slam' && this.config.slam) {
+      // Warning ring on the ground, with a disc that fills it as the slam approaches
+      const radius = this.config.slam.radius;
+      const group = new THREE.Group();
+      const ring = new THREE.Mesh(
+        new THREE.RingGeometry(radius - 0.3, radius, 48),
+        new THREE.MeshBasicMaterial({ color: 0xff2200, transparent: true, opacity: 0.8, side: THREE.DoubleSide })
+      );
+      const fill = new THREE.Mesh(
+        new THREE.CircleGeometry(radius, 48),
+        new THREE.MeshBasicMaterial({ color: 0xff4400, transparent: true, opacity: 0.25, side: THREE.DoubleSide })
+      );
+      fill.name = 'fill';
+      group.add(ring, fill);
+      group.rotation.x = -Math.PI / 2;
+      this.telegraphMesh = group;
+    } else if (attack === 'laserSweep' && this.config.laserSweep) {
+      const active = this.attackState === 'active';
+      const thickness = active ? SWEEP_HALF_WIDTH : 0.08;
+      const geometry = new THREE.BoxGeometry(thickness, thickness, this.config.laserSweep.range);
+      geometry.translate(0, 0, this.config.laserSweep.range / 2); // Pivot at the boss
+      this.telegraphMesh = new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({ color: active ? 0xff0044 : 0xff6666, transparent: true, opacity: active ? 0.85 : 0.4 })
+      );
+    } else if (attack === 'summon') {
+      this.telegraphMesh = new THREE.Mesh(
+        new THREE.SphereGeometry(this.size * 1.2, 16, 12),
+        new THREE.MeshBasicMaterial({ color: 0xaa44ff, transparent: true, opacity: 0.25 })
+      );
+    }
+
+    if (this.telegraphMesh) {
+      this.scene.add(this.telegraphMesh);
+    }
+  }
+
+  private updateTelegraphMesh(position: THREE.Vector3) {
+    const mesh = this.telegraphMesh;
+    if (!mesh || !this.attack) return;
+
+    const settings = this.config[this.attack];
+    const progress = settings && this.attackState === 'telegraph' ? 1 - Math.max(0, this.attackTimer) / settings.telegraph : 1;
+
+    if (this.attack === 'slam') {
+      mesh.position.set(position.x, 0.05, position.z);
+      const fill = mesh.getObjectByName('fill');
+      fill?.scale.setScalar(Math.max(0.01, progress));
+    } else if (this.attack === 'laserSweep') {
+      mesh.position.set(position.x, position.y + SWEEP_HEIGHT, position.z);
+      mesh.rotation.y = this.getSweepAngle();
+    } else if (this.attack === 'summon') {
+      mesh.position.set(position.x, position.y + this.size * 0.6, position.z);
+      mesh.scale.setScalar(0.5 + progress * 0.5);
+    }
+  }
+
+  private removeTelegraphMesh() {
+    if (!this.telegraphMesh) return;
+    this.scene.remove(this.telegraphMesh);
+    this.telegraphMesh.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.geometry.dispose();
+        (child.material as THREE.Material).dispose();
+      }
+    });
+    this.telegraphMesh = null;
+  }
+
+  // Bonus damage for a shot travelling from -> to that passes through a weak point. The shot
+  // registers a hit as soon as it enters the hit radius, so its path is extended into the body.
+  // facing is the boss's yaw in radians, as the simulation tracks it (see Enemy.faceTowards).
+  public getWeakPointMultiplier(from: THREE.Vector3, to: THREE.Vector3, position: THREE.Vector3, facing: number): number {
+    const end = to.clone().sub(from).setLength(this.size).add(to);
+    const segment = new THREE.Line3(from, end);
+    const closest = new THREE.Vector3();
+    let multiplier = 1;
+
+    for (const weakPoint of this.config.weakPoints) {
+      const center = new THREE.Vector3(...weakPoint.offset).applyAxisAngle(UP, facing).add(position);
+      segment.closestPointToPoint(center, true, closest);
+      if (closest.distanceTo(center) <= weakPoint.radius) {
+        multiplier = Math.max(multiplier, weakPoint.damageMultiplier);
+      }
+    }
+    return multiplier;
+  }
+
+  // Bosses hold still while winding up or sweeping
+  public isChanneling(): boolean {
+    return this.attack !== null;
+  }
+
+  public getSpeedMultiplier(): number {
+    return this.getPhase().speedMultiplier;
+  }
+
+  public getPhaseNumber(): number {
+    return this.phaseIndex + 1;
+  }
+
+  public getPhaseCount(): number {
+    return this.config.phases.length;
+  }
+
+  // The attack being wound up, for HUD warnings
+  public getTelegraphedAttack(): BossAttack | null {
+    return this.attackState === 'telegraph' ? this.attack : null;
+  }
+
+  public getDrop(): PowerUpType {
+    return this.config.drop;
+  }
+
+  public consumePlayerDamage(): number {
+    const damage = this.pendingDamage;
+    this.pendingDamage = 0;
+    return damage;
+  }
+
+  public consumeSummons(): EnemyType[] {
+    const summons = this.pendingSummons;
+    this.pendingSummons = [];
+    return summons;
+  }
+
+  public cleanup() {
+    this.removeTelegraphMesh();
+  }
+
+  private getPhase(): BossPhaseConfig {
+    return this.config.phases[this.phaseIndex];
+  }
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { CharacterController } from './CharacterController';
+import { Level } from './Level';
+import { getLevelDefinition } from './LevelDefinitions';
+import { cloneLevel } from './LevelEditing';
+
+const dt = 1 / 60;
+
+describe('CharacterController', () => {
+  let level: Level;
+  let controller: CharacterController;
+
+  beforeEach(() => {
+    // An empty arena with a thin wall along x = 0, a pillar and a kerb
+    const definition = cloneLevel(getLevelDefinition('classic'));
+    definition.platforms = [{ x: 10, z: -10, size: 4, height: 0.3 }];
+    definition.ramps = [];
+    definition.pillars = [{ x: -10, z: 10, radius: 1.2, height: 3 }];
+    definition.walls.inner = [{ x: 0, z: 0, width: 0.2, depth: 10, height: 3 }];
+    level = new Level(new THREE.Scene());
+    level.loadLevel(definition);
+    controller = new CharacterController({ radius: 0.6, height: 1.6, gravity: 28.8 });
+  });
+
+  it('slides along walls it runs into', () => {
+    const position = new THREE.Vector3(-2, 0, 0);
+    expect(controller.move(position, new THREE.Vector3(3, 0, 1), level)).toBe(true);
+    expect(position.x).toBeCloseTo(-0.7, 2);
+    expect(position.z).toBeCloseTo(1, 2);
+  });
+
+  it('does not tunnel through thin walls at speed', () => {
+    const position = new THREE.Vector3(-2, 0, 0);
+    controller.move(position, new THREE.Vector3(10, 0, 0), level);
+    expect(position.x).toBeLessThan(0);
+  });
+
+  it('pushes out of anything it starts inside', () => {
+    const position = new THREE.Vector3(-10.5, 0, 10);
+    expect(controller.move(position, new THREE.Vector3(), level)).toBe(true);
+    expect(Math.hypot(position.x + 10, position.z - 10)).toBeGreaterThanOrEqual(1.8 - 1e-6);
+  });
+
+  it('steps onto anything lower than a step', () => {
+    const position = new THREE.Vector3(6, 0, -10);
+    expect(controller.move(position, new THREE.Vector3(4, 0, 0), level)).toBe(false);
+    controller.update(position, dt, level);
+    expect(position.y).toBeCloseTo(0.3);
+  });
+
+  it('keeps inside the arena walls', () => {
+    const position = new THREE.Vector3(20, 0, -20);
+    expect(controller.move(position, new THREE.Vector3(10, 0, -10), level)).toBe(true);
+    expect(position.x).toBeCloseTo(24);
+    expect(position.z).toBeCloseTo(-24);
+  });
+
+  it('carries knockback until it dies away', () => {
+    const position = new THREE.Vector3(5, 0, 5);
+    controller.applyImpulse(new THREE.Vector3(10, 0, 0));
+    for (let tick = 0; tick < 180; tick++) controller.update(position, dt, level);
+
+    // Damped exponentially, so it covers about speed / ln(1 / 0.005)
+    expect(position.x - 5).toBeGreaterThan(1.5);
+    expect(position.x - 5).toBeLessThan(2);
+    expect(controller.getKnockback().length()).toBe(0);
+  });
+
+  it('stops knockback into walls and slides it along them', () => {
+    const position = new THREE.Vector3(-1, 0, 0);
+    controller.applyImpulse(new THREE.Vector3(20, 0, 5));
+    for (let tick = 0; tick < 10; tick++) controller.update(position, dt, level);
+
+    expect(position.x).toBeLessThan(-0.69);
+    expect(controller.getKnockback().x).toBe(0);
+    expect(controller.getKnockback().z).toBeGreaterThan(0);
+  });
+
+  it('lifts off with an upward impulse and lands again', () => {
+    const position = new THREE.Vector3(5, 0, 5);
+    controller.applyImpulse(new THREE.Vector3(0, 6, 0));
+    expect(controller.isGrounded()).toBe(false);
+
+    let landed = false;
+    for (let tick = 0; tick < 60 && !landed; tick++) {
+      landed = controller.update(position, dt, level).landed;
+    }
+    expect(landed).toBe(true);
+    expect(position.y).toBe(0);
+  });
+
+  it('divides impulses by mass and keeps fliers at their height', () => {
+    const heavy = new CharacterController({ radius: 1, height: 3, gravity: 36, mass: 4, flying: true });
+    const position = new THREE.Vector3(5, 3, 5);
+    heavy.applyImpulse(new THREE.Vector3(8, 8, 0));
+    expect(heavy.getKnockback().x).toBe(2);
+
+    heavy.update(position, dt, level);
+    expect(position.y).toBe(3);
+  });
+});
@@ -0,0 +1,250 @@
+import * as THREE from 'three';
+import { Level, LevelCollider, STEP_HEIGHT } from './Level';
+
+const MAX_STEP_FRACTION = 0.5; // Moves are split into steps of at most this much of the radius, so nothing is skipped
+const MAX_RESOLVE_ITERATIONS = 4; // Push-outs per step; corners need two, more is a crowd
+const SKIN = 0.001; // Extra push so a resolved capsule doesn't start the next step touching
+const KNOCKBACK_DAMPING = 0.005; // Fraction of knockback speed left after a second
+const MIN_KNOCKBACK_SPEED = 0.05; // units per second; slower than this it stops
+
+export interface CharacterControllerOptions {
+  radius: number;
+  height: number; // Feet to the top of the head
+  gravity: number; // units per second squared, pulling down
+  mass?: number; // Impulses are divided by this; defaults to 1
+  flying?: boolean; // Fliers keep their own height and only take sideways knockback
+}
+
+// What happened to the character's footing during an update
+export interface CharacterStep {
+  landed: boolean;
+  leftGround: boolean; // Walked or got pushed off a ledge
+}
+
+/**
+ * Kinematic movement shared by the player and enemies. The character is an upright capsule
+ * standing on its feet position; moves are swept in short steps against the level's boxes
+ * and cylinders, pushed out along the contact normal and slid along what they hit.
+ * Anything no more than a step above the feet is stepped onto rather than collided with.
+ * Positions are updated in place, so callers keep owning their own vectors.
+ */
+export class CharacterController {
+  private radius: number;
+  private height: number;
+  private gravity: number;
+  private mass: number;
+  private flying: boolean;
+  private stepHeight: number;
+
+  private knockback = new THREE.Vector3(); // units per second, sideways only
+  private verticalVelocity = 0; // units per second
+  private grounded = true;
+
+  private step = new THREE.Vector3();
+  private knockbackStep = new THREE.Vector3();
+  private normal = new THREE.Vector3();
+  private deepestNormal = new THREE.Vector3();
+  private slideVelocity: THREE.Vector3 | null = null; // The caller's, during move
+  private colliders: LevelCollider[] = [];
+
+  constructor(options: CharacterControllerOptions) {
+    this.radius = options.radius;
+    this.height = options.height;
+    this.gravity = options.gravity;
+    this.mass = options.mass ?? 1;
+    this.flying = options.flying ?? false;
+    this.stepHeight = this.flying ? 0 : STEP_HEIGHT;
+  }
+
+  public isGrounded(): boolean {
+    return this.grounded;
+  }
+
+  public getVerticalVelocity(): number {
+    return this.verticalVelocity;
+  }
+
+  public getKnockback(): THREE.Vector3 {
+    return this.knockback.clone();
+  }
+
+  public jump(speed: number) {
+    this.verticalVelocity = speed;
+    this.grounded = false;
+  }
+
+  // A sudden push in units per second for a mass of 1; any upward part lifts the character off the ground
+  public applyImpulse(impulse: THREE.Vector3) {
+    this.knockback.x += impulse.x / this.mass;
+    this.knockback.z += impulse.z / this.mass;
+    if (impulse.y > 0 && !this.flying) {
+      this.verticalVelocity = Math.max(this.verticalVelocity, 0) + impulse.y / this.mass;
+      this.grounded = false;
+    }
+  }
+
+  public reset() {
+    this.knockback.set(0, 0, 0);
+    this.verticalVelocity = 0;
+    this.grounded = true;
+  }
+
+  /**
+   * Moves the feet position sideways by displacement, sliding along whatever it runs into.
+   * A velocity the move comes from (e.g. a throw) loses what heads into each contact too.
+   * Returns true if it touched something on the way.
+   */
+  public move(position: THREE.Vector3, displacement: THREE.Vector3, level: Level | null | undefined, velocity?: THREE.Vector3): boolean {
+    if (!level) {
+      position.x += displacement.x;
+      position.z += displacement.z;
+      return false;
+    }
+
+    const distance = Math.hypot(displacement.x, displacement.z);
+    const steps = Math.max(1, Math.ceil(distance / (this.radius * MAX_STEP_FRACTION)));
+    this.step.set(displacement.x / steps, 0, displacement.z / steps);
+
+    let hit = false;
+    this.slideVelocity = velocity ?? null;
+    for (let i = 0; i < steps; i++) {
+      position.add(this.step);
+      if (this.resolve(position, level)) hit = true;
+    }
+    this.slideVelocity = null;
+    return hit;
+  }
+
+  // Carries the character along its knockback, then applies gravity and finds its footing
+  public update(position: THREE.Vector3, dt: number, level: Level | null | undefined): CharacterStep {
+    const result: CharacterStep = { landed: false, leftGround: false };
+
+    if (this.knockback.lengthSq() > 0) {
+      this.move(position, this.knockbackStep.copy(this.knockback).multiplyScalar(dt), level);
+      this.knockback.multiplyScalar(Math.pow(KNOCKBACK_DAMPING, dt));
+      if (this.knockback.lengthSq() < MIN_KNOCKBACK_SPEED * MIN_KNOCKBACK_SPEED) {
+        this.knockback.set(0, 0, 0);
+      }
+    }
+
+    if (this.flying) return result;
+
+    const ground = level ? level.getGroundHeight(position, this.radius) : 0;
+    if (this.grounded) {
+      if (position.y - ground <= this.stepHeight) {
+        // Follow the ground up steps and down slopes
+        position.y = ground;
+        return result;
+      }
+      this.grounded = false;
+      this.verticalVelocity = 0;
+      result.leftGround = true;
+    }
+
+    this.verticalVelocity -= this.gravity * dt;
+    position.y += this.verticalVelocity * dt;
+    if (this.verticalVelocity <= 0 && position.y <= ground) {
+      position.y = ground;
+      this.verticalVelocity = 0;
+      this.grounded = true;
+      result.landed = true;
+    }
+    return result;
+  }
+
+  // Pushes the capsule out of anything it overlaps, deepest first, and stops movement into it
+  private resolve(position: THREE.Vector3, level: Level): boolean {
+    let hit = false;
+
+    for (let iteration = 0; iteration < MAX_RESOLVE_ITERATIONS; iteration++) {
+      let deepest = 0;
+      for (const collider of level.getCollidersNear(position, this.radius, this.colliders)) {
+        const depth = getPenetration(collider, position, this.radius, this.height, this.normal);
+        if (depth <= deepest) continue;
+        if (level.getColliderTop(collider, position, this.radius) <= position.y + this.stepHeight) continue;
+        deepest = depth;
+        this.deepestNormal.copy(this.normal);
+      }
+      if (deepest === 0) break;
+
+      hit = true;
+      position.addScaledVector(this.deepestNormal, deepest + SKIN);
+
+      // Slide: drop whatever part of the remaining movement and knockback heads into the contact
+      for (const velocity of [this.step, this.knockback, this.slideVelocity]) {
+        if (!velocity) continue;
+        const into = velocity.dot(this.deepestNormal);
+        if (into < 0) velocity.addScaledVector(this.deepestNormal, -into);
+      }
+    }
+
+    // Keep a unit of clearance from the arena walls, as Level.checkCollision does
+    const { width, depth } = level.getSize();
+    const maxX = width / 2 - 1;
+    const maxZ = depth / 2 - 1;
+    if (Math.abs(position.x) > maxX || Math.abs(position.z) > maxZ) {
+      position.x = Math.max(-maxX, Math.min(maxX, position.x));
+      position.z = Math.max(-maxZ, Math.min(maxZ, position.z));
+      hit = true;
+    }
+    return hit;
+  }
+}
+
+/**
+ * How far sideways an upright capsule standing at feet has to move to stop overlapping a collider,
+ * or 0 if it doesn't. The push-out direction goes in normal, flat on the ground.
+ */
+function getPenetration(collider: LevelCollider, feet: THREE.Vector3, radius: number, height: number, normal: THREE.Vector3): number {
+  // Gap between the capsule's core segment and the collider's height range
+  const segmentBottom = feet.y + radius;
+  const segmentTop = feet.y + Math.max(radius, height - radius);
+  const gapY = Math.max(0, segmentBottom - collider.top, collider.bottom - segmentTop);
+  if (gapY >= radius) return 0;
+
+  // Into the collider's own frame; three.js turns +x towards -z for a positive rotation
+  const cos = Math.cos(collider.rotation);
+  const sin = Math.sin(collider.rotation);
+  const dx = feet.x - collider.x;
+  const dz = feet.z - collider.z;
+  const localX = dx * cos - dz * sin;
+  const localZ = dx * sin + dz * cos;
+
+  let normalX: number;
+  let normalZ: number;
+  let distance: number; // From the collider's side, negative inside it
+
+  if (collider.shape === 'cylinder') {
+    const centerDistance = Math.hypot(localX, localZ);
+    normalX = centerDistance > 1e-6 ? localX / centerDistance : 1;
+    normalZ = centerDistance > 1e-6 ? localZ / centerDistance : 0;
+    distance = centerDistance - collider.halfWidth;
+  } else {
+    const closestX = Math.max(-collider.halfWidth, Math.min(collider.halfWidth, localX));
+    const closestZ = Math.max(-collider.halfDepth, Math.min(collider.halfDepth, localZ));
+    const outsideX = localX - closestX;
+    const outsideZ = localZ - closestZ;
+    const outside = Math.hypot(outsideX, outsideZ);
+
+    if (outside > 0) {
+      normalX = outsideX / outside;
+      normalZ = outsideZ / outside;
+      distance = outside;
+    } else {
+      // Inside the footprint: leave by the nearest side
+      const toSideX = collider.halfWidth - Math.abs(localX);
+      const toSideZ = collider.halfDepth - Math.abs(localZ);
+      normalX = toSideX < toSideZ ? Math.sign(localX) || 1 : 0;
+      normalZ = toSideX < toSideZ ? 0 : Math.sign(localZ) || 1;
+      distance = -Math.min(toSideX, toSideZ);
+    }
+  }
+
+  // Over or under the collider the capsule's rounded ends need less room
+  const reach = Math.sqrt(radius * radius - gapY * gapY);
+  if (distance >= reach) return 0;
+
+  // Back to world space
+  normal.set(normalX * cos + normalZ * sin, 0, -normalX * sin + normalZ * cos);
+  return reach - distance;
+}
@@ -0,0 +1,116 @@
+import { PlayerInputEvent } from './Player';
+import { InputAction, InputBindings } from './InputBindings';
+
+/**
+ * Translates keyboard and mouse events into input actions through the player's bindings.
+ * Mouse input (and jumping) is only forwarded while the pointer is locked to the game canvas.
+ * The pause action never reaches the simulation; it goes to onPause instead.
+ */
+export class DomInputAdapter {
+  private canvas: HTMLCanvasElement;
+  private sink: (event: PlayerInputEvent) => void;
+  private onPause: () => void;
+  private bindings: InputBindings;
+  private isPointerLocked = false;
+  private lookSensitivity = 1;
+  private invertY = false;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    sink: (event: PlayerInputEvent) => void,
+    onPause: () => void = () => {},
+    bindings: InputBindings = InputBindings.getInstance()
+  ) {
+    this.canvas = canvas;
+    this.sink = sink;
+    this.onPause = onPause;
+    this.bindings = bindings;
+
+    document.addEventListener('keydown', this.onKeyDown);
+    document.addEventListener('keyup', this.onKeyUp);
+    document.addEventListener('mousemove', this.onMouseMove);
+    this.canvas.addEventListener('mousedown', this.onMouseDown);
+    this.canvas.addEventListener('mouseup', this.onMouseUp);
+    // Explicitly set passive to false since we need preventDefault
+    this.canvas.addEventListener('wheel', this.onWheel, { passive: false });
+    this.canvas.addEventListener('contextmenu', this.onContextMenu);
+  }
+
+  public setPointerLocked(locked: boolean) {
+    this.isPointerLocked = locked;
+  }
+
+  // Applied here rather than in the simulation, so replays record what the player actually did
+  public setLookSettings(sensitivity: number, invertY: boolean) {
+    this.lookSensitivity = sensitivity;
+    this.invertY = invertY;
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    if (event.code === 'Space') {
+      event.preventDefault(); // Prevent page scroll
+    }
+    if (event.repeat) return; // Actions are held, not retriggered
+
+    const action = this.bindings.getActionFor(event.code);
+    if (action === 'jump' && !this.isPointerLocked) return;
+    this.sendAction(action, true);
+  };
+
+  private onKeyUp = (event: KeyboardEvent) => {
+    this.sendAction(this.bindings.getActionFor(event.code), false);
+  };
+
+  private sendAction(action: InputAction | null, pressed: boolean) {
+    if (!action) return;
+
+    if (action === 'pause') {
+      if (pressed) this.onPause();
+      return;
+    }
+    this.sink({ type: 'action', action, pressed });
+  }
+
+  private onMouseMove = (event: MouseEvent) => {
+    if (!this.isPointerLocked) return;
+    this.sink({
+      type: 'look',
+      deltaX: event.movementX * this.lookSensitivity,
+      deltaY: event.movementY * this.lookSensitivity * (this.invertY ? -1 : 1)
+    });
+  };
+
+  private onMouseDown = (event: MouseEvent) => {
+    if (!this.isPointerLocked) return;
+    this.sendAction(this.bindings.getActionFor(`Mouse${event.button}`), true);
+  };
+
+  private onMouseUp = (event: MouseEvent) => {
+    if (!this.isPointerLocked) return;
+    this.sendAction(this.bindings.getActionFor(`Mouse${event.button}`), false);
+  };
+
+  // A wheel notch is a press and an immediate release, so held actions don't stick
+  private onWheel = (event: WheelEvent) => {
+    if (!this.isPointerLocked) return;
+    event.preventDefault();
+    if (event.deltaY === 0) return;
+    const action = this.bindings.getActionFor(event.deltaY < 0 ? 'WheelUp' : 'WheelDown');
+    this.sendAction(action, true);
+    this.sendAction(action, false);
+  };
+
+  private onContextMenu = (event: MouseEvent) => {
+    event.preventDefault(); // Prevent right-click menu
+  };
+
+  public cleanup() {
+    document.removeEventListener('keydown', this.onKeyDown);
+    document.removeEventListener('keyup', this.onKeyUp);
+    document.removeEventListener('mousemove', this.onMouseMove);
+    this.canvas.removeEventListener('mousedown', this.onMouseDown);
+    this.canvas.removeEventListener('mouseup', this.onMouseUp);
+    this.canvas.removeEventListener('wheel', this.onWheel);
+    this.canvas.removeEventListener('contextmenu', this.onContextMenu);
+  }
+}
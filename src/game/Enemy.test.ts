@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { Enemy, EnemyType } from './Enemy';
+import { SeededRandom } from './SeededRandom';
+import { Level } from './Level';
+import { getLevelDefinition } from './LevelDefinitions';
+import { cloneLevel } from './LevelEditing';
+
+// Difficulty 0 leaves health at the archetype's base value
+const createEnemy = (type: EnemyType, position = new THREE.Vector3()) =>
+  new Enemy(position, new THREE.Scene(), new SeededRandom(1), 0, type);
+
+describe('Enemy.takeDamage', () => {
+  it('applies full damage to unshielded enemies', () => {
+    const enemy = createEnemy('normal');
+    const maxHealth = enemy.getArchetype().stats.maxHealth;
+
+    enemy.takeDamage(maxHealth / 4);
+    expect(enemy.getHealthFraction()).toBeCloseTo(0.75);
+  });
+
+  it('cuts frontal damage by 80% with the shield up', () => {
+    const enemy = createEnemy('shielded');
+    const maxHealth = enemy.getArchetype().stats.maxHealth;
+
+    enemy.takeDamage(100, true);
+    expect(enemy.getHealthFraction()).toBeCloseTo((maxHealth - 20) / maxHealth);
+  });
+
+  it('takes full damage from behind the shield', () => {
+    const enemy = createEnemy('shielded');
+    const maxHealth = enemy.getArchetype().stats.maxHealth;
+
+    enemy.takeDamage(100, false);
+    expect(enemy.getHealthFraction()).toBeCloseTo((maxHealth - 100) / maxHealth);
+  });
+
+  it('dies at zero health without going negative', () => {
+    const enemy = createEnemy('normal');
+    enemy.takeDamage(1e6);
+    expect(enemy.isAlive()).toBe(false);
+    expect(enemy.getHealthFraction()).toBe(0);
+  });
+
+  it('sets off exploders once they drop to 30% health', () => {
+    const enemy = createEnemy('exploder');
+    const maxHealth = enemy.getArchetype().stats.maxHealth;
+
+    enemy.takeDamage(maxHealth * 0.5);
+    expect(enemy.isAlive()).toBe(true);
+    enemy.takeDamage(maxHealth * 0.25);
+    expect(enemy.isAlive()).toBe(false);
+    expect(enemy.getExplosionDamage(enemy.getPosition())).toBe(50);
+  });
+});
+
+describe('Enemy.getExplosionDamage', () => {
+  const origin = new THREE.Vector3();
+
+  it('does nothing before the explosion', () => {
+    const enemy = createEnemy('exploder', origin);
+    expect(enemy.getExplosionDamage(origin)).toBe(0);
+  });
+
+  it('falls off linearly to zero at the blast radius', () => {
+    const enemy = createEnemy('exploder', origin);
+    enemy.explode();
+    const radius = enemy.getArchetype().explosionRadius!;
+
+    expect(enemy.getExplosionDamage(new THREE.Vector3(0, 0, 0))).toBe(50);
+    expect(enemy.getExplosionDamage(new THREE.Vector3(radius / 2, 0, 0))).toBe(25);
+    expect(enemy.getExplosionDamage(new THREE.Vector3(0, 0, radius * 0.6))).toBe(20);
+    expect(enemy.getExplosionDamage(new THREE.Vector3(radius, 0, 0))).toBe(0);
+    expect(enemy.getExplosionDamage(new THREE.Vector3(radius + 1, 0, 0))).toBe(0);
+  });
+
+  it('never applies to enemies without a blast radius', () => {
+    const enemy = createEnemy('normal', origin);
+    enemy.explode();
+    expect(enemy.getExplosionDamage(origin)).toBe(0);
+  });
+});
+
+describe('Enemy.getWeakPointMultiplier', () => {
+  it('aims at weak points from the simulated facing, not the rendered mesh', () => {
+    const boss = createEnemy('overlord');
+    boss.faceTowards(new THREE.Vector3(10, 0, 0));
+
+    // The rear weak point, [0, 0.5, -1.1] from the feet, ends up behind the boss at -x
+    const from = new THREE.Vector3(-6, 0.5, 0);
+    const to = new THREE.Vector3(-1.5, 0.5, 0);
+    expect(boss.getWeakPointMultiplier(from, to)).toBe(3);
+
+    // Rendering moves the mesh around without changing the outcome
+    boss['mesh'].position.set(20, 0, 20);
+    boss.faceTowards(new THREE.Vector3(10, 0, 0));
+    expect(boss.getWeakPointMultiplier(from, to)).toBe(3);
+  });
+});
+
+describe('Enemy.moveTowards', () => {
+  const dt = 1 / 60;
+
+  // Movement and grounding on their own, without the behaviour or the AI coordinator
+  const walk = (enemy: Enemy, target: THREE.Vector3, level: Level, seconds: number) => {
+    for (let tick = 0; tick < seconds / dt; tick++) {
+      enemy.moveTowards(dt, target, level);
+      enemy['controller'].update(enemy['position'], dt, level);
+    }
+  };
+
+  it('hops up onto a low platform after its target', () => {
+    const level = new Level(new THREE.Scene());
+    level.loadLevel(getLevelDefinition('classic'));
+    const enemy = createEnemy('normal', new THREE.Vector3(10, 0, 15));
+
+    // Platform at (15, 15): 4 wide and 2 tall
+    walk(enemy, new THREE.Vector3(16, 3.6, 15), level, 8);
+    expect(enemy.getPosition().x).toBeGreaterThan(13);
+    expect(enemy.getPosition().y).toBeCloseTo(2);
+  });
+
+  it('falls off ledges', () => {
+    const level = new Level(new THREE.Scene());
+    level.loadLevel(getLevelDefinition('classic'));
+    const enemy = createEnemy('normal', new THREE.Vector3(15, 2, 15));
+
+    walk(enemy, new THREE.Vector3(8, 0, 15), level, 8);
+    expect(enemy.getPosition().x).toBeLessThan(12);
+    expect(enemy.getPosition().y).toBe(0);
+  });
+});
+
+describe('Enemy throws', () => {
+  it('glance off walls instead of passing through them', () => {
+    const definition = cloneLevel(getLevelDefinition('classic'));
+    definition.walls.inner = [{ x: 0, z: 0, width: 0.2, depth: 10, height: 3 }];
+    const level = new Level(new THREE.Scene());
+    level.loadLevel(definition);
+
+    const enemy = createEnemy('normal', new THREE.Vector3(-2, 0, 0));
+    enemy.levitate();
+    enemy.throw(new THREE.Vector3(1, 0, 0.5));
+    for (let tick = 0; tick < 120 && enemy.isBeingThrown(); tick++) {
+      enemy['handleThrowPhysics'](1 / 60, level);
+    }
+
+    expect(enemy.isBeingThrown()).toBe(false);
+    expect(enemy.getPosition().x).toBeLessThan(0);
+    expect(enemy.getPosition().z).toBeGreaterThan(0.5);
+    expect(enemy.getPosition().y).toBe(0);
+  });
+});
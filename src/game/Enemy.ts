@@ -1,142 +1,66 @@
 import * as THREE from 'three';
-import { AIState, AICoordinator, PathFinder } from './AIBehavior';
+import { AIState, AICoordinator, CLIMB_HEIGHT, PathFinder } from './AIBehavior';
+import { SeededRandom } from './SeededRandom';
+import { ParticleSystem } from './ParticleSystem';
+import { Projectile, ProjectileSystem } from './ProjectileSystem';
+import { EnemyArchetype, getEnemyArchetype } from './EnemyArchetypes';
+import { EnemyBehavior, EnemyBehaviorContext, getEnemyBehavior } from './EnemyBehaviors';
+import { BossController } from './BossController';
+import { AudioManager, SpatialLoop } from './AudioManager';
+import { Level, STEP_HEIGHT } from './Level';
+import { CharacterController } from './CharacterController';
 
 // Texture loader for Denis face
 const textureLoader = new THREE.TextureLoader();
 
-export type EnemyType = 'normal' | 'scout' | 'heavy' | 'ranged' | 'exploder' | 'shielded' | 'drone' | 'laser_trooper';
-
-interface EnemyConfig {
-  maxHealth: number;
-  speed: number;
-  size: number;
-  color: number;
-  damage: number;
-  attackRange: number;
-  explosionRadius?: number;
-  hasShield?: boolean;
-  canFly?: boolean;
-  shootRange?: number;
-  shootCooldown?: number;
-  shootsLaser?: boolean;
-}
-
-const ENEMY_CONFIGS: Record<EnemyType, EnemyConfig> = {
-  normal: {
-    maxHealth: 225,
-    speed: 0.045,
-    size: 1.0,
-    color: 0x333333,
-    damage: 1,
-    attackRange: 2
-  },
-  scout: {
-    maxHealth: 135,
-    speed: 0.075,
-    size: 0.7,
-    color: 0x44aa44,
-    damage: 0.5,
-    attackRange: 1.5
-  },
-  heavy: {
-    maxHealth: 675,
-    speed: 0.022,
-    size: 1.4,
-    color: 0x884444,
-    damage: 3,
-    attackRange: 2.5
-  },
-  ranged: {
-    maxHealth: 180,
-    speed: 0.03,
-    size: 0.9,
-    color: 0x4444aa,
-    damage: 1.5,
-    attackRange: 1.5,
-    shootRange: 15,
-    shootCooldown: 120
-  },
-  exploder: {
-    maxHealth: 200,
-    speed: 0.05,
-    size: 1.1,
-    color: 0xaa4444,
-    damage: 5,
-    attackRange: 3,
-    explosionRadius: 5
-  },
-  shielded: {
-    maxHealth: 450,
-    speed: 0.027,
-    size: 1.3,
-    color: 0x6666aa,
-    damage: 2,
-    attackRange: 2,
-    hasShield: true
-  },
-  drone: {
-    maxHealth: 90,
-    speed: 0.06,
-    size: 0.5,
-    color: 0xaaaaaa,
-    damage: 0.5,
-    attackRange: 1,
-    canFly: true
-  },
-  laser_trooper: {
-    maxHealth: 200,
-    speed: 0.03,
-    size: 1.0,
-    color: 0xaa00aa,
-    damage: 2.0,
-    attackRange: 1.5,
-    shootRange: 20,
-    shootCooldown: 100,
-    shootsLaser: true
-  }
-};
-
-interface EnemyProjectile {
-  mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
-  damage: number;
-  life: number;
-}
-
-interface Laser {
-  mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
-  damage: number;
-  life: number;
-}
-
-export class Enemy {
+export type EnemyType = string; // Archetype id, see EnemyArchetypes
+
+const LASER_AXIS = new THREE.Vector3(0, 1, 0); // Laser cylinders are built along +y
+const GRAVITY = 36; // units per second squared, for thrown enemies and walkers off the ground
+const EXPLOSION_KNOCKBACK = 20; // units per second at the center of a blast, for a mass of 1
+
+export class Enemy implements EnemyBehaviorContext {
+  // Fraction of the full curve segments new meshes get; the quality governor lowers it
+  private static meshDetail = 1;
+
   private mesh: THREE.Group;
   private position: THREE.Vector3;
+  private previousPosition: THREE.Vector3;
   private health: number;
   private maxHealth: number;
   private speed: number;
-  private scene: THREE.Scene;
+  private particleSystem: ParticleSystem | null = null;
+  private audioManager: AudioManager | null = null;
+  private hum: SpatialLoop | null = null;
+  private strideStart: THREE.Vector3; // where the current footstep stride began
   private type: EnemyType;
-  private config: EnemyConfig;
+  private archetype: EnemyArchetype;
+  private behavior: EnemyBehavior;
+  private boss: BossController | null = null;
   private isLevitating = false;
   private isThrown = false;
-  private throwVelocity = new THREE.Vector3();
-  private attackCooldown = 0;
-  private shootCooldown = 0;
-  private moveTimer = 0;
+  private throwVelocity = new THREE.Vector3(); // units per second
+  private controller: CharacterController; // Sliding, falling, hopping up ledges and knockback
+  private attackCooldown = 0; // seconds
+  private shootCooldown = 0; // seconds
+  private chargeTimer = 0; // seconds left charging a shot
+  private burstShotsLeft = 0;
+  private burstTimer = 0; // seconds until the next shot of a burst
+  private chargeGlow: THREE.Mesh | null = null;
+  private moveTimer = 0; // seconds
   private targetPosition: THREE.Vector3;
   private denisFaceTexture: THREE.Texture | null = null;
   private stuckTimer = 0;
   private lastPosition = new THREE.Vector3();
-  private stuckThreshold = 180;
+  private stuckThreshold = 3;
   private stuckCheckTimer = 0;
-  private projectiles: EnemyProjectile[] = [];
-  private lasers: Laser[] = [];
+  private projectiles: Projectile[] = [];
+  private lasers: Projectile[] = [];
+  private projectileSystem: ProjectileSystem | null = null;
   private shield: THREE.Mesh | null = null;
   private shieldActive = true;
   private flyHeight = 0;
-  private flyTarget = 2;
+  private facing = 0; // Yaw in radians; 0 looks down +z, as Object3D.lookAt turns a mesh
   private explosionTriggered = false;
   private id: string;
   private aiState: AIState;
@@ -150,15 +74,22 @@ export class Enemy {
   private predictedPlayerPosition = new THREE.Vector3();
   private lastPlayerPositions: THREE.Vector3[] = [];
   private updateCounter: number;
+  private behaviorDelta = 0;
+  private time = 0;
+  private random: SeededRandom;
 
-  constructor(position: THREE.Vector3, scene: THREE.Scene, difficulty: number = 1, type: EnemyType = 'normal') {
+  constructor(position: THREE.Vector3, scene: THREE.Scene, random: SeededRandom, difficulty: number = 1, type: EnemyType = 'normal') {
     this.position = position.clone();
-    this.scene = scene;
+    this.random = random;
     this.type = type;
-    this.config = ENEMY_CONFIGS[type];
+    this.archetype = getEnemyArchetype(type);
+    this.behavior = getEnemyBehavior(this.archetype.behavior);
+    if (this.archetype.boss) {
+      this.boss = new BossController(this.archetype.boss, scene, random, this.archetype.mesh.size);
+    }
     this.targetPosition = position.clone();
-    this.id = `enemy_${Math.random().toString(36).substr(2, 9)}`;
-    this.updateCounter = Math.floor(Math.random() * 20); // Random initial offset
+    this.id = `enemy_${this.random.next().toString(36).substr(2, 9)}`;
+    this.updateCounter = this.random.int(20); // Random initial offset
     
     // Initialize AI state
     this.aiState = {
@@ -168,42 +99,71 @@ export class Enemy {
       coverPosition: null,
       formationRole: null,
       alertedBy: null,
-      engagementDistance: this.config.attackRange * 2,
+      engagementDistance: this.archetype.stats.attackRange * 2,
       lastDamageTime: 0,
       evasionCooldown: 0,
       cooperationCooldown: 0
     };
     
     // Apply difficulty scaling
-    this.maxHealth = Math.floor(this.config.maxHealth + difficulty * 20);
+    this.maxHealth = Math.floor(this.archetype.stats.maxHealth + difficulty * 20);
     this.health = this.maxHealth;
-    this.speed = this.config.speed;
+    this.speed = this.archetype.stats.speed;
+    
+    const size = this.archetype.mesh.size;
+    this.controller = new CharacterController({
+      radius: size * 0.6,
+      height: size * 1.6,
+      gravity: GRAVITY,
+      mass: size * size, // Big enemies shrug off knockback
+      flying: this.archetype.canFly
+    });
     
     // Set initial flying height for drones
-    if (this.config.canFly) {
-      this.flyHeight = 2 + Math.random() * 2;
+    if (this.archetype.canFly) {
+      this.flyHeight = 2 + this.random.next() * 2;
       this.position.y = this.flyHeight;
     }
     
+    this.previousPosition = this.position.clone();
+    this.strideStart = this.position.clone();
     this.createMesh();
     scene.add(this.mesh);
   }
 
+  public setParticleSystem(particleSystem: ParticleSystem) {
+    this.particleSystem = particleSystem;
+    this.boss?.setParticleSystem(particleSystem);
+  }
+
+  public setProjectileSystem(projectileSystem: ProjectileSystem) {
+    this.projectileSystem = projectileSystem;
+  }
+
+  public setAudioManager(audioManager: AudioManager | null) {
+    this.audioManager = audioManager;
+    this.boss?.setAudioManager(audioManager);
+  }
+
   private createMesh() {
     this.mesh = new THREE.Group();
-    const size = this.config.size;
+    const size = this.archetype.mesh.size;
 
-    if (this.type === 'drone') {
+    if (this.archetype.mesh.model === 'drone') {
       this.createDroneMesh(size);
+    } else if (this.archetype.mesh.model === 'trooper') {
+      this.createTrooperMesh(size);
     } else {
       this.createIMPROVEDRobotMesh(size);
     }
 
     // Create shield for shielded enemies
-    if (this.config.hasShield) {
+    if (this.archetype.hasShield) {
       this.createShield(size);
     }
 
+    this.boss?.attachWeakPoints(this.mesh);
+
     // Health bar
     this.createHealthBar();
 
@@ -252,7 +212,7 @@ export class Enemy {
     }
   }
 
-  private canSeePlayer(playerPosition: THREE.Vector3, level: any): boolean {
+  public canSeePlayer(playerPosition: THREE.Vector3, level: any): boolean {
     if (!level?.checkCollision) return true;
     
     const direction = playerPosition.clone().sub(this.position).normalize();
@@ -274,7 +234,7 @@ export class Enemy {
     
     if (hasLineOfSight && distance < 20) {
       // Player is visible
-      this.lastPlayerSightTime = Date.now();
+      this.lastPlayerSightTime = this.time;
       this.aiState.alertLevel = Math.min(100, this.aiState.alertLevel + 5);
       this.aiState.lastKnownPlayerPosition = playerPosition.clone();
       
@@ -284,14 +244,14 @@ export class Enemy {
       }
     } else {
       // Lose awareness over time
-      const timeSinceLastSight = Date.now() - this.lastPlayerSightTime;
-      if (timeSinceLastSight > 3000) { // 3 seconds
+      const timeSinceLastSight = this.time - this.lastPlayerSightTime;
+      if (timeSinceLastSight > 3) { // 3 seconds
         this.aiState.alertLevel = Math.max(0, this.aiState.alertLevel - 2);
       }
     }
   }
 
-  private findCoverPosition(playerPosition: THREE.Vector3, level: any): THREE.Vector3 | null {
+  public findCover(playerPosition: THREE.Vector3, level: any): THREE.Vector3 | null {
     if (!level?.checkCollision) return null;
     
     const coverSearchRadius = 8;
@@ -321,61 +281,194 @@ export class Enemy {
     return null;
   }
 
-  private updatePathfinding(targetPosition: THREE.Vector3, level: any) {
-    const currentTime = Date.now();
-    
+  public pathTo(targetPosition: THREE.Vector3, level: any) {
     // Update path every 2 seconds or if target changed significantly
-    if (currentTime - this.lastPathUpdate > 2000 || 
+    if (this.time - this.lastPathUpdate > 2 || 
         !this.aiState.currentTarget || 
         this.aiState.currentTarget.distanceTo(targetPosition) > 3) {
       
-      this.pathWaypoints = PathFinder.findPath(this.position, targetPosition);
-      this.currentWaypointIndex = 0;
-      this.lastPathUpdate = currentTime;
-      this.aiState.currentTarget = targetPosition.clone();
+      // Searches are budgeted across enemies; keep following the old path until the new one is ready
+      const path = PathFinder.requestPath(this.position, targetPosition);
+      if (path) {
+        this.pathWaypoints = path;
+        this.currentWaypointIndex = 0;
+        this.lastPathUpdate = this.time;
+        this.aiState.currentTarget = targetPosition.clone();
+      }
     }
     
     // Move towards current waypoint
     if (this.pathWaypoints.length > this.currentWaypointIndex) {
       const currentWaypoint = this.pathWaypoints[this.currentWaypointIndex];
-      const distanceToWaypoint = this.position.distanceTo(currentWaypoint);
+      const dx = currentWaypoint.x - this.position.x;
+      const dz = currentWaypoint.z - this.position.z;
       
-      if (distanceToWaypoint < 1.5) {
+      if (dx * dx + dz * dz < 1.5 * 1.5) {
         this.currentWaypointIndex++;
       }
       
-      return currentWaypoint;
+      // Waypoints are on the ground; keep the enemy's own height
+      return new THREE.Vector3(currentWaypoint.x, this.position.y, currentWaypoint.z);
     }
     
     return targetPosition;
   }
 
-  private performEvasiveManeuvers(playerPosition: THREE.Vector3): THREE.Vector3 {
+  public evade(dt: number, playerPosition: THREE.Vector3): THREE.Vector3 {
     if (this.aiState.evasionCooldown > 0) {
-      this.aiState.evasionCooldown--;
+      this.aiState.evasionCooldown -= dt;
       // Continue current evasion
       return this.position.clone().add(this.evasionDirection.clone().multiplyScalar(3));
     }
     
     // Start new evasion
-    this.aiState.evasionCooldown = 60 + Math.random() * 60; // 1-2 seconds
+    this.aiState.evasionCooldown = 2 + this.random.next() * 2; // 2-4 seconds
     
     // Calculate evasion direction (perpendicular to player direction)
     const toPlayer = playerPosition.clone().sub(this.position).normalize();
     this.evasionDirection = new THREE.Vector3(-toPlayer.z, 0, toPlayer.x); // Perpendicular
     
-    if (Math.random() < 0.5) {
+    if (this.random.chance(0.5)) {
       this.evasionDirection.multiplyScalar(-1); // Random left/right
     }
     
     return this.position.clone().add(this.evasionDirection.clone().multiplyScalar(5));
   }
 
+  public getTime(): number {
+    return this.time;
+  }
+
+  public getHealthFraction(): number {
+    return this.health / this.maxHealth;
+  }
+
+  public getRandom(): SeededRandom {
+    return this.random;
+  }
+
+  public getExplosionRadius(): number {
+    return this.archetype.explosionRadius ?? 0;
+  }
+
+  public isExploding(): boolean {
+    return this.explosionTriggered;
+  }
+
+  public getMoveTimer(): number {
+    return this.moveTimer;
+  }
+
+  public advanceMoveTimer(dt: number) {
+    this.moveTimer += dt;
+  }
+
+  // Turns to face target from the simulated position; the mesh only follows
+  public faceTowards(target: THREE.Vector3) {
+    const dx = target.x - this.position.x;
+    const dz = target.z - this.position.z;
+    if (dx * dx + dz * dz < 1e-6) return;
+    this.facing = Math.atan2(dx, dz);
+    this.mesh.rotation.set(0, this.facing, 0);
+  }
+
+  public flyTowardsHeight(dt: number, height: number) {
+    this.position.y += (height - this.position.y) * (1 - Math.pow(0.98, dt * 30));
+  }
+
+  public updateShooting(dt: number, distance: number, threatLevel: number, hasLineOfSight: boolean) {
+    const projectileConfig = this.archetype.projectile;
+    if (!projectileConfig) return;
+
+    const adjustedCooldown = Math.max(1, projectileConfig.cooldown - threatLevel / 30);
+    this.shootCooldown -= dt;
+
+    if (projectileConfig.chargeTime) {
+      this.updateChargedShot(dt, distance, hasLineOfSight, adjustedCooldown);
+      return;
+    }
+
+    if (this.shootCooldown <= 0 && distance <= projectileConfig.range && hasLineOfSight) {
+      this.shootAtPlayer(this.predictedPlayerPosition); // Shoot at predicted position
+      this.shootCooldown = adjustedCooldown;
+    }
+  }
+
+  // Charge up with a visible glow, then fire a burst; losing sight of the player cancels the charge
+  private updateChargedShot(dt: number, distance: number, hasLineOfSight: boolean, cooldown: number) {
+    const projectileConfig = this.archetype.projectile;
+    if (!projectileConfig?.chargeTime) return;
+
+    if (this.burstShotsLeft > 0) {
+      this.burstTimer -= dt;
+      if (this.burstTimer <= 0) {
+        this.shootAtPlayer(this.predictedPlayerPosition);
+        this.burstShotsLeft--;
+        this.burstTimer = projectileConfig.burstInterval ?? 0;
+      }
+      return;
+    }
+
+    if (this.chargeTimer > 0) {
+      if (!hasLineOfSight) {
+        this.chargeTimer = 0;
+        this.shootCooldown = 0.5; // Try again soon once repositioned
+        this.setChargeGlow(0);
+        return;
+      }
+
+      this.chargeTimer -= dt;
+      this.setChargeGlow(1 - Math.max(0, this.chargeTimer) / projectileConfig.chargeTime);
+      if (this.chargeTimer <= 0) {
+        this.setChargeGlow(0);
+        this.burstShotsLeft = projectileConfig.burst ?? 1;
+        this.burstTimer = 0;
+        this.shootCooldown = cooldown;
+      }
+      return;
+    }
+
+    if (this.shootCooldown <= 0 && distance <= projectileConfig.range && hasLineOfSight) {
+      this.chargeTimer = projectileConfig.chargeTime;
+      this.setChargeGlow(0.01);
+      this.audioManager?.playEnemySound(this.type, 'charge', this.position);
+    }
+  }
+
+  private setChargeGlow(progress: number) {
+    if (!this.chargeGlow) return;
+    this.chargeGlow.visible = progress > 0;
+    this.chargeGlow.scale.setScalar(0.3 + progress * 1.2);
+    (this.chargeGlow.material as THREE.MeshBasicMaterial).opacity = 0.4 + progress * 0.6;
+  }
+
+  // Charging or mid-burst; the shooter holds its ground meanwhile
+  public isChargingShot(): boolean {
+    return this.chargeTimer > 0 || this.burstShotsLeft > 0;
+  }
+
+  public updateShield() {
+    if (this.shield) {
+      const shieldStrength = this.health / this.maxHealth;
+      (this.shield.material as THREE.MeshBasicMaterial).opacity = 0.2 + shieldStrength * 0.3;
+      this.shieldActive = shieldStrength > 0.3;
+    }
+  }
+
+  // Render-only: hit tests use positions and radii, never mesh geometry
+  public static setMeshDetail(detail: number) {
+    Enemy.meshDetail = Math.max(0.25, Math.min(1, detail));
+  }
+
+  private static segments(full: number): number {
+    return Math.max(4, Math.round(full * Enemy.meshDetail));
+  }
+
   private createDroneMesh(size: number) {
     // Drone body - spherical
-    const bodyGeometry = new THREE.SphereGeometry(size * 0.3, 12, 8);
+    const bodyGeometry = new THREE.SphereGeometry(size * 0.3, Enemy.segments(12), Enemy.segments(8));
     const bodyMaterial = new THREE.MeshPhongMaterial({ 
-      color: this.config.color,
+      color: this.archetype.mesh.color,
       shininess: 100,
       emissive: 0x222222
     });
@@ -411,7 +504,7 @@ export class Enemy {
     }
 
     // Drone eyes - use MeshPhongMaterial for emissive properties
-    const eyeGeometry = new THREE.SphereGeometry(0.03, 8, 8);
+    const eyeGeometry = new THREE.SphereGeometry(0.03, Enemy.segments(8), Enemy.segments(8));
     const eyeMaterial = new THREE.MeshPhongMaterial({ 
       color: 0xff0000,
       emissive: 0xff0000,
@@ -429,20 +522,20 @@ export class Enemy {
 
   private createIMPROVEDRobotMesh(size: number) {
     const bodyMaterial = new THREE.MeshStandardMaterial({
-      color: this.config.color,
+      color: this.archetype.mesh.color,
       metalness: 0.8,
       roughness: 0.2,
     });
 
     // Body
-    const bodyGeometry = new THREE.CylinderGeometry(size * 0.5, size * 0.4, size * 1.2, 8);
+    const bodyGeometry = new THREE.CylinderGeometry(size * 0.5, size * 0.4, size * 1.2, Enemy.segments(8));
     const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
     body.castShadow = true;
     body.receiveShadow = true;
     this.mesh.add(body);
 
     // Head
-    const headGeometry = new THREE.SphereGeometry(size * 0.3, 12, 8);
+    const headGeometry = new THREE.SphereGeometry(size * 0.3, Enemy.segments(12), Enemy.segments(8));
     const headMaterial = new THREE.MeshStandardMaterial({
       color: 0xaaaaaa,
       metalness: 0.9,
@@ -454,7 +547,7 @@ export class Enemy {
     this.mesh.add(head);
 
     // Eye
-    const eyeGeometry = new THREE.SphereGeometry(size * 0.1, 8, 8);
+    const eyeGeometry = new THREE.SphereGeometry(size * 0.1, Enemy.segments(8), Enemy.segments(8));
     const eyeMaterial = new THREE.MeshStandardMaterial({
       color: 0xff0000,
       emissive: 0xff0000,
@@ -484,11 +577,68 @@ export class Enemy {
     rightArm.castShadow = true;
     this.mesh.add(rightArm);
 
-    this.mesh.rotation.y = Math.PI; // Rotate to face forward
+    this.facing = Math.PI; // Rotate to face forward
+    this.mesh.rotation.y = this.facing;
+  }
+
+  private createTrooperMesh(size: number) {
+    const armorMaterial = new THREE.MeshStandardMaterial({
+      color: this.archetype.mesh.color,
+      metalness: 0.7,
+      roughness: 0.3,
+    });
+    const laserColor = this.archetype.projectile?.color ?? '#ff00ff';
+
+    // Angular torso
+    const bodyGeometry = new THREE.BoxGeometry(size * 0.8, size * 1.1, size * 0.5);
+    const body = new THREE.Mesh(bodyGeometry, armorMaterial);
+    body.castShadow = true;
+    body.receiveShadow = true;
+    this.mesh.add(body);
+
+    // Helmet with a glowing visor slit
+    const headGeometry = new THREE.BoxGeometry(size * 0.45, size * 0.35, size * 0.45);
+    const headMaterial = new THREE.MeshStandardMaterial({ color: 0x333333, metalness: 0.9, roughness: 0.2 });
+    const head = new THREE.Mesh(headGeometry, headMaterial);
+    head.position.y = size * 0.75;
+    head.castShadow = true;
+    this.mesh.add(head);
+
+    const visorGeometry = new THREE.BoxGeometry(size * 0.4, size * 0.07, size * 0.05);
+    const visorMaterial = new THREE.MeshStandardMaterial({ color: laserColor, emissive: laserColor, emissiveIntensity: 2 });
+    const visor = new THREE.Mesh(visorGeometry, visorMaterial);
+    visor.position.set(0, size * 0.78, size * 0.23);
+    this.mesh.add(visor);
+
+    // Shoulder-mounted laser cannon pointing forward
+    const cannonGeometry = new THREE.CylinderGeometry(size * 0.08, size * 0.1, size * 0.8, Enemy.segments(8));
+    const cannonMaterial = new THREE.MeshStandardMaterial({ color: 0x555555, metalness: 0.8, roughness: 0.3 });
+    const cannon = new THREE.Mesh(cannonGeometry, cannonMaterial);
+    cannon.rotation.x = Math.PI / 2;
+    cannon.position.set(size * 0.5, size * 0.5, size * 0.2);
+    cannon.castShadow = true;
+    this.mesh.add(cannon);
+
+    // Charge glow at the muzzle, shown while winding up a shot
+    const glowGeometry = new THREE.SphereGeometry(size * 0.12, Enemy.segments(10), Enemy.segments(8));
+    const glowMaterial = new THREE.MeshBasicMaterial({ color: laserColor, transparent: true, opacity: 0.5 });
+    this.chargeGlow = new THREE.Mesh(glowGeometry, glowMaterial);
+    this.chargeGlow.position.set(size * 0.5, size * 0.5, size * 0.62);
+    this.chargeGlow.visible = false;
+    this.mesh.add(this.chargeGlow);
+
+    // Legs
+    const legGeometry = new THREE.BoxGeometry(size * 0.2, size * 0.6, size * 0.25);
+    for (const side of [-1, 1]) {
+      const leg = new THREE.Mesh(legGeometry, armorMaterial);
+      leg.position.set(side * size * 0.2, -size * 0.8, 0);
+      leg.castShadow = true;
+      this.mesh.add(leg);
+    }
   }
 
   private createShield(size: number) {
-    const shieldGeometry = new THREE.SphereGeometry(size * 0.9, 32, 32);
+    const shieldGeometry = new THREE.SphereGeometry(size * 0.9, Enemy.segments(32), Enemy.segments(32));
     const shieldMaterial = new THREE.MeshBasicMaterial({
       color: 0x0088ff,
       transparent: true,
@@ -513,7 +663,7 @@ export class Enemy {
       opacity: 0.8
     });
     const background = new THREE.Mesh(bgGeometry, bgMaterial);
-    background.position.y = this.config.size * 2;
+    background.position.y = this.archetype.mesh.size * 2;
     healthBarGroup.add(background);
 
     // Health bar
@@ -524,7 +674,7 @@ export class Enemy {
       opacity: 0.9
     });
     const healthBar = new THREE.Mesh(healthGeometry, healthMaterial);
-    healthBar.position.y = this.config.size * 2;
+    healthBar.position.y = this.archetype.mesh.size * 2;
     healthBar.position.z = 0.01;
     healthBar.name = 'healthBar';
     healthBarGroup.add(healthBar);
@@ -550,13 +700,15 @@ export class Enemy {
     }
   }
 
-  public update(playerPosition: THREE.Vector3, level?: any) {
+  public update(dt: number, playerPosition: THREE.Vector3, level?: any) {
     if (!this.isAlive()) return;
 
+    this.time += dt;
+    this.previousPosition.copy(this.position);
     this.updateCounter++;
 
     // Update AI systems (heavily throttled to prevent performance issues)
-    if (this.updateCounter % 10 === 0) { // Only 10% of frames (reduced from 30%)
+    if (this.updateCounter % 10 === 0) { // Only 10% of ticks (reduced from 30%)
       try {
         this.updatePlayerTracking(playerPosition);
         this.updateAwareness(playerPosition, level);
@@ -566,24 +718,27 @@ export class Enemy {
     }
     
     // Update projectiles
-    this.updateProjectiles();
-    this.updateLasers(playerPosition);
+    this.updateProjectiles(dt);
+    this.updateLasers(dt);
+    this.updateMovementSounds();
 
     if (this.isLevitating) {
-      this.mesh.rotation.y += 0.05;
-      this.mesh.position.y = this.position.y + Math.sin(Date.now() * 0.01) * 0.2;
+      this.mesh.rotation.y += 3 * dt;
       return;
     }
 
     if (this.isThrown) {
-      this.handleThrowPhysics(level);
+      this.handleThrowPhysics(dt, level);
       return;
     }
 
-    // Type-specific updates (throttled)
-    if (this.updateCounter % 2 === 0) { // Only 50% of frames
-      this.updateByType(playerPosition, level);
+    // Archetype behaviour (throttled, so accumulate the skipped tick's time)
+    this.behaviorDelta += dt;
+    if (this.updateCounter % 2 === 0) { // Only 50% of ticks
+      this.updateBehavior(this.behaviorDelta, playerPosition, level);
+      this.behaviorDelta = 0;
     }
+    this.controller.update(this.position, dt, level);
 
     // Update formation if part of one (more throttling)
     if (this.formationRole && this.formationId && this.updateCounter % 10 === 0) { // Reduced to 10%
@@ -600,11 +755,17 @@ export class Enemy {
       }
     }
 
-    // Update mesh position (always)
-    this.mesh.position.copy(this.position);
+    // Animate propellers for drones
+    if (this.archetype.mesh.model === 'drone') {
+      this.mesh.traverse((child) => {
+        if (child.name === 'propeller') {
+          child.rotation.y += 10 * dt;
+        }
+      });
+    }
     
     // Update health bar and visual effects (throttled)
-    if (this.updateCounter % 3 === 0) { // Only 30% of frames
+    if (this.updateCounter % 3 === 0) { // Only 30% of ticks
       this.updateHealthBar();
 
       // Make health bar face camera
@@ -613,20 +774,11 @@ export class Enemy {
         healthBarGroup.lookAt(playerPosition);
       }
 
-      // Animate propellers for drones
-      if (this.type === 'drone') {
-        this.mesh.traverse((child) => {
-          if (child.name === 'propeller') {
-            child.rotation.y += 0.5;
-          }
-        });
-      }
-
       // Pulse exploder warning
-      if (this.type === 'exploder' && !this.explosionTriggered) {
+      if (this.archetype.explosionRadius && !this.explosionTriggered) {
         const distance = this.position.distanceTo(playerPosition);
-        if (distance < this.config.explosionRadius!) {
-          const intensity = Math.sin(Date.now() * 0.02) * 0.5 + 0.5;
+        if (distance < this.archetype.explosionRadius) {
+          const intensity = Math.sin(this.time * 20) * 0.5 + 0.5;
           this.mesh.traverse((child) => {
             if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshPhongMaterial) {
               child.material.emissive.setRGB(intensity * 0.5, 0, 0);
@@ -637,408 +789,225 @@ export class Enemy {
     }
   }
 
-  private updateByType(playerPosition: THREE.Vector3, level?: any) {
-    const distance = this.position.distanceTo(playerPosition);
-    const threatLevel = AICoordinator.getInstance().getPlayerThreatLevel();
+  public interpolate(alpha: number) {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
 
-    switch (this.type) {
-      case 'scout':
-        this.updateScoutBehavior(playerPosition, level, distance);
-        break;
-      case 'heavy':
-        this.updateHeavyBehavior(playerPosition, level, distance, threatLevel);
-        break;
-      case 'ranged':
-        this.updateRangedBehavior(playerPosition, level, distance, threatLevel);
-        break;
-      case 'exploder':
-        this.updateExploderBehavior(playerPosition, level, distance);
-        break;
-      case 'shielded':
-        this.updateShieldedBehavior(playerPosition, level, distance);
-        break;
-      case 'drone':
-        this.updateDroneBehavior(playerPosition, level, distance);
-        break;
-      default:
-        this.updateNormalBehavior(playerPosition, level, distance, threatLevel);
-        break;
+    if (this.isLevitating) {
+      this.mesh.position.y += Math.sin(this.time * 10) * 0.2;
     }
   }
 
-  private updateScoutBehavior(playerPosition: THREE.Vector3, level: any, distance: number) {
-    // Enhanced scout behavior with evasion and flanking
-    const threatLevel = AICoordinator.getInstance().getPlayerThreatLevel();
-    const alertLevel = this.aiState.alertLevel;
-    
-    if (distance > 12) {
-      // Close distance quickly
-      const target = this.updatePathfinding(playerPosition, level);
-      this.moveTowardsTarget(target, level, 1.8);
-    } else if (distance < 2 || (alertLevel > 70 && distance < 4)) {
-      // Retreat or evade
-      const evasionTarget = this.performEvasiveManeuvers(playerPosition);
-      this.moveTowardsTarget(evasionTarget, level, 2.0);
-    } else {
-      // Aggressive flanking
-      const flankAngle = Date.now() * 0.002 + this.id.length; // Unique per enemy
-      const flankRadius = 4 + Math.sin(Date.now() * 0.001) * 2;
-      const flankTarget = new THREE.Vector3(
-        playerPosition.x + Math.cos(flankAngle) * flankRadius,
-        this.position.y,
-        playerPosition.z + Math.sin(flankAngle) * flankRadius
-      );
-      const target = this.updatePathfinding(flankTarget, level);
-      this.moveTowardsTarget(target, level, 1.4);
-    }
-
-    this.handleAttack(playerPosition, distance);
-  }
+  // Walkers make a footstep every stride (bigger robots take longer strides); drones hum as they fly
+  private updateMovementSounds() {
+    if (!this.audioManager) return;
 
-  private updateHeavyBehavior(playerPosition: THREE.Vector3, level: any, distance: number, threatLevel: number) {
-    // Heavy enemies use cover and coordinated attacks
-    if (distance > 15) {
-      // Close distance using pathfinding
-      const target = this.updatePathfinding(playerPosition, level);
-      this.moveTowardsTarget(target, level, 0.9);
-    } else if (this.health < this.maxHealth * 0.4) {
-      // Seek cover when damaged
-      if (!this.aiState.coverPosition) {
-        this.aiState.coverPosition = this.findCoverPosition(playerPosition, level);
-      }
-      
-      if (this.aiState.coverPosition) {
-        const target = this.updatePathfinding(this.aiState.coverPosition, level);
-        this.moveTowardsTarget(target, level, 1.2);
-        
-        // Clear cover position when reached
-        if (this.position.distanceTo(this.aiState.coverPosition) < 2) {
-          this.aiState.coverPosition = null;
-        }
-      } else {
-        this.moveTowardsTarget(playerPosition, level, 0.8);
+    if (this.archetype.mesh.model === 'drone') {
+      if (!this.hum) {
+        this.hum = this.audioManager.playEnemyHum(this.type, this.position);
       }
-    } else {
-      // Aggressive advance
-      const target = this.updatePathfinding(playerPosition, level);
-      this.moveTowardsTarget(target, level, 1.0);
-    }
-    
-    this.handleAttack(playerPosition, distance);
-  }
-
-  private updateRangedBehavior(playerPosition: THREE.Vector3, level: any, distance: number, threatLevel: number) {
-    // Enhanced ranged behavior with predictive shooting and cover usage
-    const optimalRange = 8 + threatLevel * 0.05; // Increase range with threat
-    const hasLineOfSight = this.canSeePlayer(playerPosition, level);
-    
-    if (!hasLineOfSight || distance > optimalRange + 3) {
-      // Move to get line of sight or close distance
-      const target = this.updatePathfinding(playerPosition, level);
-      this.moveTowardsTarget(target, level, 1.2);
-    } else if (distance < optimalRange - 3 || this.health < this.maxHealth * 0.5) {
-      // Retreat to optimal range or seek cover
-      if (this.health < this.maxHealth * 0.5 && !this.aiState.coverPosition) {
-        this.aiState.coverPosition = this.findCoverPosition(playerPosition, level);
-      }
-      
-      if (this.aiState.coverPosition && this.health < this.maxHealth * 0.5) {
-        const target = this.updatePathfinding(this.aiState.coverPosition, level);
-        this.moveTowardsTarget(target, level, 1.4);
-      } else {
-        const evasionTarget = this.performEvasiveManeuvers(playerPosition);
-        this.moveTowardsTarget(evasionTarget, level, 1.2);
-      }
-    } else {
-      // Maintain position and strafe
-      if (this.aiState.evasionCooldown <= 0) {
-        const evasionTarget = this.performEvasiveManeuvers(playerPosition);
-        this.moveTowardsTarget(evasionTarget, level, 0.8);
-      }
-    }
-
-    // Shoot at player
-    const adjustedCooldown = Math.max(30, this.config.shootCooldown! - threatLevel);
-    this.shootCooldown--;
-    if (this.shootCooldown <= 0 && distance <= this.config.shootRange! && hasLineOfSight) {
-      this.shootAtPlayer(this.predictedPlayerPosition); // Shoot at predicted position
-      this.shootCooldown = adjustedCooldown;
+      this.hum?.setPosition(this.position);
+      return;
     }
 
-    this.handleAttack(playerPosition, distance);
-    this.moveTimer++;
-  }
-
-  private updateExploderBehavior(playerPosition: THREE.Vector3, level: any, distance: number) {
-    // Exploder bots rush towards the player
-    this.moveTowardsTarget(playerPosition, level, 1.5);
-    
-    // Explode when close or when dying
-    if ((distance < this.config.explosionRadius! || this.health <= 0) && !this.explosionTriggered) {
-      this.explode();
+    if (this.archetype.canFly || this.isLevitating || this.isThrown) {
+      this.strideStart.copy(this.position);
+      return;
     }
-  }
 
-  private updateShieldedBehavior(playerPosition: THREE.Vector3, level: any, distance: number) {
-    // Shielded enemies always face the player
-    this.mesh.lookAt(playerPosition);
-    this.moveTowardsTarget(playerPosition, level, 1.0);
-    this.handleAttack(playerPosition, distance);
-    
-    // Update shield visibility based on health
-    if (this.shield) {
-      const shieldStrength = this.health / this.maxHealth;
-      (this.shield.material as THREE.MeshBasicMaterial).opacity = 0.2 + shieldStrength * 0.3;
-      this.shieldActive = shieldStrength > 0.3;
+    const dx = this.position.x - this.strideStart.x;
+    const dz = this.position.z - this.strideStart.z;
+    const strideLength = this.archetype.mesh.size * 1.4;
+    if (dx * dx + dz * dz >= strideLength * strideLength) {
+      this.strideStart.copy(this.position);
+      this.audioManager.playEnemySound(this.type, 'step', this.position);
     }
   }
 
-  private updateDroneBehavior(playerPosition: THREE.Vector3, level: any, distance: number) {
-    // Drones fly around and dive at the player
-    this.flyTarget = 2 + Math.sin(Date.now() * 0.001) * 1;
-    this.position.y += (this.flyTarget - this.position.y) * 0.02;
-    
-    if (distance > 4) {
-      this.moveTowardsTarget(playerPosition, level, 1.2);
-    } else {
-      // Dive attack pattern
-      if (this.moveTimer % 120 < 60) {
-        // Dive down
-        this.flyTarget = playerPosition.y + 0.5;
-        this.moveTowardsTarget(playerPosition, level, 1.5);
-      } else {
-        // Fly back up
-        this.flyTarget = playerPosition.y + 3 + Math.random() * 2;
-        const retreatDirection = this.position.clone().sub(playerPosition).normalize();
-        const retreatTarget = this.position.clone().add(retreatDirection.multiplyScalar(3));
-        retreatTarget.y = this.flyTarget;
-        this.moveTowardsTarget(retreatTarget, level, 1.0);
-      }
-    }
-
-    this.handleAttack(playerPosition, distance);
-    this.moveTimer++;
+  private stopHum() {
+    this.hum?.stop();
+    this.hum = null;
   }
 
-  private updateNormalBehavior(playerPosition: THREE.Vector3, level: any, distance: number, threatLevel: number) {
-    // Enhanced normal behavior with basic tactics
-    const speedMultiplier = 1.0 + (threatLevel * 0.01);
-    
-    if (distance > 10) {
-      // Use pathfinding for long distances
-      const target = this.updatePathfinding(playerPosition, level);
-      this.moveTowardsTarget(target, level, speedMultiplier);
-    } else {
-      // Direct movement for close combat
-      this.moveTowardsTarget(playerPosition, level, speedMultiplier);
-    }
-    
-    this.handleAttack(playerPosition, distance);
+  private updateBehavior(dt: number, playerPosition: THREE.Vector3, level?: any) {
+    const distance = this.position.distanceTo(playerPosition);
+    const threatLevel = AICoordinator.getInstance().getPlayerThreatLevel();
+    this.behavior(this, dt, playerPosition, level, distance, threatLevel);
   }
 
-  private moveTowardsTarget(target: THREE.Vector3, level: any, speedMultiplier: number = 1.0) {
-    this.moveTimer++;
+  public moveTowards(dt: number, target: THREE.Vector3, level: any, speedMultiplier: number = 1.0) {
+    this.moveTimer += dt;
     
-    if (this.moveTimer > 30) {
+    if (this.moveTimer > 1) {
       this.targetPosition = target.clone();
       this.moveTimer = 0;
     }
 
     const direction = this.targetPosition.clone().sub(this.position);
+    if (!this.archetype.canFly) {
+      direction.y = 0; // Walkers go where the ground takes them (see CharacterController.update)
+    }
     const distance = direction.length();
     
     if (distance > 1.5) {
-      direction.normalize();
-      const newPosition = this.position.clone().add(direction.multiplyScalar(this.speed * speedMultiplier));
+      const displacement = direction.normalize().multiplyScalar(this.speed * speedMultiplier * dt);
+      const newPosition = this.position.clone().add(displacement);
       
-      if (level && level.checkCollision) {
-        const enemyRadius = this.config.size * 0.6;
-        const enemyHeight = this.config.size * 1.6; // Enemy height
-        
-        if (!level.checkCollision(newPosition, enemyRadius, enemyHeight)) {
-          this.position.copy(newPosition);
-        } else {
-          this.handleObstacleAvoidance(direction, level, enemyRadius, enemyHeight, speedMultiplier);
-        }
-      } else {
-        this.position.copy(newPosition);
+      // Fliers change height freely; the controller only slides them sideways
+      this.position.y += displacement.y;
+      if (this.controller.move(this.position, displacement, level) && level) {
+        const enemyRadius = this.archetype.mesh.size * 0.6;
+        const enemyHeight = this.archetype.mesh.size * 1.6; // Enemy height
+        this.tryClimb(newPosition, level, enemyRadius, enemyHeight);
       }
       
-      if (!this.config.canFly) {
-        this.mesh.lookAt(this.targetPosition);
+      if (!this.archetype.canFly) {
+        this.faceTowards(this.targetPosition);
       }
     }
   }
 
-  private handleObstacleAvoidance(direction: THREE.Vector3, level: any, radius: number, height: number, speedMultiplier: number) {
-    const angles = [Math.PI / 4, -Math.PI / 4, Math.PI / 2, -Math.PI / 2];
-    
-    for (const angle of angles) {
-      const testDir = direction.clone();
-      testDir.applyAxisAngle(new THREE.Vector3(0, 1, 0), angle);
-      const testPos = this.position.clone().add(testDir.multiplyScalar(this.speed * speedMultiplier * 0.8));
-      
-      if (!level.checkCollision(testPos, radius, height)) {
-        this.position.copy(testPos);
-        return;
-      }
-    }
+  // Walkers hop up ledges no higher than CLIMB_HEIGHT if there's room to stand on top
+  private tryClimb(newPosition: THREE.Vector3, level: Level, radius: number, height: number): boolean {
+    if (this.archetype.canFly || !this.controller.isGrounded()) return false;
+
+    const probe = newPosition.clone();
+    probe.y = this.position.y + CLIMB_HEIGHT;
+    const ledge = level.getGroundHeight(probe, radius);
+    const rise = ledge - this.position.y;
+    if (rise <= STEP_HEIGHT || rise > CLIMB_HEIGHT) return false;
+
+    probe.y = ledge;
+    if (level.checkCollision(probe, radius, height, STEP_HEIGHT)) return false;
+
+    // Jump a little higher than the ledge so the feet clear its edge
+    this.controller.jump(Math.sqrt(2 * GRAVITY * (rise + 0.25)));
+    return true;
   }
 
-  private handleAttack(playerPosition: THREE.Vector3, distance: number) {
-    if (distance < this.config.attackRange && this.attackCooldown <= 0) {
+  public meleeAttack(dt: number, playerPosition: THREE.Vector3, distance: number) {
+    if (distance < this.archetype.stats.attackRange && this.attackCooldown <= 0) {
       this.attack();
-      this.attackCooldown = 60;
+      this.attackCooldown = 2;
     }
 
     if (this.attackCooldown > 0) {
-      this.attackCooldown--;
+      this.attackCooldown -= dt;
     }
   }
 
-  private handleThrowPhysics(level: any) {
-    const oldPosition = this.position.clone();
-    this.position.add(this.throwVelocity);
-    this.throwVelocity.multiplyScalar(0.95);
-    this.throwVelocity.y -= 0.01;
+  private handleThrowPhysics(dt: number, level: any) {
+    // Swept and slid like walking, so a hard throw glances off walls instead of passing through
+    // them; whatever part of the throw goes into a wall is lost
+    const displacement = this.throwVelocity.clone().multiplyScalar(dt);
+    this.position.y += displacement.y;
+    this.controller.move(this.position, displacement, level, this.throwVelocity);
+    this.throwVelocity.multiplyScalar(Math.pow(0.95, dt * 60));
+    this.throwVelocity.y -= GRAVITY * dt;
     
     // Check if enemy is stuck
-    this.stuckCheckTimer++;
-    if (this.stuckCheckTimer > 60) { // Check every second
+    this.stuckCheckTimer += dt;
+    if (this.stuckCheckTimer > 1) { // Check every second
       const distance = this.position.distanceTo(this.lastPosition);
-      if (distance < 0.1 && this.throwVelocity.length() < 0.05) {
+      if (distance < 0.1 && this.throwVelocity.length() < 3) {
         // Enemy is stuck, force it to stop being thrown
-        this.isThrown = false;
-        this.throwVelocity.set(0, 0, 0);
-        this.position.y = this.config.canFly ? this.flyHeight : 0.1;
-        this.findSafeLandingPosition(level);
-        this.stuckCheckTimer = 0;
+        this.endThrow(level);
         return;
       }
       this.lastPosition.copy(this.position);
       this.stuckCheckTimer = 0;
     }
     
-    const enemyRadius = this.config.size * 0.6;
-    const enemyHeight = this.config.size * 1.6;
-    
-    if (level && level.checkCollision && level.checkCollision(this.position, enemyRadius, enemyHeight)) {
-      this.position.copy(oldPosition);
-      this.findSafeLandingPosition(level);
-    }
-    
-    const groundLevel = this.config.canFly ? 0.1 : 0.1;
+    // Thrown enemies land on whatever is below them, platforms included
+    const enemyRadius = this.archetype.mesh.size * 0.6;
+    const groundLevel = level?.getGroundHeight ? level.getGroundHeight(this.position, enemyRadius) : 0.1;
     if (this.position.y <= groundLevel) {
-      this.position.y = groundLevel;
-      this.isThrown = false;
-      this.throwVelocity.set(0, 0, 0);
-      this.stuckCheckTimer = 0;
-      
-      if (level && level.checkCollision && level.checkCollision(this.position, enemyRadius, enemyHeight)) {
-        this.findSafeLandingPosition(level);
-      }
-      
+      this.endThrow(level);
       this.takeDamage(30);
-      this.mesh.rotation.set(0, this.mesh.rotation.y, 0);
     }
     
-    this.mesh.position.copy(this.position);
-    this.mesh.rotation.x += 0.2;
-    this.mesh.rotation.z += 0.15;
+    this.mesh.rotation.x += 12 * dt;
+    this.mesh.rotation.z += 9 * dt;
+  }
+
+  // Back on the ground (or at flying height) and under the enemy's own control
+  private endThrow(level: any) {
+    this.isThrown = false;
+    this.throwVelocity.set(0, 0, 0);
+    this.stuckCheckTimer = 0;
+    this.controller.reset();
+    if (this.archetype.canFly) {
+      this.position.y = this.flyHeight;
+    } else {
+      this.position.y = level?.getGroundHeight ? level.getGroundHeight(this.position, this.archetype.mesh.size * 0.6) : 0.1;
+    }
+    this.mesh.rotation.set(0, this.facing, 0);
   }
 
   private shootAtPlayer(playerPosition: THREE.Vector3) {
-    if (this.shootCooldown > 0) return;
+    const projectileConfig = this.archetype.projectile;
+    if (!projectileConfig || !this.projectileSystem) return;
 
-    if (this.config.shootsLaser) {
-      const laserMaterial = new THREE.MeshBasicMaterial({ color: 0xff00ff });
-      const laserGeometry = new THREE.CylinderGeometry(0.05, 0.05, 1);
-      const laserMesh = new THREE.Mesh(laserGeometry, laserMaterial);
-      
+    this.audioManager?.playEnemySound(this.type, 'shoot', this.position);
+
+    if (projectileConfig.type === 'laser') {
+      const laser = this.projectileSystem.acquire('enemyLaser');
       const direction = playerPosition.clone().sub(this.position).normalize();
       
-      laserMesh.position.copy(this.position).add(direction.clone().multiplyScalar(1.0));
-      laserMesh.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), direction);
-      
-      this.scene.add(laserMesh);
+      laser.position.copy(this.position).add(direction.clone().multiplyScalar(1.0));
+      laser.orientation.setFromUnitVectors(LASER_AXIS, direction);
+      laser.color.set(projectileConfig.color);
+      laser.velocity.copy(direction).multiplyScalar(projectileConfig.speed);
+      laser.damage = this.archetype.stats.damage;
+      laser.life = projectileConfig.lifetime;
       
-      this.lasers.push({
-        mesh: laserMesh,
-        velocity: direction.clone().multiplyScalar(0.8),
-        damage: this.config.damage,
-        life: 120,
-      });
+      this.lasers.push(laser);
     } else {
-      const projectileGeometry = new THREE.SphereGeometry(0.05, 8, 8);
-      const projectileMaterial = new THREE.MeshPhongMaterial({
-        color: 0xff4444,
-        emissive: 0xff0000,
-        emissiveIntensity: 0.5
-      });
-      const projectileMesh = new THREE.Mesh(projectileGeometry, projectileMaterial);
+      const projectile = this.projectileSystem.acquire('enemyBolt');
       
-      projectileMesh.position.copy(this.position);
-      projectileMesh.position.y += this.config.size * 0.5;
+      projectile.position.copy(this.position);
+      projectile.position.y += this.archetype.mesh.size * 0.5;
       
       const direction = playerPosition.clone().sub(this.position).normalize();
       direction.y += 0.1; // Slight upward aim
       
-      this.scene.add(projectileMesh);
-      
-      const projectile: EnemyProjectile = {
-        mesh: projectileMesh,
-        velocity: direction.multiplyScalar(0.3),
-        damage: this.config.damage,
-        life: 180 // 3 seconds
-      };
+      projectile.color.set(projectileConfig.color);
+      projectile.velocity.copy(direction).multiplyScalar(projectileConfig.speed);
+      projectile.damage = this.archetype.stats.damage;
+      projectile.life = projectileConfig.lifetime;
       
       this.projectiles.push(projectile);
     }
-    
-    this.shootCooldown = this.config.shootCooldown!;
   }
 
-  private updateProjectiles() {
+  private updateProjectiles(dt: number) {
     for (let i = this.projectiles.length - 1; i >= 0; i--) {
       const projectile = this.projectiles[i];
       
-      projectile.mesh.position.add(projectile.velocity);
-      projectile.life--;
+      projectile.position.addScaledVector(projectile.velocity, dt);
+      projectile.life -= dt;
       
       if (projectile.life <= 0) {
-        this.scene.remove(projectile.mesh);
-        projectile.mesh.geometry.dispose();
-        (projectile.mesh.material as THREE.Material).dispose();
+        this.projectileSystem?.release(projectile);
         this.projectiles.splice(i, 1);
       }
     }
   }
 
-  private updateLasers(playerPosition: THREE.Vector3) {
+  private updateLasers(dt: number) {
     for (let i = this.lasers.length - 1; i >= 0; i--) {
       const laser = this.lasers[i];
-      laser.mesh.position.add(laser.velocity);
-      laser.life--;
+      laser.position.addScaledVector(laser.velocity, dt);
+      laser.life -= dt;
 
       if (laser.life <= 0) {
-        this.scene.remove(laser.mesh);
-        (laser.mesh.geometry as THREE.BufferGeometry).dispose();
-        (laser.mesh.material as THREE.Material).dispose();
-        this.lasers.splice(i, 1);
-        continue;
-      }
-
-      if (laser.mesh.position.distanceTo(playerPosition) < 1) {
-        // We will handle damage in checkProjectileOrLaserHit
-        this.scene.remove(laser.mesh);
-        (laser.mesh.geometry as THREE.BufferGeometry).dispose();
-        (laser.mesh.material as THREE.Material).dispose();
+        this.projectileSystem?.release(laser);
         this.lasers.splice(i, 1);
       }
+      // Hits on the player are removed by checkProjectileOrLaserHit, which also applies the damage
     }
   }
 
-  private explode() {
+  public explode() {
     if (this.explosionTriggered) return;
     this.explosionTriggered = true;
 
@@ -1050,56 +1019,8 @@ export class Enemy {
   }
 
   private createExplosionEffect() {
-    const particleCount = 100;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
-
-    for (let i = 0; i < particleCount; i++) {
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      const radius = Math.random() * 3;
-
-      positions[i * 3] = Math.sin(phi) * Math.cos(theta) * radius;
-      positions[i * 3 + 1] = Math.cos(phi) * radius;
-      positions[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * radius;
-
-      colors[i * 3] = 1;
-      colors[i * 3 + 1] = Math.random() * 0.5;
-      colors[i * 3 + 2] = 0;
-    }
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.2,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1,
-      blending: THREE.AdditiveBlending
-    });
-
-    const explosion = new THREE.Points(geometry, material);
-    explosion.position.copy(this.position);
-    this.scene.add(explosion);
-
-    // Animate explosion
-    let scale = 0;
-    const animate = () => {
-      scale += 0.1;
-      explosion.scale.setScalar(scale);
-      material.opacity = Math.max(0, 1 - scale * 0.5);
-      
-      if (scale < 3) {
-        requestAnimationFrame(animate);
-      } else {
-        this.scene.remove(explosion);
-        geometry.dispose();
-        material.dispose();
-      }
-    };
-    animate();
+    this.particleSystem?.createExplosionBurst(this.position);
+    this.audioManager?.playEnemySound(this.type, 'explode', this.position);
   }
 
   private attack() {
@@ -1111,40 +1032,8 @@ export class Enemy {
     }, 200);
   }
 
-  private findSafeLandingPosition(level: any) {
-    if (!level || !level.checkCollision) return;
-    
-    const enemyRadius = this.config.size * 0.6;
-    const enemyHeight = this.config.size * 1.6;
-    
-    for (let radius = 1; radius <= 5; radius++) {
-      for (let angle = 0; angle < Math.PI * 2; angle += Math.PI / 8) {
-        const testX = this.position.x + Math.cos(angle) * radius;
-        const testZ = this.position.z + Math.sin(angle) * radius;
-        const testPosition = new THREE.Vector3(testX, this.config.canFly ? this.flyHeight : 0.1, testZ);
-        
-        if (!level.checkCollision(testPosition, enemyRadius, enemyHeight)) {
-          this.position.copy(testPosition);
-          return;
-        }
-      }
-    }
-    
-    // If all else fails, move to a safe default position
-    this.position.set(
-      (Math.random() - 0.5) * 20, // Random X within arena
-      this.config.canFly ? this.flyHeight : 0.1,
-      (Math.random() - 0.5) * 20  // Random Z within arena
-    );
-    
-    // Ensure we're not outside arena bounds
-    this.position.x = Math.max(-24, Math.min(24, this.position.x));
-    this.position.z = Math.max(-24, Math.min(24, this.position.z));
-    this.position.y = this.config.canFly ? this.flyHeight : 0.1;
-  }
-
   public takeDamage(amount: number, fromFront: boolean = true) {
-    this.aiState.lastDamageTime = Date.now();
+    this.aiState.lastDamageTime = this.time;
     this.aiState.alertLevel = Math.min(100, this.aiState.alertLevel + 25);
     
     // Alert nearby enemies when taking damage
@@ -1152,7 +1041,7 @@ export class Enemy {
     AICoordinator.getInstance().updatePlayerThreatLevel('damage');
     
     // Shield protection for shielded enemies
-    if (this.config.hasShield && this.shieldActive && fromFront) {
+    if (this.archetype.hasShield && this.shieldActive && fromFront) {
       amount *= 0.2; // 80% damage reduction from front
       
       // Shield flash effect
@@ -1166,7 +1055,12 @@ export class Enemy {
       }
     }
 
+    const wasAlive = this.isAlive();
     this.health = Math.max(0, this.health - amount);
+    if (wasAlive && !this.isAlive()) {
+      this.audioManager?.playEnemySound(this.type, 'death', this.position);
+      this.stopHum();
+    }
     
     // Damage flash effect
     this.mesh.children.forEach(child => {
@@ -1182,7 +1076,7 @@ export class Enemy {
     });
 
     // Exploder special behavior
-    if (this.type === 'exploder' && this.health <= this.maxHealth * 0.3 && !this.explosionTriggered) {
+    if (this.archetype.explosionRadius && this.health <= this.maxHealth * 0.3 && !this.explosionTriggered) {
       this.explode();
     }
     
@@ -1194,11 +1088,9 @@ export class Enemy {
     // Check projectile hits
     for (let i = this.projectiles.length - 1; i >= 0; i--) {
       const projectile = this.projectiles[i];
-      if (projectile.mesh.position.distanceTo(playerPosition) < playerRadius) {
+      if (projectile.position.distanceTo(playerPosition) < playerRadius) {
         this.projectiles.splice(i, 1);
-        this.scene.remove(projectile.mesh);
-        (projectile.mesh.geometry as THREE.BufferGeometry).dispose();
-        (projectile.mesh.material as THREE.Material).dispose();
+        this.projectileSystem?.release(projectile);
         return true;
       }
     }
@@ -1206,11 +1098,9 @@ export class Enemy {
     // Check laser hits
     for (let i = this.lasers.length - 1; i >= 0; i--) {
       const laser = this.lasers[i];
-      if (laser.mesh.position.distanceTo(playerPosition) < playerRadius) {
+      if (laser.position.distanceTo(playerPosition) < playerRadius) {
         this.lasers.splice(i, 1);
-        this.scene.remove(laser.mesh);
-        (laser.mesh.geometry as THREE.BufferGeometry).dispose();
-        (laser.mesh.material as THREE.Material).dispose();
+        this.projectileSystem?.release(laser);
         return true;
       }
     }
@@ -1218,30 +1108,52 @@ export class Enemy {
   }
 
   public getExplosionDamage(playerPosition: THREE.Vector3): number {
-    if (this.type !== 'exploder' || !this.explosionTriggered) return 0;
+    const radius = this.archetype.explosionRadius;
+    if (!radius || !this.explosionTriggered) return 0;
     
     const distance = this.position.distanceTo(playerPosition);
-    if (distance > this.config.explosionRadius!) return 0;
+    if (distance > radius) return 0;
     
-    const damageRatio = 1 - (distance / this.config.explosionRadius!);
+    const damageRatio = 1 - (distance / radius);
     return Math.floor(50 * damageRatio); // Max 50 explosion damage
   }
 
+  // Push away from the blast for something at position, fading to nothing at the edge
+  public getExplosionImpulse(position: THREE.Vector3): THREE.Vector3 | null {
+    const radius = this.archetype.explosionRadius;
+    if (!radius || !this.explosionTriggered) return null;
+    
+    const distance = this.position.distanceTo(position);
+    if (distance > radius) return null;
+    
+    const strength = EXPLOSION_KNOCKBACK * (1 - distance / radius);
+    const impulse = new THREE.Vector3(position.x - this.position.x, 0, position.z - this.position.z);
+    if (impulse.lengthSq() > 0) impulse.normalize().multiplyScalar(strength);
+    impulse.y = strength * 0.4;
+    return impulse;
+  }
+
+  // Knockback from hits and blasts; levitated and thrown enemies are moved by the throw instead
+  public applyImpulse(impulse: THREE.Vector3) {
+    if (this.isLevitating || this.isThrown) return;
+    this.controller.applyImpulse(impulse);
+  }
+
   public levitate() {
     this.isLevitating = true;
     this.isThrown = false;
+    this.controller.reset();
   }
 
   public throw(direction: THREE.Vector3) {
     this.isLevitating = false;
     this.isThrown = true;
-    this.throwVelocity = direction.normalize().multiplyScalar(0.3);
-    this.throwVelocity.y = 0.1;
+    this.throwVelocity = direction.normalize().multiplyScalar(18);
+    this.throwVelocity.y = 6;
   }
 
   public setPosition(position: THREE.Vector3) {
     this.position.copy(position);
-    this.mesh.position.copy(position);
   }
 
   public getPosition(): THREE.Vector3 {
@@ -1252,8 +1164,25 @@ export class Enemy {
     return this.type;
   }
 
+  public getArchetype(): EnemyArchetype {
+    return this.archetype;
+  }
+
+  public getBoss(): BossController | null {
+    return this.boss;
+  }
+
+  // How close a player laser has to get to count as a hit
+  public getHitRadius(): number {
+    return Math.max(1.5, this.archetype.mesh.size * 0.9);
+  }
+
+  public getWeakPointMultiplier(from: THREE.Vector3, to: THREE.Vector3): number {
+    return this.boss?.getWeakPointMultiplier(from, to, this.position, this.facing) ?? 1;
+  }
+
   public getDamage(): number {
-    return this.config.damage;
+    return this.archetype.stats.damage;
   }
 
   public isAlive(): boolean {
@@ -1265,13 +1194,14 @@ export class Enemy {
   }
 
   public cleanup(scene: THREE.Scene) {
-    // Clean up projectiles
-    this.projectiles.forEach(projectile => {
-      scene.remove(projectile.mesh);
-      projectile.mesh.geometry.dispose();
-      (projectile.mesh.material as THREE.Material).dispose();
-    });
+    this.boss?.cleanup();
+    this.stopHum();
+
+    // Shots still in flight go back to the pool along with their shooter
+    this.projectiles.forEach(projectile => this.projectileSystem?.release(projectile));
+    this.lasers.forEach(laser => this.projectileSystem?.release(laser));
     this.projectiles = [];
+    this.lasers = [];
 
     scene.remove(this.mesh);
     
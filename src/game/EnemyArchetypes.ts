@@ -0,0 +1,278 @@
+import { hasEnemyBehavior } from './EnemyBehaviors';
+import { BOSS_ATTACKS, BossConfig } from './BossController';
+import { POWER_UP_TYPES } from './PowerUp';
+import normal from './archetypes/normal.json' with { type: 'json' };
+import scout from './archetypes/scout.json' with { type: 'json' };
+import heavy from './archetypes/heavy.json' with { type: 'json' };
+import ranged from './archetypes/ranged.json' with { type: 'json' };
+import drone from './archetypes/drone.json' with { type: 'json' };
+import exploder from './archetypes/exploder.json' with { type: 'json' };
+import shielded from './archetypes/shielded.json' with { type: 'json' };
+import laserTrooper from './archetypes/laser_trooper.json' with { type: 'json' };
+import overlord from './archetypes/overlord.json' with { type: 'json' };
+
+export interface EnemyProjectileConfig {
+  type: 'bolt' | 'laser';
+  range: number;
+  cooldown: number; // seconds
+  speed: number; // units per second
+  lifetime: number; // seconds
+  color: string;
+  chargeTime?: number; // seconds of visible wind-up before firing
+  burst?: number; // Shots per volley after a charge (default 1)
+  burstInterval?: number; // seconds between shots of a burst
+}
+
+export interface EnemyArchetype {
+  id: string;
+  name: string;
+  behavior: string; // Name of a registered EnemyBehavior
+  stats: {
+    maxHealth: number;
+    speed: number; // units per second
+    damage: number;
+    attackRange: number;
+  };
+  mesh: {
+    model: 'robot' | 'drone' | 'trooper';
+    size: number;
+    color: string;
+  };
+  projectile?: EnemyProjectileConfig;
+  explosionRadius?: number;
+  hasShield?: boolean;
+  canFly?: boolean;
+  boss?: BossConfig; // Phases, special attacks, weak points and drop
+  hud: {
+    icon: string;
+    minimapColor: string;
+  };
+  spawn: {
+    unlockWave: number | null; // null: never picked by the wave director's budget
+    weight: number; // Relative chance of being picked once unlocked
+    cost: number; // Threat budget one enemy uses up
+  };
+}
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks parsed JSON against the archetype schema. Every problem is collected so a broken
+ * file can be fixed in one pass; the thrown error names the source file.
+ */
+export function validateEnemyArchetype(data: unknown, source: string): EnemyArchetype {
+  const problems: string[] = [];
+
+  const expectString = (parent: Record<string, unknown>, path: string, key: string) => {
+    const value = parent[key];
+    if (typeof value !== 'string' || value.length === 0) {
+      problems.push(`${path}${key} must be a non-empty string`);
+    }
+  };
+  const expectNumber = (parent: Record<string, unknown>, path: string, key: string, min = 0) => {
+    const value = parent[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+      problems.push(`${path}${key} must be a number >= ${min}`);
+    }
+  };
+  const expectColor = (parent: Record<string, unknown>, path: string, key: string) => {
+    const value = parent[key];
+    if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+      problems.push(`${path}${key} must be a color like "#ff4444"`);
+    }
+  };
+  const expectOneOf = (parent: Record<string, unknown>, path: string, key: string, options: string[]) => {
+    const value = parent[key];
+    if (typeof value !== 'string' || !options.includes(value)) {
+      problems.push(`${path}${key} must be one of ${options.map(option => `"${option}"`).join(', ')}`);
+    }
+  };
+  const expectSection = (parent: Record<string, unknown>, key: string, optional = false) => {
+    const value = parent[key];
+    if (value === undefined && optional) return null;
+    if (!isObject(value)) {
+      problems.push(`${key} must be an object`);
+      return null;
+    }
+    return value;
+  };
+
+  if (!isObject(data)) {
+    throw new Error(`Invalid enemy archetype in ${source}: expected a JSON object`);
+  }
+
+  expectString(data, '', 'id');
+  expectString(data, '', 'name');
+  expectString(data, '', 'behavior');
+  if (typeof data.behavior === 'string' && data.behavior && !hasEnemyBehavior(data.behavior)) {
+    problems.push(`behavior "${data.behavior}" is not a registered enemy behavior`);
+  }
+
+  const stats = expectSection(data, 'stats');
+  if (stats) {
+    expectNumber(stats, 'stats.', 'maxHealth', 1);
+    expectNumber(stats, 'stats.', 'speed');
+    expectNumber(stats, 'stats.', 'damage');
+    expectNumber(stats, 'stats.', 'attackRange');
+  }
+
+  const mesh = expectSection(data, 'mesh');
+  if (mesh) {
+    expectOneOf(mesh, 'mesh.', 'model', ['robot', 'drone', 'trooper']);
+    expectNumber(mesh, 'mesh.', 'size', 0.1);
+    expectColor(mesh, 'mesh.', 'color');
+  }
+
+  const projectile = expectSection(data, 'projectile', true);
+  if (projectile) {
+    expectOneOf(projectile, 'projectile.', 'type', ['bolt', 'laser']);
+    expectNumber(projectile, 'projectile.', 'range');
+    expectNumber(projectile, 'projectile.', 'cooldown');
+    expectNumber(projectile, 'projectile.', 'speed');
+    expectNumber(projectile, 'projectile.', 'lifetime');
+    expectColor(projectile, 'projectile.', 'color');
+    if (projectile.chargeTime !== undefined) expectNumber(projectile, 'projectile.', 'chargeTime');
+    if (projectile.burst !== undefined) expectNumber(projectile, 'projectile.', 'burst', 1);
+    if (projectile.burstInterval !== undefined) expectNumber(projectile, 'projectile.', 'burstInterval');
+  }
+
+  if (data.explosionRadius !== undefined) expectNumber(data, '', 'explosionRadius', 0.1);
+  for (const flag of ['hasShield', 'canFly']) {
+    if (data[flag] !== undefined && typeof data[flag] !== 'boolean') {
+      problems.push(`${flag} must be a boolean`);
+    }
+  }
+
+  const boss = expectSection(data, 'boss', true);
+  if (boss) {
+    validateBoss(boss, problems);
+  }
+
+  const hud = expectSection(data, 'hud');
+  if (hud) {
+    expectString(hud, 'hud.', 'icon');
+    expectColor(hud, 'hud.', 'minimapColor');
+  }
+
+  const spawn = expectSection(data, 'spawn');
+  if (spawn) {
+    if (spawn.unlockWave !== null && !(Number.isInteger(spawn.unlockWave) && (spawn.unlockWave as number) >= 1)) {
+      problems.push('spawn.unlockWave must be a wave number >= 1 or null');
+    }
+    expectNumber(spawn, 'spawn.', 'weight');
+    expectNumber(spawn, 'spawn.', 'cost', 1);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid enemy archetype in ${source}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return data as unknown as EnemyArchetype;
+}
+
+function validateBoss(boss: Record<string, unknown>, problems: string[]) {
+  const expectNumbers = (parent: unknown, path: string, keys: string[]) => {
+    if (!isObject(parent)) {
+      problems.push(`${path} must be an object`);
+      return;
+    }
+    for (const key of keys) {
+      const value = parent[key];
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        problems.push(`${path}.${key} must be a number >= 0`);
+      }
+    }
+  };
+
+  const usedAttacks = new Set<string>();
+  if (!Array.isArray(boss.phases) || boss.phases.length === 0) {
+    problems.push('boss.phases must be a non-empty array');
+  } else {
+    boss.phases.forEach((phase: unknown, index) => {
+      const path = `boss.phases[${index}]`;
+      expectNumbers(phase, path, ['healthAbove', 'speedMultiplier', 'attackInterval']);
+      if (!isObject(phase)) return;
+      if (!Array.isArray(phase.attacks) || phase.attacks.length === 0) {
+        problems.push(`${path}.attacks must be a non-empty array`);
+        return;
+      }
+      for (const attack of phase.attacks) {
+        if (!BOSS_ATTACKS.includes(attack)) {
+          problems.push(`${path}.attacks: "${attack}" is not one of ${BOSS_ATTACKS.join(', ')}`);
+        } else {
+          usedAttacks.add(attack);
+        }
+      }
+    });
+  }
+
+  // Every attack a phase can pick needs its settings
+  if (usedAttacks.has('slam')) {
+    expectNumbers(boss.slam, 'boss.slam', ['radius', 'damage', 'telegraph']);
+  }
+  if (usedAttacks.has('laserSweep')) {
+    expectNumbers(boss.laserSweep, 'boss.laserSweep', ['range', 'arc', 'duration', 'damagePerSecond', 'telegraph']);
+  }
+  if (usedAttacks.has('summon')) {
+    expectNumbers(boss.summon, 'boss.summon', ['count', 'telegraph']);
+    const type = isObject(boss.summon) ? boss.summon.type : undefined;
+    if (typeof type !== 'string' || !archetypes.has(type)) {
+      problems.push(`boss.summon.type must name an enemy archetype registered before this one`);
+    }
+  }
+
+  if (!Array.isArray(boss.weakPoints)) {
+    problems.push('boss.weakPoints must be an array');
+  } else {
+    boss.weakPoints.forEach((weakPoint: unknown, index) => {
+      const path = `boss.weakPoints[${index}]`;
+      expectNumbers(weakPoint, path, ['radius', 'damageMultiplier']);
+      const offset = isObject(weakPoint) ? weakPoint.offset : undefined;
+      if (!Array.isArray(offset) || offset.length !== 3 || offset.some(value => typeof value !== 'number')) {
+        problems.push(`${path}.offset must be an [x, y, z] array of numbers`);
+      }
+    });
+  }
+
+  if (typeof boss.drop !== 'string' || !(POWER_UP_TYPES as string[]).includes(boss.drop)) {
+    problems.push(`boss.drop must be one of ${POWER_UP_TYPES.map(type => `"${type}"`).join(', ')}`);
+  }
+}
+
+const archetypes = new Map<string, EnemyArchetype>();
+
+export function registerEnemyArchetype(data: unknown, source: string): EnemyArchetype {
+  const archetype = validateEnemyArchetype(data, source);
+  if (archetypes.has(archetype.id)) {
+    throw new Error(`Duplicate enemy archetype "${archetype.id}" in ${source}`);
+  }
+  archetypes.set(archetype.id, archetype);
+  return archetype;
+}
+
+export function getEnemyArchetype(id: string): EnemyArchetype {
+  const archetype = archetypes.get(id);
+  if (!archetype) {
+    throw new Error(`Unknown enemy archetype "${id}"`);
+  }
+  return archetype;
+}
+
+// In registration order
+export function getEnemyArchetypes(): EnemyArchetype[] {
+  return Array.from(archetypes.values());
+}
+
+registerEnemyArchetype(normal, 'archetypes/normal.json');
+registerEnemyArchetype(scout, 'archetypes/scout.json');
+registerEnemyArchetype(heavy, 'archetypes/heavy.json');
+registerEnemyArchetype(ranged, 'archetypes/ranged.json');
+registerEnemyArchetype(drone, 'archetypes/drone.json');
+registerEnemyArchetype(exploder, 'archetypes/exploder.json');
+registerEnemyArchetype(shielded, 'archetypes/shielded.json');
+registerEnemyArchetype(laserTrooper, 'archetypes/laser_trooper.json');
+registerEnemyArchetype(overlord, 'archetypes/overlord.json');
@@ -0,0 +1,282 @@
+import * as THREE from 'three';
+import { AIState } from './AIBehavior';
+import { SeededRandom } from './SeededRandom';
+import { Level } from './Level';
+import { BossController } from './BossController';
+
+/**
+ * What a behaviour module may ask of the enemy it drives. Enemy implements this; behaviours
+ * only decide where to move and when to attack, the enemy owns the mechanics.
+ */
+export interface EnemyBehaviorContext {
+  getId(): string;
+  getPosition(): THREE.Vector3;
+  getAIState(): AIState;
+  getTime(): number; // Simulated seconds since spawn
+  getHealthFraction(): number;
+  getRandom(): SeededRandom;
+  getExplosionRadius(): number;
+  isExploding(): boolean;
+  getMoveTimer(): number;
+  advanceMoveTimer(dt: number): void;
+  pathTo(target: THREE.Vector3, level: Level | undefined): THREE.Vector3; // Next waypoint towards target
+  moveTowards(dt: number, target: THREE.Vector3, level: Level | undefined, speedMultiplier?: number): void;
+  evade(dt: number, playerPosition: THREE.Vector3): THREE.Vector3; // Sidestep target
+  findCover(playerPosition: THREE.Vector3, level: Level | undefined): THREE.Vector3 | null;
+  canSeePlayer(playerPosition: THREE.Vector3, level: Level | undefined): boolean;
+  faceTowards(target: THREE.Vector3): void;
+  flyTowardsHeight(dt: number, height: number): void;
+  meleeAttack(dt: number, playerPosition: THREE.Vector3, distance: number): void;
+  updateShooting(dt: number, distance: number, threatLevel: number, hasLineOfSight: boolean): void;
+  isChargingShot(): boolean;
+  updateShield(): void;
+  explode(): void;
+  getBoss(): BossController | null;
+}
+
+// Called on behaviour ticks with the distance to the player and the coordinator's threat level
+export type EnemyBehavior = (
+  enemy: EnemyBehaviorContext,
+  dt: number,
+  playerPosition: THREE.Vector3,
+  level: Level | undefined,
+  distance: number,
+  threatLevel: number
+) => void;
+
+const behaviors = new Map<string, EnemyBehavior>();
+
+export function registerEnemyBehavior(name: string, behavior: EnemyBehavior) {
+  if (behaviors.has(name)) {
+    throw new Error(`Enemy behavior "${name}" is already registered`);
+  }
+  behaviors.set(name, behavior);
+}
+
+export function hasEnemyBehavior(name: string): boolean {
+  return behaviors.has(name);
+}
+
+export function getEnemyBehavior(name: string): EnemyBehavior {
+  const behavior = behaviors.get(name);
+  if (!behavior) {
+    throw new Error(`Unknown enemy behavior "${name}"`);
+  }
+  return behavior;
+}
+
+const normalBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance, threatLevel) => {
+  // Enhanced normal behavior with basic tactics
+  const speedMultiplier = 1.0 + (threatLevel * 0.01);
+
+  if (distance > 10) {
+    // Use pathfinding for long distances
+    const target = enemy.pathTo(playerPosition, level);
+    enemy.moveTowards(dt, target, level, speedMultiplier);
+  } else {
+    // Direct movement for close combat
+    enemy.moveTowards(dt, playerPosition, level, speedMultiplier);
+  }
+
+  enemy.meleeAttack(dt, playerPosition, distance);
+};
+
+const scoutBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance) => {
+  // Enhanced scout behavior with evasion and flanking
+  const alertLevel = enemy.getAIState().alertLevel;
+
+  if (distance > 12) {
+    // Close distance quickly
+    const target = enemy.pathTo(playerPosition, level);
+    enemy.moveTowards(dt, target, level, 1.8);
+  } else if (distance < 2 || (alertLevel > 70 && distance < 4)) {
+    // Retreat or evade
+    const evasionTarget = enemy.evade(dt, playerPosition);
+    enemy.moveTowards(dt, evasionTarget, level, 2.0);
+  } else {
+    // Aggressive flanking
+    const time = enemy.getTime();
+    const flankAngle = time * 2 + enemy.getId().length; // Unique per enemy
+    const flankRadius = 4 + Math.sin(time) * 2;
+    const flankTarget = new THREE.Vector3(
+      playerPosition.x + Math.cos(flankAngle) * flankRadius,
+      enemy.getPosition().y,
+      playerPosition.z + Math.sin(flankAngle) * flankRadius
+    );
+    const target = enemy.pathTo(flankTarget, level);
+    enemy.moveTowards(dt, target, level, 1.4);
+  }
+
+  enemy.meleeAttack(dt, playerPosition, distance);
+};
+
+const heavyBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance) => {
+  // Heavy enemies use cover and coordinated attacks
+  const aiState = enemy.getAIState();
+
+  if (distance > 15) {
+    // Close distance using pathfinding
+    const target = enemy.pathTo(playerPosition, level);
+    enemy.moveTowards(dt, target, level, 0.9);
+  } else if (enemy.getHealthFraction() < 0.4) {
+    // Seek cover when damaged
+    if (!aiState.coverPosition) {
+      aiState.coverPosition = enemy.findCover(playerPosition, level);
+    }
+
+    if (aiState.coverPosition) {
+      const target = enemy.pathTo(aiState.coverPosition, level);
+      enemy.moveTowards(dt, target, level, 1.2);
+
+      // Clear cover position when reached
+      if (enemy.getPosition().distanceTo(aiState.coverPosition) < 2) {
+        aiState.coverPosition = null;
+      }
+    } else {
+      enemy.moveTowards(dt, playerPosition, level, 0.8);
+    }
+  } else {
+    // Aggressive advance
+    const target = enemy.pathTo(playerPosition, level);
+    enemy.moveTowards(dt, target, level, 1.0);
+  }
+
+  enemy.meleeAttack(dt, playerPosition, distance);
+};
+
+const rangedBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance, threatLevel) => {
+  // Enhanced ranged behavior with predictive shooting and cover usage
+  const aiState = enemy.getAIState();
+  const optimalRange = 8 + threatLevel * 0.05; // Increase range with threat
+  const hasLineOfSight = enemy.canSeePlayer(playerPosition, level);
+  const badlyHurt = enemy.getHealthFraction() < 0.5;
+
+  if (!hasLineOfSight || distance > optimalRange + 3) {
+    // Move to get line of sight or close distance
+    const target = enemy.pathTo(playerPosition, level);
+    enemy.moveTowards(dt, target, level, 1.2);
+  } else if (distance < optimalRange - 3 || badlyHurt) {
+    // Retreat to optimal range or seek cover
+    if (badlyHurt && !aiState.coverPosition) {
+      aiState.coverPosition = enemy.findCover(playerPosition, level);
+    }
+
+    if (aiState.coverPosition && badlyHurt) {
+      const target = enemy.pathTo(aiState.coverPosition, level);
+      enemy.moveTowards(dt, target, level, 1.4);
+    } else {
+      const evasionTarget = enemy.evade(dt, playerPosition);
+      enemy.moveTowards(dt, evasionTarget, level, 1.2);
+    }
+  } else {
+    // Maintain position and strafe
+    if (aiState.evasionCooldown <= 0) {
+      const evasionTarget = enemy.evade(dt, playerPosition);
+      enemy.moveTowards(dt, evasionTarget, level, 0.8);
+    }
+  }
+
+  // Shoot at player
+  enemy.updateShooting(dt, distance, threatLevel, hasLineOfSight);
+
+  enemy.meleeAttack(dt, playerPosition, distance);
+  enemy.advanceMoveTimer(dt);
+};
+
+const exploderBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance) => {
+  // Exploder bots rush towards the player
+  enemy.moveTowards(dt, playerPosition, level, 1.5);
+
+  // Explode when close or when dying
+  if ((distance < enemy.getExplosionRadius() || enemy.getHealthFraction() <= 0) && !enemy.isExploding()) {
+    enemy.explode();
+  }
+};
+
+const shieldedBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance) => {
+  // Shielded enemies always face the player
+  enemy.faceTowards(playerPosition);
+  enemy.moveTowards(dt, playerPosition, level, 1.0);
+  enemy.meleeAttack(dt, playerPosition, distance);
+
+  // Update shield visibility based on health
+  enemy.updateShield();
+};
+
+const droneBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance) => {
+  // Drones fly around and dive at the player
+  enemy.flyTowardsHeight(dt, 2 + Math.sin(enemy.getTime()) * 1);
+
+  if (distance > 4) {
+    enemy.moveTowards(dt, playerPosition, level, 1.2);
+  } else {
+    // Dive attack pattern
+    if (enemy.getMoveTimer() % 4 < 2) {
+      // Dive down
+      enemy.moveTowards(dt, playerPosition, level, 1.5);
+    } else {
+      // Fly back up
+      const position = enemy.getPosition();
+      const retreatDirection = position.clone().sub(playerPosition).normalize();
+      const retreatTarget = position.clone().add(retreatDirection.multiplyScalar(3));
+      retreatTarget.y = playerPosition.y + 3 + enemy.getRandom().next() * 2;
+      enemy.moveTowards(dt, retreatTarget, level, 1.0);
+    }
+  }
+
+  enemy.meleeAttack(dt, playerPosition, distance);
+  enemy.advanceMoveTimer(dt);
+};
+
+const laserTrooperBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance, threatLevel) => {
+  // Laser troopers plant themselves to charge a burst, and reposition whenever they lose sight
+  const hasLineOfSight = enemy.canSeePlayer(playerPosition, level);
+  const position = enemy.getPosition();
+
+  if (enemy.isChargingShot()) {
+    enemy.faceTowards(new THREE.Vector3(playerPosition.x, position.y, playerPosition.z));
+  } else if (!hasLineOfSight || distance > 18) {
+    // Work around cover (or close in) until there's a clear shot
+    const target = enemy.pathTo(playerPosition, level);
+    enemy.moveTowards(dt, target, level, 1.1);
+  } else if (distance < 8) {
+    // Too close for comfort, back off sideways
+    const evasionTarget = enemy.evade(dt, playerPosition);
+    enemy.moveTowards(dt, evasionTarget, level, 1.3);
+  } else {
+    // Slow strafe between volleys
+    const evasionTarget = enemy.evade(dt, playerPosition);
+    enemy.moveTowards(dt, evasionTarget, level, 0.6);
+  }
+
+  enemy.updateShooting(dt, distance, threatLevel, hasLineOfSight);
+  enemy.meleeAttack(dt, playerPosition, distance);
+};
+
+const bossBehavior: EnemyBehavior = (enemy, dt, playerPosition, level, distance) => {
+  // Bosses advance steadily and stand their ground while winding up a special attack
+  const boss = enemy.getBoss();
+  if (!boss) return;
+
+  boss.update(dt, enemy.getPosition(), enemy.getHealthFraction(), playerPosition);
+
+  if (!boss.isChanneling()) {
+    const target = distance > 10 ? enemy.pathTo(playerPosition, level) : playerPosition;
+    enemy.moveTowards(dt, target, level, boss.getSpeedMultiplier());
+  } else {
+    const position = enemy.getPosition();
+    enemy.faceTowards(new THREE.Vector3(playerPosition.x, position.y, playerPosition.z));
+  }
+
+  enemy.meleeAttack(dt, playerPosition, distance);
+};
+
+registerEnemyBehavior('normal', normalBehavior);
+registerEnemyBehavior('scout', scoutBehavior);
+registerEnemyBehavior('heavy', heavyBehavior);
+registerEnemyBehavior('ranged', rangedBehavior);
+registerEnemyBehavior('exploder', exploderBehavior);
+registerEnemyBehavior('shielded', shieldedBehavior);
+registerEnemyBehavior('drone', droneBehavior);
+registerEnemyBehavior('laser_trooper', laserTrooperBehavior);
+registerEnemyBehavior('boss', bossBehavior);
@@ -1,14 +1,20 @@
 import * as THREE from 'three';
-import { Player } from './Player';
-import { Enemy } from './Enemy';
-import { Level } from './Level';
-import { PowerUp } from './PowerUp';
-import { ParticleSystem } from './ParticleSystem';
 import { WeaponType } from './Player';
-import { EnemyType } from './Enemy';
-import { ThrowableBox } from './ThrowableBox';
 import { AudioManager } from './AudioManager';
-import { AICoordinator, PathFinder } from './AIBehavior';
+import { MusicDirector } from './MusicDirector';
+import { AICoordinator } from './AIBehavior';
+import { GameSimulation, FIXED_TIME_STEP } from './GameSimulation';
+import { DomInputAdapter } from './DomInputAdapter';
+import { DEFAULT_GAMEPAD_SETTINGS, GamepadInputAdapter } from './GamepadInputAdapter';
+import { TouchInputAdapter } from './TouchInputAdapter';
+import { ReplayData } from './Replay';
+import { applyShadowMapSize, createRenderer, setupSceneLighting } from './SceneSetup';
+import { SHADOW_MAP_SIZES, Settings, SettingsValues } from './Settings';
+import { QualityGovernor, QualityStats } from './QualityGovernor';
+import { PoolStats } from './ObjectPool';
+import { Enemy } from './Enemy';
+import { WaveEvent } from './WaveDirector';
+import { LevelDefinition } from './LevelDefinitions';
 
 interface GameCallbacks {
   onHealthChange: (health: number) => void;
@@ -18,665 +24,265 @@ interface GameCallbacks {
   onWeaponChange: (weapon: WeaponType) => void;
   onWaveComplete: (wave: number) => void;
   onWaveProgress: (progress: number) => void;
+  onWaveEvent: (event: WaveEvent | null) => void;
+  onArenaChange: (level: LevelDefinition) => void;
   onSurvivalTimeChange: (time: number) => void;
   onPlayerPositionChange: (position: THREE.Vector3) => void;
   onGameOver: () => void;
+  onPause: () => void;
   onStatusMessage: (message: string, duration?: number) => void;
+  onPerformanceUpdate: (stats: QualityStats, pools: PoolStats[]) => void;
 }
 
+const MAX_FRAME_TIME = 0.25; // Clamp long frames (tab switches, breakpoints) to avoid a spiral of death
+const PERFORMANCE_REPORT_INTERVAL = 0.5; // Seconds between overlay updates
+
+// Browser front-end: renders a GameSimulation with WebGL and feeds it DOM input
 export class Game {
+  private simulation: GameSimulation;
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
-  private player: Player;
-  private enemies: Enemy[] = [];
-  private powerUps: PowerUp[] = [];
-  private throwableBoxes: ThrowableBox[] = [];
-  private level: Level;
-  private particleSystem: ParticleSystem;
+  private sunLight: THREE.DirectionalLight;
+  private input: DomInputAdapter;
+  private gamepad: GamepadInputAdapter;
+  private touch: TouchInputAdapter;
   private audioManager: AudioManager | null = null;
+  private music = new MusicDirector();
+  private quality = new QualityGovernor();
+  private performanceReportTimer = 0;
   private animationId: number | null = null;
   private callbacks: GameCallbacks;
-  private currentWave = 1;
-  private enemiesInCurrentWave = 0;
-  private initialEnemiesInWave = 0;
-  private survivalTime = 0;
-  private gameStartTime = 0;
-  private waveStartTime = 0;
-  private betweenWaves = false;
-  private waveTransitionTimer = 0;
+  private settings: SettingsValues;
+  private sentAimAssist: boolean | null = null; // Last aim assist input given to the run, null before the first
+  private unsubscribeSettings: () => void;
   private isPointerLocked = false;
   private gameRunning = false;
 
-  constructor(canvas: HTMLCanvasElement, callbacks: GameCallbacks) {
+  // Fixed timestep bookkeeping
+  private accumulator = 0;
+  private lastFrameTime: number | null = null;
+
+  // Pass a seed to replay a specific run; otherwise a random one is picked
+  constructor(canvas: HTMLCanvasElement, callbacks: GameCallbacks, seed?: number) {
     this.callbacks = callbacks;
     
+    this.simulation = new GameSimulation({
+      onHealthChange: callbacks.onHealthChange,
+      onEnemiesChange: callbacks.onEnemiesChange,
+      onEnemiesInWaveChange: callbacks.onEnemiesInWaveChange,
+      onWaveComplete: wave => {
+        // Fires as the next wave is announced, at the start of the transition timer
+        this.audioManager?.playMusicStinger();
+        callbacks.onWaveComplete(wave);
+      },
+      onWaveProgress: callbacks.onWaveProgress,
+      onWaveEvent: callbacks.onWaveEvent,
+      onArenaChange: callbacks.onArenaChange,
+      onGameOver: callbacks.onGameOver
+    }, seed);
+
     // Initialize Three.js
-    this.scene = new THREE.Scene();
-    this.scene.fog = new THREE.Fog(0x000011, 10, 100);
-    
-    this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
+    this.scene = this.simulation.getScene();
     
-    // Add camera to scene so lightsaber (child of camera) is visible
-    this.scene.add(this.camera);
+    this.camera = this.simulation.getCamera();
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
     
-    this.renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setClearColor(0x000011);
-    this.renderer.shadowMap.enabled = true;
-    this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    this.renderer = createRenderer(canvas);
 
-    // Initialize game objects
-    this.level = new Level(this.scene);
-    this.player = new Player(this.camera, canvas, this.scene);
-    
-    this.particleSystem = new ParticleSystem(this.scene);
+    this.input = new DomInputAdapter(canvas, event => this.simulation.applyInput(event), this.onPauseAction);
+    this.gamepad = new GamepadInputAdapter(event => this.simulation.applyInput(event), this.onPauseAction);
+    this.touch = new TouchInputAdapter(canvas, event => this.simulation.applyInput(event));
 
-    this.setupLighting();
+    this.sunLight = setupSceneLighting(this.scene);
     this.setupEventListeners();
-  }
 
-  public async init(audioManager: AudioManager) {
-    this.audioManager = audioManager;
-    await this.audioManager.init();
-    
-    // Set up player callbacks
-    this.player.setCallbacks({
-      onAmmoChange: this.callbacks.onAmmoChange,
-      onWeaponChange: this.callbacks.onWeaponChange
-    });
-    
-    // Give player access to audio manager
-    this.player.setAudioManager(this.audioManager);
-    
-    // Give player access to particle system
-    this.player.setParticleSystem(this.particleSystem);
+    this.settings = Settings.getInstance().get();
+    this.unsubscribeSettings = Settings.getInstance().subscribe(this.applySettings);
   }
 
-  private setupLighting() {
-    // Ambient light
-    const ambientLight = new THREE.AmbientLight(0x404040, 0.3);
-    this.scene.add(ambientLight);
-
-    // Directional light
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(10, 20, 10);
-    directionalLight.castShadow = true;
-    directionalLight.shadow.mapSize.width = 2048;
-    directionalLight.shadow.mapSize.height = 2048;
-    this.scene.add(directionalLight);
-
-    // Point lights for atmosphere
-    const pointLight1 = new THREE.PointLight(0x00ffff, 0.5, 30);
-    pointLight1.position.set(-10, 5, -10);
-    this.scene.add(pointLight1);
-
-    const pointLight2 = new THREE.PointLight(0xff00ff, 0.5, 30);
-    pointLight2.position.set(10, 5, 10);
-    this.scene.add(pointLight2);
-  }
+  // Runs on start and whenever the settings screen changes something, mid-game included
+  private applySettings = (settings: SettingsValues) => {
+    this.settings = settings;
 
-  private setupEventListeners() {
-    window.addEventListener('resize', this.onWindowResize.bind(this));
-    
-    // Pointer lock for FPS controls
-    this.renderer.domElement.addEventListener('click', () => {
-      if (!this.isPointerLocked) {
-        this.renderer.domElement.requestPointerLock();
-      }
+    this.camera.fov = settings.fov;
+    this.camera.updateProjectionMatrix();
+    if (!settings.adaptiveQuality) {
+      this.quality.reset();
+    }
+    this.applyQuality();
+    this.simulation.getParticleSystem().setDensity(settings.particleDensity);
+    this.simulation.getPlayer().setCameraShakeScale(settings.cameraShake);
+
+    this.input.setLookSettings(settings.lookSensitivity, settings.invertY);
+    this.touch.setLookSettings(settings.lookSensitivity, settings.invertY);
+    this.gamepad.setSettings({
+      ...this.gamepad.getSettings(),
+      lookSpeed: DEFAULT_GAMEPAD_SETTINGS.lookSpeed * settings.lookSensitivity,
+      invertY: settings.invertY
     });
+    // Changed mid-run, paused included; start() sends it for each new run. Inputs are recorded
+    // in the replay, so other settings changes mustn't resend it
+    if (this.sentAimAssist !== null && settings.aimAssist !== this.sentAimAssist) {
+      this.sendAimAssist();
+    }
 
-    document.addEventListener('pointerlockchange', () => {
-      this.isPointerLocked = document.pointerLockElement === this.renderer.domElement;
-      this.player.setPointerLocked(this.isPointerLocked);
-    });
+    this.applyVolumes();
+  };
 
-    // Game controls
-    document.addEventListener('keydown', (event) => {
-      if (event.code === 'Escape') {
-        // Handle pause
-        document.exitPointerLock();
-        if (this.gameRunning) {
-          this.pause();
-          // Note: The actual pause state change is handled by the parent component
-        }
-      }
-    });
+  private sendAimAssist() {
+    this.sentAimAssist = this.settings.aimAssist;
+    this.simulation.applyInput({ type: 'aimAssist', enabled: this.sentAimAssist });
   }
 
-  private cleanupInvalidEnemies() {
-    const playerPosition = this.player.getPosition();
-    
-    // Remove enemies that are too far from player or stuck outside bounds
-    for (let i = this.enemies.length - 1; i >= 0; i--) {
-      const enemy = this.enemies[i];
-      const enemyPos = enemy.getPosition();
-      
-      // Check if enemy is too far outside the arena or stuck
-      const distanceFromCenter = Math.sqrt(enemyPos.x * enemyPos.x + enemyPos.z * enemyPos.z);
-      const isOutOfBounds = distanceFromCenter > 30; // Arena is 50x50, so 30 is a reasonable limit
-      const isTooFarFromPlayer = enemyPos.distanceTo(playerPosition) > 100; // Remove if extremely far
-      const isStuckUnderground = enemyPos.y < -5; // Remove if fallen through floor
-      
-      if (isOutOfBounds || isTooFarFromPlayer || isStuckUnderground) {
-        console.log(`Removing invalid enemy at position: ${enemyPos.x}, ${enemyPos.y}, ${enemyPos.z}`);
-        enemy.cleanup(this.scene);
-        this.enemies.splice(i, 1);
-        this.callbacks.onEnemiesChange(this.enemies.length);
-        this.updateWaveProgress();
-      }
+  // The governor's tier caps detail; the player's shadow setting can only lower it further
+  private applyQuality() {
+    const tier = this.quality.getTier();
+    applyShadowMapSize(this.sunLight, Math.min(SHADOW_MAP_SIZES[this.settings.shadowQuality], tier.shadowMapSize));
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio || 1, tier.pixelRatio));
+    this.simulation.getParticleSystem().setMaxParticles(tier.maxParticles);
+    Enemy.setMeshDetail(tier.meshDetail);
+
+    // Anything past the fog is invisible anyway, so stop drawing it
+    if (this.scene.fog instanceof THREE.Fog) {
+      this.scene.fog.far = tier.fogFar;
     }
-  }
-
-  private onWindowResize() {
-    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.far = tier.fogFar;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
   }
 
-  private async startFirstWave() {
-    this.currentWave = 1;
-    await this.spawnWave(1);
-    this.gameStartTime = Date.now();
-    this.waveStartTime = Date.now();
-  }
-
-  private async spawnWave(waveNumber: number) {
-    // Clear existing enemies and power-ups
-    this.enemies.forEach(enemy => enemy.cleanup(this.scene));
-    this.powerUps.forEach(powerUp => powerUp.cleanup(this.scene));
-    this.throwableBoxes.forEach(box => box.cleanup(this.scene));
-    this.enemies = [];
-    this.powerUps = [];
-    this.throwableBoxes = [];
-
-    // Load level geometry (always use level 1 for endless mode)
-    this.level.loadLevel(1);
-
-    // Initialize AI systems AFTER level is loaded (asynchronously)
-    try {
-      await PathFinder.initializeGrid(this.level);
-    } catch (error) {
-      console.warn('Failed to initialize AI pathfinding:', error);
+  private updateQuality(frameTime: number) {
+    if (this.settings.adaptiveQuality && this.quality.update(frameTime)) {
+      this.applyQuality();
     }
 
-    // Calculate enemies for this wave - starts with 3, increases gradually 
-    this.enemiesInCurrentWave = Math.min(4 + Math.floor(waveNumber * 1.44), 20);
-    this.initialEnemiesInWave = this.enemiesInCurrentWave;
-    
-    this.spawnEnemies(waveNumber);
-    
-    // Spawn throwable boxes
-    this.spawnThrowableBoxes();
-    
-    this.betweenWaves = false;
-    this.waveStartTime = Date.now();
-    
-    this.callbacks.onEnemiesChange(this.enemies.length);
-    this.callbacks.onEnemiesInWaveChange(this.initialEnemiesInWave);
-    this.callbacks.onWaveProgress(0);
+    this.performanceReportTimer -= frameTime;
+    if (this.performanceReportTimer <= 0) {
+      this.performanceReportTimer = PERFORMANCE_REPORT_INTERVAL;
+      this.callbacks.onPerformanceUpdate(this.quality.getStats(), this.simulation.getPoolStats());
+    }
   }
 
-  private spawnEnemies(waveNumber: number) {
-    const enemyCount = this.enemiesInCurrentWave;
-    const spawnRadius = 15;
-    const maxAttempts = 50;
-
-    // Determine enemy types for this wave
-    const enemyTypes = this.determineEnemyTypes(waveNumber);
-
-    for (let i = 0; i < enemyCount; i++) {
-      let spawnPosition: THREE.Vector3 | null = null;
-      let attempts = 0;
-      
-      // Try to find a valid spawn position
-      while (attempts < maxAttempts && !spawnPosition) {
-        const angle = (i / enemyCount) * Math.PI * 2 + (Math.random() - 0.5) * 0.5;
-        const distance = 10 + Math.random() * spawnRadius;
-        const x = Math.cos(angle) * distance;
-        const z = Math.sin(angle) * distance;
-        const testPosition = new THREE.Vector3(x, 0, z);
-        
-        // Check if this position is valid (not colliding with level geometry)
-        if (!this.level.checkCollision(testPosition, 0.8)) {
-          // Also check if it's not too close to existing enemies
-          let tooClose = false;
-          for (const existingEnemy of this.enemies) {
-            if (existingEnemy.getPosition().distanceTo(testPosition) < 3) {
-              tooClose = true;
-              break;
-            }
-          }
-          
-          if (!tooClose) {
-            spawnPosition = testPosition;
-          }
-        }
-        attempts++;
-      }
-      
-      // If we found a valid position, spawn the enemy
-      if (spawnPosition) {
-        const enemyType = enemyTypes[i % enemyTypes.length];
-        const enemy = new Enemy(
-          spawnPosition,
-          this.scene,
-          Math.floor(waveNumber / 2) + 2, // Difficulty increases every 2 waves, with higher base
-          enemyType
-        );
-        this.enemies.push(enemy);
-      } else {
-        console.warn(`Could not find valid spawn position for enemy ${i + 1}`);
-      }
-    }
-    
-    // Update enemy count based on actually spawned enemies
-    this.callbacks.onEnemiesChange(this.enemies.length);
+  private applyVolumes() {
+    this.audioManager?.setMasterVolume(this.settings.masterVolume);
+    this.audioManager?.setMusicVolume(this.settings.musicVolume);
+    this.audioManager?.setSfxVolume(this.settings.sfxVolume);
   }
 
-  private determineEnemyTypes(waveNumber: number): EnemyType[] {
-    const types: EnemyType[] = [];
-    
-    // Base composition - always include normal enemies
-    const normalCount = Math.max(1, Math.floor(this.enemiesInCurrentWave * 0.4));
-    for (let i = 0; i < normalCount; i++) {
-      types.push('normal');
-    }
-    
-    // Introduce new types based on wave number
-    if (waveNumber >= 2) {
-      // Scouts appear from wave 2
-      const scoutCount = Math.floor(this.enemiesInCurrentWave * 0.3);
-      for (let i = 0; i < scoutCount; i++) {
-        types.push('scout');
-      }
-    }
-    
-    if (waveNumber >= 3) {
-      // Heavy enemies from wave 3
-      const heavyCount = Math.floor(this.enemiesInCurrentWave * 0.2);
-      for (let i = 0; i < heavyCount; i++) {
-        types.push('heavy');
-      }
-    }
-    
-    if (waveNumber >= 4) {
-      // Ranged enemies from wave 4
-      const rangedCount = Math.floor(this.enemiesInCurrentWave * 0.25);
-      for (let i = 0; i < rangedCount; i++) {
-        types.push('ranged');
-      }
-    }
-    
-    if (waveNumber >= 5) {
-      // Flying drones from wave 5
-      const droneCount = Math.floor(this.enemiesInCurrentWave * 0.15);
-      for (let i = 0; i < droneCount; i++) {
-        types.push('drone');
-      }
-    }
-    
-    if (waveNumber >= 6) {
-      // Exploder bots from wave 6 (rare but dangerous)
-      const exploderCount = Math.max(1, Math.floor(this.enemiesInCurrentWave * 0.1));
-      for (let i = 0; i < exploderCount; i++) {
-        types.push('exploder');
-      }
-    }
-    
-    if (waveNumber >= 8) {
-      // Shielded sentinels from wave 8 (mini-bosses)
-      const shieldedCount = Math.max(1, Math.floor(this.enemiesInCurrentWave * 0.15));
-      for (let i = 0; i < shieldedCount; i++) {
-        types.push('shielded');
-      }
-    }
+  public async init(audioManager: AudioManager) {
+    this.audioManager = audioManager;
+    await this.audioManager.init();
+    this.applyVolumes();
     
-    // Shuffle the array to randomize spawn order
-    for (let i = types.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [types[i], types[j]] = [types[j], types[i]];
-    }
+    // Set up player callbacks
+    this.simulation.getPlayer().setCallbacks({
+      onAmmoChange: this.callbacks.onAmmoChange,
+      onWeaponChange: this.callbacks.onWeaponChange
+    });
     
-    return types;
+    // Give the simulation (and player) access to audio manager
+    this.simulation.setAudioManager(this.audioManager);
   }
 
-  private spawnThrowableBoxes() {
-    // Spawn 3-5 boxes per wave
-    const boxCount = 3 + Math.floor(Math.random() * 3);
+  private setupEventListeners() {
+    window.addEventListener('resize', this.onWindowResize);
     
-    for (let i = 0; i < boxCount; i++) {
-      let spawnPosition: THREE.Vector3 | null = null;
-      let attempts = 0;
-      const maxAttempts = 30;
-      
-      while (attempts < maxAttempts && !spawnPosition) {
-        const angle = Math.random() * Math.PI * 2;
-        const distance = 5 + Math.random() * 15;
-        const x = Math.cos(angle) * distance;
-        const z = Math.sin(angle) * distance;
-        const testPosition = new THREE.Vector3(x, 0.5, z);
-        
-        // Check if position is valid
-        if (!this.level.checkCollision(testPosition, 0.6)) {
-          // Make sure it's not too close to existing boxes
-          let tooClose = false;
-          for (const existingBox of this.throwableBoxes) {
-            if (existingBox.getPosition().distanceTo(testPosition) < 3) {
-              tooClose = true;
-              break;
-            }
-          }
-          
-          if (!tooClose) {
-            spawnPosition = testPosition;
-          }
-        }
-        attempts++;
-      }
-      
-      if (spawnPosition) {
-        const box = new ThrowableBox(spawnPosition, this.scene);
-        this.throwableBoxes.push(box);
+    // Pointer lock for FPS controls (touch screens look by swiping instead)
+    this.renderer.domElement.addEventListener('click', () => {
+      if (!this.isPointerLocked && !this.touch.isActive()) {
+        this.renderer.domElement.requestPointerLock();
       }
-    }
-  }
+    });
 
-  private startNextWave() {
-    this.currentWave++;
-    this.callbacks.onWaveComplete(this.currentWave);
-    
-    // Start transition period
-    this.betweenWaves = true;
-    this.waveTransitionTimer = 180; // 3 seconds at 60fps
-    
-    // Show wave transition UI (you could add this later)
-    console.log(`Wave ${this.currentWave} incoming!`);
+    document.addEventListener('pointerlockchange', this.onPointerLockChange);
   }
 
-  private updateSurvivalTime() {
-    if (this.gameStartTime > 0 && this.gameRunning) {
-      this.survivalTime = Math.floor((Date.now() - this.gameStartTime) / 1000);
-      this.callbacks.onSurvivalTimeChange(this.survivalTime);
-    }
-  }
+  private onPointerLockChange = () => {
+    this.isPointerLocked = document.pointerLockElement === this.renderer.domElement;
+    this.input.setPointerLocked(this.isPointerLocked);
+  };
 
-  private updateWaveProgress() {
-    if (this.initialEnemiesInWave > 0) {
-      const killed = this.initialEnemiesInWave - this.enemies.length;
-      const progress = killed / this.initialEnemiesInWave;
-      this.callbacks.onWaveProgress(progress);
+  // The pause action (Escape unless rebound); the parent component owns the pause screen
+  private onPauseAction = () => {
+    document.exitPointerLock();
+    if (this.gameRunning) {
+      this.callbacks.onPause();
     }
-  }
-
-  private checkCollisions() {
-    const playerPosition = this.player.getPosition();
-
-    // Update laser collisions
-    const laserResults = this.player.updateLasers(this.enemies, this.level);
-    laserResults.hitEnemies.forEach(enemy => {
-      this.audioManager?.playHitSound();
-      this.particleSystem.createHitEffect(enemy.getPosition());
-      
-      if (!enemy.isAlive()) {
-        this.spawnPowerUp(enemy.getPosition());
-        enemy.cleanup(this.scene);
-        const index = this.enemies.indexOf(enemy);
-        if (index > -1) {
-          this.enemies.splice(index, 1);
-          this.callbacks.onEnemiesChange(this.enemies.length);
-          this.updateWaveProgress();
-        }
-      }
-    });
-
-    // Check enemy collisions with player attacks - use reverse iteration to safely remove elements
-    for (let enemyIndex = this.enemies.length - 1; enemyIndex >= 0; enemyIndex--) {
-      const enemy = this.enemies[enemyIndex];
-      
-      // Check lightsaber attack
-      if (this.player.isAttacking() && enemy.isAlive()) {
-        const distance = enemy.getPosition().distanceTo(playerPosition);
-        if (distance < 3) {
-          const isBehind = this.isPlayerBehindEnemy(enemy, playerPosition);
-          this.audioManager?.playHitSound();
-          try {
-            AICoordinator.getInstance().updatePlayerThreatLevel('damage');
-          } catch (error) {
-            console.warn('AI threat update error:', error);
-          }
-          enemy.takeDamage(15, !isBehind); // More damage from behind
-          this.particleSystem.createHitEffect(enemy.getPosition());
-          
-          if (!enemy.isAlive()) {
-            try {
-              AICoordinator.getInstance().updatePlayerThreatLevel('kill');
-            } catch (error) {
-              console.warn('AI threat update error:', error);
-            }
-            this.spawnPowerUp(enemy.getPosition());
-            enemy.cleanup(this.scene);
-            this.enemies.splice(enemyIndex, 1);
-            this.callbacks.onEnemiesChange(this.enemies.length);
-            this.updateWaveProgress();
-            continue; // Skip to next enemy since this one is removed
-          }
-        }
-      }
+  };
 
-      // Check telekinesis
-      const levitatedEnemy = this.player.getLevitatedEnemy();
-      if (levitatedEnemy === enemy) {
-        // Enemy is being levitated
-        const targetPos = playerPosition.clone().add(
-          this.camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(5)
-        );
-        targetPos.y += 2;
-        enemy.setPosition(targetPos);
-      }
+  private onWindowResize = () => {
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+  };
 
-      // Check thrown enemy collisions
-      if (enemy.isBeingThrown()) {
-        // Check collision with other enemies - use reverse iteration
-        for (let otherIndex = this.enemies.length - 1; otherIndex >= 0; otherIndex--) {
-          const otherEnemy = this.enemies[otherIndex];
-          if (otherEnemy !== enemy && otherEnemy.isAlive()) {
-            const distance = enemy.getPosition().distanceTo(otherEnemy.getPosition());
-            if (distance < 2) {
-              this.audioManager?.playHitSound();
-              otherEnemy.takeDamage(75);
-              enemy.takeDamage(25);
-              
-              this.particleSystem.createExplosion(otherEnemy.getPosition());
-              
-              if (!otherEnemy.isAlive()) {
-                try {
-                  AICoordinator.getInstance().updatePlayerThreatLevel('kill');
-                } catch (error) {
-                  console.warn('AI threat update error:', error);
-                }
-                this.spawnPowerUp(otherEnemy.getPosition());
-                otherEnemy.cleanup(this.scene);
-                this.enemies.splice(otherIndex, 1);
-                this.callbacks.onEnemiesChange(this.enemies.length);
-                this.updateWaveProgress();
-              }
-            }
-          }
-        }
-      }
+  private gameLoop = (timestamp: number) => {
+    if (!this.animationId || !this.gameRunning) return;
 
-      // Check enemy damage to player
-      if (enemy.isAlive() && !enemy.isBeingThrown()) {
-        const distance = enemy.getPosition().distanceTo(playerPosition);
-        if (distance < 2) {
-          this.player.takeDamage(enemy.getDamage() * 0.5); // Reduced damage for better health system
-          this.callbacks.onHealthChange(this.player.getHealth());
-        }
-        
-        // Check ranged enemy projectile hits
-        if (enemy.checkProjectileOrLaserHit(playerPosition, 0.8)) {
-          this.player.takeDamage(enemy.getDamage()); // Normal projectile damage
-          this.callbacks.onHealthChange(this.player.getHealth());
-          this.particleSystem.createHitEffect(playerPosition);
-        }
-        
-        // Check explosion damage
-        const explosionDamage = enemy.getExplosionDamage(playerPosition);
-        if (explosionDamage > 0) {
-          this.player.takeDamage(explosionDamage);
-          this.callbacks.onHealthChange(this.player.getHealth());
-          this.particleSystem.createExplosion(enemy.getPosition());
-        }
-      }
-    }
+    // Accumulate real time and advance the simulation in fixed steps
+    const frameTime = this.lastFrameTime === null
+      ? FIXED_TIME_STEP
+      : Math.min((timestamp - this.lastFrameTime) / 1000, MAX_FRAME_TIME);
+    this.lastFrameTime = timestamp;
+    this.accumulator += frameTime;
 
-    // Check throwable box interactions
-    for (let boxIndex = this.throwableBoxes.length - 1; boxIndex >= 0; boxIndex--) {
-      const box = this.throwableBoxes[boxIndex];
-      
-      // Check if player is targeting this box for telekinesis
-      const levitatedBox = this.player.getLevitatedBox();
-      if (levitatedBox === box) {
-        // Box is being levitated
-        const targetPos = playerPosition.clone().add(
-          this.camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(4)
-        );
-        targetPos.y += 1;
-        box.setPosition(targetPos);
-      }
-    }
+    // Gamepads have no events, so sample them once per frame ahead of the ticks
+    this.gamepad.poll();
 
-    // Check power-up collection
-    for (let index = this.powerUps.length - 1; index >= 0; index--) {
-      const powerUp = this.powerUps[index];
-      const distance = powerUp.getPosition().distanceTo(playerPosition);
-      if (distance < 2) {
-        powerUp.apply(this.player);
-        this.callbacks.onHealthChange(this.player.getHealth());
-        powerUp.cleanup(this.scene);
-        this.powerUps.splice(index, 1);
-        this.particleSystem.createPickupEffect(powerUp.getPosition());
-      }
+    while (this.accumulator >= FIXED_TIME_STEP && !this.simulation.isGameOver()) {
+      this.simulation.step(FIXED_TIME_STEP);
+      this.accumulator -= FIXED_TIME_STEP;
     }
 
-    // Check wave completion
-    if (this.enemies.length === 0) {
-      if (!this.betweenWaves) {
-        this.startNextWave();
-      }
+    if (this.simulation.isGameOver()) {
+      this.gameRunning = false; // Stop the loop after this final frame
     }
 
-    // Check lose condition
-    if (this.player.getHealth() <= 0) {
-      this.gameRunning = false; // Stop survival time counter
-      this.callbacks.onGameOver();
-    }
-  }
+    this.updateMusic(frameTime);
+    this.updateQuality(frameTime);
 
-  private isPlayerBehindEnemy(enemy: Enemy, playerPosition: THREE.Vector3): boolean {
-    const enemyPosition = enemy.getPosition();
-    const enemyToPlayer = playerPosition.clone().sub(enemyPosition).normalize();
-    
-    // For simplicity, assume enemy faces towards (0,0,0) or last known player position
-    // In a more complex system, you'd track enemy facing direction
-    const enemyForward = new THREE.Vector3(0, 0, 1); // Default forward direction
-    
-    const dot = enemyToPlayer.dot(enemyForward);
-    return dot < 0; // Player is behind if dot product is negative
-  }
-
-  private spawnPowerUp(position: THREE.Vector3) {
-    if (Math.random() < 0.8) { // 80% chance to drop power-up (increased for better health system)
-      // Higher chance for health power-ups
-      const type = Math.random() < 0.8 ? 'health' : 'speed';
-      const powerUp = new PowerUp(position.clone(), type, this.scene);
-      this.powerUps.push(powerUp);
-    }
-  }
-
-  private gameLoop = () => {
-    if (!this.animationId || !this.gameRunning) return;
+    // Blend between the last two simulation states for smooth rendering
+    const alpha = this.accumulator / FIXED_TIME_STEP;
+    this.simulation.interpolate(alpha);
 
     // Update survival time
-    this.updateSurvivalTime();
-
-    // Update player position for UI
-    this.callbacks.onPlayerPositionChange(this.player.getPosition());
-
-    // Handle wave transitions
-    if (this.betweenWaves) {
-      this.waveTransitionTimer--;
-      if (this.waveTransitionTimer <= 0) {
-        // Spawn wave asynchronously
-        this.spawnWave(this.currentWave).catch(error => {
-          console.warn('Failed to spawn wave:', error);
-        });
-      }
+    if (this.simulation.isSurvivalClockRunning()) {
+      this.callbacks.onSurvivalTimeChange(this.simulation.getSurvivalTime());
     }
 
-    // Clean up stuck or invalid enemies
-    this.cleanupInvalidEnemies();
-
-    // Update game objects
-    this.player.update(this.level);
-
-    // Update AI coordination (heavily throttled)
-    if (Math.random() < 0.02) { // Only 2% of frames to reduce load
-      try {
-        AICoordinator.getInstance().updateFormations(this.enemies, this.player.getPosition());
-      } catch (error) {
-        console.warn('AI coordination error:', error);
-      }
-    }
-
-    this.enemies.forEach(enemy => enemy.update(this.player.getPosition(), this.level));
-    this.powerUps.forEach(powerUp => powerUp.update());
-    this.throwableBoxes.forEach(box => box.update(this.enemies, this.level));
-    this.particleSystem.update();
-
-    // Handle player attacks
-    this.player.handleAttacks(this.enemies, this.throwableBoxes);
-
-    // Check collisions
-    this.checkCollisions();
+    // Update player position for UI
+    this.callbacks.onPlayerPositionChange(this.simulation.getPlayer().getPosition());
 
     // Render
     this.renderer.render(this.scene, this.camera);
 
-    this.animationId = requestAnimationFrame(this.gameLoop);
+    if (this.animationId) {
+      this.animationId = requestAnimationFrame(this.gameLoop);
+    }
   };
 
-  public restart() {
-    this.stop();
-    
-    // Reset game state
-    this.currentWave = 1;
-    this.survivalTime = 0;
-    this.betweenWaves = false;
-    this.waveTransitionTimer = 0;
-    this.gameRunning = false;
-    
-    // Clear existing entities
-    this.enemies.forEach(enemy => enemy.cleanup(this.scene));
-    this.powerUps.forEach(powerUp => powerUp.cleanup(this.scene));
-    this.throwableBoxes.forEach(box => box.cleanup(this.scene));
-    try {
-      AICoordinator.getInstance().cleanup();
-    } catch (error) {
-      console.warn('AI cleanup error:', error);
-    }
-    this.enemies = [];
-    this.powerUps = [];
-    this.throwableBoxes = [];
-    
-    // Reset player
-    this.player.reset();
-    
-    // Start first wave asynchronously
-    this.startFirstWave().catch(error => {
-      console.warn('Failed to start first wave on restart:', error);
+  private updateMusic(dt: number) {
+    const player = this.simulation.getPlayer();
+    this.music.update(dt, {
+      threatLevel: AICoordinator.getInstance().getPlayerThreatLevel(),
+      livingEnemies: this.simulation.getEnemies().filter(enemy => enemy.isAlive()).length,
+      healthFraction: player.getHealth() / player.getMaxHealth(),
+      betweenWaves: this.simulation.isBetweenWaves()
     });
+    this.audioManager?.setMusicLayers(this.music.getLevels());
+  }
+
+  // Arena the next run starts on, or a level definition to play-test
+  public setArena(arena: string | LevelDefinition) {
+    this.simulation.setArena(arena);
+  }
+
+  public restart(seed?: number) {
+    this.stop();
+    this.simulation.reset(seed);
+    this.music.reset();
+    this.audioManager?.setMusicLayers(this.music.getLevels());
     
     // Restart game loop
     this.start();
@@ -687,24 +293,29 @@ export class Game {
       // Start background music and first wave
       this.audioManager?.startBackgroundMusic();
       this.gameRunning = true;
+      this.resetFrameTiming();
       this.animationId = requestAnimationFrame(this.gameLoop);
       
-      // Start first wave asynchronously
-      this.startFirstWave().catch(error => {
-        console.warn('Failed to start first wave:', error);
-      });
+      // Start first wave
+      this.simulation.startFirstWave();
+      this.sendAimAssist();
     }
   }
 
   public resume() {
     if (!this.animationId && !this.gameRunning) {
       this.gameRunning = true;
-      this.gameStartTime = Date.now() - (this.survivalTime * 1000); // Adjust start time to maintain survival time
       this.audioManager?.startBackgroundMusic();
+      this.resetFrameTiming(); // Don't count paused time as elapsed simulation time
       this.animationId = requestAnimationFrame(this.gameLoop);
     }
   }
 
+  private resetFrameTiming() {
+    this.accumulator = 0;
+    this.lastFrameTime = null;
+  }
+
   public pause() {
     this.gameRunning = false;
     if (this.animationId) {
@@ -727,28 +338,38 @@ export class Game {
     this.stop();
     
     // Clean up game objects
-    this.enemies.forEach(enemy => enemy.cleanup(this.scene));
-    this.powerUps.forEach(powerUp => powerUp.cleanup(this.scene));
-    this.throwableBoxes.forEach(box => box.cleanup(this.scene));
-    this.level.cleanup(this.scene);
-    this.particleSystem.cleanup();
-    try {
-      AICoordinator.getInstance().cleanup();
-    } catch (error) {
-      console.warn('AI cleanup error:', error);
-    }
-    this.player.cleanup();
+    this.simulation.cleanup();
     this.audioManager?.cleanup();
 
     // Remove event listeners
-    window.removeEventListener('resize', this.onWindowResize.bind(this));
+    this.input.cleanup();
+    this.touch.cleanup();
+    this.unsubscribeSettings();
+    window.removeEventListener('resize', this.onWindowResize);
+    document.removeEventListener('pointerlockchange', this.onPointerLockChange);
     
     // Clean up Three.js objects
-    this.scene.clear();
     this.renderer.dispose();
   }
   
-  public getEnemies(): Enemy[] {
-    return this.enemies;
+  public getSeed(): number {
+    return this.simulation.getSeed();
+  }
+
+  public getReplay(): ReplayData {
+    return this.simulation.getReplay();
+  }
+
+  public getSimulation(): GameSimulation {
+    return this.simulation;
+  }
+
+  public getEnemies() {
+    return this.simulation.getEnemies();
+  }
+
+  // For the on-screen joystick and buttons
+  public getTouchInput(): TouchInputAdapter {
+    return this.touch;
   }
 }
\ No newline at end of file
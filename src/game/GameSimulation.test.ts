@@ -0,0 +1,219 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three';
+import { GameSimulation, FIXED_TIME_STEP, TICK_RATE } from './GameSimulation';
+import { PlayerInputEvent } from './Player';
+import { MAX_VERIFIABLE_TICKS, calculateScore, getVerificationStatus, verifyScore } from './ScoreVerifier';
+import { DEFAULT_LEVEL_ID, getLevelDefinition } from './LevelDefinitions';
+import { PathFinder } from './AIBehavior';
+import { Enemy } from './Enemy';
+import { SeededRandom } from './SeededRandom';
+import { SpatialHash } from './SpatialHash';
+
+// Scripted runs on the headless simulation: no renderer, DOM or audio, just fixed ticks.
+// These seeds are known to end in a wave 1 game over for a player who never moves.
+const STANDING_STILL_SEEDS = [2, 5, 7];
+const MAX_TICKS = TICK_RATE * 120;
+
+interface ScenarioResult {
+  simulation: GameSimulation;
+  ticks: number;
+  healthChanges: number[];
+  arenas: string[]; // onArenaChange, in order
+  gameOvers: number;
+}
+
+const simulations: GameSimulation[] = [];
+
+// Runs until the game over (or MAX_TICKS), feeding in whatever input the script gives each tick
+const runScenario = (
+  seed: number,
+  script: (tick: number) => PlayerInputEvent[] = () => [],
+  arena = DEFAULT_LEVEL_ID
+): ScenarioResult => {
+  const result: ScenarioResult = { simulation: new GameSimulation({}, seed), ticks: 0, healthChanges: [], arenas: [], gameOvers: 0 };
+  const simulation = result.simulation;
+  simulations.push(simulation);
+  simulation.setEvents({
+    onHealthChange: health => result.healthChanges.push(health),
+    onArenaChange: level => result.arenas.push(level.id),
+    onGameOver: () => result.gameOvers++
+  });
+
+  simulation.reset(seed); // Clears the AI state shared with earlier runs
+  simulation.setArena(arena);
+  simulation.startFirstWave();
+  while (!simulation.isGameOver() && result.ticks < MAX_TICKS) {
+    script(result.ticks).forEach(event => simulation.applyInput(event));
+    simulation.step(FIXED_TIME_STEP);
+    result.ticks++;
+  }
+  return result;
+};
+
+// Turns on the spot without fighting
+const turn = (tick: number): PlayerInputEvent[] =>
+  tick % 7 === 0 ? [{ type: 'look', deltaX: 40, deltaY: 0 }] : [];
+
+// Keeps swinging while turning on the spot
+const swingAndTurn = (tick: number): PlayerInputEvent[] => {
+  const events = turn(tick);
+  if (tick % 20 === 0) events.push({ type: 'action', action: 'attack', pressed: true });
+  if (tick % 20 === 5) events.push({ type: 'action', action: 'attack', pressed: false });
+  return events;
+};
+
+afterEach(() => {
+  simulations.splice(0).forEach(simulation => simulation.cleanup());
+  vi.restoreAllMocks();
+});
+
+describe('GameSimulation scenarios', () => {
+  it.each(STANDING_STILL_SEEDS)('wave 1 kills a player who stands still (seed %i)', seed => {
+    const { simulation, ticks, healthChanges, gameOvers } = runScenario(seed);
+
+    expect(simulation.isGameOver()).toBe(true);
+    expect(gameOvers).toBe(1);
+    expect(simulation.getCurrentWave()).toBe(1);
+    expect(ticks / TICK_RATE).toBeLessThan(60);
+    expect(simulation.getSurvivalTime()).toBe(Math.floor(ticks / TICK_RATE));
+
+    // Nothing heals a player who doesn't move, so health only goes down
+    expect(healthChanges.length).toBeGreaterThan(0);
+    for (let i = 1; i < healthChanges.length; i++) {
+      expect(healthChanges[i]).toBeLessThanOrEqual(healthChanges[i - 1]);
+    }
+    expect(healthChanges[healthChanges.length - 1]).toBe(0);
+  });
+
+  it('plays out the same way every time for a seed', () => {
+    const first = runScenario(STANDING_STILL_SEEDS[0], swingAndTurn);
+    const second = runScenario(STANDING_STILL_SEEDS[0], swingAndTurn);
+
+    expect(second.ticks).toBe(first.ticks);
+    expect(second.healthChanges).toEqual(first.healthChanges);
+    expect(second.simulation.getEnemies().map(enemy => enemy.getPosition().toArray()))
+      .toEqual(first.simulation.getEnemies().map(enemy => enemy.getPosition().toArray()));
+  });
+
+  it('lasts longer fighting back than standing still', () => {
+    const idle = runScenario(STANDING_STILL_SEEDS[0]);
+    const fighting = runScenario(STANDING_STILL_SEEDS[0], swingAndTurn);
+    expect(fighting.ticks).toBeGreaterThan(idle.ticks);
+  });
+
+  it('records a replay the score verifier accepts', () => {
+    const { simulation } = runScenario(STANDING_STILL_SEEDS[1], turn);
+    expect(simulation.isGameOver()).toBe(true); // Only finished runs can be submitted
+    const survivalTime = simulation.getSurvivalTime();
+    const waveReached = simulation.getCurrentWave();
+
+    const verification = verifyScore({ seed: simulation.getSeed(), survivalTime, waveReached, replay: simulation.getReplay() });
+    expect(verification).toEqual({ verified: true, reason: null, survivalTime, waveReached });
+    expect(calculateScore(survivalTime, waveReached)).toBe(survivalTime * 10 + waveReached * 500);
+  });
+
+  it('rejects a replay claiming a longer run', () => {
+    const { simulation } = runScenario(STANDING_STILL_SEEDS[2]);
+    const claim = {
+      seed: simulation.getSeed(),
+      survivalTime: simulation.getSurvivalTime() + 30,
+      waveReached: simulation.getCurrentWave(),
+      replay: simulation.getReplay()
+    };
+    expect(verifyScore(claim).verified).toBe(false);
+  });
+
+  it('holds replays too long to re-simulate for review instead of flagging them', () => {
+    const { simulation } = runScenario(STANDING_STILL_SEEDS[2]);
+    const claim = {
+      seed: simulation.getSeed(),
+      survivalTime: simulation.getSurvivalTime(),
+      waveReached: simulation.getCurrentWave(),
+      replay: { ...simulation.getReplay(), totalTicks: MAX_VERIFIABLE_TICKS + 1 }
+    };
+
+    const verification = verifyScore(claim);
+    expect(verification.verified).toBe(false);
+    expect(getVerificationStatus(verification)).toBe('too_long');
+    expect(getVerificationStatus(verifyScore({ ...claim, replay: simulation.getReplay() }))).toBe('verified');
+    expect(getVerificationStatus(verifyScore({ ...claim, survivalTime: claim.survivalTime + 30, replay: simulation.getReplay() }))).toBe('flagged');
+  });
+
+  it('starts on the chosen arena and records it in the replay', () => {
+    const reactor = getLevelDefinition('reactor');
+    const { simulation, arenas } = runScenario(STANDING_STILL_SEEDS[1], turn, reactor.id);
+
+    expect(arenas[0]).toBe(reactor.id);
+    expect(simulation.getReplay().arena).toBe(reactor.id);
+    expect(simulation.isGameOver()).toBe(true);
+
+    const verification = verifyScore({
+      seed: simulation.getSeed(),
+      survivalTime: simulation.getSurvivalTime(),
+      waveReached: simulation.getCurrentWave(),
+      replay: simulation.getReplay()
+    });
+    expect(verification.verified).toBe(true);
+  });
+
+  it('only rebuilds the navigation grid when the arena changes', () => {
+    const simulation = new GameSimulation({}, STANDING_STILL_SEEDS[0]);
+    simulations.push(simulation);
+    const initializeGrid = vi.spyOn(PathFinder, 'initializeGrid');
+    simulation.reset(STANDING_STILL_SEEDS[0]);
+    simulation.startFirstWave();
+    expect(initializeGrid).toHaveBeenCalledTimes(1);
+
+    // Waves 2 to 5 stay in the first arena, wave 6 moves on
+    for (let wave = 2; wave <= 5; wave++) simulation['spawnWave'](wave);
+    expect(initializeGrid).toHaveBeenCalledTimes(1);
+    simulation['spawnWave'](6);
+    expect(initializeGrid).toHaveBeenCalledTimes(2);
+  });
+
+  it('only assists the aim stick, and not once turned off', () => {
+    const simulation = new GameSimulation({}, STANDING_STILL_SEEDS[0]);
+    simulations.push(simulation);
+    const player = simulation.getPlayer();
+
+    // An enemy just off to the right of straight ahead
+    const enemies = new SpatialHash<Enemy>(4);
+    enemies.insert(new Enemy(new THREE.Vector3(1, 0, -5), new THREE.Scene(), new SeededRandom(1), 0), 1, -5);
+
+    player.applyInput({ type: 'move', x: 0, y: 1 });
+    player.updateAimAssist(0.1, enemies);
+    expect(player['yaw']).toBe(0);
+
+    player.applyInput({ type: 'lookRate', yaw: 0.01, pitch: 0 });
+    player.updateAimAssist(0.1, enemies);
+    expect(player['yaw']).toBeLessThan(0);
+
+    player['yaw'] = 0;
+    player.applyInput({ type: 'aimAssist', enabled: false });
+    player.updateAimAssist(0.1, enemies);
+    expect(player['yaw']).toBe(0);
+  });
+
+  it('lets the player jump onto a platform and fall off the far side', () => {
+    const simulation = new GameSimulation({}, STANDING_STILL_SEEDS[0]);
+    simulations.push(simulation);
+    simulation.reset(STANDING_STILL_SEEDS[0]);
+    simulation.startFirstWave();
+
+    // Run east across the 2 tall platform at (15, 15), double jumping at its edge
+    const player = simulation.getPlayer();
+    player.teleport(11, 15);
+    player['turn'](-Math.PI / 2, 0);
+    simulation.applyInput({ type: 'move', x: 0, y: 1 });
+    const heights: number[] = [];
+    for (let tick = 0; tick < 150; tick++) {
+      if (tick === 5 || tick === 25) simulation.applyInput({ type: 'action', action: 'jump', pressed: true });
+      if (tick === 6 || tick === 26) simulation.applyInput({ type: 'action', action: 'jump', pressed: false });
+      simulation.step(FIXED_TIME_STEP);
+      heights.push(player.getPosition().y);
+    }
+
+    expect(heights[60]).toBeCloseTo(3.6); // Standing on top, eyes 1.6 above it
+    expect(heights[heights.length - 1]).toBeCloseTo(1.6); // Back on the floor
+  });
+});
@@ -0,0 +1,866 @@
+import * as THREE from 'three';
+import { Player, PlayerInputEvent } from './Player';
+import { Enemy } from './Enemy';
+import { Level } from './Level';
+import { PowerUp, PowerUpType } from './PowerUp';
+import { ParticleSystem } from './ParticleSystem';
+import { ProjectileSystem } from './ProjectileSystem';
+import { PoolStats } from './ObjectPool';
+import { SpatialHash } from './SpatialHash';
+import { EnemyType } from './Enemy';
+import { ThrowableBox } from './ThrowableBox';
+import { AudioManager } from './AudioManager';
+import { AICoordinator, PathFinder } from './AIBehavior';
+import { SeededRandom } from './SeededRandom';
+import { ReplayData, ReplayRecorder } from './Replay';
+import { WaveDirector, WaveEvent } from './WaveDirector';
+import { DEFAULT_LEVEL_ID, LevelDefinition, getLevelDefinition, getLevelDefinitions } from './LevelDefinitions';
+
+export interface SimulationEvents {
+  onHealthChange: (health: number) => void;
+  onEnemiesChange: (count: number) => void;
+  onEnemiesInWaveChange: (count: number) => void;
+  onWaveComplete: (wave: number) => void;
+  onWaveProgress: (progress: number) => void;
+  onWaveEvent: (event: WaveEvent | null) => void;
+  onArenaChange: (level: LevelDefinition) => void;
+  onGameOver: () => void;
+}
+
+// Simulation runs at a fixed rate regardless of the display refresh rate
+export const FIXED_TIME_STEP = 1 / 60; // seconds per simulation tick
+export const TICK_RATE = 60; // simulation ticks per second
+const WAVE_TRANSITION_TIME = 3; // seconds between waves
+const MIN_SPAWN_DISTANCE = 8; // Reinforcements can arrive mid-wave, so keep them off the player
+const LIGHTSABER_DAMAGE_PER_SECOND = 900; // Applied continuously while the swing overlaps an enemy
+const LIGHTSABER_KNOCKBACK_PER_SECOND = 60; // Push away from the player, in units per second squared
+const CONTACT_DAMAGE_PER_SECOND = 30; // Multiplier on enemy damage while touching the player
+const EFFECTS_SEED_SALT = 0x9e3779b9; // Cosmetic randomness gets its own stream so it can't shift gameplay rolls
+const SPATIAL_CELL_SIZE = 4; // Grid cell size for the entity indexes, in units
+const SPAWN_SPACING = 3; // Minimum distance between newly spawned enemies, and between boxes
+const THROWN_ENEMY_HIT_DISTANCE = 2;
+const PICKUP_DISTANCE = 2;
+const ARENA_ROTATION_WAVES = 5; // Waves fought in each arena before moving on to the next
+const OUT_OF_BOUNDS_MARGIN = 5; // How far past the walls an enemy can get before it's removed
+
+/**
+ * Owns all gameplay state (player, enemies, power-ups, boxes, waves) and advances it
+ * in fixed steps. Needs no WebGL context or DOM, so it can run headless in Node;
+ * rendering and input are attached from outside (see Game and DomInputAdapter).
+ * All gameplay randomness comes from a seeded PRNG, so the same seed and inputs replay the same run;
+ * every applied input is recorded against its tick (see getReplay and ReplayPlayer).
+ */
+export class GameSimulation {
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private player: Player;
+  private enemies: Enemy[] = [];
+  private powerUps: PowerUp[] = [];
+  private throwableBoxes: ThrowableBox[] = [];
+  // Spatial indexes over the lists above, rebuilt whenever their members have moved. Queries
+  // return members in list order, so they pick the same targets a loop over the list would.
+  private enemyIndex = new SpatialHash<Enemy>(SPATIAL_CELL_SIZE);
+  private boxIndex = new SpatialHash<ThrowableBox>(SPATIAL_CELL_SIZE);
+  private powerUpIndex = new SpatialHash<PowerUp>(SPATIAL_CELL_SIZE);
+  private nearbyEnemies: Enemy[] = [];
+  private nearbyPowerUps: PowerUp[] = [];
+  private level: Level;
+  private arena = DEFAULT_LEVEL_ID; // Where the run starts; later arenas follow the rotation order
+  private customArena: LevelDefinition | null = null; // Unregistered level being play-tested; doesn't rotate
+  private particleSystem: ParticleSystem;
+  private projectileSystem: ProjectileSystem;
+  private audioManager: AudioManager | null = null;
+  private random: SeededRandom;
+  private effectsRandom: SeededRandom;
+  private events: Partial<SimulationEvents>;
+  private pendingInputs: PlayerInputEvent[] = [];
+  private recorder = new ReplayRecorder();
+  private tick = 0; // Simulation ticks since the first wave spawned
+  private waveDirector: WaveDirector;
+  private currentWave = 1;
+  private initialEnemiesInWave = 0;
+  private elapsedTime = 0; // Simulated seconds since the first wave spawned
+  private survivalClockRunning = false;
+  private betweenWaves = false;
+  private waveTransitionTimer = 0;
+  private gameOver = false;
+
+  constructor(events: Partial<SimulationEvents> = {}, seed: number = SeededRandom.generateSeed()) {
+    this.events = events;
+    this.random = new SeededRandom(seed);
+    this.effectsRandom = new SeededRandom(seed ^ EFFECTS_SEED_SALT);
+    this.waveDirector = new WaveDirector(this.random);
+
+    this.scene = new THREE.Scene();
+    this.camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+
+    // Add camera to scene so lightsaber (child of camera) is visible
+    this.scene.add(this.camera);
+
+    this.level = new Level(this.scene);
+    this.player = new Player(this.camera, this.scene, this.random);
+    this.particleSystem = new ParticleSystem(this.scene, this.effectsRandom);
+    this.player.setParticleSystem(this.particleSystem);
+    this.projectileSystem = new ProjectileSystem(this.scene);
+    this.player.setProjectileSystem(this.projectileSystem);
+    AICoordinator.getInstance().setRandom(this.random);
+  }
+
+  public setEvents(events: Partial<SimulationEvents>) {
+    this.events = events;
+  }
+
+  public setAudioManager(audioManager: AudioManager) {
+    this.audioManager = audioManager;
+    this.audioManager.setLevel(this.level);
+    this.player.setAudioManager(audioManager);
+  }
+
+  // Takes effect from the next first wave. The level editor passes a definition to play-test it
+  public setArena(arena: string | LevelDefinition) {
+    if (typeof arena === 'string') {
+      this.arena = getLevelDefinition(arena).id; // Throws for unknown arenas
+      this.customArena = null;
+    } else {
+      this.customArena = arena;
+    }
+  }
+
+  public getArena(): string {
+    return this.customArena?.id ?? this.arena;
+  }
+
+  // Input is queued and applied at the start of the next tick so that it lands on a tick boundary
+  public applyInput(event: PlayerInputEvent) {
+    this.pendingInputs.push(event);
+  }
+
+  public startFirstWave() {
+    this.currentWave = 1;
+    this.tick = 0;
+    this.recorder.start(this.random.getSeed(), TICK_RATE, this.getArena());
+    this.spawnWave(1);
+    this.elapsedTime = 0;
+    this.survivalClockRunning = true;
+  }
+
+  // Starts over with a new seed (a fresh random one unless given)
+  public reset(seed: number = SeededRandom.generateSeed()) {
+    this.random.setSeed(seed);
+    this.effectsRandom.setSeed(seed ^ EFFECTS_SEED_SALT);
+
+    // Reset game state
+    this.currentWave = 1;
+    this.elapsedTime = 0;
+    this.survivalClockRunning = false;
+    this.betweenWaves = false;
+    this.waveTransitionTimer = 0;
+    this.waveDirector.reset();
+    this.gameOver = false;
+    this.pendingInputs = [];
+    this.tick = 0;
+
+    // Clear existing entities
+    this.clearEntities();
+    try {
+      AICoordinator.getInstance().cleanup();
+      AICoordinator.getInstance().setRandom(this.random);
+    } catch (error) {
+      console.warn('AI cleanup error:', error);
+    }
+
+    // Reset player
+    this.player.reset();
+  }
+
+  public step(dt: number) {
+    if (this.gameOver) return;
+
+    for (const event of this.pendingInputs) {
+      this.recorder.record(this.tick, event);
+      this.player.applyInput(event);
+    }
+    this.pendingInputs = [];
+    this.tick++;
+
+    if (this.survivalClockRunning) {
+      this.elapsedTime += dt;
+    }
+
+    // Handle wave transitions
+    if (this.betweenWaves) {
+      this.waveTransitionTimer -= dt;
+      if (this.waveTransitionTimer <= 0) {
+        this.spawnWave(this.currentWave);
+      }
+    } else {
+      // Overflow and sub-waves trickle in while the wave is being fought
+      const reinforcements = this.waveDirector.update(dt, this.enemies.length);
+      if (reinforcements.length > 0) {
+        this.spawnEnemies(reinforcements, this.currentWave);
+      }
+    }
+
+    // Clean up any invalid enemies first
+    this.cleanupInvalidEnemies();
+
+    // Update game objects
+    this.player.update(dt, this.level);
+    this.indexEnemies();
+    this.player.updateAimAssist(dt, this.enemyIndex);
+    this.audioManager?.updateListener(this.camera);
+
+    // Update AI coordination (heavily throttled)
+    try {
+      const coordinator = AICoordinator.getInstance();
+      coordinator.update(dt);
+      if (this.random.chance(0.02)) { // Only 2% of ticks to reduce load
+        coordinator.updateFormations(this.enemies, this.player.getPosition());
+      }
+    } catch (error) {
+      console.warn('AI coordination error:', error);
+    }
+
+    this.enemies.forEach(enemy => enemy.update(dt, this.player.getPosition(), this.level));
+    this.updateBosses();
+    // Advance the path searches enemies asked for, within the shared per-tick budget
+    PathFinder.update();
+    this.powerUps.forEach(powerUp => powerUp.update(dt));
+    this.indexEnemies(); // Nothing moves enemies again until the levitation in checkCollisions
+    this.throwableBoxes.forEach(box => box.update(dt, this.enemyIndex, this.level));
+    this.indexBoxes();
+    this.indexPowerUps();
+    this.particleSystem.update(dt);
+
+    // Handle player attacks
+    this.player.handleAttacks(this.enemyIndex, this.boxIndex);
+
+    // Check collisions
+    this.checkCollisions(dt);
+  }
+
+  // Blend between the last two simulation states for smooth rendering
+  public interpolate(alpha: number) {
+    this.player.interpolate(alpha);
+    this.enemies.forEach(enemy => enemy.interpolate(alpha));
+    this.powerUps.forEach(powerUp => powerUp.interpolate(alpha));
+    this.throwableBoxes.forEach(box => box.interpolate(alpha));
+    this.projectileSystem.sync();
+    this.particleSystem.sync();
+  }
+
+  // Collect boss attack results: damage dealt to the player and minions to summon
+  private updateBosses() {
+    for (const enemy of [...this.enemies]) {
+      const boss = enemy.getBoss();
+      if (!boss || !enemy.isAlive()) continue;
+
+      const damage = boss.consumePlayerDamage();
+      if (damage > 0) {
+        this.player.takeDamage(damage);
+        this.events.onHealthChange?.(this.player.getHealth());
+        this.particleSystem.createHitEffect(this.player.getPosition());
+      }
+
+      const room = this.waveDirector.getMaxAlive() - this.enemies.length;
+      const summons = boss.consumeSummons().slice(0, Math.max(0, room));
+      if (summons.length > 0) {
+        this.summonAround(enemy, summons);
+      }
+    }
+  }
+
+  private summonAround(boss: Enemy, types: EnemyType[]) {
+    const center = boss.getPosition();
+    let spawned = 0;
+
+    types.forEach((type, i) => {
+      const angle = (i / types.length) * Math.PI * 2 + this.random.range(-0.3, 0.3);
+      const position = new THREE.Vector3(center.x + Math.cos(angle) * 3, 0, center.z + Math.sin(angle) * 3);
+      if (this.level.checkCollision(position, 0.8)) return;
+
+      const enemy = new Enemy(position, this.scene, this.random, Math.floor(this.currentWave / 2) + 2, type);
+      enemy.setParticleSystem(this.particleSystem);
+      enemy.setProjectileSystem(this.projectileSystem);
+      enemy.setAudioManager(this.audioManager);
+      this.enemies.push(enemy);
+      spawned++;
+    });
+
+    // Summoned minions count towards the wave
+    this.initialEnemiesInWave += spawned;
+    this.events.onEnemiesInWaveChange?.(this.initialEnemiesInWave);
+    this.events.onEnemiesChange?.(this.enemies.length);
+    this.updateWaveProgress();
+  }
+
+  private indexEnemies() {
+    this.enemyIndex.clear();
+    this.enemies.forEach(enemy => this.indexEnemy(enemy));
+  }
+
+  // Enemies cover their hit radius, so a point query finds every enemy a laser there can hit
+  private indexEnemy(enemy: Enemy) {
+    const position = enemy.getPosition();
+    this.enemyIndex.insert(enemy, position.x, position.z, enemy.getHitRadius());
+  }
+
+  private indexBoxes() {
+    this.boxIndex.clear();
+    this.throwableBoxes.forEach(box => {
+      const position = box.getPosition();
+      this.boxIndex.insert(box, position.x, position.z);
+    });
+  }
+
+  private indexPowerUps() {
+    this.powerUpIndex.clear();
+    this.powerUps.forEach(powerUp => this.indexPowerUp(powerUp));
+  }
+
+  private indexPowerUp(powerUp: PowerUp) {
+    const position = powerUp.getPosition();
+    this.powerUpIndex.insert(powerUp, position.x, position.z);
+  }
+
+  private cleanupInvalidEnemies() {
+    const playerPosition = this.player.getPosition();
+
+    // Remove enemies that are too far from player or stuck outside bounds
+    for (let i = this.enemies.length - 1; i >= 0; i--) {
+      const enemy = this.enemies[i];
+      const enemyPos = enemy.getPosition();
+
+      // Check if enemy is too far outside the arena or stuck
+      const { width, depth } = this.level.getSize();
+      const isOutOfBounds = Math.abs(enemyPos.x) > width / 2 + OUT_OF_BOUNDS_MARGIN ||
+        Math.abs(enemyPos.z) > depth / 2 + OUT_OF_BOUNDS_MARGIN;
+      const isTooFarFromPlayer = enemyPos.distanceTo(playerPosition) > 100; // Remove if extremely far
+      const isStuckUnderground = enemyPos.y < -5; // Remove if fallen through floor
+
+      if (isOutOfBounds || isTooFarFromPlayer || isStuckUnderground) {
+        console.log(`Removing invalid enemy at position: ${enemyPos.x}, ${enemyPos.y}, ${enemyPos.z}`);
+        enemy.cleanup(this.scene);
+        this.enemies.splice(i, 1);
+        this.events.onEnemiesChange?.(this.enemies.length);
+        this.updateWaveProgress();
+      }
+    }
+  }
+
+  private spawnWave(waveNumber: number) {
+    // Clear existing enemies and power-ups
+    this.clearEntities();
+
+    // Arenas rotate every few waves; the geometry is only rebuilt when it changes
+    const arena = this.getArenaForWave(waveNumber);
+    const arenaChanged = this.level.getDefinition() !== arena;
+    if (arenaChanged) {
+      this.level.loadLevel(arena);
+    }
+    if (arenaChanged || waveNumber === 1) {
+      this.player.teleport(arena.playerStart.x, arena.playerStart.z);
+      this.events.onArenaChange?.(arena);
+
+      // Initialize AI systems AFTER level is loaded. The grid and its path cache carry over between
+      // waves in the same arena; a new run rebuilds them, as the editor may have used PathFinder since
+      // and paths cached by an earlier run would change how this one plays out
+      try {
+        PathFinder.initializeGrid(this.level);
+      } catch (error) {
+        console.warn('Failed to initialize AI pathfinding:', error);
+      }
+    }
+
+    // The director decides the composition; anything over the alive cap arrives as reinforcements
+    const enemyTypes = this.waveDirector.startWave(waveNumber);
+    this.initialEnemiesInWave = this.waveDirector.getTotalEnemies();
+
+    this.spawnEnemies(enemyTypes, waveNumber);
+
+    // Spawn throwable boxes
+    this.spawnThrowableBoxes();
+
+    this.betweenWaves = false;
+
+    this.events.onEnemiesChange?.(this.enemies.length);
+    this.events.onEnemiesInWaveChange?.(this.initialEnemiesInWave);
+    this.events.onWaveProgress?.(0);
+    this.events.onWaveEvent?.(this.waveDirector.getEvent());
+  }
+
+  private getArenaForWave(waveNumber: number): LevelDefinition {
+    if (this.customArena) return this.customArena;
+
+    const levels = getLevelDefinitions();
+    const start = levels.findIndex(level => level.id === this.arena);
+    const rotation = Math.floor((waveNumber - 1) / ARENA_ROTATION_WAVES);
+    return levels[(start + rotation) % levels.length];
+  }
+
+  private spawnEnemies(enemyTypes: EnemyType[], waveNumber: number) {
+    const arena = this.level.getDefinition();
+    if (!arena) return;
+
+    const enemyCount = enemyTypes.length;
+    const maxAttempts = 50;
+    const playerPosition = this.player.getPosition();
+    this.indexEnemies();
+
+    for (let i = 0; i < enemyCount; i++) {
+      let spawnPosition: THREE.Vector3 | null = null;
+      let attempts = 0;
+
+      // Enemies take turns between the spawn zones, spread around each one
+      const zone = arena.spawnZones[i % arena.spawnZones.length];
+
+      // Try to find a valid spawn position
+      while (attempts < maxAttempts && !spawnPosition) {
+        const angle = (i / enemyCount) * Math.PI * 2 + this.random.range(-0.25, 0.25);
+        const distance = zone.minRadius + this.random.next() * (zone.maxRadius - zone.minRadius);
+        const x = zone.x + Math.cos(angle) * distance;
+        const z = zone.z + Math.sin(angle) * distance;
+        const testPosition = new THREE.Vector3(x, 0, z);
+
+        // Check if this position is valid (not colliding with level geometry or on top of the player)
+        if (!this.level.checkCollision(testPosition, 0.8) && testPosition.distanceTo(playerPosition) >= MIN_SPAWN_DISTANCE) {
+          // Also check if it's not too close to existing enemies
+          let tooClose = false;
+          for (const existingEnemy of this.enemyIndex.query(testPosition.x, testPosition.z, SPAWN_SPACING, this.nearbyEnemies)) {
+            if (existingEnemy.getPosition().distanceTo(testPosition) < SPAWN_SPACING) {
+              tooClose = true;
+              break;
+            }
+          }
+
+          if (!tooClose) {
+            spawnPosition = testPosition;
+          }
+        }
+        attempts++;
+      }
+
+      // If we found a valid position, spawn the enemy
+      if (spawnPosition) {
+        const enemyType = enemyTypes[i];
+        const enemy = new Enemy(
+          spawnPosition,
+          this.scene,
+          this.random,
+          Math.floor(waveNumber / 2) + 2, // Difficulty increases every 2 waves, with higher base
+          enemyType
+        );
+        enemy.setParticleSystem(this.particleSystem);
+        enemy.setProjectileSystem(this.projectileSystem);
+        enemy.setAudioManager(this.audioManager);
+        this.enemies.push(enemy);
+        this.indexEnemy(enemy);
+      } else {
+        console.warn(`Could not find valid spawn position for enemy ${i + 1}`);
+      }
+    }
+
+    // Update enemy count based on actually spawned enemies
+    this.events.onEnemiesChange?.(this.enemies.length);
+  }
+
+  private spawnThrowableBoxes() {
+    const arena = this.level.getDefinition();
+    if (!arena) return;
+
+    // Spawn 3-5 boxes per wave, at a random pick of the level's box points
+    const boxCount = 3 + this.random.int(3);
+    const points = this.random.shuffle(arena.boxSpawns.slice());
+    this.indexBoxes();
+
+    for (const point of points) {
+      if (this.throwableBoxes.length >= boxCount) break;
+      const spawnPosition = new THREE.Vector3(point.x, 0.5, point.z);
+
+      // Check if position is valid
+      if (this.level.checkCollision(spawnPosition, 0.6)) continue;
+
+      // Make sure it's not too close to existing boxes
+      let tooClose = false;
+      for (const existingBox of this.boxIndex.query(spawnPosition.x, spawnPosition.z, SPAWN_SPACING)) {
+        if (existingBox.getPosition().distanceTo(spawnPosition) < SPAWN_SPACING) {
+          tooClose = true;
+          break;
+        }
+      }
+      if (tooClose) continue;
+
+      const box = new ThrowableBox(spawnPosition, this.scene, this.effectsRandom);
+      box.setParticleSystem(this.particleSystem);
+      this.throwableBoxes.push(box);
+      this.boxIndex.insert(box, spawnPosition.x, spawnPosition.z);
+    }
+  }
+
+  private startNextWave() {
+    this.currentWave++;
+    this.events.onWaveComplete?.(this.currentWave);
+
+    // Start transition period
+    this.betweenWaves = true;
+    this.waveTransitionTimer = WAVE_TRANSITION_TIME;
+
+    // Show wave transition UI (you could add this later)
+    console.log(`Wave ${this.currentWave} incoming!`);
+  }
+
+  private updateWaveProgress() {
+    if (this.initialEnemiesInWave > 0) {
+      const killed = this.initialEnemiesInWave - this.enemies.length - this.waveDirector.getPendingCount();
+      const progress = killed / this.initialEnemiesInWave;
+      this.events.onWaveProgress?.(progress);
+    }
+  }
+
+  private checkCollisions(dt: number) {
+    const playerPosition = this.player.getPosition();
+
+    // Update laser collisions
+    const laserResults = this.player.updateLasers(dt, this.enemyIndex, this.level);
+    laserResults.hitEnemies.forEach(enemy => {
+      this.audioManager?.playHitSound();
+      this.particleSystem.createHitEffect(enemy.getPosition());
+
+      if (!enemy.isAlive()) {
+        this.spawnPowerUp(enemy.getPosition(), enemy.getBoss()?.getDrop());
+        enemy.cleanup(this.scene);
+        const index = this.enemies.indexOf(enemy);
+        if (index > -1) {
+          this.enemies.splice(index, 1);
+          this.events.onEnemiesChange?.(this.enemies.length);
+          this.updateWaveProgress();
+        }
+      }
+    });
+
+    // Check enemy collisions with player attacks - use reverse iteration to safely remove elements
+    for (let enemyIndex = this.enemies.length - 1; enemyIndex >= 0; enemyIndex--) {
+      const enemy = this.enemies[enemyIndex];
+
+      // Check lightsaber attack
+      if (this.player.isAttacking() && enemy.isAlive()) {
+        const distance = this.player.distanceToBody(enemy.getPosition());
+        if (distance < 3) {
+          const isBehind = this.isPlayerBehindEnemy(enemy, playerPosition);
+          this.audioManager?.playHitSound();
+          try {
+            AICoordinator.getInstance().updatePlayerThreatLevel('damage');
+          } catch (error) {
+            console.warn('AI threat update error:', error);
+          }
+          enemy.takeDamage(LIGHTSABER_DAMAGE_PER_SECOND * dt, !isBehind); // More damage from behind
+          const push = enemy.getPosition().sub(playerPosition).setY(0);
+          if (push.lengthSq() > 0) {
+            enemy.applyImpulse(push.normalize().multiplyScalar(LIGHTSABER_KNOCKBACK_PER_SECOND * dt));
+          }
+          this.particleSystem.createHitEffect(enemy.getPosition());
+
+          if (!enemy.isAlive()) {
+            try {
+              AICoordinator.getInstance().updatePlayerThreatLevel('kill');
+            } catch (error) {
+              console.warn('AI threat update error:', error);
+            }
+            this.spawnPowerUp(enemy.getPosition(), enemy.getBoss()?.getDrop());
+            enemy.cleanup(this.scene);
+            this.enemies.splice(enemyIndex, 1);
+            this.events.onEnemiesChange?.(this.enemies.length);
+            this.updateWaveProgress();
+            continue; // Skip to next enemy since this one is removed
+          }
+        }
+      }
+
+      // Check telekinesis
+      const levitatedEnemy = this.player.getLevitatedEnemy();
+      if (levitatedEnemy === enemy) {
+        // Enemy is being levitated
+        const targetPos = playerPosition.clone().add(
+          this.camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(5)
+        );
+        targetPos.y += 2;
+        enemy.setPosition(targetPos);
+        this.indexEnemy(enemy);
+      }
+
+      // Check thrown enemy collisions
+      if (enemy.isBeingThrown()) {
+        // Check collision with nearby enemies - in reverse list order, as they may be removed
+        const thrownPosition = enemy.getPosition();
+        const nearby = this.enemyIndex.query(thrownPosition.x, thrownPosition.z, THROWN_ENEMY_HIT_DISTANCE, this.nearbyEnemies);
+        for (let nearbyIndex = nearby.length - 1; nearbyIndex >= 0; nearbyIndex--) {
+          const otherEnemy = nearby[nearbyIndex];
+          if (otherEnemy !== enemy && otherEnemy.isAlive()) { // Enemies already removed this tick are dead
+            const distance = enemy.getPosition().distanceTo(otherEnemy.getPosition());
+            if (distance < THROWN_ENEMY_HIT_DISTANCE) {
+              this.audioManager?.playHitSound();
+              otherEnemy.takeDamage(75);
+              enemy.takeDamage(25);
+
+              this.particleSystem.createExplosion(otherEnemy.getPosition());
+
+              if (!otherEnemy.isAlive()) {
+                try {
+                  AICoordinator.getInstance().updatePlayerThreatLevel('kill');
+                } catch (error) {
+                  console.warn('AI threat update error:', error);
+                }
+                this.spawnPowerUp(otherEnemy.getPosition(), otherEnemy.getBoss()?.getDrop());
+                otherEnemy.cleanup(this.scene);
+                this.enemies.splice(this.enemies.indexOf(otherEnemy), 1);
+                this.events.onEnemiesChange?.(this.enemies.length);
+                this.updateWaveProgress();
+              }
+            }
+          }
+        }
+      }
+
+      // Check enemy damage to player
+      if (enemy.isAlive() && !enemy.isBeingThrown()) {
+        // Walkers on the floor can't reach a player up on a platform
+        const distance = this.player.distanceToBody(enemy.getPosition());
+        if (distance < 2) {
+          this.player.takeDamage(enemy.getDamage() * CONTACT_DAMAGE_PER_SECOND * dt); // Reduced damage for better health system
+          this.events.onHealthChange?.(this.player.getHealth());
+        }
+
+        // Check ranged enemy projectile hits
+        if (enemy.checkProjectileOrLaserHit(playerPosition, 0.8)) {
+          this.player.takeDamage(enemy.getDamage()); // Normal projectile damage
+          this.events.onHealthChange?.(this.player.getHealth());
+          this.particleSystem.createHitEffect(playerPosition);
+        }
+
+        // Check explosion damage
+        const explosionDamage = enemy.getExplosionDamage(playerPosition);
+        if (explosionDamage > 0) {
+          this.player.takeDamage(explosionDamage);
+          this.events.onHealthChange?.(this.player.getHealth());
+          this.particleSystem.createExplosion(enemy.getPosition());
+        }
+      }
+    }
+
+    // Check throwable box interactions
+    for (let boxIndex = this.throwableBoxes.length - 1; boxIndex >= 0; boxIndex--) {
+      const box = this.throwableBoxes[boxIndex];
+
+      // Check if player is targeting this box for telekinesis
+      const levitatedBox = this.player.getLevitatedBox();
+      if (levitatedBox === box) {
+        // Box is being levitated
+        const targetPos = playerPosition.clone().add(
+          this.camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(4)
+        );
+        targetPos.y += 1;
+        box.setPosition(targetPos);
+      }
+    }
+
+    // Check power-up collection
+    const nearbyPowerUps = this.powerUpIndex.query(playerPosition.x, playerPosition.z, PICKUP_DISTANCE, this.nearbyPowerUps);
+    for (let nearbyIndex = nearbyPowerUps.length - 1; nearbyIndex >= 0; nearbyIndex--) {
+      const powerUp = nearbyPowerUps[nearbyIndex];
+      const distance = powerUp.getPosition().distanceTo(playerPosition);
+      if (distance < PICKUP_DISTANCE) {
+        powerUp.apply(this.player);
+        this.audioManager?.playPickupSound();
+        this.events.onHealthChange?.(this.player.getHealth());
+        powerUp.cleanup(this.scene);
+        this.powerUps.splice(this.powerUps.indexOf(powerUp), 1);
+        this.powerUpIndex.remove(powerUp);
+        this.particleSystem.createPickupEffect(powerUp.getPosition());
+      }
+    }
+
+    this.removeDeadEnemies();
+
+    // Check wave completion
+    if (this.enemies.length === 0 && !this.waveDirector.hasPendingSpawns()) {
+      if (!this.betweenWaves) {
+        this.startNextWave();
+      }
+    }
+
+    // Check lose condition
+    if (this.player.getHealth() <= 0) {
+      this.gameOver = true;
+      this.survivalClockRunning = false; // Stop survival time counter
+      this.events.onGameOver?.();
+    }
+  }
+
+  // Enemies can also die outside the hit checks above (thrown boxes, hard landings, exploders
+  // going off), so sweep up anything left dead before checking for wave completion
+  private removeDeadEnemies() {
+    const playerPosition = this.player.getPosition();
+
+    for (let index = this.enemies.length - 1; index >= 0; index--) {
+      const enemy = this.enemies[index];
+      if (enemy.isAlive()) continue;
+
+      if (enemy.isExploding()) {
+        const explosionDamage = enemy.getExplosionDamage(playerPosition);
+        if (explosionDamage > 0) {
+          this.player.takeDamage(explosionDamage);
+          this.events.onHealthChange?.(this.player.getHealth());
+        }
+        this.applyBlast(enemy);
+      } else {
+        this.spawnPowerUp(enemy.getPosition(), enemy.getBoss()?.getDrop());
+      }
+
+      enemy.cleanup(this.scene);
+      this.enemies.splice(index, 1);
+      this.events.onEnemiesChange?.(this.enemies.length);
+      this.updateWaveProgress();
+    }
+  }
+
+  // Exploder blasts knock the player and any enemies caught in them away from the center
+  private applyBlast(exploder: Enemy) {
+    const playerImpulse = exploder.getExplosionImpulse(this.player.getPosition());
+    if (playerImpulse) this.player.applyImpulse(playerImpulse);
+
+    const center = exploder.getPosition();
+    for (const enemy of this.enemyIndex.query(center.x, center.z, exploder.getExplosionRadius(), this.nearbyEnemies)) {
+      if (enemy === exploder || !enemy.isAlive()) continue;
+      const impulse = exploder.getExplosionImpulse(enemy.getPosition());
+      if (impulse) enemy.applyImpulse(impulse);
+    }
+  }
+
+  private isPlayerBehindEnemy(enemy: Enemy, playerPosition: THREE.Vector3): boolean {
+    const enemyPosition = enemy.getPosition();
+    const enemyToPlayer = playerPosition.clone().sub(enemyPosition).normalize();
+
+    // For simplicity, assume enemy faces towards (0,0,0) or last known player position
+    // In a more complex system, you'd track enemy facing direction
+    const enemyForward = new THREE.Vector3(0, 0, 1); // Default forward direction
+
+    const dot = enemyToPlayer.dot(enemyForward);
+    return dot < 0; // Player is behind if dot product is negative
+  }
+
+  private spawnPowerUp(position: THREE.Vector3, guaranteedDrop?: PowerUpType) {
+    if (guaranteedDrop) {
+      // Bosses always leave their own reward
+      const drop = new PowerUp(position.clone(), guaranteedDrop, this.scene);
+      this.powerUps.push(drop);
+      this.indexPowerUp(drop);
+      return;
+    }
+
+    if (this.random.chance(0.8)) { // 80% chance to drop power-up (increased for better health system)
+      // Higher chance for health power-ups
+      const type = this.random.chance(0.8) ? 'health' : 'speed';
+      const powerUp = new PowerUp(position.clone(), type, this.scene);
+      this.powerUps.push(powerUp);
+      this.indexPowerUp(powerUp);
+    }
+  }
+
+  private clearEntities() {
+    this.enemies.forEach(enemy => enemy.cleanup(this.scene));
+    this.powerUps.forEach(powerUp => powerUp.cleanup(this.scene));
+    this.throwableBoxes.forEach(box => box.cleanup(this.scene));
+    this.enemies = [];
+    this.powerUps = [];
+    this.throwableBoxes = [];
+    this.enemyIndex.clear();
+    this.boxIndex.clear();
+    this.powerUpIndex.clear();
+  }
+
+  public cleanup() {
+    // Clean up game objects
+    this.clearEntities();
+    this.level.cleanup(this.scene);
+    this.particleSystem.cleanup();
+    try {
+      AICoordinator.getInstance().cleanup();
+    } catch (error) {
+      console.warn('AI cleanup error:', error);
+    }
+    this.player.cleanup();
+    this.projectileSystem.cleanup();
+    this.scene.clear();
+  }
+
+  public getScene(): THREE.Scene {
+    return this.scene;
+  }
+
+  public getCamera(): THREE.PerspectiveCamera {
+    return this.camera;
+  }
+
+  public getPlayer(): Player {
+    return this.player;
+  }
+
+  public getEnemies(): Enemy[] {
+    return this.enemies;
+  }
+
+  public getPowerUps(): PowerUp[] {
+    return this.powerUps;
+  }
+
+  public getParticleSystem(): ParticleSystem {
+    return this.particleSystem;
+  }
+
+  // Usage of the projectile and particle pools, for the performance overlay
+  public getPoolStats(): PoolStats[] {
+    return [...this.projectileSystem.getPoolStats(), this.particleSystem.getPoolStats()];
+  }
+
+  public getThrowableBoxes(): ThrowableBox[] {
+    return this.throwableBoxes;
+  }
+
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  public getTick(): number {
+    return this.tick;
+  }
+
+  // Seed and inputs recorded since the first wave spawned
+  public getReplay(): ReplayData {
+    return this.recorder.getReplay(this.tick);
+  }
+
+  public getCurrentWave(): number {
+    return this.currentWave;
+  }
+
+  public getElapsedTime(): number {
+    return this.elapsedTime;
+  }
+
+  public getSurvivalTime(): number {
+    return Math.floor(this.elapsedTime);
+  }
+
+  public isSurvivalClockRunning(): boolean {
+    return this.survivalClockRunning;
+  }
+
+  public isGameOver(): boolean {
+    return this.gameOver;
+  }
+
+  // True during the pause between clearing a wave and the next one spawning
+  public isBetweenWaves(): boolean {
+    return this.betweenWaves;
+  }
+}
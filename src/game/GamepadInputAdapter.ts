@@ -0,0 +1,197 @@
+import { PlayerInputEvent } from './Player';
+import { InputAction } from './InputBindings';
+
+export type StickCurve = 'linear' | 'quadratic' | 'cubic';
+
+export interface GamepadSettings {
+  moveDeadZone: number; // Fraction of stick travel ignored around the center
+  lookDeadZone: number;
+  lookCurve: StickCurve; // Steeper curves trade top speed for fine aim near the center
+  lookSpeed: number; // Turn rate in radians per second at full deflection
+  invertY: boolean;
+}
+
+export const DEFAULT_GAMEPAD_SETTINGS: GamepadSettings = {
+  moveDeadZone: 0.15,
+  lookDeadZone: 0.12,
+  lookCurve: 'quadratic',
+  lookSpeed: 3,
+  invertY: false
+};
+
+// Button indices in the browser's 'standard' layout (Xbox names)
+export const GAMEPAD_BUTTONS = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  LT: 6,
+  RT: 7,
+  START: 9,
+  DPAD_UP: 12,
+  DPAD_DOWN: 13,
+  DPAD_LEFT: 14,
+  DPAD_RIGHT: 15
+};
+
+const BUTTON_ACTIONS: Array<[number, InputAction]> = [
+  [GAMEPAD_BUTTONS.A, 'jump'],
+  [GAMEPAD_BUTTONS.X, 'reload'],
+  [GAMEPAD_BUTTONS.Y, 'nextWeapon'],
+  [GAMEPAD_BUTTONS.LB, 'previousWeapon'],
+  [GAMEPAD_BUTTONS.RB, 'nextWeapon'],
+  [GAMEPAD_BUTTONS.LT, 'telekinesis'],
+  [GAMEPAD_BUTTONS.RT, 'attack'],
+  [GAMEPAD_BUTTONS.DPAD_LEFT, 'weapon1'],
+  [GAMEPAD_BUTTONS.DPAD_UP, 'weapon2'],
+  [GAMEPAD_BUTTONS.DPAD_RIGHT, 'weapon3'],
+  [GAMEPAD_BUTTONS.START, 'pause']
+];
+
+// Analog triggers press past one threshold and release below a lower one, so they don't chatter
+const TRIGGER_PRESS = 0.5;
+const TRIGGER_RELEASE = 0.3;
+const VERTICAL_LOOK_SCALE = 0.6; // Pitch turns slower than yaw, as on most console shooters
+const AXIS_PRECISION = 100; // Stick values are rounded to hundredths so tiny drift doesn't flood the replay
+
+const CURVES: Record<StickCurve, (t: number) => number> = {
+  linear: t => t,
+  quadratic: t => t * t,
+  cubic: t => t * t * t
+};
+
+// The first connected pad, or null when there is none (or no Gamepad API)
+export function getActiveGamepad(): Gamepad | null {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  for (const pad of navigator.getGamepads()) {
+    if (pad && pad.connected) return pad;
+  }
+  return null;
+}
+
+export function isGamepadButtonPressed(pad: Gamepad, index: number, wasPressed = false): boolean {
+  const button = pad.buttons[index];
+  if (!button) return false;
+  // Triggers report how far they're pulled; some pads leave value at 0 for digital buttons
+  const value = button.value || (button.pressed ? 1 : 0);
+  return value > (wasPressed ? TRIGGER_RELEASE : TRIGGER_PRESS);
+}
+
+/**
+ * Scales a stick so the dead zone reads as zero and the rest of the travel maps onto 0-1,
+ * then shapes the magnitude with a response curve. The dead zone is radial, so diagonals
+ * aren't snapped to the axes.
+ */
+export function shapeStick(x: number, y: number, deadZone: number, curve: StickCurve = 'linear'): [number, number] {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadZone) return [0, 0];
+
+  const scaled = CURVES[curve](Math.min(1, (magnitude - deadZone) / (1 - deadZone)));
+  return [x / magnitude * scaled, y / magnitude * scaled];
+}
+
+function quantize(value: number): number {
+  return Math.round(value * AXIS_PRECISION) / AXIS_PRECISION;
+}
+
+/**
+ * Polls the Gamepad API once per frame (the API has no events for sticks and buttons) and
+ * turns changes into input events: analog move and look-rate states plus the same actions the
+ * keyboard sends. Like DomInputAdapter, the pause action goes to onPause instead of the sink.
+ */
+export class GamepadInputAdapter {
+  private sink: (event: PlayerInputEvent) => void;
+  private onPause: () => void;
+  private settings: GamepadSettings;
+  private heldButtons = new Set<number>();
+  private move: [number, number] = [0, 0];
+  private lookRate: [number, number] = [0, 0];
+
+  constructor(
+    sink: (event: PlayerInputEvent) => void,
+    onPause: () => void = () => {},
+    settings: GamepadSettings = DEFAULT_GAMEPAD_SETTINGS
+  ) {
+    this.sink = sink;
+    this.onPause = onPause;
+    this.settings = { ...settings };
+  }
+
+  public setSettings(settings: GamepadSettings) {
+    this.settings = { ...settings };
+  }
+
+  public getSettings(): GamepadSettings {
+    return { ...this.settings };
+  }
+
+  public poll() {
+    const pad = getActiveGamepad();
+    if (!pad) {
+      this.releaseAll(); // Unplugged mid-game: nothing stays held
+      return;
+    }
+
+    const [moveX, moveY] = shapeStick(pad.axes[0] ?? 0, pad.axes[1] ?? 0, this.settings.moveDeadZone);
+    // Stick up is negative on the axis but means forward
+    this.setMove(quantize(moveX), quantize(-moveY));
+
+    const [lookX, lookY] = shapeStick(
+      pad.axes[2] ?? 0,
+      pad.axes[3] ?? 0,
+      this.settings.lookDeadZone,
+      this.settings.lookCurve
+    );
+    const pitchSign = this.settings.invertY ? 1 : -1;
+    this.setLookRate(
+      quantize(-lookX * this.settings.lookSpeed),
+      quantize(pitchSign * lookY * this.settings.lookSpeed * VERTICAL_LOOK_SCALE)
+    );
+
+    // Buttons sharing an action (Y and RB) each send their own press and release
+    BUTTON_ACTIONS.forEach(([index, action]) => {
+      const wasPressed = this.heldButtons.has(index);
+      const pressed = isGamepadButtonPressed(pad, index, wasPressed);
+      if (pressed === wasPressed) return;
+
+      if (pressed) {
+        this.heldButtons.add(index);
+      } else {
+        this.heldButtons.delete(index);
+      }
+      this.sendAction(action, pressed);
+    });
+  }
+
+  public releaseAll() {
+    this.setMove(0, 0);
+    this.setLookRate(0, 0);
+    BUTTON_ACTIONS.forEach(([index, action]) => {
+      if (this.heldButtons.delete(index)) {
+        this.sendAction(action, false);
+      }
+    });
+  }
+
+  private setMove(x: number, y: number) {
+    if (x === this.move[0] && y === this.move[1]) return;
+    this.move = [x, y];
+    this.sink({ type: 'move', x, y });
+  }
+
+  private setLookRate(yaw: number, pitch: number) {
+    if (yaw === this.lookRate[0] && pitch === this.lookRate[1]) return;
+    this.lookRate = [yaw, pitch];
+    this.sink({ type: 'lookRate', yaw, pitch });
+  }
+
+  private sendAction(action: InputAction, pressed: boolean) {
+    if (action === 'pause') {
+      if (pressed) this.onPause();
+      return;
+    }
+    this.sink({ type: 'action', action, pressed });
+  }
+}
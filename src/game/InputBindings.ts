@@ -0,0 +1,273 @@
+export type InputAction =
+  | 'moveForward'
+  | 'moveBackward'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'jump'
+  | 'attack'
+  | 'telekinesis'
+  | 'reload'
+  | 'weapon1'
+  | 'weapon2'
+  | 'weapon3'
+  | 'nextWeapon'
+  | 'previousWeapon'
+  | 'pause';
+
+export const INPUT_ACTIONS: InputAction[] = [
+  'moveForward',
+  'moveBackward',
+  'moveLeft',
+  'moveRight',
+  'jump',
+  'attack',
+  'telekinesis',
+  'reload',
+  'weapon1',
+  'weapon2',
+  'weapon3',
+  'nextWeapon',
+  'previousWeapon',
+  'pause'
+];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveForward: 'Move Forward',
+  moveBackward: 'Move Back',
+  moveLeft: 'Strafe Left',
+  moveRight: 'Strafe Right',
+  jump: 'Jump',
+  attack: 'Attack',
+  telekinesis: 'Telekinesis',
+  reload: 'Reload',
+  weapon1: 'Lightsaber',
+  weapon2: 'Blaster',
+  weapon3: 'Shotgun',
+  nextWeapon: 'Next Weapon',
+  previousWeapon: 'Previous Weapon',
+  pause: 'Pause'
+};
+
+// A binding is a KeyboardEvent.code ('KeyW', 'Space', ...), 'Mouse0'-'Mouse4', 'WheelUp' or 'WheelDown'
+export type BindingMap = Record<InputAction, string[]>;
+
+export const MAX_BINDINGS_PER_ACTION = 2;
+
+export const DEFAULT_BINDINGS: BindingMap = {
+  moveForward: ['KeyW'],
+  moveBackward: ['KeyS'],
+  moveLeft: ['KeyA'],
+  moveRight: ['KeyD'],
+  jump: ['Space'],
+  attack: ['Mouse0'],
+  telekinesis: ['Mouse2'],
+  reload: ['KeyR'],
+  weapon1: ['Digit1'],
+  weapon2: ['Digit2'],
+  weapon3: ['Digit3'],
+  nextWeapon: ['WheelUp', 'WheelDown'],
+  previousWeapon: ['KeyQ'],
+  pause: ['Escape']
+};
+
+const STORAGE_KEY = 'galacticWarsBindings';
+
+const BINDING_NAMES: Record<string, string> = {
+  Mouse0: 'L-Click',
+  Mouse1: 'M-Click',
+  Mouse2: 'R-Click',
+  Mouse3: 'Mouse 4',
+  Mouse4: 'Mouse 5',
+  WheelUp: 'Wheel Up',
+  WheelDown: 'Wheel Down',
+  Escape: 'ESC',
+  Space: 'Space',
+  ShiftLeft: 'L-Shift',
+  ShiftRight: 'R-Shift',
+  ControlLeft: 'L-Ctrl',
+  ControlRight: 'R-Ctrl',
+  AltLeft: 'L-Alt',
+  AltRight: 'R-Alt',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Backspace: 'Backspace'
+};
+
+function cloneBindings(bindings: BindingMap): BindingMap {
+  const copy = {} as BindingMap;
+  INPUT_ACTIONS.forEach(action => {
+    copy[action] = [...bindings[action]];
+  });
+  return copy;
+}
+
+/**
+ * Which keys and mouse buttons trigger which actions. Bindings are per physical key
+ * (KeyboardEvent.code), so they survive layout switches; names shown to the player use the
+ * active keyboard layout where the browser exposes it. Saved to localStorage on every change.
+ */
+export class InputBindings {
+  private static instance: InputBindings;
+  private bindings: BindingMap = cloneBindings(DEFAULT_BINDINGS);
+  private actionsByBinding = new Map<string, InputAction>();
+  private storage: Storage | null;
+  private keyboardLayout: Map<string, string> | null = null;
+
+  // Pass null for storage to keep bindings in memory only (Node, tests)
+  constructor(storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.storage = storage;
+    this.load();
+  }
+
+  public static getInstance(): InputBindings {
+    if (!InputBindings.instance) {
+      InputBindings.instance = new InputBindings();
+    }
+    return InputBindings.instance;
+  }
+
+  public getActionFor(binding: string): InputAction | null {
+    return this.actionsByBinding.get(binding) ?? null;
+  }
+
+  public getBindings(action: InputAction): string[] {
+    return [...this.bindings[action]];
+  }
+
+  public getAll(): BindingMap {
+    return cloneBindings(this.bindings);
+  }
+
+  // The other action already using this binding, if any
+  public findConflict(action: InputAction, binding: string): InputAction | null {
+    const owner = this.actionsByBinding.get(binding);
+    return owner && owner !== action ? owner : null;
+  }
+
+  /**
+   * Puts a binding in one of an action's slots. A binding can only trigger one action, so it is
+   * taken away from any other action that had it; returns that action so the UI can say so.
+   */
+  public bind(action: InputAction, slot: number, binding: string): InputAction | null {
+    if (slot < 0 || slot >= MAX_BINDINGS_PER_ACTION) {
+      throw new Error(`Binding slot ${slot} is out of range`);
+    }
+
+    const conflict = this.findConflict(action, binding);
+    if (conflict) {
+      this.bindings[conflict] = this.bindings[conflict].filter(existing => existing !== binding);
+    }
+
+    // Moving a binding between this action's own slots shouldn't leave it in both
+    const slots = this.bindings[action].filter(existing => existing !== binding);
+    if (slot < slots.length) {
+      slots[slot] = binding;
+    } else {
+      slots.push(binding);
+    }
+    this.bindings[action] = slots.slice(0, MAX_BINDINGS_PER_ACTION);
+
+    this.rebuildLookup();
+    this.save();
+    return conflict;
+  }
+
+  public unbind(action: InputAction, slot: number) {
+    this.bindings[action] = this.bindings[action].filter((_, index) => index !== slot);
+    this.rebuildLookup();
+    this.save();
+  }
+
+  public resetToDefaults() {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.rebuildLookup();
+    this.save();
+  }
+
+  // Actions left without any binding (the settings screen warns about these)
+  public getUnboundActions(): InputAction[] {
+    return INPUT_ACTIONS.filter(action => this.bindings[action].length === 0);
+  }
+
+  // Readable name for a binding, e.g. 'KeyW' -> 'W' (or 'Z' on an AZERTY layout)
+  public describe(binding: string): string {
+    const layoutKey = this.keyboardLayout?.get(binding);
+    if (layoutKey && layoutKey.trim()) return layoutKey.toUpperCase();
+    if (BINDING_NAMES[binding]) return BINDING_NAMES[binding];
+    if (binding.startsWith('Key')) return binding.slice(3);
+    if (binding.startsWith('Digit')) return binding.slice(5);
+    if (binding.startsWith('Numpad')) return `Num ${binding.slice(6)}`;
+    return binding;
+  }
+
+  public describeAction(action: InputAction, separator = ' / '): string {
+    const bindings = this.bindings[action];
+    return bindings.length > 0 ? bindings.map(binding => this.describe(binding)).join(separator) : 'Unbound';
+  }
+
+  // Chromium exposes the active layout; elsewhere names fall back to the US layout
+  public async loadKeyboardLayout() {
+    try {
+      const keyboard = (navigator as Navigator & { keyboard?: { getLayoutMap?: () => Promise<Map<string, string>> } }).keyboard;
+      if (keyboard?.getLayoutMap) {
+        this.keyboardLayout = await keyboard.getLayoutMap();
+      }
+    } catch (error) {
+      console.warn('Keyboard layout unavailable:', error);
+    }
+  }
+
+  private rebuildLookup() {
+    this.actionsByBinding.clear();
+    INPUT_ACTIONS.forEach(action => {
+      this.bindings[action].forEach(binding => {
+        this.actionsByBinding.set(binding, action);
+      });
+    });
+  }
+
+  private load() {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored) as Record<string, unknown>;
+        const used = new Set<string>();
+
+        // Take each saved action that is well formed; anything else keeps its default
+        INPUT_ACTIONS.forEach(action => {
+          const saved = parsed[action];
+          if (!Array.isArray(saved) || !saved.every(binding => typeof binding === 'string')) return;
+          this.bindings[action] = (saved as string[])
+            .filter(binding => !used.has(binding))
+            .slice(0, MAX_BINDINGS_PER_ACTION);
+          this.bindings[action].forEach(binding => used.add(binding));
+        });
+
+        // A default that a saved action took over can't stay on its default action too
+        INPUT_ACTIONS.forEach(action => {
+          if (Array.isArray(parsed[action])) return;
+          this.bindings[action] = this.bindings[action].filter(binding => !used.has(binding));
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to load key bindings:', error);
+      this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    }
+
+    this.rebuildLookup();
+  }
+
+  private save() {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (error) {
+      console.warn('Failed to save key bindings:', error);
+    }
+  }
+}
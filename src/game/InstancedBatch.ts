@@ -0,0 +1,80 @@
+import * as THREE from 'three';
+
+/**
+ * Draws any number of copies of one geometry and material in a single draw call.
+ * Instances are refilled from scratch each rendered frame: begin(), add() per copy, end().
+ * The buffers grow (doubling) when a frame needs more copies than ever before.
+ */
+export class InstancedBatch {
+  private scene: THREE.Scene;
+  private geometry: THREE.BufferGeometry;
+  private material: THREE.Material;
+  private mesh: THREE.InstancedMesh;
+  private capacity: number;
+  private count = 0;
+  private matrix = new THREE.Matrix4();
+  private scale = new THREE.Vector3();
+
+  constructor(scene: THREE.Scene, geometry: THREE.BufferGeometry, material: THREE.Material, capacity: number) {
+    this.scene = scene;
+    this.geometry = geometry;
+    this.material = material;
+    this.capacity = capacity;
+    this.mesh = this.createMesh(capacity);
+    this.scene.add(this.mesh);
+  }
+
+  public begin() {
+    this.count = 0;
+  }
+
+  public add(position: THREE.Vector3, quaternion: THREE.Quaternion, scale: number, color: THREE.Color) {
+    if (this.count === this.capacity) {
+      this.grow();
+    }
+    this.matrix.compose(position, quaternion, this.scale.setScalar(scale));
+    this.mesh.setMatrixAt(this.count, this.matrix);
+    this.mesh.setColorAt(this.count, color);
+    this.count++;
+  }
+
+  public end() {
+    this.mesh.count = this.count;
+    this.mesh.instanceMatrix.needsUpdate = true;
+    if (this.mesh.instanceColor) {
+      this.mesh.instanceColor.needsUpdate = true;
+    }
+  }
+
+  public dispose() {
+    this.scene.remove(this.mesh);
+    this.mesh.dispose();
+    this.geometry.dispose();
+    this.material.dispose();
+  }
+
+  private createMesh(capacity: number): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(this.geometry, this.material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+    mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    mesh.count = 0;
+    mesh.frustumCulled = false; // Instances spread over the whole arena; the bounds would go stale every frame
+    return mesh;
+  }
+
+  // Keeps the instances written so far this frame
+  private grow() {
+    const previous = this.mesh;
+    this.capacity *= 2;
+    this.mesh = this.createMesh(this.capacity);
+    this.mesh.instanceMatrix.array.set(previous.instanceMatrix.array);
+    if (previous.instanceColor && this.mesh.instanceColor) {
+      this.mesh.instanceColor.array.set(previous.instanceColor.array);
+    }
+
+    this.scene.remove(previous);
+    previous.dispose();
+    this.scene.add(this.mesh);
+  }
+}
@@ -0,0 +1,105 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { Level } from './Level';
+import { getLevelDefinition } from './LevelDefinitions';
+
+describe('Level.checkCollision', () => {
+  let level: Level;
+
+  beforeEach(() => {
+    level = new Level(new THREE.Scene());
+    level.loadLevel(getLevelDefinition('classic'));
+  });
+
+  it('is clear in the open', () => {
+    expect(level.checkCollision(new THREE.Vector3(0, 0, 0))).toBe(false);
+    expect(level.checkCollision(new THREE.Vector3(5, 0, -5), 0.5, 1.6)).toBe(false);
+  });
+
+  it('keeps a unit of clearance from the arena walls', () => {
+    expect(level.checkCollision(new THREE.Vector3(23.9, 0, 0))).toBe(false);
+    expect(level.checkCollision(new THREE.Vector3(24.1, 0, 0))).toBe(true);
+    expect(level.checkCollision(new THREE.Vector3(0, 0, -24.1))).toBe(true);
+    expect(level.checkCollision(new THREE.Vector3(100, 0, 100))).toBe(true);
+  });
+
+  it('hits the pillars, including the collision margin', () => {
+    // Pillar at (12, 0) with radius 1.2, padded by 0.2
+    expect(level.checkCollision(new THREE.Vector3(12, 0, 0))).toBe(true);
+    expect(level.checkCollision(new THREE.Vector3(13.8, 0, 0), 0.5)).toBe(true);
+    expect(level.checkCollision(new THREE.Vector3(14, 0, 0), 0.5)).toBe(false);
+  });
+
+  it('scales with the radius', () => {
+    const position = new THREE.Vector3(15, 0, 0);
+    expect(level.checkCollision(position, 0.5)).toBe(false);
+    expect(level.checkCollision(position, 2)).toBe(true);
+  });
+
+  it('only hits platforms at their height', () => {
+    // Platform at (15, 15): 4 wide and 2 tall
+    const beside = new THREE.Vector3(15, 0, 15);
+    expect(level.checkCollision(beside)).toBe(true);
+    expect(level.checkCollision(new THREE.Vector3(15, 2.5, 15))).toBe(false);
+  });
+
+  it('stops colliding once the level is cleaned up', () => {
+    const scene = new THREE.Scene();
+    const cleared = new Level(scene);
+    cleared.loadLevel(getLevelDefinition('classic'));
+    cleared.cleanup(scene);
+    expect(cleared.checkCollision(new THREE.Vector3(12, 0, 0))).toBe(false);
+  });
+});
+
+describe('Level.getGroundHeight', () => {
+  let level: Level;
+
+  beforeEach(() => {
+    level = new Level(new THREE.Scene());
+    level.loadLevel(getLevelDefinition('classic'));
+  });
+
+  it('stands on platforms only from within a step of their top', () => {
+    // Platform at (15, 15): 4 wide and 2 tall
+    expect(level.getGroundHeight(new THREE.Vector3(0, 0, 0))).toBe(0);
+    expect(level.getGroundHeight(new THREE.Vector3(15, 2, 15))).toBeCloseTo(2);
+    expect(level.getGroundHeight(new THREE.Vector3(15, 1.6, 15))).toBeCloseTo(2);
+    expect(level.getGroundHeight(new THREE.Vector3(15, 0, 15))).toBe(0);
+  });
+
+  it('keeps standing while the footprint overlaps the edge', () => {
+    // The platform's edge is at x = 17; the footprint reaches the radius plus the collision margin
+    expect(level.getGroundHeight(new THREE.Vector3(17.6, 2, 15), 0.5)).toBeCloseTo(2);
+    expect(level.getGroundHeight(new THREE.Vector3(17.8, 2, 15), 0.5)).toBe(0);
+  });
+
+  it('follows the slope of a ramp', () => {
+    // Ramp at (0, 18): 5 long, rising to 4 towards the arena's center
+    const low = level.getGroundHeight(new THREE.Vector3(0, 0, 20), 0);
+    const middle = level.getGroundHeight(new THREE.Vector3(0, 2, 18), 0);
+    expect(low).toBeGreaterThan(0);
+    expect(low).toBeLessThan(middle);
+    expect(middle).toBeCloseTo(2.16); // The highest probe, 0.2 uphill of the center
+  });
+});
+
+describe('Level.checkCollision with a step height', () => {
+  let level: Level;
+
+  beforeEach(() => {
+    level = new Level(new THREE.Scene());
+    level.loadLevel(getLevelDefinition('classic'));
+  });
+
+  it('lets characters walk onto the foot of a ramp but not into its side', () => {
+    expect(level.checkCollision(new THREE.Vector3(0, 0, 21), 0.5, 1.6, 0.5)).toBe(false);
+    expect(level.checkCollision(new THREE.Vector3(3, 0, 18), 0.5, 1.6, 0.5)).toBe(true);
+    expect(level.checkCollision(new THREE.Vector3(0, 2.2, 18), 0.5, 1.6, 0.5)).toBe(false);
+  });
+
+  it('still treats platforms taller than a step as walls', () => {
+    expect(level.checkCollision(new THREE.Vector3(15, 0, 12.5), 0.5, 1.6, 0.5)).toBe(true);
+    expect(level.checkCollision(new THREE.Vector3(15, 1.6, 12.5), 0.5, 1.6, 0.5)).toBe(false);
+  });
+});
@@ -1,33 +1,118 @@
 import * as THREE from 'three';
+import { SpatialHash } from './SpatialHash';
+import { LIGHTING_PRESETS, LevelDefinition, LevelPillar, LevelPlatform, LevelRamp, LevelWall, LightingPreset } from './LevelDefinitions';
+
+const OBSTACLE_CELL_SIZE = 4;
+export const GRID_SPACING = 2.5; // Units between floor grid lines, which the level editor snaps to
+const COLLISION_MARGIN = 0.2; // Obstacle boxes are expanded this much for more reliable collision detection
+export const STEP_HEIGHT = 0.5; // Characters walk up ledges and slopes this high without jumping
+
+// Where ground probes are cast from, as fractions of a footprint's half size: the center,
+// the corners and the middle of each side
+const FOOTPRINT_SAMPLES = [[0, 0], [-1, -1], [1, -1], [-1, 1], [1, 1], [0, -1], [0, 1], [-1, 0], [1, 0]];
+const DOWN = new THREE.Vector3(0, -1, 0);
+
+/**
+ * An obstacle's solid shape for character collision (see CharacterController): an upright box,
+ * turned around y for ramps, or an upright cylinder. Ramps' tops slope, so ask getColliderTop.
+ */
+export interface LevelCollider {
+  shape: 'box' | 'cylinder';
+  x: number; // Footprint center
+  z: number;
+  halfWidth: number; // Along the box's own x; the radius for cylinders
+  halfDepth: number; // Along the box's own z; the radius for cylinders
+  rotation: number; // radians around y
+  bottom: number;
+  top: number;
+  index: number; // Into the level's obstacles
+}
 
 export class Level {
   private scene: THREE.Scene;
+  private definition: LevelDefinition | null = null;
+  private width = 50; // Floor extent along x, kept after cleanup until the next load
+  private depth = 50; // Along z
   private levelMeshes: THREE.Object3D[] = [];
   private collidableMeshes: THREE.Mesh[] = [];
 
+  // Level geometry never moves, so obstacle bounds are worked out once per load
+  private obstacleBounds: THREE.Box3[] = [];
+  private paddedObstacleBounds: THREE.Box3[] = [];
+  private colliders: LevelCollider[] = [];
+  private obstacleIndex = new SpatialHash<number>(OBSTACLE_CELL_SIZE); // Indices into the bounds arrays
+  private nearbyObstacles: number[] = [];
+  private collisionBox = new THREE.Box3();
+  private collisionCenter = new THREE.Vector3();
+  private collisionSize = new THREE.Vector3();
+  private raycaster = new THREE.Raycaster();
+  private rayOrigin = new THREE.Vector3();
+  private rayHits: THREE.Intersection[] = [];
+
   constructor(scene: THREE.Scene) {
     this.scene = scene;
   }
 
-  public loadLevel(levelNumber: number) {
+  public loadLevel(definition: LevelDefinition) {
     // Clear existing level
     this.cleanup(this.scene);
     this.levelMeshes = [];
     this.collidableMeshes = [];
 
-    // Create simple arena for all levels
-    this.createSimpleArena();
+    this.definition = definition;
+    this.width = definition.floor.width;
+    this.depth = definition.floor.depth;
+
+    const lighting = LIGHTING_PRESETS[definition.lighting];
+    this.createArena(definition, lighting);
+    this.applyLighting(lighting);
+    this.indexObstacles();
+  }
+
+  // The loaded level, or null before the first load and after cleanup
+  public getDefinition(): LevelDefinition | null {
+    return this.definition;
+  }
+
+  public getSize(): { width: number; depth: number } {
+    return { width: this.width, depth: this.depth };
+  }
+
+  private indexObstacles() {
+    this.obstacleIndex.clear();
+    this.obstacleBounds = this.collidableMeshes.map(mesh => new THREE.Box3().setFromObject(mesh));
+    this.colliders = this.collidableMeshes.map((mesh, index) => this.createCollider(mesh, index));
+    this.paddedObstacleBounds = this.obstacleBounds.map((bounds, index) => {
+      const padded = bounds.clone().expandByScalar(COLLISION_MARGIN);
+      this.obstacleIndex.insertBox(index, padded.min.x, padded.min.z, padded.max.x, padded.max.z);
+      return padded;
+    });
+  }
+
+  private createCollider(mesh: THREE.Mesh, index: number): LevelCollider {
+    mesh.geometry.computeBoundingBox();
+    const local = mesh.geometry.boundingBox!; // Every obstacle's geometry is centered on its footprint
+    const bounds = this.obstacleBounds[index];
+    return {
+      shape: mesh.geometry instanceof THREE.CylinderGeometry ? 'cylinder' : 'box',
+      x: mesh.position.x,
+      z: mesh.position.z,
+      halfWidth: (local.max.x - local.min.x) / 2,
+      halfDepth: (local.max.z - local.min.z) / 2,
+      rotation: mesh.rotation.y,
+      bottom: bounds.min.y,
+      top: bounds.max.y,
+      index
+    };
   }
 
-  private createSimpleArena() {
-    const arenaSize = 50;
-    const wallHeight = 5;
-    const wallThickness = 2;
+  private createArena(definition: LevelDefinition, lighting: LightingPreset) {
+    const { width, depth } = definition.floor;
 
     // Create arena floor
-    const floorGeometry = new THREE.PlaneGeometry(arenaSize, arenaSize, 50, 50);
+    const floorGeometry = new THREE.PlaneGeometry(width, depth, Math.round(width), Math.round(depth));
     const floorMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x222244,
+      color: definition.floor.color,
       metalness: 0.6,
       roughness: 0.7,
     });
@@ -39,140 +124,158 @@ export class Level {
     this.levelMeshes.push(floor);
 
     // Add grid lines for visual interest
-    const gridHelper = new THREE.GridHelper(arenaSize, 20, 0x444444, 0x222222);
-    gridHelper.position.y = 0.01;
-    this.scene.add(gridHelper);
-    this.levelMeshes.push(gridHelper);
+    const grid = this.createGrid(width, depth);
+    grid.position.y = 0.01;
+    this.scene.add(grid);
+    this.levelMeshes.push(grid);
 
-    // Create boundary walls
-    const wallMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x334455,
-      metalness: 0.7,
-      roughness: 0.4,
-    });
-
-    const halfSize = arenaSize / 2;
+    // Create boundary walls, overlapping at the corners
+    const { height: wallHeight, thickness: wallThickness } = definition.walls;
+    const halfWidth = width / 2;
+    const halfDepth = depth / 2;
     const wallOffset = wallThickness / 2;
-    
-    // North wall (positive Z)
-    const northWall = new THREE.Mesh(
-      new THREE.BoxGeometry(arenaSize + wallThickness * 2, wallHeight, wallThickness),
-      wallMaterial.clone()
-    );
-    northWall.position.set(0, wallHeight / 2, halfSize + wallOffset);
-    northWall.castShadow = true;
-    northWall.receiveShadow = true;
-    northWall.userData = { isCollidable: true };
-    this.scene.add(northWall);
-    this.levelMeshes.push(northWall);
-    this.collidableMeshes.push(northWall);
-    
-    // South wall (negative Z)
-    const southWall = new THREE.Mesh(
-      new THREE.BoxGeometry(arenaSize + wallThickness * 2, wallHeight, wallThickness),
-      wallMaterial.clone()
-    );
-    southWall.position.set(0, wallHeight / 2, -halfSize - wallOffset);
-    southWall.castShadow = true;
-    southWall.receiveShadow = true;
-    southWall.userData = { isCollidable: true };
-    this.scene.add(southWall);
-    this.levelMeshes.push(southWall);
-    this.collidableMeshes.push(southWall);
-    
-    // East wall (positive X)
-    const eastWall = new THREE.Mesh(
-      new THREE.BoxGeometry(wallThickness, wallHeight, arenaSize),
-      wallMaterial.clone()
-    );
-    eastWall.position.set(halfSize + wallOffset, wallHeight / 2, 0);
-    eastWall.castShadow = true;
-    eastWall.receiveShadow = true;
-    eastWall.userData = { isCollidable: true };
-    this.scene.add(eastWall);
-    this.levelMeshes.push(eastWall);
-    this.collidableMeshes.push(eastWall);
-    
-    // West wall (negative X)
-    const westWall = new THREE.Mesh(
-      new THREE.BoxGeometry(wallThickness, wallHeight, arenaSize),
-      wallMaterial.clone()
-    );
-    westWall.position.set(-halfSize - wallOffset, wallHeight / 2, 0);
-    westWall.castShadow = true;
-    westWall.receiveShadow = true;
-    westWall.userData = { isCollidable: true };
-    this.scene.add(westWall);
-    this.levelMeshes.push(westWall);
-    this.collidableMeshes.push(westWall);
-
-    // Add some platforms for variety
-    this.createPlatforms([
-      { x: 15, z: 15, size: 4, height: 2 },
-      { x: -15, z: -15, size: 4, height: 3 },
-      { x: 15, z: -15, size: 3, height: 1.5 },
-      { x: -15, z: 15, size: 3, height: 2.5 },
-      { x: 0, z: 18, size: 5, height: 4, isRamp: true, rotation: Math.PI / 2 },
-      { x: 0, z: -18, size: 3, height: 2 }
+    this.createWalls(definition.walls.color, [
+      { x: 0, z: halfDepth + wallOffset, width: width + wallThickness * 2, depth: wallThickness, height: wallHeight }, // North (positive Z)
+      { x: 0, z: -halfDepth - wallOffset, width: width + wallThickness * 2, depth: wallThickness, height: wallHeight }, // South
+      { x: halfWidth + wallOffset, z: 0, width: wallThickness, depth, height: wallHeight }, // East (positive X)
+      { x: -halfWidth - wallOffset, z: 0, width: wallThickness, depth, height: wallHeight } // West
     ]);
+    this.createWalls(definition.walls.color, definition.walls.inner ?? []);
 
-    // Add some cylindrical obstacles
-    this.createObstacles();
+    this.createPlatforms(definition.platforms, lighting.edgeColor);
+    this.createRamps(definition.ramps, lighting.edgeColor);
+    this.createObstacles(definition.pillars);
   }
 
-  private createPlatforms(platforms: Array<{ x: number, z: number, size: number, height: number, isRamp?: boolean, rotation?: number }>) {
-    platforms.forEach(platform => {
-      const geometry = new THREE.BoxGeometry(platform.size, platform.height, platform.size);
-      const material = new THREE.MeshStandardMaterial({ 
-        color: 0x666677,
-        metalness: 0.8,
-        roughness: 0.3,
-      });
-      const mesh = new THREE.Mesh(geometry, material);
-      mesh.position.set(platform.x, platform.height / 2, platform.z);
+  // Like THREE.GridHelper, but for rectangular floors: lines sit on multiples of GRID_SPACING
+  // from the center whatever the floor size, so positions snapped to the spacing land on them
+  private createGrid(width: number, depth: number): THREE.LineSegments {
+    const centerColor = new THREE.Color(0x444444);
+    const lineColor = new THREE.Color(0x222222);
+    const vertices: number[] = [];
+    const colors: number[] = [];
+    const addLine = (x1: number, z1: number, x2: number, z2: number, isCenter: boolean) => {
+      vertices.push(x1, 0, z1, x2, 0, z2);
+      const color = isCenter ? centerColor : lineColor;
+      colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+    };
 
-      if (platform.isRamp) {
-          mesh.rotation.y = platform.rotation || 0;
-          mesh.scale.y = 0.2; // Make it a ramp
-      }
+    const halfWidth = width / 2;
+    const halfDepth = depth / 2;
+    for (let i = -Math.floor(halfWidth / GRID_SPACING); i <= Math.floor(halfWidth / GRID_SPACING); i++) {
+      addLine(i * GRID_SPACING, -halfDepth, i * GRID_SPACING, halfDepth, i === 0);
+    }
+    for (let i = -Math.floor(halfDepth / GRID_SPACING); i <= Math.floor(halfDepth / GRID_SPACING); i++) {
+      addLine(-halfWidth, i * GRID_SPACING, halfWidth, i * GRID_SPACING, i === 0);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    return new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ vertexColors: true }));
+  }
+
+  private createWalls(color: string, walls: LevelWall[]) {
+    const wallMaterial = new THREE.MeshStandardMaterial({ 
+      color,
+      metalness: 0.7,
+      roughness: 0.4,
+    });
 
+    walls.forEach(wall => {
+      const mesh = new THREE.Mesh(
+        new THREE.BoxGeometry(wall.width, wall.height, wall.depth),
+        wallMaterial.clone()
+      );
+      mesh.position.set(wall.x, wall.height / 2, wall.z);
       mesh.castShadow = true;
       mesh.receiveShadow = true;
       mesh.userData = { isCollidable: true };
-      
       this.scene.add(mesh);
       this.levelMeshes.push(mesh);
       this.collidableMeshes.push(mesh);
+    });
+    wallMaterial.dispose();
+  }
 
-      // Add glowing edges
-      const edgeGeometry = new THREE.EdgesGeometry(geometry);
-      const edgeMaterial = new THREE.LineBasicMaterial({ 
-        color: 0x00ffff,
-        linewidth: 2
-      });
-      const edges = new THREE.LineSegments(edgeGeometry, edgeMaterial);
-      mesh.add(edges);
+  private createPlatforms(platforms: LevelPlatform[], edgeColor: number) {
+    platforms.forEach(platform => {
+      const geometry = new THREE.BoxGeometry(platform.size, platform.height, platform.size);
+      const mesh = this.addWalkableMesh(geometry, edgeColor);
+      mesh.position.set(platform.x, platform.height / 2, platform.z);
+    });
+  }
+
+  // Ramps are wedges rising from the floor to their full height along their own x axis
+  private createRamps(ramps: LevelRamp[], edgeColor: number) {
+    ramps.forEach(ramp => {
+      const mesh = this.addWalkableMesh(this.createWedgeGeometry(ramp.size, ramp.height), edgeColor);
+      mesh.position.set(ramp.x, 0, ramp.z);
+      mesh.rotation.y = ramp.rotation;
+      mesh.userData.isRamp = true; // Its bounding box says little about where it can be walked on
+    });
+  }
+
+  private addWalkableMesh(geometry: THREE.BufferGeometry, edgeColor: number): THREE.Mesh {
+    const material = new THREE.MeshStandardMaterial({ 
+      color: 0x666677,
+      metalness: 0.8,
+      roughness: 0.3,
+    });
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.castShadow = true;
+    mesh.receiveShadow = true;
+    mesh.userData = { isCollidable: true };
+    
+    this.scene.add(mesh);
+    this.levelMeshes.push(mesh);
+    this.collidableMeshes.push(mesh);
+
+    // Add glowing edges
+    const edgeGeometry = new THREE.EdgesGeometry(geometry);
+    const edgeMaterial = new THREE.LineBasicMaterial({ 
+      color: edgeColor,
+      linewidth: 2
     });
+    const edges = new THREE.LineSegments(edgeGeometry, edgeMaterial);
+    mesh.add(edges);
+    return mesh;
   }
 
-  private createObstacles() {
+  private createWedgeGeometry(size: number, height: number): THREE.BufferGeometry {
+    const s = size / 2;
+    const lowNear = [-s, 0, -s];
+    const lowFar = [-s, 0, s];
+    const baseNear = [s, 0, -s];
+    const baseFar = [s, 0, s];
+    const topNear = [s, height, -s];
+    const topFar = [s, height, s];
+
+    // Counter-clockwise triangles seen from outside, so raycasts only hit the outer faces
+    const triangles = [
+      lowNear, baseNear, baseFar, lowNear, baseFar, lowFar, // Bottom
+      lowNear, lowFar, topFar, lowNear, topFar, topNear, // Slope
+      baseNear, topNear, topFar, baseNear, topFar, baseFar, // High end
+      lowNear, topNear, baseNear, // Sides
+      lowFar, baseFar, topFar
+    ];
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(triangles.flat(), 3));
+    geometry.computeVertexNormals();
+    return geometry;
+  }
+
+  private createObstacles(pillars: LevelPillar[]) {
     // Add some cylindrical obstacles
-    for (let i = 0; i < 8; i++) {
-      const geometry = new THREE.CylinderGeometry(1.2, 1.2, 3, 12);
+    pillars.forEach(pillar => {
+      const geometry = new THREE.CylinderGeometry(pillar.radius, pillar.radius, pillar.height, 12);
       const material = new THREE.MeshStandardMaterial({ 
         color: 0x444466,
         metalness: 0.9,
         roughness: 0.2,
       });
       const cylinder = new THREE.Mesh(geometry, material);
-      
-      const angle = (i / 8) * Math.PI * 2;
-      const radius = 12;
-      cylinder.position.set(
-        Math.cos(angle) * radius,
-        1.5,
-        Math.sin(angle) * radius
-      );
+      cylinder.position.set(pillar.x, pillar.height / 2, pillar.z);
       
       cylinder.castShadow = true;
       cylinder.receiveShadow = true;
@@ -181,34 +284,54 @@ export class Level {
       this.scene.add(cylinder);
       this.levelMeshes.push(cylinder);
       this.collidableMeshes.push(cylinder);
+    });
+  }
+
+  // The sun and shadows belong to the renderer (see SceneSetup); the level brings its own mood
+  private applyLighting(lighting: LightingPreset) {
+    if (this.scene.fog instanceof THREE.Fog) {
+      this.scene.fog.color.setHex(lighting.fogColor);
+    } else {
+      this.scene.fog = new THREE.Fog(lighting.fogColor, 10, 100);
     }
+    this.scene.background = new THREE.Color(lighting.fogColor);
+
+    const ambientLight = new THREE.AmbientLight(lighting.ambientColor, lighting.ambientIntensity);
+    this.scene.add(ambientLight);
+    this.levelMeshes.push(ambientLight);
+
+    lighting.lights.forEach(light => {
+      const pointLight = new THREE.PointLight(light.color, light.intensity, light.distance);
+      pointLight.position.set(...light.position);
+      this.scene.add(pointLight);
+      this.levelMeshes.push(pointLight);
+    });
   }
 
-  public checkCollision(position: THREE.Vector3, radius: number = 0.5, height: number = 1.0): boolean {
-    // First check if player is outside the arena bounds
-    const arenaSize = 50;
-    const boundary = (arenaSize / 2) - 1; // Add 1 unit buffer from wall
-    
-    if (Math.abs(position.x) > boundary || 
-        Math.abs(position.z) > boundary) {
+  /**
+   * True if a character standing at position (its feet) would overlap the level. Obstacles whose
+   * top is no more than stepHeight above the feet don't count: they're stepped onto, not walked into.
+   */
+  public checkCollision(position: THREE.Vector3, radius: number = 0.5, height: number = 1.0, stepHeight: number = 0): boolean {
+    // First check if player is outside the arena bounds, with a 1 unit buffer from the walls
+    if (Math.abs(position.x) > this.width / 2 - 1 || 
+        Math.abs(position.z) > this.depth / 2 - 1) {
       return true; // Outside arena bounds
     }
     
-    // Then check collision with specific meshes
-    const collisionBox = new THREE.Box3().setFromCenterAndSize(
-      new THREE.Vector3(position.x, position.y + height / 2, position.z),
-      new THREE.Vector3(radius * 2, height, radius * 2)
+    // Then check collision with the obstacles around it
+    const collisionBox = this.collisionBox.setFromCenterAndSize(
+      this.collisionCenter.set(position.x, position.y + height / 2, position.z),
+      this.collisionSize.set(radius * 2, height, radius * 2)
     );
 
-    for (const mesh of this.collidableMeshes) {
-      // Create bounding box for the mesh
-      const meshBox = new THREE.Box3().setFromObject(mesh);
-      
-      // Expand the mesh box for more reliable collision detection
-      meshBox.expandByScalar(0.2);
-      
-      // Check intersection
-      if (collisionBox.intersectsBox(meshBox)) {
+    const nearby = this.obstacleIndex.queryBox(
+      collisionBox.min.x, collisionBox.min.z, collisionBox.max.x, collisionBox.max.z, this.nearbyObstacles
+    );
+    for (const index of nearby) {
+      if (!collisionBox.intersectsBox(this.paddedObstacleBounds[index])) continue;
+
+      if (this.getColliderTop(this.colliders[index], position, radius) > position.y + stepHeight) {
         return true; // Collision detected
       }
     }
@@ -216,22 +339,115 @@ export class Level {
     return false; // No collision
   }
 
+  /**
+   * Height of the ground under a character's footprint: the highest surface found by casting
+   * rays down across it, ignoring anything more than a step above the feet. The floor is at 0.
+   */
+  public getGroundHeight(position: THREE.Vector3, radius: number = 0.5): number {
+    const reach = radius + COLLISION_MARGIN;
+    const nearby = this.obstacleIndex.queryBox(
+      position.x - reach, position.z - reach, position.x + reach, position.z + reach, this.nearbyObstacles
+    );
+
+    let ground = 0;
+    for (const index of nearby) {
+      const surface = this.getSurfaceHeight(index, position, radius, position.y + STEP_HEIGHT);
+      ground = Math.max(ground, surface);
+    }
+    return ground;
+  }
+
+  // Colliders whose footprint may come within reach of a point
+  public getCollidersNear(position: THREE.Vector3, reach: number, out: LevelCollider[] = []): LevelCollider[] {
+    out.length = 0;
+    const nearby = this.obstacleIndex.queryBox(
+      position.x - reach, position.z - reach, position.x + reach, position.z + reach, this.nearbyObstacles
+    );
+    for (const index of nearby) {
+      out.push(this.colliders[index]);
+    }
+    return out;
+  }
+
+  // How high a collider's top is under a footprint; ramps are only as high as their slope there
+  public getColliderTop(collider: LevelCollider, position: THREE.Vector3, radius: number): number {
+    return this.collidableMeshes[collider.index].userData.isRamp
+      ? this.getSurfaceHeight(collider.index, position, radius)
+      : collider.top;
+  }
+
+  // Highest point of an obstacle's top under the footprint, or -Infinity if no probe lands on it
+  private getSurfaceHeight(index: number, position: THREE.Vector3, radius: number, maxHeight = Infinity): number {
+    const mesh = this.collidableMeshes[index];
+    const reach = radius + COLLISION_MARGIN;
+    let surface = -Infinity;
+
+    for (const [sampleX, sampleZ] of FOOTPRINT_SAMPLES) {
+      // Cast from above the obstacle so only its upward-facing surface is hit
+      this.rayOrigin.set(position.x + sampleX * reach, this.obstacleBounds[index].max.y + 1, position.z + sampleZ * reach);
+      this.raycaster.set(this.rayOrigin, DOWN);
+      this.rayHits.length = 0;
+      mesh.raycast(this.raycaster, this.rayHits);
+
+      for (const hit of this.rayHits) {
+        if (hit.point.y <= maxHeight) {
+          surface = Math.max(surface, hit.point.y);
+        }
+      }
+    }
+    return surface;
+  }
+
+  // True if a wall or obstacle crosses the straight line between two points (sound occlusion)
+  public isLineBlocked(from: THREE.Vector3, to: THREE.Vector3): boolean {
+    const direction = to.clone().sub(from);
+    const distance = direction.length();
+    if (distance < 0.001) return false;
+
+    const ray = new THREE.Ray(from, direction.divideScalar(distance));
+    const hit = new THREE.Vector3();
+
+    const nearby = this.obstacleIndex.queryBox(
+      Math.min(from.x, to.x), Math.min(from.z, to.z), Math.max(from.x, to.x), Math.max(from.z, to.z)
+    );
+    for (const index of nearby) {
+      const meshBox = this.obstacleBounds[index];
+
+      // Something standing inside or against an obstacle isn't hidden by it
+      if (meshBox.containsPoint(from) || meshBox.containsPoint(to)) continue;
+
+      if (ray.intersectBox(meshBox, hit) && from.distanceTo(hit) < distance) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
   public cleanup(scene: THREE.Scene) {
     this.levelMeshes.forEach(mesh => {
       scene.remove(mesh);
       
-      // Dispose of geometries and materials
-      if (mesh instanceof THREE.Mesh) {
-        mesh.geometry.dispose();
-        if (Array.isArray(mesh.material)) {
-          mesh.material.forEach(material => material.dispose());
-        } else {
-          mesh.material.dispose();
+      // Dispose of geometries and materials, including the platform edges and grid lines;
+      // the level editor rebuilds the level on every change
+      mesh.traverse(object => {
+        if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+          object.geometry.dispose();
+          if (Array.isArray(object.material)) {
+            object.material.forEach(material => material.dispose());
+          } else {
+            object.material.dispose();
+          }
         }
-      }
+      });
     });
     
     this.levelMeshes = [];
     this.collidableMeshes = [];
+    this.definition = null;
+    this.obstacleBounds = [];
+    this.paddedObstacleBounds = [];
+    this.colliders = [];
+    this.obstacleIndex.clear();
   }
 }
\ No newline at end of file
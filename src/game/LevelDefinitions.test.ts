@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { Level } from './Level';
+import { DEFAULT_LEVEL_ID, getLevelDefinition, getLevelDefinitions, validateLevelDefinition } from './LevelDefinitions';
+import { GameSimulation } from './GameSimulation';
+
+const classic = getLevelDefinition('classic');
+
+describe('validateLevelDefinition', () => {
+  it('accepts the shipped levels', () => {
+    for (const level of getLevelDefinitions()) {
+      expect(validateLevelDefinition(level, `${level.id}.json`)).toBe(level);
+    }
+  });
+
+  it('lists every problem along with the source', () => {
+    const broken = {
+      ...classic,
+      floor: { ...classic.floor, width: 'wide' },
+      pillars: [{ x: 0, z: 40, radius: 1, height: 3 }],
+      spawnZones: [],
+      lighting: 'disco'
+    };
+
+    expect(() => validateLevelDefinition(broken, 'broken.json')).toThrow(
+      /broken\.json[\s\S]*floor\.width[\s\S]*pillars\[0\] is outside the floor[\s\S]*spawnZones[\s\S]*lighting/
+    );
+  });
+
+  it('rejects spawn zones that are inside out', () => {
+    const zone = { x: 0, z: 0, minRadius: 10, maxRadius: 5 };
+    expect(() => validateLevelDefinition({ ...classic, spawnZones: [zone] }, 'zones.json')).toThrow(/minRadius/);
+  });
+});
+
+describe('shipped levels', () => {
+  it.each(getLevelDefinitions().map(level => level.id))('%s leaves its start and box points clear', id => {
+    const definition = getLevelDefinition(id);
+    const scene = new THREE.Scene();
+    const level = new Level(scene);
+    level.loadLevel(definition);
+
+    expect(level.getSize()).toEqual({ width: definition.floor.width, depth: definition.floor.depth });
+    const { x, z } = definition.playerStart;
+    expect(level.checkCollision(new THREE.Vector3(x, 0, z), 0.5, 1.6)).toBe(false);
+    for (const point of definition.boxSpawns) {
+      expect(level.checkCollision(new THREE.Vector3(point.x, 0.5, point.z), 0.6)).toBe(false);
+    }
+    level.cleanup(scene);
+  });
+});
+
+describe('arena rotation', () => {
+  const arenaForWave = (simulation: GameSimulation, wave: number): string =>
+    simulation['getArenaForWave'](wave).id;
+
+  it('moves on every five waves, starting from the chosen arena', () => {
+    const ids = getLevelDefinitions().map(level => level.id);
+    const simulation = new GameSimulation({}, 1);
+    simulation.setArena(ids[1]);
+
+    expect(arenaForWave(simulation, 1)).toBe(ids[1]);
+    expect(arenaForWave(simulation, 5)).toBe(ids[1]);
+    expect(arenaForWave(simulation, 6)).toBe(ids[2]);
+    expect(arenaForWave(simulation, 5 * ids.length + 1)).toBe(ids[1]); // Wraps around
+    simulation.cleanup();
+  });
+
+  it('refuses unknown arenas', () => {
+    const simulation = new GameSimulation({}, 1);
+    expect(() => simulation.setArena('nowhere')).toThrow(/Unknown level/);
+    expect(simulation.getArena()).toBe(DEFAULT_LEVEL_ID);
+    simulation.cleanup();
+  });
+});
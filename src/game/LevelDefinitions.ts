@@ -0,0 +1,292 @@
+import classic from './levels/classic.json' with { type: 'json' };
+import foundry from './levels/foundry.json' with { type: 'json' };
+import cryoVault from './levels/cryo_vault.json' with { type: 'json' };
+import reactor from './levels/reactor.json' with { type: 'json' };
+
+export interface LevelPoint {
+  x: number;
+  z: number;
+}
+
+// Axis-aligned wall segment inside the arena
+export interface LevelWall extends LevelPoint {
+  width: number; // along x
+  depth: number; // along z
+  height: number;
+}
+
+export interface LevelPlatform extends LevelPoint {
+  size: number;
+  height: number;
+}
+
+export interface LevelRamp extends LevelPlatform {
+  rotation: number; // radians around y
+}
+
+export interface LevelPillar extends LevelPoint {
+  radius: number;
+  height: number;
+}
+
+// Ring around a point; enemies spawn between the two radii
+export interface LevelSpawnZone extends LevelPoint {
+  minRadius: number;
+  maxRadius: number;
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  description: string;
+  floor: {
+    width: number; // along x, centered on the origin
+    depth: number; // along z
+    color: string;
+  };
+  walls: {
+    height: number;
+    thickness: number;
+    color: string;
+    inner?: LevelWall[];
+  };
+  platforms: LevelPlatform[];
+  ramps: LevelRamp[];
+  pillars: LevelPillar[];
+  playerStart: LevelPoint;
+  spawnZones: LevelSpawnZone[];
+  boxSpawns: LevelPoint[];
+  lighting: LightingPresetName;
+}
+
+export interface LightingPreset {
+  fogColor: number; // Also the background
+  ambientColor: number;
+  ambientIntensity: number;
+  edgeColor: number; // Glowing platform edges
+  lights: { color: number; intensity: number; distance: number; position: [number, number, number] }[];
+}
+
+export type LightingPresetName = 'neon' | 'ember' | 'frost' | 'toxic';
+
+export const LIGHTING_PRESETS: Record<LightingPresetName, LightingPreset> = {
+  neon: {
+    fogColor: 0x000011,
+    ambientColor: 0x404040,
+    ambientIntensity: 0.3,
+    edgeColor: 0x00ffff,
+    lights: [
+      { color: 0x00ffff, intensity: 0.5, distance: 30, position: [-10, 5, -10] },
+      { color: 0xff00ff, intensity: 0.5, distance: 30, position: [10, 5, 10] }
+    ]
+  },
+  ember: {
+    fogColor: 0x110604,
+    ambientColor: 0x4a3020,
+    ambientIntensity: 0.35,
+    edgeColor: 0xff7733,
+    lights: [
+      { color: 0xff5522, intensity: 0.6, distance: 35, position: [-14, 6, 0] },
+      { color: 0xffaa33, intensity: 0.6, distance: 35, position: [14, 6, 0] }
+    ]
+  },
+  frost: {
+    fogColor: 0x020812,
+    ambientColor: 0x304a60,
+    ambientIntensity: 0.4,
+    edgeColor: 0x88ddff,
+    lights: [
+      { color: 0x66ccff, intensity: 0.5, distance: 30, position: [-8, 5, 8] },
+      { color: 0xcceeff, intensity: 0.5, distance: 30, position: [8, 5, -8] }
+    ]
+  },
+  toxic: {
+    fogColor: 0x020a04,
+    ambientColor: 0x284028,
+    ambientIntensity: 0.35,
+    edgeColor: 0x66ff44,
+    lights: [
+      { color: 0x44ff66, intensity: 0.6, distance: 35, position: [0, 6, -14] },
+      { color: 0xaaff22, intensity: 0.6, distance: 35, position: [0, 6, 14] }
+    ]
+  }
+};
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks parsed JSON against the level schema, the same way enemy archetypes are checked:
+ * every problem is collected, and the thrown error names the source file.
+ */
+export function validateLevelDefinition(data: unknown, source: string): LevelDefinition {
+  const problems: string[] = [];
+
+  const expectString = (parent: Record<string, unknown>, path: string, key: string) => {
+    const value = parent[key];
+    if (typeof value !== 'string' || value.length === 0) {
+      problems.push(`${path}${key} must be a non-empty string`);
+    }
+  };
+  const expectNumber = (parent: Record<string, unknown>, path: string, key: string, min = -Infinity) => {
+    const value = parent[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+      problems.push(`${path}${key} must be a number${min > -Infinity ? ` >= ${min}` : ''}`);
+    }
+  };
+  const expectColor = (parent: Record<string, unknown>, path: string, key: string) => {
+    const value = parent[key];
+    if (typeof value !== 'string' || !COLOR_PATTERN.test(value)) {
+      problems.push(`${path}${key} must be a color like "#334455"`);
+    }
+  };
+  const expectSection = (parent: Record<string, unknown>, key: string) => {
+    const value = parent[key];
+    if (!isObject(value)) {
+      problems.push(`${key} must be an object`);
+      return null;
+    }
+    return value;
+  };
+
+  if (!isObject(data)) {
+    throw new Error(`Invalid level in ${source}: expected a JSON object`);
+  }
+
+  expectString(data, '', 'id');
+  expectString(data, '', 'name');
+  expectString(data, '', 'description');
+
+  const floor = expectSection(data, 'floor');
+  if (floor) {
+    expectNumber(floor, 'floor.', 'width', 10);
+    expectNumber(floor, 'floor.', 'depth', 10);
+    expectColor(floor, 'floor.', 'color');
+  }
+  const halfWidth = typeof floor?.width === 'number' ? floor.width / 2 : Infinity;
+  const halfDepth = typeof floor?.depth === 'number' ? floor.depth / 2 : Infinity;
+
+  const expectOnFloor = (entry: Record<string, unknown>, path: string) => {
+    expectNumber(entry, `${path}.`, 'x');
+    expectNumber(entry, `${path}.`, 'z');
+    const { x, z } = entry;
+    if (typeof x === 'number' && typeof z === 'number' && (Math.abs(x) > halfWidth || Math.abs(z) > halfDepth)) {
+      problems.push(`${path} is outside the floor`);
+    }
+  };
+  // A list of objects placed on the floor, each with the given numbers and their minimums
+  const expectPlacements = (parent: Record<string, unknown>, path: string, key: string, fields: Record<string, number>) => {
+    const list = parent[key];
+    if (!Array.isArray(list)) {
+      problems.push(`${path}${key} must be an array`);
+      return;
+    }
+    list.forEach((entry: unknown, index) => {
+      const entryPath = `${path}${key}[${index}]`;
+      if (!isObject(entry)) {
+        problems.push(`${entryPath} must be an object`);
+        return;
+      }
+      expectOnFloor(entry, entryPath);
+      Object.entries(fields).forEach(([field, min]) => expectNumber(entry, `${entryPath}.`, field, min));
+    });
+  };
+
+  const walls = expectSection(data, 'walls');
+  if (walls) {
+    expectNumber(walls, 'walls.', 'height', 0.5);
+    expectNumber(walls, 'walls.', 'thickness', 0.1);
+    expectColor(walls, 'walls.', 'color');
+    if (walls.inner !== undefined) {
+      expectPlacements(walls, 'walls.', 'inner', { width: 0.1, depth: 0.1, height: 0.5 });
+    }
+  }
+
+  expectPlacements(data, '', 'platforms', { size: 0.5, height: 0.1 });
+  expectPlacements(data, '', 'ramps', { size: 0.5, height: 0.1, rotation: -Infinity });
+  expectPlacements(data, '', 'pillars', { radius: 0.1, height: 0.5 });
+  expectPlacements(data, '', 'boxSpawns', {});
+  expectPlacements(data, '', 'spawnZones', { minRadius: 0, maxRadius: 0.5 });
+  if (Array.isArray(data.spawnZones)) {
+    if (data.spawnZones.length === 0) {
+      problems.push('spawnZones must have at least one zone');
+    }
+    data.spawnZones.forEach((zone: unknown, index) => {
+      if (isObject(zone) && typeof zone.minRadius === 'number' && typeof zone.maxRadius === 'number' && zone.minRadius > zone.maxRadius) {
+        problems.push(`spawnZones[${index}].minRadius must not exceed maxRadius`);
+      }
+    });
+  }
+  if (Array.isArray(data.boxSpawns) && data.boxSpawns.length === 0) {
+    problems.push('boxSpawns must have at least one point');
+  }
+
+  const playerStart = expectSection(data, 'playerStart');
+  if (playerStart) {
+    expectOnFloor(playerStart, 'playerStart');
+  }
+
+  const presets = Object.keys(LIGHTING_PRESETS);
+  if (typeof data.lighting !== 'string' || !presets.includes(data.lighting)) {
+    problems.push(`lighting must be one of ${presets.map(preset => `"${preset}"`).join(', ')}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid level in ${source}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return data as unknown as LevelDefinition;
+}
+
+// Pretty-printed, so shared arena files read and diff like the shipped ones
+export function serializeLevelDefinition(level: LevelDefinition): string {
+  return JSON.stringify(level, null, 2) + '\n';
+}
+
+export function parseLevelDefinition(text: string, source: string): LevelDefinition {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`Invalid level in ${source}: not valid JSON`);
+  }
+  return validateLevelDefinition(data, source);
+}
+
+const levels = new Map<string, LevelDefinition>();
+
+export function registerLevelDefinition(data: unknown, source: string): LevelDefinition {
+  const level = validateLevelDefinition(data, source);
+  if (levels.has(level.id)) {
+    throw new Error(`Duplicate level "${level.id}" in ${source}`);
+  }
+  levels.set(level.id, level);
+  return level;
+}
+
+export function getLevelDefinition(id: string): LevelDefinition {
+  const level = levels.get(id);
+  if (!level) {
+    throw new Error(`Unknown level "${id}"`);
+  }
+  return level;
+}
+
+export function hasLevelDefinition(id: string): boolean {
+  return levels.has(id);
+}
+
+// In registration order, which is also the arena rotation order
+export function getLevelDefinitions(): LevelDefinition[] {
+  return Array.from(levels.values());
+}
+
+registerLevelDefinition(classic, 'levels/classic.json');
+registerLevelDefinition(foundry, 'levels/foundry.json');
+registerLevelDefinition(cryoVault, 'levels/cryo_vault.json');
+registerLevelDefinition(reactor, 'levels/reactor.json');
+
+export const DEFAULT_LEVEL_ID = 'classic';
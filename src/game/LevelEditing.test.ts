@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { getLevelDefinition, parseLevelDefinition, serializeLevelDefinition, validateLevelDefinition } from './LevelDefinitions';
+import { addEntry, cloneLevel, getEntryTransform, removeEntry, resizeFloor, setEntryTransform } from './LevelEditing';
+
+const editableCopy = () => cloneLevel(getLevelDefinition('classic'));
+
+describe('level editing', () => {
+  it('edits a copy, never the registered level', () => {
+    const level = editableCopy();
+    level.pillars[0].x = 3;
+    expect(getLevelDefinition('classic').pillars[0].x).toBe(12);
+  });
+
+  it('round-trips gizmo transforms', () => {
+    const level = editableCopy();
+    const selection = { kind: 'pillars' as const, index: 0 };
+    const transform = getEntryTransform(level, selection);
+    expect(transform).toEqual({ x: 12, z: 0, rotation: 0, width: 2.4, height: 3, depth: 2.4 });
+
+    setEntryTransform(level, selection, { ...transform, x: 10, width: 4, height: 5 });
+    expect(level.pillars[0]).toEqual({ x: 10, z: 0, radius: 2, height: 5 });
+  });
+
+  it('keeps entries on the floor and above the minimum sizes', () => {
+    const level = editableCopy();
+    const selection = { kind: 'platforms' as const, index: 0 };
+    setEntryTransform(level, selection, { x: 100, z: -100, rotation: 0, width: 0, height: -1, depth: 0 });
+
+    expect(level.platforms[0]).toEqual({ x: 25, z: -25, size: 0.5, height: 1 });
+    expect(() => validateLevelDefinition(level, 'edited')).not.toThrow();
+  });
+
+  it('turns walls a quarter at a time by swapping their sides', () => {
+    const level = editableCopy();
+    const selection = addEntry(level, 'walls', 0, 5);
+    const transform = getEntryTransform(level, selection);
+
+    setEntryTransform(level, selection, { ...transform, rotation: Math.PI / 2 + 0.1 });
+    expect(level.walls.inner![0]).toMatchObject({ width: 1, depth: 6 });
+    expect(getEntryTransform(level, selection).rotation).toBe(0);
+  });
+
+  it('only rotates ramps freely', () => {
+    const level = editableCopy();
+    setEntryTransform(level, { kind: 'ramps', index: 0 }, { ...getEntryTransform(level, { kind: 'ramps', index: 0 }), rotation: 0.5 });
+    setEntryTransform(level, { kind: 'platforms', index: 0 }, { ...getEntryTransform(level, { kind: 'platforms', index: 0 }), rotation: 0.5 });
+
+    expect(level.ramps[0].rotation).toBe(0.5);
+    expect(getEntryTransform(level, { kind: 'platforms', index: 0 }).rotation).toBe(0);
+  });
+
+  it('scales both radii of a spawn zone', () => {
+    const level = editableCopy();
+    const selection = { kind: 'spawnZones' as const, index: 0 };
+    setEntryTransform(level, selection, { ...getEntryTransform(level, selection), width: 25, depth: 50 });
+    expect(level.spawnZones[0]).toMatchObject({ minRadius: 5, maxRadius: 12.5 });
+  });
+
+  it('refuses to remove what a level needs', () => {
+    const level = editableCopy();
+    expect(removeEntry(level, { kind: 'playerStart', index: 0 })).toBe(false);
+    expect(removeEntry(level, { kind: 'spawnZones', index: 0 })).toBe(false);
+
+    addEntry(level, 'spawnZones', 0, 0);
+    expect(removeEntry(level, { kind: 'spawnZones', index: 0 })).toBe(true);
+    expect(level.spawnZones).toHaveLength(1);
+    expect(removeEntry(level, { kind: 'pillars', index: 7 })).toBe(true);
+    expect(level.pillars).toHaveLength(7);
+  });
+
+  it('pulls entries back onto a shrunken floor', () => {
+    const level = editableCopy();
+    resizeFloor(level, 20, 4);
+
+    expect(level.floor).toMatchObject({ width: 20, depth: 10 });
+    expect(level.platforms[0]).toMatchObject({ x: 10, z: 5 });
+    expect(() => validateLevelDefinition(level, 'shrunk')).not.toThrow();
+  });
+
+  it('exports files that import back unchanged', () => {
+    const level = editableCopy();
+    addEntry(level, 'boxSpawns', 2.5, -2.5);
+    expect(parseLevelDefinition(serializeLevelDefinition(level), 'shared.json')).toEqual(level);
+    expect(() => parseLevelDefinition('{ not json', 'broken.json')).toThrow(/broken\.json: not valid JSON/);
+  });
+});
@@ -0,0 +1,168 @@
+import { LevelDefinition, LevelPoint } from './LevelDefinitions';
+
+// Everything the editor can select, named after the level file's sections
+export type EditableKind = 'platforms' | 'ramps' | 'pillars' | 'walls' | 'spawnZones' | 'boxSpawns' | 'playerStart';
+export type AddableKind = Exclude<EditableKind, 'playerStart'>; // There's always exactly one start
+
+export const EDITABLE_KINDS: EditableKind[] = ['platforms', 'ramps', 'pillars', 'walls', 'spawnZones', 'boxSpawns', 'playerStart'];
+
+export interface EditorSelection {
+  kind: EditableKind;
+  index: number; // Into the kind's list; always 0 for playerStart
+}
+
+/**
+ * An entry as the editor's gizmos see it: a position, a turn around y and a bounding box.
+ * Sizes are full extents, so a pillar is 2 * radius across and a spawn zone 2 * maxRadius.
+ */
+export interface EntryTransform {
+  x: number;
+  z: number;
+  rotation: number;
+  width: number;
+  height: number;
+  depth: number;
+}
+
+const POINT_SIZE = 1; // Box spawns and the player start have no size of their own
+const MIN_FLOOR_SIZE = 10;
+
+const round = (value: number) => Math.round(value * 100) / 100; // Keeps exported files tidy
+
+// Square entries only have one footprint size; take whichever side the gizmo changed
+const pickSquareSize = (current: number, width: number, depth: number) =>
+  Math.abs(width - current) >= Math.abs(depth - current) ? width : depth;
+
+export function cloneLevel(level: LevelDefinition): LevelDefinition {
+  return JSON.parse(JSON.stringify(level));
+}
+
+export function getEntries(level: LevelDefinition, kind: EditableKind): LevelPoint[] {
+  switch (kind) {
+    case 'walls': return level.walls.inner ?? [];
+    case 'playerStart': return [level.playerStart];
+    default: return level[kind];
+  }
+}
+
+export function getEntryTransform(level: LevelDefinition, selection: EditorSelection): EntryTransform {
+  const { x, z } = getEntries(level, selection.kind)[selection.index];
+  const point = { x, z, rotation: 0, width: POINT_SIZE, height: POINT_SIZE, depth: POINT_SIZE };
+
+  switch (selection.kind) {
+    case 'platforms': {
+      const platform = level.platforms[selection.index];
+      return { ...point, width: platform.size, height: platform.height, depth: platform.size };
+    }
+    case 'ramps': {
+      const ramp = level.ramps[selection.index];
+      return { ...point, rotation: ramp.rotation, width: ramp.size, height: ramp.height, depth: ramp.size };
+    }
+    case 'pillars': {
+      const pillar = level.pillars[selection.index];
+      return { ...point, width: pillar.radius * 2, height: pillar.height, depth: pillar.radius * 2 };
+    }
+    case 'walls': {
+      const wall = level.walls.inner![selection.index];
+      return { ...point, width: wall.width, height: wall.height, depth: wall.depth };
+    }
+    case 'spawnZones': {
+      const zone = level.spawnZones[selection.index];
+      return { ...point, width: zone.maxRadius * 2, depth: zone.maxRadius * 2 };
+    }
+    default:
+      return point;
+  }
+}
+
+/**
+ * Writes a gizmo edit back into the level. Positions are kept on the floor and sizes above
+ * the level file's minimums. Only ramps turn freely; walls turn in quarter turns by swapping
+ * their width and depth, and everything else ignores rotation.
+ */
+export function setEntryTransform(level: LevelDefinition, selection: EditorSelection, transform: EntryTransform) {
+  const entry = getEntries(level, selection.kind)[selection.index];
+  entry.x = round(Math.max(-level.floor.width / 2, Math.min(level.floor.width / 2, transform.x)));
+  entry.z = round(Math.max(-level.floor.depth / 2, Math.min(level.floor.depth / 2, transform.z)));
+
+  const width = Math.abs(transform.width);
+  const depth = Math.abs(transform.depth);
+  const height = Math.abs(transform.height);
+
+  switch (selection.kind) {
+    case 'platforms':
+    case 'ramps': {
+      const platform = level[selection.kind][selection.index];
+      platform.size = round(Math.max(0.5, pickSquareSize(platform.size, width, depth)));
+      platform.height = round(Math.max(0.1, height));
+      if (selection.kind === 'ramps') {
+        level.ramps[selection.index].rotation = round(transform.rotation);
+      }
+      break;
+    }
+    case 'pillars': {
+      const pillar = level.pillars[selection.index];
+      pillar.radius = round(Math.max(0.1, pickSquareSize(pillar.radius * 2, width, depth) / 2));
+      pillar.height = round(Math.max(0.5, height));
+      break;
+    }
+    case 'walls': {
+      const wall = level.walls.inner![selection.index];
+      const quarterTurns = Math.round(transform.rotation / (Math.PI / 2));
+      const swap = quarterTurns % 2 !== 0;
+      wall.width = round(Math.max(0.1, swap ? depth : width));
+      wall.depth = round(Math.max(0.1, swap ? width : depth));
+      wall.height = round(Math.max(0.5, height));
+      break;
+    }
+    case 'spawnZones': {
+      // Scaling a zone scales both of its radii
+      const zone = level.spawnZones[selection.index];
+      const maxRadius = Math.max(0.5, pickSquareSize(zone.maxRadius * 2, width, depth) / 2);
+      zone.minRadius = round(zone.maxRadius > 0 ? zone.minRadius * maxRadius / zone.maxRadius : 0);
+      zone.maxRadius = round(maxRadius);
+      break;
+    }
+  }
+}
+
+// Adds an entry of a sensible default size at the given spot and returns its selection
+export function addEntry(level: LevelDefinition, kind: AddableKind, x: number, z: number): EditorSelection {
+  const position = {
+    x: round(Math.max(-level.floor.width / 2, Math.min(level.floor.width / 2, x))),
+    z: round(Math.max(-level.floor.depth / 2, Math.min(level.floor.depth / 2, z)))
+  };
+
+  switch (kind) {
+    case 'platforms': level.platforms.push({ ...position, size: 4, height: 2 }); break;
+    case 'ramps': level.ramps.push({ ...position, size: 5, height: 4, rotation: 0 }); break;
+    case 'pillars': level.pillars.push({ ...position, radius: 1.2, height: 3 }); break;
+    case 'walls': level.walls.inner = [...(level.walls.inner ?? []), { ...position, width: 6, depth: 1, height: level.walls.height }]; break;
+    case 'spawnZones': level.spawnZones.push({ ...position, minRadius: 0, maxRadius: 6 }); break;
+    case 'boxSpawns': level.boxSpawns.push(position); break;
+  }
+  return { kind, index: getEntries(level, kind).length - 1 };
+}
+
+// Returns false for entries the level can't do without: the start, and the last spawn zone or box point
+export function removeEntry(level: LevelDefinition, selection: EditorSelection): boolean {
+  const { kind, index } = selection;
+  if (kind === 'playerStart') return false;
+  if ((kind === 'spawnZones' || kind === 'boxSpawns') && level[kind].length <= 1) return false;
+
+  getEntries(level, kind).splice(index, 1);
+  return true;
+}
+
+// Changes the floor size, pulling anything left outside back onto the floor
+export function resizeFloor(level: LevelDefinition, width: number, depth: number) {
+  level.floor.width = round(Math.max(MIN_FLOOR_SIZE, width));
+  level.floor.depth = round(Math.max(MIN_FLOOR_SIZE, depth));
+
+  const halfWidth = level.floor.width / 2;
+  const halfDepth = level.floor.depth / 2;
+  EDITABLE_KINDS.forEach(kind => getEntries(level, kind).forEach(entry => {
+    entry.x = Math.max(-halfWidth, Math.min(halfWidth, entry.x));
+    entry.z = Math.max(-halfDepth, Math.min(halfDepth, entry.z));
+  }));
+}
@@ -0,0 +1,387 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js';
+import { GRID_SPACING, Level } from './Level';
+import { LevelDefinition, LightingPresetName } from './LevelDefinitions';
+import { PathFinder } from './AIBehavior';
+import { createRenderer, setupSceneLighting } from './SceneSetup';
+import {
+  AddableKind,
+  EDITABLE_KINDS,
+  EditableKind,
+  EditorSelection,
+  addEntry,
+  cloneLevel,
+  getEntries,
+  getEntryTransform,
+  removeEntry,
+  resizeFloor,
+  setEntryTransform
+} from './LevelEditing';
+
+export type EditorTool = 'translate' | 'rotate' | 'scale';
+
+export interface LevelEditorCallbacks {
+  onChange: (level: LevelDefinition) => void;
+  onSelectionChange: (selection: EditorSelection | null) => void;
+}
+
+// Level-wide fields edited from the side panel rather than with gizmos
+export interface LevelProperties {
+  id: string;
+  name: string;
+  description: string;
+  width: number;
+  depth: number;
+  lighting: LightingPresetName;
+}
+
+const PROXY_COLORS: Record<EditableKind, number> = {
+  platforms: 0x00ffff,
+  ramps: 0x00ff88,
+  pillars: 0x8888ff,
+  walls: 0xffffff,
+  spawnZones: 0xff3344,
+  boxSpawns: 0xffaa00,
+  playerStart: 0xffff00
+};
+const PROXY_OPACITY = 0.15;
+const SELECTED_PROXY_OPACITY = 0.45;
+const CLICK_DISTANCE = 5; // Pixels the pointer can move between down and up and still count as a click
+const RAMP_ROTATION_SNAP = Math.PI / 12;
+const WALL_ROTATION_SNAP = Math.PI / 2; // Walls stay axis-aligned
+const SCALE_SNAP = 0.5;
+
+/**
+ * Browser editor for level definitions. The arena itself is built by Level exactly as in the
+ * game; on top of it every editable entry gets a translucent proxy that can be picked and moved,
+ * turned or scaled with a gizmo. Edits are written back into the definition when a drag ends,
+ * and the level (and the navigation preview) is rebuilt from it.
+ */
+export class LevelEditor {
+  private definition: LevelDefinition;
+  private scene = new THREE.Scene();
+  private camera: THREE.PerspectiveCamera;
+  private renderer: THREE.WebGLRenderer;
+  private level: Level;
+  private orbit: OrbitControls;
+  private transform: TransformControls;
+  private callbacks: LevelEditorCallbacks;
+  private animationId: number | null = null;
+
+  private proxies: THREE.Mesh[] = [];
+  private proxyGroup = new THREE.Group();
+  private boxGeometry = new THREE.BoxGeometry(1, 1, 1);
+  private cylinderGeometry = new THREE.CylinderGeometry(0.5, 0.5, 1, 16);
+  private coneGeometry = new THREE.ConeGeometry(0.5, 1, 16);
+  private selection: EditorSelection | null = null;
+  private tool: EditorTool = 'translate';
+  private snap = true;
+
+  private navPreviewEnabled = false;
+  private navPreview: THREE.InstancedMesh | null = null;
+  private navCellGeometry = new THREE.PlaneGeometry(0.9, 0.9).rotateX(-Math.PI / 2);
+  private navCellMaterial = new THREE.MeshBasicMaterial({ color: 0xff2244, transparent: true, opacity: 0.35, depthWrite: false });
+
+  private raycaster = new THREE.Raycaster();
+  private pointerDown = new THREE.Vector2();
+
+  constructor(canvas: HTMLCanvasElement, level: LevelDefinition, callbacks: LevelEditorCallbacks) {
+    this.callbacks = callbacks;
+    this.definition = cloneLevel(level);
+
+    const extent = Math.max(level.floor.width, level.floor.depth);
+    this.camera = new THREE.PerspectiveCamera(60, window.innerWidth / window.innerHeight, 0.1, 500);
+    this.camera.position.set(0, extent * 0.8, extent * 0.6);
+
+    this.renderer = createRenderer(canvas);
+    setupSceneLighting(this.scene);
+    this.level = new Level(this.scene);
+
+    this.orbit = new OrbitControls(this.camera, canvas);
+    this.orbit.maxPolarAngle = Math.PI / 2 - 0.05; // Stay above the floor
+    this.orbit.maxDistance = 90; // Fog hides anything much further away
+
+    this.transform = new TransformControls(this.camera, canvas);
+    this.transform.addEventListener('dragging-changed', event => {
+      this.orbit.enabled = !event.value;
+      if (!event.value) {
+        this.commitTransform();
+      }
+    });
+    this.scene.add(this.transform);
+    this.scene.add(this.proxyGroup);
+    this.applySnap();
+
+    canvas.addEventListener('pointerdown', this.onPointerDown);
+    canvas.addEventListener('pointerup', this.onPointerUp);
+    window.addEventListener('resize', this.onWindowResize);
+
+    this.rebuild();
+    this.animationId = requestAnimationFrame(this.loop);
+  }
+
+  public getLevel(): LevelDefinition {
+    return cloneLevel(this.definition);
+  }
+
+  // Replaces the whole level, e.g. after importing a file
+  public setLevel(level: LevelDefinition) {
+    this.definition = cloneLevel(level);
+    this.select(null);
+    this.changed();
+  }
+
+  public setProperties(properties: Partial<LevelProperties>) {
+    const { width, depth, lighting, ...text } = properties;
+    Object.assign(this.definition, text);
+    if (lighting) {
+      this.definition.lighting = lighting;
+    }
+    if (width !== undefined || depth !== undefined) {
+      resizeFloor(this.definition, width ?? this.definition.floor.width, depth ?? this.definition.floor.depth);
+    }
+    this.changed();
+  }
+
+  public setTool(tool: EditorTool) {
+    this.tool = tool;
+    this.transform.setMode(tool);
+    this.attachGizmo();
+  }
+
+  public setSnap(enabled: boolean) {
+    this.snap = enabled;
+    this.applySnap();
+  }
+
+  public setNavPreview(enabled: boolean) {
+    this.navPreviewEnabled = enabled;
+    this.updateNavPreview();
+  }
+
+  // Adds a new entry on the grid point nearest the middle of the view and selects it
+  public add(kind: AddableKind) {
+    const target = this.orbit.target;
+    const selection = addEntry(
+      this.definition,
+      kind,
+      Math.round(target.x / GRID_SPACING) * GRID_SPACING,
+      Math.round(target.z / GRID_SPACING) * GRID_SPACING
+    );
+    this.changed();
+    this.select(selection);
+  }
+
+  // Returns false if nothing is selected or the level can't do without the selected entry
+  public deleteSelected(): boolean {
+    if (!this.selection || !removeEntry(this.definition, this.selection)) {
+      return false;
+    }
+    this.select(null);
+    this.changed();
+    return true;
+  }
+
+  public select(selection: EditorSelection | null) {
+    this.selection = selection;
+    this.proxies.forEach(proxy => {
+      const material = proxy.material as THREE.MeshBasicMaterial;
+      material.opacity = this.isSelected(proxy) ? SELECTED_PROXY_OPACITY : PROXY_OPACITY;
+    });
+    this.attachGizmo();
+    this.callbacks.onSelectionChange(selection);
+  }
+
+  private isSelected(proxy: THREE.Mesh): boolean {
+    const selection: EditorSelection = proxy.userData.selection;
+    return selection.kind === this.selection?.kind && selection.index === this.selection.index;
+  }
+
+  // Shows only the gizmo handles that mean something for the selected entry
+  private attachGizmo() {
+    const proxy = this.proxies.find(candidate => this.isSelected(candidate));
+    const kind = this.selection?.kind;
+    const isPoint = kind === 'boxSpawns' || kind === 'playerStart';
+    const supported = this.tool === 'translate' ||
+      (this.tool === 'rotate' && (kind === 'ramps' || kind === 'walls')) ||
+      (this.tool === 'scale' && !isPoint);
+
+    if (!proxy || !supported) {
+      this.transform.detach();
+      return;
+    }
+
+    this.transform.showX = this.tool !== 'rotate';
+    this.transform.showZ = this.tool !== 'rotate';
+    this.transform.showY = this.tool === 'rotate' || (this.tool === 'scale' && kind !== 'spawnZones');
+    this.transform.setRotationSnap(this.snap ? (kind === 'walls' ? WALL_ROTATION_SNAP : RAMP_ROTATION_SNAP) : null);
+    this.transform.attach(proxy);
+  }
+
+  private applySnap() {
+    this.transform.setTranslationSnap(this.snap ? GRID_SPACING : null);
+    this.transform.setScaleSnap(this.snap ? SCALE_SNAP : null);
+    this.attachGizmo();
+  }
+
+  // Writes the dragged proxy back into the definition
+  private commitTransform() {
+    const proxy = this.transform.object;
+    if (!proxy || !this.selection) return;
+
+    // Yaw from the proxy's x axis; Euler angles flip their x and z past a quarter turn
+    const xAxis = new THREE.Vector3(1, 0, 0).applyQuaternion(proxy.quaternion);
+    setEntryTransform(this.definition, this.selection, {
+      x: proxy.position.x,
+      z: proxy.position.z,
+      rotation: Math.atan2(-xAxis.z, xAxis.x),
+      width: proxy.scale.x,
+      height: proxy.scale.y,
+      depth: proxy.scale.z
+    });
+    this.changed();
+  }
+
+  private changed() {
+    this.rebuild();
+    this.callbacks.onChange(cloneLevel(this.definition));
+  }
+
+  private rebuild() {
+    this.level.loadLevel(this.definition);
+    this.rebuildProxies();
+    this.updateNavPreview();
+  }
+
+  private rebuildProxies() {
+    this.transform.detach();
+    this.disposeProxies();
+
+    EDITABLE_KINDS.forEach(kind => getEntries(this.definition, kind).forEach((_, index) => {
+      const selection = { kind, index };
+      const proxy = new THREE.Mesh(this.getProxyGeometry(selection), new THREE.MeshBasicMaterial({
+        color: PROXY_COLORS[kind],
+        transparent: true,
+        opacity: PROXY_OPACITY,
+        depthWrite: false,
+        side: THREE.DoubleSide
+      }));
+      proxy.userData = { selection };
+
+      const transform = getEntryTransform(this.definition, selection);
+      const isFlat = kind === 'spawnZones';
+      proxy.position.set(transform.x, isFlat ? 0.05 : transform.height / 2, transform.z);
+      proxy.rotation.y = transform.rotation;
+      proxy.scale.set(transform.width, isFlat ? 1 : transform.height, transform.depth);
+
+      this.proxyGroup.add(proxy);
+      this.proxies.push(proxy);
+    }));
+
+    // The selection may have gone with the rebuild (deleted, or a new level loaded)
+    if (this.selection && !this.proxies.some(proxy => this.isSelected(proxy))) {
+      this.select(null);
+    } else {
+      this.select(this.selection);
+    }
+  }
+
+  private getProxyGeometry(selection: EditorSelection): THREE.BufferGeometry {
+    switch (selection.kind) {
+      case 'pillars': return this.cylinderGeometry;
+      case 'playerStart': return this.coneGeometry;
+      case 'spawnZones': {
+        // Unit-diameter ring with the zone's inner radius cut out, scaled up to maxRadius
+        const zone = this.definition.spawnZones[selection.index];
+        const inner = zone.maxRadius > 0 ? 0.5 * zone.minRadius / zone.maxRadius : 0;
+        return new THREE.RingGeometry(inner, 0.5, 48).rotateX(-Math.PI / 2);
+      }
+      default: return this.boxGeometry;
+    }
+  }
+
+  private disposeProxies() {
+    this.proxies.forEach(proxy => {
+      this.proxyGroup.remove(proxy);
+      if (proxy.geometry instanceof THREE.RingGeometry) {
+        proxy.geometry.dispose(); // The other geometries are shared
+      }
+      (proxy.material as THREE.Material).dispose();
+    });
+    this.proxies = [];
+  }
+
+  // Marks every cell the pathfinder would treat as blocked for this layout
+  private updateNavPreview() {
+    if (this.navPreview) {
+      this.scene.remove(this.navPreview);
+      this.navPreview.dispose();
+      this.navPreview = null;
+    }
+    if (!this.navPreviewEnabled) return;
+
+    PathFinder.initializeGrid(this.level);
+    const cells = PathFinder.getBlockedCells();
+    this.navPreview = new THREE.InstancedMesh(this.navCellGeometry, this.navCellMaterial, cells.length);
+    const matrix = new THREE.Matrix4();
+    cells.forEach((cell, index) => {
+      this.navPreview!.setMatrixAt(index, matrix.makeTranslation(cell.x, cell.y + 0.03, cell.z));
+    });
+    this.scene.add(this.navPreview);
+  }
+
+  private onPointerDown = (event: PointerEvent) => {
+    this.pointerDown.set(event.clientX, event.clientY);
+  };
+
+  // Clicks (not drags, which orbit the camera) pick a proxy or clear the selection
+  private onPointerUp = (event: PointerEvent) => {
+    if (event.button !== 0 || this.transform.dragging || this.transform.axis !== null) return;
+    if (this.pointerDown.distanceTo(new THREE.Vector2(event.clientX, event.clientY)) > CLICK_DISTANCE) return;
+
+    const rect = this.renderer.domElement.getBoundingClientRect();
+    const pointer = new THREE.Vector2(
+      ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      -((event.clientY - rect.top) / rect.height) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, this.camera);
+    const [hit] = this.raycaster.intersectObjects(this.proxies, false);
+    this.select(hit ? hit.object.userData.selection : null);
+  };
+
+  private loop = () => {
+    this.animationId = requestAnimationFrame(this.loop);
+    this.renderer.render(this.scene, this.camera);
+  };
+
+  private onWindowResize = () => {
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+  };
+
+  public cleanup() {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+    const canvas = this.renderer.domElement;
+    canvas.removeEventListener('pointerdown', this.onPointerDown);
+    canvas.removeEventListener('pointerup', this.onPointerUp);
+    window.removeEventListener('resize', this.onWindowResize);
+
+    this.transform.detach();
+    this.transform.dispose();
+    this.orbit.dispose();
+    this.disposeProxies();
+    this.boxGeometry.dispose();
+    this.cylinderGeometry.dispose();
+    this.coneGeometry.dispose();
+    this.navPreview?.dispose();
+    this.navCellGeometry.dispose();
+    this.navCellMaterial.dispose();
+    this.level.cleanup(this.scene);
+    this.renderer.dispose();
+  }
+}
@@ -0,0 +1,65 @@
+import { MusicStem } from './SoundSynth';
+
+export interface MusicState {
+  threatLevel: number; // 0-100, from AICoordinator
+  livingEnemies: number;
+  healthFraction: number; // 0-1
+  betweenWaves: boolean;
+}
+
+const FULL_INTENSITY_ENEMIES = 12; // This many living enemies alone is half of full intensity
+const LOW_HEALTH = 0.35; // The heartbeat starts fading in below this fraction of health
+const FADE_IN_TIME = 1.5; // seconds for a stem to go from silent to full
+const FADE_OUT_TIME = 3; // seconds from full to silent
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Decides how loud each music stem is from the state of the fight. Between waves only the calm
+ * layer plays over a quiet pulse; during a wave, intensity (player threat plus how many enemies
+ * are alive) brings in the drums and then the lead, and low health adds the heartbeat. Levels
+ * move towards their targets at a fixed rate, so stems fade rather than cut.
+ */
+export class MusicDirector {
+  private levels: Record<MusicStem, number> = { calm: 0, pulse: 1, drums: 0, lead: 0, danger: 0 };
+  private intensity = 0;
+
+  public update(dt: number, state: MusicState) {
+    this.intensity = state.betweenWaves
+      ? 0
+      : clamp01(0.5 * state.threatLevel / 100 + 0.5 * state.livingEnemies / FULL_INTENSITY_ENEMIES);
+
+    const targets: Record<MusicStem, number> = {
+      calm: state.betweenWaves ? 1 : 0,
+      pulse: state.betweenWaves ? 0.25 : 1,
+      drums: clamp01((this.intensity - 0.2) / 0.2),
+      lead: clamp01((this.intensity - 0.55) / 0.2),
+      danger: clamp01((LOW_HEALTH - state.healthFraction) / (LOW_HEALTH / 2))
+    };
+
+    for (const stem of Object.keys(targets) as MusicStem[]) {
+      const current = this.levels[stem];
+      const target = targets[stem];
+      if (target > current) {
+        this.levels[stem] = Math.min(target, current + dt / FADE_IN_TIME);
+      } else {
+        this.levels[stem] = Math.max(target, current - dt / FADE_OUT_TIME);
+      }
+    }
+  }
+
+  public getLevels(): Record<MusicStem, number> {
+    return { ...this.levels };
+  }
+
+  public getIntensity(): number {
+    return this.intensity;
+  }
+
+  public reset() {
+    this.levels = { calm: 0, pulse: 1, drums: 0, lead: 0, danger: 0 };
+    this.intensity = 0;
+  }
+}
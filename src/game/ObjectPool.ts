@@ -0,0 +1,55 @@
+export interface PoolStats {
+  name: string;
+  active: number;
+  free: number;
+  peak: number; // Most objects active at once
+  created: number; // Objects ever allocated; stops growing once the pool has warmed up
+}
+
+/**
+ * Hands out reusable objects so busy fights don't keep feeding the garbage collector.
+ * Acquired objects come back as they were released: the caller sets every field it uses.
+ */
+export class ObjectPool<T> {
+  private name: string;
+  private create: () => T;
+  private free: T[] = [];
+  private active = new Set<T>();
+  private peak = 0;
+  private created = 0;
+
+  constructor(name: string, create: () => T) {
+    this.name = name;
+    this.create = create;
+  }
+
+  public acquire(): T {
+    let item = this.free.pop();
+    if (item === undefined) {
+      item = this.create();
+      this.created++;
+    }
+    this.active.add(item);
+    this.peak = Math.max(this.peak, this.active.size);
+    return item;
+  }
+
+  public release(item: T) {
+    if (!this.active.delete(item)) return; // Already back in the pool
+    this.free.push(item);
+  }
+
+  public forEachActive(callback: (item: T) => void) {
+    this.active.forEach(callback);
+  }
+
+  public getStats(): PoolStats {
+    return {
+      name: this.name,
+      active: this.active.size,
+      free: this.free.length,
+      peak: this.peak,
+      created: this.created
+    };
+  }
+}
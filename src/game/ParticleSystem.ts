@@ -1,135 +1,179 @@
 import * as THREE from 'three';
-
+import { SeededRandom } from './SeededRandom';
+import { InstancedBatch } from './InstancedBatch';
+import { ObjectPool, PoolStats } from './ObjectPool';
+
+const MAX_EFFECT_PARTICLES = 100; // Largest effect at full density
+const INITIAL_CAPACITY = 2048; // Instances per batch before the first grow
+
+// One burst of particles moving as a group; offsets are relative to the origin
+interface ParticleEffect {
+  origin: THREE.Vector3;
+  velocity: THREE.Vector3; // units per second
+  life: number; // seconds remaining
+  maxLife: number;
+  growth: number; // scale increase per second for expanding bursts
+  scale: number;
+  size: number; // particle diameter
+  opacity: number;
+  additive: boolean;
+  count: number;
+  offsets: Float32Array;
+  colors: Float32Array;
+}
+
+/**
+ * Cosmetic particle effects. Effects are pooled with room for the largest burst, and every
+ * particle is an instance in one of two instanced meshes (additive and normal blending), so
+ * an effect allocates nothing. Instances share their material's opacity: additive particles
+ * fade by dimming and the rest by shrinking.
+ */
 export class ParticleSystem {
-  private scene: THREE.Scene;
-  private particles: Array<{
-    mesh: THREE.Points;
-    velocity: THREE.Vector3;
-    life: number;
-    maxLife: number;
-  }> = [];
+  private particles: ParticleEffect[] = [];
+  private pool = new ObjectPool<ParticleEffect>('Particle effects', () => ({
+    origin: new THREE.Vector3(),
+    velocity: new THREE.Vector3(),
+    life: 0,
+    maxLife: 0,
+    growth: 0,
+    scale: 1,
+    size: 0,
+    opacity: 1,
+    additive: false,
+    count: 0,
+    offsets: new Float32Array(MAX_EFFECT_PARTICLES * 3),
+    colors: new Float32Array(MAX_EFFECT_PARTICLES * 3)
+  }));
+  private additiveBatch: InstancedBatch;
+  private normalBatch: InstancedBatch;
   private maxParticles = 100; // Cap to prevent performance issues
+  private random: SeededRandom;
+  private density = 1; // Fraction of each effect's particles to spawn (player setting)
+
+  // Scratch objects for sync()
+  private instancePosition = new THREE.Vector3();
+  private instanceColor = new THREE.Color();
+  private noRotation = new THREE.Quaternion();
+
+  constructor(scene: THREE.Scene, random: SeededRandom) {
+    this.random = random;
+
+    const geometry = () => new THREE.OctahedronGeometry(0.5); // Unit diameter; reads as a dot at particle sizes
+    this.additiveBatch = new InstancedBatch(scene, geometry(), new THREE.MeshBasicMaterial({
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    }), INITIAL_CAPACITY);
+    this.normalBatch = new InstancedBatch(scene, geometry(), new THREE.MeshBasicMaterial(), INITIAL_CAPACITY);
+  }
+
+  // Live effects allowed at once (the quality governor trades these for frame rate)
+  public setMaxParticles(count: number) {
+    this.maxParticles = count;
+  }
+
+  public setDensity(density: number) {
+    this.density = Math.max(0, Math.min(1, density));
+  }
+
+  private scaleCount(count: number): number {
+    return Math.max(1, Math.round(count * this.density));
+  }
 
-  constructor(scene: THREE.Scene) {
-    this.scene = scene;
+  // A pooled effect with room for count particles; the caller fills offsets and colors
+  private acquireEffect(
+    position: THREE.Vector3,
+    count: number,
+    size: number,
+    opacity: number,
+    additive: boolean,
+    life: number
+  ): ParticleEffect {
+    const effect = this.pool.acquire();
+    effect.origin.copy(position);
+    effect.velocity.set(0, 0, 0);
+    effect.life = life;
+    effect.maxLife = life;
+    effect.growth = 0;
+    effect.scale = 1;
+    effect.size = size;
+    effect.opacity = opacity;
+    effect.additive = additive;
+    effect.count = Math.min(count, MAX_EFFECT_PARTICLES);
+    this.particles.push(effect);
+    return effect;
   }
 
   public createHitEffect(position: THREE.Vector3) {
     // Check particle limit
     if (this.particles.length >= this.maxParticles) return;
     
-    const particleCount = 30; // Reduced for performance
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
+    const particleCount = this.scaleCount(30); // Reduced for performance
+    const effect = this.acquireEffect(position, particleCount, 0.15, 1, true, 1.3); // Larger, longer lasting glow
+    const { offsets, colors } = effect;
 
     for (let i = 0; i < particleCount; i++) {
       // Spread particles in all directions
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      const radius = Math.random() * 0.8; // Larger spread
+      const theta = this.random.next() * Math.PI * 2;
+      const phi = this.random.next() * Math.PI;
+      const radius = this.random.next() * 0.8; // Larger spread
 
-      positions[i * 3] = Math.sin(phi) * Math.cos(theta) * radius;
-      positions[i * 3 + 1] = Math.cos(phi) * radius;
-      positions[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * radius;
+      offsets[i * 3] = Math.sin(phi) * Math.cos(theta) * radius;
+      offsets[i * 3 + 1] = Math.cos(phi) * radius;
+      offsets[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * radius;
 
       // Red to yellow colors
       colors[i * 3] = 1; // Red
-      colors[i * 3 + 1] = Math.random() * 0.8; // More varied colors
+      colors[i * 3 + 1] = this.random.next() * 0.8; // More varied colors
       colors[i * 3 + 2] = 0; // Blue
     }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.15, // Larger particles
-      vertexColors: true,
-      transparent: true,
-      opacity: 1,
-      blending: THREE.AdditiveBlending // Better glow effect
-    });
-
-    const points = new THREE.Points(geometry, material);
-    points.position.copy(position);
-    this.scene.add(points);
-
     // Create velocity for explosion
-    const velocity = new THREE.Vector3(
-      (Math.random() - 0.5) * 0.2,
-      Math.random() * 0.1,
-      (Math.random() - 0.5) * 0.2
+    effect.velocity.set(
+      (this.random.next() - 0.5) * 12,
+      this.random.next() * 6,
+      (this.random.next() - 0.5) * 12
     );
-
-    this.particles.push({
-      mesh: points,
-      velocity,
-      life: 80, // Longer lasting effect
-      maxLife: 80
-    });
   }
 
   public createExplosion(position: THREE.Vector3) {
     // Check particle limit
     if (this.particles.length >= this.maxParticles) return;
     
-    const particleCount = 35; // Reduced for performance
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
+    const particleCount = this.scaleCount(35); // Reduced for performance
+    const effect = this.acquireEffect(position, particleCount, 0.15, 1, false, 1.5);
+    const { offsets, colors } = effect;
 
     for (let i = 0; i < particleCount; i++) {
       // More dramatic explosion spread
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      const radius = Math.random() * 1.5;
+      const theta = this.random.next() * Math.PI * 2;
+      const phi = this.random.next() * Math.PI;
+      const radius = this.random.next() * 1.5;
 
-      positions[i * 3] = Math.sin(phi) * Math.cos(theta) * radius;
-      positions[i * 3 + 1] = Math.cos(phi) * radius;
-      positions[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * radius;
+      offsets[i * 3] = Math.sin(phi) * Math.cos(theta) * radius;
+      offsets[i * 3 + 1] = Math.cos(phi) * radius;
+      offsets[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * radius;
 
       // Orange to red explosion colors
       colors[i * 3] = 1; // Red
-      colors[i * 3 + 1] = Math.random() * 0.8; // Green
-      colors[i * 3 + 2] = Math.random() * 0.3; // Blue
+      colors[i * 3 + 1] = this.random.next() * 0.8; // Green
+      colors[i * 3 + 2] = this.random.next() * 0.3; // Blue
     }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.15,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1
-    });
-
-    const points = new THREE.Points(geometry, material);
-    points.position.copy(position);
-    this.scene.add(points);
-
-    const velocity = new THREE.Vector3(
-      (Math.random() - 0.5) * 0.3,
-      Math.random() * 0.15,
-      (Math.random() - 0.5) * 0.3
+    effect.velocity.set(
+      (this.random.next() - 0.5) * 18,
+      this.random.next() * 9,
+      (this.random.next() - 0.5) * 18
     );
-
-    this.particles.push({
-      mesh: points,
-      velocity,
-      life: 90,
-      maxLife: 90
-    });
   }
 
   public createPickupEffect(position: THREE.Vector3) {
     // Check particle limit
     if (this.particles.length >= this.maxParticles) return;
     
-    const particleCount = 15; // Reduced for performance
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
+    const particleCount = this.scaleCount(15); // Reduced for performance
+    const effect = this.acquireEffect(position, particleCount, 0.08, 1, false, 0.75);
+    const { offsets, colors } = effect;
 
     for (let i = 0; i < particleCount; i++) {
       // Upward spiral effect
@@ -137,64 +181,34 @@ export class ParticleSystem {
       const radius = 0.5;
       const height = (i / particleCount) * 2;
 
-      positions[i * 3] = Math.cos(angle) * radius;
-      positions[i * 3 + 1] = height;
-      positions[i * 3 + 2] = Math.sin(angle) * radius;
+      offsets[i * 3] = Math.cos(angle) * radius;
+      offsets[i * 3 + 1] = height;
+      offsets[i * 3 + 2] = Math.sin(angle) * radius;
 
       // Bright pickup colors
-      colors[i * 3] = Math.random(); // Red
+      colors[i * 3] = this.random.next(); // Red
       colors[i * 3 + 1] = 1; // Green
-      colors[i * 3 + 2] = Math.random(); // Blue
+      colors[i * 3 + 2] = this.random.next(); // Blue
     }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.08,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1
-    });
-
-    const points = new THREE.Points(geometry, material);
-    points.position.copy(position);
-    this.scene.add(points);
-
-    const velocity = new THREE.Vector3(0, 0.05, 0); // Upward movement
-
-    this.particles.push({
-      mesh: points,
-      velocity,
-      life: 45,
-      maxLife: 45
-    });
+    effect.velocity.set(0, 3, 0); // Upward movement
   }
 
   public createLaserTrailEffect(position: THREE.Vector3, direction: THREE.Vector3) {
-    const particleCount = 15;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
+    const particleCount = this.scaleCount(15);
+    // Quick fade-out for trail particles, which don't move
+    const effect = this.acquireEffect(position, particleCount, 0.08, 0.8, true, 0.33);
+    const { offsets, colors } = effect;
 
     for (let i = 0; i < particleCount; i++) {
       // Create particles behind the laser in the opposite direction of movement
       const trailDistance = (i / particleCount) * 2; // Trail extends 2 units behind
-      const oppositeDirection = direction.clone().multiplyScalar(-trailDistance);
       
       // Add some random spread to make the trail more natural
       const spread = 0.1;
-      const randomOffset = new THREE.Vector3(
-        (Math.random() - 0.5) * spread,
-        (Math.random() - 0.5) * spread,
-        (Math.random() - 0.5) * spread
-      );
-      
-      const particlePos = position.clone().add(oppositeDirection).add(randomOffset);
-      
-      positions[i * 3] = particlePos.x;
-      positions[i * 3 + 1] = particlePos.y;
-      positions[i * 3 + 2] = particlePos.z;
+      offsets[i * 3] = -direction.x * trailDistance + (this.random.next() - 0.5) * spread;
+      offsets[i * 3 + 1] = -direction.y * trailDistance + (this.random.next() - 0.5) * spread;
+      offsets[i * 3 + 2] = -direction.z * trailDistance + (this.random.next() - 0.5) * spread;
 
       // Red to orange gradient for laser trail
       const intensity = 1 - (i / particleCount); // Fade towards the back
@@ -202,174 +216,164 @@ export class ParticleSystem {
       colors[i * 3 + 1] = 0.3 + intensity * 0.5; // Green (orange when combined with red)
       colors[i * 3 + 2] = 0; // Blue
     }
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.08,
-      vertexColors: true,
-      transparent: true,
-      opacity: 0.8,
-      blending: THREE.AdditiveBlending
-    });
-
-    const points = new THREE.Points(geometry, material);
-    this.scene.add(points);
-
-    // Quick fade-out for trail particles
-    this.particles.push({
-      mesh: points,
-      velocity: new THREE.Vector3(0, 0, 0), // Trail particles don't move
-      life: 20, // Very short lifespan for trailing effect
-      maxLife: 20
-    });
   }
 
   public createTelekinesisThrowEffect(position: THREE.Vector3, direction: THREE.Vector3) {
     if (this.particles.length >= this.maxParticles) return;
 
-    const particleCount = 100;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
+    const particleCount = this.scaleCount(100);
+    const effect = this.acquireEffect(position, particleCount, 0.1, 1, true, 0.85);
+    const { offsets, colors } = effect;
 
     const perpendicular = new THREE.Vector3().crossVectors(direction, new THREE.Vector3(0, 1, 0)).normalize();
     const anotherPerp = new THREE.Vector3().crossVectors(direction, perpendicular).normalize();
 
     for (let i = 0; i < particleCount; i++) {
       const angle = (i / particleCount) * Math.PI * 2;
-      const radius = Math.random() * 1.5 + 0.5;
+      const radius = this.random.next() * 1.5 + 0.5;
 
       const x = Math.cos(angle) * radius;
       const y = Math.sin(angle) * radius;
       
-      const pos = perpendicular.clone().multiplyScalar(x).add(anotherPerp.clone().multiplyScalar(y));
-      positions[i * 3] = pos.x;
-      positions[i * 3 + 1] = pos.y;
-      positions[i * 3 + 2] = pos.z;
+      offsets[i * 3] = perpendicular.x * x + anotherPerp.x * y;
+      offsets[i * 3 + 1] = perpendicular.y * x + anotherPerp.y * y;
+      offsets[i * 3 + 2] = perpendicular.z * x + anotherPerp.z * y;
 
       // Purple/violet colors
-      colors[i * 3] = 0.6 + Math.random() * 0.4;
-      colors[i * 3 + 1] = 0.2 + Math.random() * 0.3;
-      colors[i * 3 + 2] = 0.8 + Math.random() * 0.2;
+      colors[i * 3] = 0.6 + this.random.next() * 0.4;
+      colors[i * 3 + 1] = 0.2 + this.random.next() * 0.3;
+      colors[i * 3 + 2] = 0.8 + this.random.next() * 0.2;
     }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.1,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1,
-      blending: THREE.AdditiveBlending
-    });
-
-    const points = new THREE.Points(geometry, material);
-    points.position.copy(position);
-    this.scene.add(points);
-
-    this.particles.push({
-      mesh: points,
-      velocity: direction.clone().multiplyScalar(0.1),
-      life: 50,
-      maxLife: 50
-    });
+    effect.velocity.copy(direction).multiplyScalar(6);
   }
 
   public createLandingEffect(position: THREE.Vector3) {
-    const particleCount = 25;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
+    const particleCount = this.scaleCount(25);
+    const effect = this.acquireEffect(position, particleCount, 0.12, 1, false, 1); // 1 second
+    effect.origin.y += 0.1; // Just above the ground it landed on
+    const { offsets, colors } = effect;
 
     for (let i = 0; i < particleCount; i++) {
       // Spread particles outward from landing point
       const angle = (i / particleCount) * Math.PI * 2;
-      const radius = Math.random() * 1.5;
-      const height = Math.random() * 0.5;
+      const radius = this.random.next() * 1.5;
+      const height = this.random.next() * 0.5;
 
-      positions[i * 3] = Math.cos(angle) * radius;
-      positions[i * 3 + 1] = height;
-      positions[i * 3 + 2] = Math.sin(angle) * radius;
+      offsets[i * 3] = Math.cos(angle) * radius;
+      offsets[i * 3 + 1] = height;
+      offsets[i * 3 + 2] = Math.sin(angle) * radius;
 
       // Dust/debris colors - grays and browns
-      colors[i * 3] = 0.6 + Math.random() * 0.3; // Red
-      colors[i * 3 + 1] = 0.5 + Math.random() * 0.3; // Green
-      colors[i * 3 + 2] = 0.4 + Math.random() * 0.2; // Blue
+      colors[i * 3] = 0.6 + this.random.next() * 0.3; // Red
+      colors[i * 3 + 1] = 0.5 + this.random.next() * 0.3; // Green
+      colors[i * 3 + 2] = 0.4 + this.random.next() * 0.2; // Blue
     }
 
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    // Create velocity for outward expansion
+    effect.velocity.set(
+      (this.random.next() - 0.5) * 6,
+      this.random.next() * 3,
+      (this.random.next() - 0.5) * 6
+    );
+  }
 
-    const material = new THREE.PointsMaterial({
-      size: 0.12,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1,
-      blending: THREE.NormalBlending
-    });
+  public createExplosionBurst(position: THREE.Vector3) {
+    // Large fireball that expands outwards (exploder detonation)
+    this.createExpandingBurst(position, 100, 3, 0.2, () => [1, this.random.next() * 0.5, 0], true);
+  }
 
-    const points = new THREE.Points(geometry, material);
-    points.position.copy(position);
-    points.position.y = 0.1; // Just above ground
-    this.scene.add(points);
+  public createImpactSparks(position: THREE.Vector3) {
+    // Sparks/debris from a thrown box hitting something
+    this.createExpandingBurst(position, 30, 2, 0.1, () => [1, 0.5 + this.random.next() * 0.5, 0], false);
+  }
 
-    // Create velocity for outward expansion
-    const velocity = new THREE.Vector3(
-      (Math.random() - 0.5) * 0.1,
-      Math.random() * 0.05,
-      (Math.random() - 0.5) * 0.1
-    );
+  private createExpandingBurst(
+    position: THREE.Vector3,
+    particleCount: number,
+    radius: number,
+    size: number,
+    color: () => [number, number, number],
+    additive: boolean
+  ) {
+    if (this.particles.length >= this.maxParticles) return;
 
-    this.particles.push({
-      mesh: points,
-      velocity,
-      life: 60, // 1 second
-      maxLife: 60
-    });
+    particleCount = this.scaleCount(particleCount);
+    // Grows to 3x over half a second while fading out
+    const effect = this.acquireEffect(position, particleCount, size, 1, additive, 0.5);
+    effect.scale = 0.01;
+    effect.growth = 6;
+    const { offsets, colors } = effect;
+
+    for (let i = 0; i < particleCount; i++) {
+      const theta = this.random.next() * Math.PI * 2;
+      const phi = this.random.next() * Math.PI;
+      const r = this.random.next() * radius;
+
+      offsets[i * 3] = Math.sin(phi) * Math.cos(theta) * r;
+      offsets[i * 3 + 1] = Math.cos(phi) * r;
+      offsets[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * r;
+
+      const [red, green, blue] = color();
+      colors[i * 3] = red;
+      colors[i * 3 + 1] = green;
+      colors[i * 3 + 2] = blue;
+    }
   }
 
-  public update() {
+  public update(dt: number) {
     // Use reverse iteration to safely remove particles during loop
     for (let i = this.particles.length - 1; i >= 0; i--) {
       const particle = this.particles[i];
-      particle.life--;
+      particle.life -= dt;
       
       // Update position
-      particle.mesh.position.add(particle.velocity);
+      particle.origin.addScaledVector(particle.velocity, dt);
       
       // Update velocity (gravity, friction)
-      particle.velocity.y -= 0.001; // Gravity
-      particle.velocity.multiplyScalar(0.98); // Friction
-      
-      // Update opacity based on life
-      const lifePercent = particle.life / particle.maxLife;
-      if (particle.mesh.material instanceof THREE.PointsMaterial) {
-        particle.mesh.material.opacity = lifePercent;
-      }
+      particle.velocity.y -= 3.6 * dt; // Gravity
+      particle.velocity.multiplyScalar(Math.pow(0.3, dt)); // Friction
+
+      particle.scale += particle.growth * dt;
       
       // Remove dead particles
       if (particle.life <= 0) {
-        this.scene.remove(particle.mesh);
-        particle.mesh.geometry.dispose();
-        if (particle.mesh.material instanceof THREE.PointsMaterial) {
-          particle.mesh.material.dispose();
-        }
+        this.pool.release(particle);
         this.particles.splice(i, 1);
       }
     }
   }
 
-  public cleanup() {
-    this.particles.forEach(particle => {
-      this.scene.remove(particle.mesh);
-      particle.mesh.geometry.dispose();
-      if (particle.mesh.material instanceof THREE.PointsMaterial) {
-        particle.mesh.material.dispose();
+  // Writes every live particle into the instanced meshes; call once per rendered frame
+  public sync() {
+    this.additiveBatch.begin();
+    this.normalBatch.begin();
+
+    this.particles.forEach(effect => {
+      const fade = Math.max(0, effect.life / effect.maxLife) * effect.opacity;
+      const batch = effect.additive ? this.additiveBatch : this.normalBatch;
+      const brightness = effect.additive ? fade : 1;
+      const size = effect.additive ? effect.size : effect.size * fade;
+
+      for (let i = 0; i < effect.count; i++) {
+        this.instancePosition.fromArray(effect.offsets, i * 3).multiplyScalar(effect.scale).add(effect.origin);
+        this.instanceColor.fromArray(effect.colors, i * 3).multiplyScalar(brightness);
+        batch.add(this.instancePosition, this.noRotation, size, this.instanceColor);
       }
     });
+
+    this.additiveBatch.end();
+    this.normalBatch.end();
+  }
+
+  public getPoolStats(): PoolStats {
+    return this.pool.getStats();
+  }
+
+  public cleanup() {
+    this.particles.forEach(particle => this.pool.release(particle));
     this.particles = [];
+    this.additiveBatch.dispose();
+    this.normalBatch.dispose();
   }
-}
\ No newline at end of file
+}
@@ -2,15 +2,41 @@ import * as THREE from 'three';
 import { Enemy } from './Enemy';
 import { ThrowableBox } from './ThrowableBox';
 import { ParticleSystem } from './ParticleSystem';
+import { Projectile, ProjectileSystem } from './ProjectileSystem';
+import { SpatialHash } from './SpatialHash';
 import { AudioManager } from './AudioManager';
+import { SeededRandom } from './SeededRandom';
+import { DEFAULT_BINDINGS, INPUT_ACTIONS, InputAction } from './InputBindings';
+import { CharacterController } from './CharacterController';
 
 export type WeaponType = 'lightsaber' | 'blaster' | 'shotgun';
 
-interface Laser {
-  mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
-  damage: number;
-  life: number;
+// Device-independent input, fed in by an adapter (DOM, replay, bot, ...). Adapters send
+// actions; raw key and mouse button events only appear in replays recorded before rebinding.
+export type PlayerInputEvent =
+  | { type: 'action'; action: InputAction; pressed: boolean }
+  | { type: 'key'; code: string; pressed: boolean }
+  | { type: 'look'; deltaX: number; deltaY: number }
+  | { type: 'move'; x: number; y: number } // Analog movement (-1..1, y forward), held until the next move event
+  | { type: 'lookRate'; yaw: number; pitch: number } // Analog turning in radians per second, held likewise
+  | { type: 'aimAssist'; enabled: boolean } // The player's setting, sent as input so replays play it back
+  | { type: 'mouseButton'; button: number; pressed: boolean }
+  | { type: 'wheel'; deltaY: number };
+
+const LASER_FADE_TIME = 1 / 3; // seconds of fade-out at the end of a laser's life
+const LASER_AXIS = new THREE.Vector3(0, 1, 0); // Laser cylinders are built along +y
+const CAMERA_SHAKE_DURATION = 1 / 3;
+const LIGHTSABER_SWING_DURATION = 0.12;
+const LOOK_SENSITIVITY = 0.002; // radians per unit of mouse movement
+const AIM_ASSIST_RATE = 1.2; // Fraction of the way to the target turned per second; weak enough to turn away from
+const AIM_ASSIST_HEIGHT = 0.8; // Aim this far above an enemy's feet
+const TELEKINESIS_ENEMY_RANGE = 10;
+const TELEKINESIS_BOX_RANGE = 8;
+const TARGET_RANGE = 10;
+
+// Old replays recorded raw keys and buttons, which always meant the default bindings
+function getDefaultAction(binding: string): InputAction | null {
+  return INPUT_ACTIONS.find(action => DEFAULT_BINDINGS[action].includes(binding)) ?? null;
 }
 
 interface PlayerCallbacks {
@@ -21,34 +47,52 @@ interface PlayerCallbacks {
 
 export class Player {
   private camera: THREE.PerspectiveCamera;
-  private canvas: HTMLCanvasElement;
   private position = new THREE.Vector3(0, 1.6, 0);
-  private velocity = new THREE.Vector3();
+  private previousPosition = new THREE.Vector3(0, 1.6, 0);
+  private velocity = new THREE.Vector3(); // units per second
   private health = 100;
   private maxHealth = 100;
-  private speed = 0.1;
-  private baseSpeed = 0.1;
-  private maxSpeed = 0.25; // Maximum speed cap
+  private speed = 6; // units per second
+  private baseSpeed = 6;
+  private maxSpeed = 15; // Maximum speed cap
+  private speedBoostTimer = 0;
+  private overchargeTimer = 0; // Boss drop: double laser damage
   private _isAttacking = false;
-  private attackCooldown = 0;
-  private reloadCooldown = 0;
+  private attackCooldown = 0; // seconds
+  private reloadCooldown = 0; // seconds
+  private reloadDuration = 0;
+  private reloadingWeapon: WeaponType | null = null;
+  private autoReloadTimer = 0;
   private isReloading = false;
+  private cameraShakeTimer = 0;
+  private cameraShakeScale = 1; // Player setting; the shake is render-only, so this never affects the simulation
+  private time = 0;
   private levitatedEnemy: Enemy | null = null;
   private telekinesisParticles: THREE.Points | null = null;
   private levitatedBox: ThrowableBox | null = null;
-  private isPointerLocked = false;
-  private lastMouseMove = { x: 0, y: 0 };
   private nearestEnemy: Enemy | null = null;
   private nearestBox: ThrowableBox | null = null;
   private lightsaber: THREE.Group | null = null;
   private blaster: THREE.Group | null = null;
   private shotgun: THREE.Group | null = null;
   private scene: THREE.Scene;
-  private lasers: Laser[] = [];
+  private lasers: Projectile[] = [];
+  private nearbyEnemies: Enemy[] = []; // Scratch list for spatial queries
+  private nearbyBoxes: ThrowableBox[] = [];
+  private projectileSystem: ProjectileSystem | null = null;
   private blasterRecoil = 0;
   private blasterRecoilVelocity = 0;
   private blasterBasePosition = new THREE.Vector3(0, -0.2, -0.6); // Centered position
-  private audioManager?: any; // Will be set by Game class
+  private lightsaberSwing: { startRotation: THREE.Euler; elapsed: number } | null = null;
+  private reloadAnimation: {
+    weapon: THREE.Group;
+    weaponType: WeaponType;
+    originalPosition: THREE.Vector3;
+    originalRotation: THREE.Euler;
+    elapsed: number;
+    duration: number;
+  } | null = null;
+  private audioManager: AudioManager | null = null; // Will be set by Game class
   private particleSystem?: any; // Will be set by Game class
   
   // Weapon system
@@ -64,12 +108,11 @@ export class Player {
   private pitch = 0; // Vertical rotation
 
   // Jump mechanics
-  private isJumping = false;
   private canDoubleJump = false;
-  private jumpVelocity = 0;
-  private gravity = -0.008; // Gravity force
-  private jumpForce = 0.15; // Initial upward force for jump
+  private jumpForce = 9; // Initial upward velocity for jump
   private playerHeight = 1.6; // Player's standing height
+  private controller = new CharacterController({ radius: 0.6, height: 1.6, gravity: 28.8 });
+  private random: SeededRandom; // Shotgun spread
 
   // Input tracking
   private keys = {
@@ -82,18 +125,22 @@ export class Player {
     jump: false
   };
 
-  constructor(camera: THREE.PerspectiveCamera, canvas: HTMLCanvasElement, scene: THREE.Scene) {
+  // Analog input from a gamepad or touch stick
+  private moveAxis = new THREE.Vector2(); // x strafes right, y moves forward
+  private lookRate = new THREE.Vector2(); // x turns (yaw), y tilts (pitch), radians per second
+  private aimAssist = true;
+
+  constructor(camera: THREE.PerspectiveCamera, scene: THREE.Scene, random: SeededRandom) {
     this.camera = camera;
-    this.canvas = canvas;
     this.scene = scene;
-    this.setupControls();
+    this.random = random;
     this.createLightsaber();
     this.createBlaster();
     this.createShotgun();
     this.reset();
   }
 
-  public setAudioManager(audioManager: any) {
+  public setAudioManager(audioManager: AudioManager) {
     this.audioManager = audioManager;
   }
 
@@ -101,6 +148,10 @@ export class Player {
     this.particleSystem = particleSystem;
   }
 
+  public setProjectileSystem(projectileSystem: ProjectileSystem) {
+    this.projectileSystem = projectileSystem;
+  }
+
   public setCallbacks(callbacks: Partial<PlayerCallbacks>) {
     this.callbacks = callbacks;
     
@@ -357,10 +408,10 @@ export class Player {
     this.camera.add(this.shotgun);
   }
 
-  private switchWeapon() {
+  private switchWeapon(direction = 1) {
     const weapons: WeaponType[] = ['lightsaber', 'blaster', 'shotgun'];
     const currentIndex = weapons.indexOf(this.currentWeapon);
-    const nextIndex = (currentIndex + 1) % weapons.length;
+    const nextIndex = (currentIndex + direction + weapons.length) % weapons.length;
     this.currentWeapon = weapons[nextIndex];
 
     this.updateWeaponVisibility();
@@ -385,89 +436,94 @@ export class Player {
     this.updateAmmoDisplay();
   }
 
-  private setupControls() {
-    // Keyboard controls
-    document.addEventListener('keydown', (event) => {
-      switch (event.code) {
-        case 'KeyW': this.keys.forward = true; break;
-        case 'KeyS': this.keys.backward = true; break;
-        case 'KeyA': this.keys.left = true; break;
-        case 'KeyD': this.keys.right = true; break;
-        case 'KeyR': 
-          if (this.currentWeapon === 'blaster') {
-            this.reloadBlaster();
-          } else if (this.currentWeapon === 'shotgun') {
-            this.reloadShotgun();
-          }
-          break;
-        case 'Space': 
-          event.preventDefault(); // Prevent page scroll
-          this.jump(); 
-          break;
-        case 'Digit1': this.switchToWeapon('lightsaber'); break;
-        case 'Digit2': this.switchToWeapon('blaster'); break;
-        case 'Digit3': this.switchToWeapon('shotgun'); break;
-      }
-    });
-
-    document.addEventListener('keyup', (event) => {
-      switch (event.code) {
-        case 'KeyW': this.keys.forward = false; break;
-        case 'KeyS': this.keys.backward = false; break;
-        case 'KeyA': this.keys.left = false; break;
-        case 'KeyD': this.keys.right = false; break;
-        case 'Space': this.keys.jump = false; break;
-      }
-    });
-
-    // Mouse controls
-    this.canvas.addEventListener('mousedown', (event) => {
-      if (!this.isPointerLocked) return;
-      
-      if (event.button === 0) { // Left click - weapon attack
-        this.keys.attack = true;
-        this.attack();
-      } else if (event.button === 2) { // Right click - telekinesis
-        this.useTelekinesis();
+  public applyInput(event: PlayerInputEvent) {
+    switch (event.type) {
+      case 'action':
+        this.applyAction(event.action, event.pressed);
+        break;
+      case 'key': {
+        const action = getDefaultAction(event.code);
+        if (action) this.applyAction(action, event.pressed);
+        break;
       }
-    });
-
-    this.canvas.addEventListener('mouseup', (event) => {
-      if (!this.isPointerLocked) return;
-      
-      if (event.button === 0) { // Left click release
-        this.keys.attack = false;
+      case 'look':
+        this.look(event.deltaX, event.deltaY);
+        break;
+      case 'move':
+        this.moveAxis.set(event.x, event.y);
+        // The stick's range is a circle; corners of a square gate would outrun the keyboard
+        if (this.moveAxis.lengthSq() > 1) this.moveAxis.normalize();
+        break;
+      case 'lookRate':
+        this.lookRate.set(event.yaw, event.pitch);
+        break;
+      case 'aimAssist':
+        this.aimAssist = event.enabled;
+        break;
+      case 'mouseButton': {
+        const action = getDefaultAction(`Mouse${event.button}`);
+        if (action) this.applyAction(action, event.pressed);
+        break;
       }
-    });
+      case 'wheel':
+        // Mouse wheel for weapon switching
+        if (event.deltaY !== 0) {
+          this.switchWeapon();
+        }
+        break;
+    }
+  }
 
-    // Mouse wheel for weapon switching - use passive event listener
-    this.canvas.addEventListener('wheel', (event) => {
-      if (!this.isPointerLocked) return;
-      event.preventDefault();
-      
-      if (event.deltaY !== 0) {
-        this.switchWeapon();
-      }
-    }, { passive: false }); // Explicitly set passive to false since we need preventDefault
+  private applyAction(action: InputAction, pressed: boolean) {
+    switch (action) {
+      case 'moveForward': this.keys.forward = pressed; break;
+      case 'moveBackward': this.keys.backward = pressed; break;
+      case 'moveLeft': this.keys.left = pressed; break;
+      case 'moveRight': this.keys.right = pressed; break;
+      case 'jump':
+        if (pressed) {
+          this.jump();
+        } else {
+          this.keys.jump = false;
+        }
+        break;
+      case 'attack':
+        this.keys.attack = pressed;
+        if (pressed) this.attack();
+        break;
+      case 'telekinesis':
+        if (pressed) this.useTelekinesis();
+        break;
+      case 'reload':
+        if (!pressed) break;
+        if (this.currentWeapon === 'blaster') {
+          this.reloadBlaster();
+        } else if (this.currentWeapon === 'shotgun') {
+          this.reloadShotgun();
+        }
+        break;
+      case 'weapon1': if (pressed) this.switchToWeapon('lightsaber'); break;
+      case 'weapon2': if (pressed) this.switchToWeapon('blaster'); break;
+      case 'weapon3': if (pressed) this.switchToWeapon('shotgun'); break;
+      case 'nextWeapon': if (pressed) this.switchWeapon(); break;
+      case 'previousWeapon': if (pressed) this.switchWeapon(-1); break;
+      case 'pause': break; // Handled by the front-end, never reaches the simulation
+    }
+  }
 
-    this.canvas.addEventListener('contextmenu', (event) => {
-      event.preventDefault(); // Prevent right-click menu
-    });
+  private look(deltaX: number, deltaY: number) {
+    this.turn(-deltaX * LOOK_SENSITIVITY, -deltaY * LOOK_SENSITIVITY);
+  }
 
-    // Mouse movement for looking around
-    document.addEventListener('mousemove', (event) => {
-      if (!this.isPointerLocked) return;
+  private turn(yawDelta: number, pitchDelta: number) {
+    this.yaw += yawDelta;
+    this.pitch += pitchDelta;
 
-      const sensitivity = 0.002;
-      this.yaw -= event.movementX * sensitivity;
-      this.pitch -= event.movementY * sensitivity;
-      
-      // Limit vertical rotation
-      this.pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.pitch));
-      
-      // Apply rotation to camera
-      this.updateCameraRotation();
-    });
+    // Limit vertical rotation
+    this.pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.pitch));
+    
+    // Apply rotation to camera
+    this.updateCameraRotation();
   }
 
   private updateCameraRotation() {
@@ -479,26 +535,19 @@ export class Player {
   }
 
   private jump() {
-    if (!this.isPointerLocked) return;
-    
-    if (!this.isJumping) {
+    if (this.controller.isGrounded()) {
       // First jump
-      this.isJumping = true;
-      this.jumpVelocity = this.jumpForce;
+      this.controller.jump(this.jumpForce);
       this.canDoubleJump = true;
       this.audioManager?.playJumpSound();
     } else if (this.canDoubleJump) {
       // Double jump
-      this.jumpVelocity = this.jumpForce * 0.8; // Slightly weaker second jump
+      this.controller.jump(this.jumpForce * 0.8); // Slightly weaker second jump
       this.canDoubleJump = false;
       this.audioManager?.playJumpSound();
     }
   }
 
-  public setPointerLocked(locked: boolean) {
-    this.isPointerLocked = locked;
-  }
-
   private attack() {
     if (this.attackCooldown <= 0 && !this.isReloading) {
       if (this.currentWeapon === 'lightsaber') {
@@ -513,8 +562,8 @@ export class Player {
 
   private lightsaberAttack() {
     this._isAttacking = true;
-    this.attackCooldown = 30; // 0.5 seconds at 60fps
-    this.audioManager?.playWeaponSound();
+    this.attackCooldown = 0.5;
+    this.audioManager?.playWeaponSound('lightsaber');
     this.showLightsaber();
   }
 
@@ -526,9 +575,9 @@ export class Player {
     if (this.isReloading) return;
     
     this.blasterAmmo--;
-    this.attackCooldown = 8; // Faster fire rate for automatic mode
+    this.attackCooldown = 8 / 60; // Faster fire rate for automatic mode
     this._isAttacking = true;
-    this.audioManager?.playWeaponSound();
+    this.audioManager?.playWeaponSound('blaster');
     
     this.triggerBlasterRecoil();
     
@@ -536,9 +585,7 @@ export class Player {
     
     // Auto-reload when ammo runs out
     if (this.blasterAmmo <= 0) {
-      setTimeout(() => {
-        this.reloadBlaster();
-      }, 200); // Small delay before auto-reload
+      this.autoReloadTimer = 0.2; // Small delay before auto-reload
     }
     
     this.shootLaser();
@@ -549,9 +596,9 @@ export class Player {
     if (this.shotgunAmmo <= 0) return;
     
     this.shotgunAmmo--;
-    this.attackCooldown = 60; // Slower fire rate for shotgun
+    this.attackCooldown = 1; // Slower fire rate for shotgun
     this._isAttacking = true;
-    this.audioManager?.playWeaponSound('shotgun'); // Assuming a shotgun sound can be added
+    this.audioManager?.playWeaponSound('shotgun');
     
     // Shoot multiple pellets
     for (let i = 0; i < 8; i++) {
@@ -562,84 +609,61 @@ export class Player {
   }
 
   private shootLaser(isShotgunPellet = false) {
-    // Create laser projectile
-    const laserGeometry = new THREE.CylinderGeometry(0.02, 0.02, 2.0); // Slightly thinner laser
-    const laserMaterial = new THREE.MeshBasicMaterial({
-      color: 0xff0000
-    });
-    const laserMesh = new THREE.Mesh(laserGeometry, laserMaterial);
-    
-    // Add glow effect to laser
-    const glowGeometry = new THREE.CylinderGeometry(0.06, 0.06, 2.0); // Smaller glow
-    const glowMaterial = new THREE.MeshBasicMaterial({
-      color: 0xff4444,
-      transparent: true,
-      opacity: 0.6 // Higher opacity for more defined glow
-    });
-    const glowMesh = new THREE.Mesh(glowGeometry, glowMaterial);
-    laserMesh.add(glowMesh);
-    
-    // Position laser at blaster barrel
-    const blasterWorldPosition = new THREE.Vector3();
-    this.blaster!.getWorldPosition(blasterWorldPosition);
-    
-    laserMesh.position.copy(this.camera.position);
-    laserMesh.position.add(this.camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(0.5));
+    if (!this.projectileSystem) return;
+
+    // Pooled laser; ProjectileSystem draws the core and glow
+    const laser = this.projectileSystem.acquire('playerLaser');
+    laser.color.setHex(0xff0000);
+    laser.position.copy(this.position);
+    laser.position.add(this.camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(0.5));
     
     // Set laser direction and rotation
     const direction = this.camera.getWorldDirection(new THREE.Vector3());
 
     if (isShotgunPellet) {
         const spread = 0.08;
-        direction.x += (Math.random() - 0.5) * spread;
-        direction.y += (Math.random() - 0.5) * spread;
-        direction.z += (Math.random() - 0.5) * spread;
+        direction.x += (this.random.next() - 0.5) * spread;
+        direction.y += (this.random.next() - 0.5) * spread;
+        direction.z += (this.random.next() - 0.5) * spread;
     }
 
-    laserMesh.lookAt(laserMesh.position.clone().add(direction));
-    laserMesh.rotateX(Math.PI / 2);
-    
-    this.scene.add(laserMesh);
+    laser.orientation.setFromUnitVectors(LASER_AXIS, direction.clone().normalize());
     
     // Create laser trail effect
     if (this.particleSystem) {
-      this.particleSystem.createLaserTrailEffect(laserMesh.position.clone(), direction.clone());
+      this.particleSystem.createLaserTrailEffect(laser.position.clone(), direction.clone());
     }
     
-    // Create laser object
-    const laser: Laser = {
-      mesh: laserMesh,
-      velocity: direction.multiplyScalar(2.0), // Faster laser speed
-      damage: 25,
-      life: 60 // 1 second at 60fps
-    };
+    laser.velocity.copy(direction).multiplyScalar(120); // Faster laser speed
+    laser.damage = this.overchargeTimer > 0 ? 50 : 25;
+    laser.life = 1;
     
     this.lasers.push(laser);
   }
 
   private triggerBlasterRecoil() {
     if (!this.blaster) return;
-    this.blasterRecoilVelocity = 0.05; // Minimized recoil kick
+    this.blasterRecoilVelocity = 3; // Minimized recoil kick
   }
 
-  private updateBlasterRecoil() {
+  private updateBlasterRecoil(dt: number) {
     if (!this.blaster) return;
 
     // Spring physics for minimized recoil
-    const springStiffness = 0.15; // Slightly stiffer for quicker return
-    const damping = 0.25; // More damping for less oscillation
+    const springStiffness = 540; // Slightly stiffer for quicker return
+    const damping = 0.25; // More damping for less oscillation (per 1/60s)
 
     // Force pulling back to base position
     const springForce = -this.blasterRecoil * springStiffness;
     
     // Apply spring force
-    this.blasterRecoilVelocity += springForce;
+    this.blasterRecoilVelocity += springForce * dt;
     
     // Apply damping
-    this.blasterRecoilVelocity *= (1 - damping);
+    this.blasterRecoilVelocity *= Math.pow(1 - damping, dt * 60);
     
     // Update recoil position
-    this.blasterRecoil += this.blasterRecoilVelocity;
+    this.blasterRecoil += this.blasterRecoilVelocity * dt;
     
     // Apply minimized recoil to the blaster model
     const recoilDisplacement = new THREE.Vector3(-this.blasterRecoil, this.blasterRecoil * 0.1, 0); // Less vertical movement
@@ -693,34 +717,11 @@ export class Player {
       // Attack animation
       const blade = this.lightsaber.getObjectByName('blade') as THREE.Mesh;
       if (blade) {
-        // Diagonal slash animation
-        const startRotation = this.lightsaber.rotation.clone();
-        const targetRotation = startRotation.clone();
-        targetRotation.z -= Math.PI / 1.5; // Swing further left
-        targetRotation.x -= Math.PI / 4;  // Swing down
-        
-        const duration = 120; // ms
-        const startTime = Date.now();
-
-        const animate = () => {
-          if (!this.lightsaber) return;
-
-          const elapsed = Date.now() - startTime;
-          let progress = elapsed / duration;
-          
-          if (progress < 1) {
-            // Ease-out quadratic
-            const easedProgress = progress * (2 - progress);
-            this.lightsaber.rotation.z = startRotation.z + (targetRotation.z - startRotation.z) * easedProgress;
-            this.lightsaber.rotation.x = startRotation.x + (targetRotation.x - startRotation.x) * easedProgress;
-            requestAnimationFrame(animate);
-          } else {
-            // Reset rotation after attack
-            this.lightsaber.rotation.copy(startRotation);
-          }
-        };
-        
-        animate();
+        // Diagonal slash animation, advanced in updateLightsaberSwing
+        if (this.lightsaberSwing) {
+          this.lightsaber.rotation.copy(this.lightsaberSwing.startRotation);
+        }
+        this.lightsaberSwing = { startRotation: this.lightsaber.rotation.clone(), elapsed: 0 };
       }
       
       // Hide lightsaber after attack
@@ -734,6 +735,25 @@ export class Player {
     }
   }
 
+  private updateLightsaberSwing(dt: number) {
+    if (!this.lightsaberSwing || !this.lightsaber) return;
+
+    const { startRotation } = this.lightsaberSwing;
+    this.lightsaberSwing.elapsed += dt;
+    const progress = this.lightsaberSwing.elapsed / LIGHTSABER_SWING_DURATION;
+
+    if (progress < 1) {
+      // Ease-out quadratic
+      const easedProgress = progress * (2 - progress);
+      this.lightsaber.rotation.z = startRotation.z - (Math.PI / 1.5) * easedProgress; // Swing further left
+      this.lightsaber.rotation.x = startRotation.x - (Math.PI / 4) * easedProgress; // Swing down
+    } else {
+      // Reset rotation after attack
+      this.lightsaber.rotation.copy(startRotation);
+      this.lightsaberSwing = null;
+    }
+  }
+
   private useTelekinesis() {
     if (this.levitatedEnemy) {
       // Throw the levitated enemy
@@ -742,7 +762,7 @@ export class Player {
       this.levitatedEnemy.throw(throwDirection);
       
       // Create dramatic throw effect
-      this.createTelekinesisThrowEffect(this.levitatedEnemy.getPosition(), throwDirection);
+      this.particleSystem?.createTelekinesisThrowEffect(this.levitatedEnemy.getPosition(), throwDirection);
       
       // Clean up telekinesis particles
       this.cleanupTelekinesisParticles();
@@ -754,7 +774,7 @@ export class Player {
       this.levitatedBox.throw(throwDirection);
       
       // Create throw effect
-      this.createTelekinesisThrowEffect(this.levitatedBox.getPosition(), throwDirection);
+      this.particleSystem?.createTelekinesisThrowEffect(this.levitatedBox.getPosition(), throwDirection);
       
       // Clean up telekinesis particles
       this.cleanupTelekinesisParticles();
@@ -762,7 +782,7 @@ export class Player {
     } else {
       // Try to levitate an enemy
       if (this.nearestEnemy) {
-        this.audioManager?.playWeaponSound();
+        this.audioManager?.playTelekinesisSound();
         this.levitatedEnemy = this.nearestEnemy;
         this.levitatedEnemy.levitate();
         
@@ -773,7 +793,7 @@ export class Player {
         this.addCameraShake();
       } else if (this.nearestBox && this.nearestBox.canBePickedUp()) {
         // Levitate a box instead
-        this.audioManager?.playWeaponSound();
+        this.audioManager?.playTelekinesisSound();
         this.levitatedBox = this.nearestBox;
         this.levitatedBox.levitate();
         
@@ -831,94 +851,13 @@ export class Player {
     this.scene.add(this.telekinesisParticles);
   }
 
-  private createTelekinesisThrowEffect(position: THREE.Vector3, direction: THREE.Vector3) {
-    // Create explosion-like effect when throwing
-    const particleCount = 50;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
-
-    for (let i = 0; i < particleCount; i++) {
-      // Spread particles in throw direction with some randomness
-      const spread = 1.5;
-      const forward = direction.clone().multiplyScalar(Math.random() * 3);
-      const random = new THREE.Vector3(
-        (Math.random() - 0.5) * spread,
-        (Math.random() - 0.5) * spread,
-        (Math.random() - 0.5) * spread
-      );
-      
-      const finalPos = position.clone().add(forward).add(random);
-      
-      positions[i * 3] = finalPos.x;
-      positions[i * 3 + 1] = finalPos.y;
-      positions[i * 3 + 2] = finalPos.z;
-
-      // Bright purple/white colors for throw effect
-      colors[i * 3] = 1;
-      colors[i * 3 + 1] = 0.5 + Math.random() * 0.5;
-      colors[i * 3 + 2] = 1;
-    }
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.15,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1,
-      blending: THREE.AdditiveBlending
-    });
-
-    const throwParticles = new THREE.Points(geometry, material);
-    this.scene.add(throwParticles);
-
-    // Animate and remove particles
-    let opacity = 1;
-    const animate = () => {
-      opacity -= 0.05;
-      if (material.opacity) {
-        material.opacity = opacity;
-      }
-      
-      if (opacity <= 0) {
-        this.scene.remove(throwParticles);
-        geometry.dispose();
-        material.dispose();
-      } else {
-        requestAnimationFrame(animate);
-      }
-    };
-    animate();
+  public setCameraShakeScale(scale: number) {
+    this.cameraShakeScale = scale;
   }
 
   private addCameraShake() {
     // Add subtle camera shake for telekinesis
-    const originalPosition = this.camera.position.clone();
-    const shakeIntensity = 0.05;
-    const shakeDuration = 20; // frames
-    let shakeTimer = 0;
-    
-    const shake = () => {
-      if (shakeTimer < shakeDuration) {
-        const shakeX = (Math.random() - 0.5) * shakeIntensity;
-        const shakeY = (Math.random() - 0.5) * shakeIntensity;
-        const shakeZ = (Math.random() - 0.5) * shakeIntensity;
-        
-        this.camera.position.set(
-          originalPosition.x + shakeX,
-          originalPosition.y + shakeY,
-          originalPosition.z + shakeZ
-        );
-        
-        shakeTimer++;
-        requestAnimationFrame(shake);
-      } else {
-        this.camera.position.copy(originalPosition);
-      }
-    };
-    shake();
+    this.cameraShakeTimer = CAMERA_SHAKE_DURATION;
   }
 
   private cleanupTelekinesisParticles() {
@@ -937,7 +876,7 @@ export class Player {
       const positions = this.telekinesisParticles.geometry.attributes.position.array as Float32Array;
       const velocities = this.telekinesisParticles.geometry.userData.velocities as Float32Array;
       const enemyPos = this.levitatedEnemy.getPosition();
-      const time = Date.now() * 0.005;
+      const time = this.time * 5;
       
       for (let i = 0; i < positions.length; i += 3) {
         // Create swirling motion around the enemy
@@ -954,7 +893,7 @@ export class Player {
     } else if (this.telekinesisParticles && this.levitatedBox) {
       const positions = this.telekinesisParticles.geometry.attributes.position.array as Float32Array;
       const boxPos = this.levitatedBox.getPosition();
-      const time = Date.now() * 0.005;
+      const time = this.time * 5;
       
       for (let i = 0; i < positions.length; i += 3) {
         // Create swirling motion around the box
@@ -971,63 +910,52 @@ export class Player {
     }
   }
 
-  public updateLasers(enemies: Enemy[], level: any): { hitEnemies: Enemy[], lasersToRemove: number[] } {
+  // Enemies are indexed with their hit radius, so the cells under a laser hold every enemy it can hit
+  public updateLasers(dt: number, enemies: SpatialHash<Enemy>, level: any): { hitEnemies: Enemy[], lasersToRemove: number[] } {
     const hitEnemies: Enemy[] = [];
     const lasersToRemove: number[] = [];
 
     this.lasers.forEach((laser, index) => {
-      const oldPosition = laser.mesh.position.clone();
+      const oldPosition = laser.position.clone();
       
       // Update laser position
-      laser.mesh.position.add(laser.velocity);
-      laser.life--;
+      laser.position.addScaledVector(laser.velocity, dt);
+      laser.life -= dt;
       
       // Create continuous trail effect for moving laser
-      if (this.particleSystem && laser.life > 10) {
-        this.particleSystem.createLaserTrailEffect(laser.mesh.position.clone(), laser.velocity.clone().normalize());
+      if (this.particleSystem && laser.life > LASER_FADE_TIME / 2) {
+        this.particleSystem.createLaserTrailEffect(laser.position.clone(), laser.velocity.clone().normalize());
       }
       
       // Fade out laser as it approaches end of life
-      if (laser.life <= 20) {
-        const fadePercent = laser.life / 20;
-        
-        // Fade the main laser material
-        if (laser.mesh.material instanceof THREE.MeshBasicMaterial) {
-          laser.mesh.material.opacity = fadePercent;
-          laser.mesh.material.transparent = true;
-        }
-        
-        // Fade the glow effect
-        const glowMesh = laser.mesh.children[0] as THREE.Mesh;
-        if (glowMesh && glowMesh.material instanceof THREE.MeshBasicMaterial) {
-          glowMesh.material.opacity = 0.6 * fadePercent;
-        }
+      if (laser.life <= LASER_FADE_TIME) {
+        const fadePercent = Math.max(0, laser.life / LASER_FADE_TIME);
+        laser.brightness = fadePercent;
         
         // Scale down the laser as it fades
-        const scale = 0.5 + (fadePercent * 0.5); // Scale from 0.5 to 1.0
-        laser.mesh.scale.setScalar(scale);
+        laser.scale = 0.5 + (fadePercent * 0.5); // Scale from 0.5 to 1.0
       }
       
       // Check collision with level geometry
-      if (level.checkCollision && level.checkCollision(laser.mesh.position, 0.1, 0.03)) {
+      if (level.checkCollision && level.checkCollision(laser.position, 0.1, 0.03)) {
         lasersToRemove.push(index);
         return;
       }
 
       // Check collision with enemies
-      enemies.forEach(enemy => {
+      enemies.query(laser.position.x, laser.position.z, 0, this.nearbyEnemies).forEach(enemy => {
         if (!enemy.isAlive()) return;
         
-        const distance = laser.mesh.position.distanceTo(enemy.getPosition());
-        if (distance < 1.5) {
-          enemy.takeDamage(laser.damage);
+        const distance = laser.position.distanceTo(enemy.getPosition());
+        if (distance < enemy.getHitRadius()) {
+          enemy.takeDamage(laser.damage * enemy.getWeakPointMultiplier(oldPosition, laser.position));
           hitEnemies.push(enemy);
           lasersToRemove.push(index);
         }
       });
 
       // Remove laser if it's out of range or time
-      if (laser.life <= 0 || laser.mesh.position.distanceTo(this.position) > 50) {
+      if (laser.life <= 0 || laser.position.distanceTo(this.position) > 50) {
         lasersToRemove.push(index);
       }
     });
@@ -1035,11 +963,7 @@ export class Player {
     // Remove expired lasers (in reverse order to maintain indices)
     lasersToRemove.reverse().forEach(index => {
       if (this.lasers[index]) {
-        this.scene.remove(this.lasers[index].mesh);
-        this.lasers[index].mesh.geometry.dispose();
-        if (this.lasers[index].mesh.material instanceof THREE.Material) {
-          this.lasers[index].mesh.material.dispose();
-        }
+        this.projectileSystem?.release(this.lasers[index]);
         this.lasers.splice(index, 1);
       }
     });
@@ -1047,13 +971,13 @@ export class Player {
     return { hitEnemies, lasersToRemove };
   }
 
-  public handleAttacks(enemies: Enemy[], boxes: ThrowableBox[] = []) {
+  public handleAttacks(enemies: SpatialHash<Enemy>, boxes: SpatialHash<ThrowableBox>) {
     // Update nearest enemy for telekinesis
     let nearest: Enemy | null = null;
     let nearestDistance = Infinity;
 
-    enemies.forEach(enemy => {
-      if (!enemy.isAlive()) return;
+    enemies.query(this.position.x, this.position.z, TELEKINESIS_ENEMY_RANGE, this.nearbyEnemies).forEach(enemy => {
+      if (!enemy.isAlive() || enemy.getBoss()) return; // Bosses are too heavy to levitate
       
       const distance = enemy.getPosition().distanceTo(this.position);
       const direction = enemy.getPosition().clone().sub(this.position).normalize();
@@ -1061,7 +985,7 @@ export class Player {
       const dot = direction.dot(cameraDirection);
 
       // Check if enemy is in front of player and within range
-      if (distance < 10 && dot > 0.5 && distance < nearestDistance) {
+      if (distance < TELEKINESIS_ENEMY_RANGE && dot > 0.5 && distance < nearestDistance) {
         nearest = enemy;
         nearestDistance = distance;
       }
@@ -1074,7 +998,7 @@ export class Player {
     let nearestBox: ThrowableBox | null = null;
     let nearestBoxDistance = Infinity;
 
-    boxes.forEach(box => {
+    boxes.query(this.position.x, this.position.z, TELEKINESIS_BOX_RANGE, this.nearbyBoxes).forEach(box => {
       if (!box.canBePickedUp()) return;
       
       const distance = box.getPosition().distanceTo(this.position);
@@ -1083,7 +1007,7 @@ export class Player {
       const dot = direction.dot(cameraDirection);
 
       // Check if box is in front of player and within range
-      if (distance < 8 && dot > 0.5 && distance < nearestBoxDistance) {
+      if (distance < TELEKINESIS_BOX_RANGE && dot > 0.5 && distance < nearestBoxDistance) {
         nearestBox = box;
         nearestBoxDistance = distance;
       }
@@ -1092,13 +1016,20 @@ export class Player {
     this.nearestBox = nearestBox;
   }
 
-  public update(level?: any) {
+  public update(dt: number, level?: any) {
+    this.time += dt;
+    this.previousPosition.copy(this.position);
+
+    if (this.lookRate.x !== 0 || this.lookRate.y !== 0) {
+      this.turn(this.lookRate.x * dt, this.lookRate.y * dt);
+    }
+
     // Update movement
-    this.updateMovement(level);
+    this.updateMovement(dt, level);
     
     // Update attack cooldown
     if (this.attackCooldown > 0) {
-      this.attackCooldown--;
+      this.attackCooldown -= dt;
     }
     
     // Handle automatic firing for blaster
@@ -1108,23 +1039,44 @@ export class Player {
     
     // Update reload cooldown
     if (this.reloadCooldown > 0) {
-      this.reloadCooldown--;
-      if (this.reloadCooldown === 0) {
-        this.isReloading = false;
+      this.reloadCooldown -= dt;
+      if (this.reloadCooldown <= 0) {
+        this.finishReload();
+      }
+    }
+
+    if (this.autoReloadTimer > 0) {
+      this.autoReloadTimer -= dt;
+      if (this.autoReloadTimer <= 0) {
+        this.reloadBlaster();
+      }
+    }
+
+    if (this.speedBoostTimer > 0) {
+      this.speedBoostTimer -= dt;
+      if (this.speedBoostTimer <= 0) {
+        this.speed = this.baseSpeed; // Reset to base speed after boost
       }
     }
+
+    if (this.overchargeTimer > 0) {
+      this.overchargeTimer -= dt;
+    }
+
+    if (this.cameraShakeTimer > 0) {
+      this.cameraShakeTimer -= dt;
+    }
     
-    if (this._isAttacking && this.attackCooldown <= 5) {
+    if (this._isAttacking && this.attackCooldown <= 5 / 60) {
       this._isAttacking = false;
     }
 
     // Update telekinesis particle effects
     this.updateTelekinesisParticles();
 
-    this.updateBlasterRecoil();
-
-    // Update camera position
-    this.camera.position.copy(this.position);
+    this.updateBlasterRecoil(dt);
+    this.updateLightsaberSwing(dt);
+    this.updateReloadAnimation(dt);
 
     // Update weapon visibility and animations
     if (this.currentWeapon === 'blaster' && this.blaster) {
@@ -1134,7 +1086,7 @@ export class Player {
       if (!this._isAttacking) {
           this.lightsaber.visible = true;
           // Idle animation
-          const time = Date.now() * 0.002;
+          const time = this.time * 2;
           this.lightsaber.position.y = -0.3 + Math.sin(time) * 0.02;
           this.lightsaber.rotation.z = -Math.PI / 6 + Math.cos(time * 0.5) * 0.05;
       }
@@ -1142,7 +1094,19 @@ export class Player {
     }
   }
 
-  private updateMovement(level?: any) {
+  public interpolate(alpha: number) {
+    // Update camera position
+    this.camera.position.lerpVectors(this.previousPosition, this.position, alpha);
+
+    if (this.cameraShakeTimer > 0 && this.cameraShakeScale > 0) {
+      const shakeIntensity = 0.05 * this.cameraShakeScale;
+      this.camera.position.x += (Math.random() - 0.5) * shakeIntensity;
+      this.camera.position.y += (Math.random() - 0.5) * shakeIntensity;
+      this.camera.position.z += (Math.random() - 0.5) * shakeIntensity;
+    }
+  }
+
+  private updateMovement(dt: number, level?: any) {
     this.velocity.set(0, 0, 0);
 
     // Get camera direction vectors
@@ -1160,68 +1124,33 @@ export class Player {
     if (this.keys.backward) this.velocity.add(forward.clone().multiplyScalar(-this.speed));
     if (this.keys.left) this.velocity.add(right.clone().multiplyScalar(-this.speed));
     if (this.keys.right) this.velocity.add(right.clone().multiplyScalar(this.speed));
+    this.velocity.addScaledVector(forward, this.moveAxis.y * this.speed);
+    this.velocity.addScaledVector(right, this.moveAxis.x * this.speed);
 
-    // Enhanced collision detection
-    const newPosition = this.position.clone().add(this.velocity);
-    
-    // Apply gravity and handle jumping
-    if (this.isJumping) {
-      this.jumpVelocity += this.gravity;
-      this.position.y += this.jumpVelocity;
-
-      // Check for landing
-      if (this.position.y <= this.playerHeight) {
-        this.position.y = this.playerHeight;
-        this.isJumping = false;
-        this.jumpVelocity = 0;
-        this.canDoubleJump = false;
-        this.audioManager?.playLandingSound();
-        
-        // Create landing particle effect
-        if (this.particleSystem) {
-          this.particleSystem.createLandingEffect(this.position.clone());
-        }
-      }
+    // Slide along walls and obstacles, then fall, land or follow the ground
+    const feet = this.getFeet(this.position);
+    this.controller.move(feet, this.velocity.clone().multiplyScalar(dt), level);
+    const step = this.controller.update(feet, dt, level);
+    this.position.set(feet.x, feet.y + this.playerHeight, feet.z);
+
+    if (step.leftGround) {
+      // Walked or got knocked off a ledge: fall, with the double jump still available
+      this.canDoubleJump = true;
     }
-    
-    if (level && level.checkCollision) {
-      // Use larger collision radius for more reliable collision detection
-      const collisionRadius = 0.6;
-      const playerHeight = this.playerHeight;
+    if (step.landed) {
+      this.canDoubleJump = false;
+      this.audioManager?.playLandingSound();
       
-      if (!level.checkCollision(newPosition, collisionRadius, playerHeight)) {
-        this.position.copy(newPosition);
-      } else {
-        // Enhanced wall sliding - try each axis separately
-        const testX = this.position.clone();
-        testX.x = newPosition.x;
-        if (!level.checkCollision(testX, collisionRadius, playerHeight)) {
-          this.position.x = newPosition.x;
-        }
-        
-        const testZ = this.position.clone();
-        testZ.z = newPosition.z;
-        if (!level.checkCollision(testZ, collisionRadius, playerHeight)) {
-          this.position.z = newPosition.z;
-        }
-        
-        // Simplified collision handling for better performance
-        if (level.checkCollision(testX, collisionRadius, playerHeight) && level.checkCollision(testZ, collisionRadius, playerHeight)) {
-          // Only try one reduced movement instead of multiple micro-movements
-          const reducedVelocity = this.velocity.clone().multiplyScalar(0.3);
-          const reducedPosition = this.position.clone().add(reducedVelocity);
-          if (!level.checkCollision(reducedPosition, collisionRadius, playerHeight)) {
-            this.position.copy(reducedPosition);
-          }
-          // If still blocked, just don't move this frame
-        }
+      // Create landing particle effect
+      if (this.particleSystem) {
+        this.particleSystem.createLandingEffect(feet);
       }
-    } else {
-      this.position.copy(newPosition);
     }
+  }
 
-    // Keep player above ground
-    this.position.y = Math.max(this.playerHeight, this.position.y);
+  // Where the player's feet are for a given eye position
+  private getFeet(position: THREE.Vector3): THREE.Vector3 {
+    return new THREE.Vector3(position.x, position.y - this.playerHeight, position.z);
   }
 
   private reloadBlaster() {
@@ -1230,90 +1159,95 @@ export class Player {
     }
     this.callbacks.onStatusMessage?.('Reloading Blaster...', 1500);
     this.isReloading = true;
-    this.reloadCooldown = 90; // 1.5 seconds at 60fps
+    this.reloadingWeapon = 'blaster';
+    this.reloadCooldown = 1.5;
+    this.audioManager?.playReloadSound('blaster');
+    this.reloadDuration = this.reloadCooldown;
     
     // Animate reload
     this.animateReload();
-    
-    setTimeout(() => {
+  }
+
+  private finishReload() {
+    if (this.reloadingWeapon === 'blaster') {
       this.blasterAmmo = this.maxBlasterAmmo;
-      this.isReloading = false;
-      this.updateAmmoDisplay();
-    }, 1500);
+    } else if (this.reloadingWeapon === 'shotgun') {
+      this.shotgunAmmo = this.maxShotgunAmmo;
+    }
+    this.reloadCooldown = 0;
+    this.reloadingWeapon = null;
+    this.isReloading = false;
+    this.updateAmmoDisplay();
   }
   
   private animateReload() {
     const weapon = this.currentWeapon === 'blaster' ? this.blaster : this.shotgun;
     if (!weapon) return;
 
-    const originalPosition = weapon.position.clone();
-    const originalRotation = weapon.rotation.clone();
-    
-    let duration = 1200; // Total duration of animation
-    let downwardMotion = -0.2;
-    let rotation = -Math.PI / 4;
-
-    if (this.currentWeapon === 'shotgun') {
-        duration = 1800; // Longer for shotgun pump
-        downwardMotion = -0.3;
-        rotation = -Math.PI / 6;
-    }
-
-    const startTime = Date.now();
+    this.reloadAnimation = {
+      weapon,
+      weaponType: this.currentWeapon,
+      originalPosition: weapon.position.clone(),
+      originalRotation: weapon.rotation.clone(),
+      elapsed: 0,
+      duration: this.currentWeapon === 'shotgun' ? 1.8 : 1.2 // Longer for shotgun pump
+    };
+  }
 
-    const animate = () => {
-        const elapsed = Date.now() - startTime;
-        let progress = elapsed / duration;
+  private updateReloadAnimation(dt: number) {
+    if (!this.reloadAnimation) return;
 
-        if (progress >= 1) {
-            weapon.position.copy(originalPosition);
-            weapon.rotation.copy(originalRotation);
-            return;
-        }
+    const { weapon, weaponType, originalPosition, originalRotation, duration } = this.reloadAnimation;
+    this.reloadAnimation.elapsed += dt;
+    let progress = this.reloadAnimation.elapsed / duration;
 
-        // Use a sinusoidal ease-in-out for smooth motion
-        progress = 0.5 * (1 - Math.cos(progress * Math.PI));
+    if (progress >= 1) {
+        weapon.position.copy(originalPosition);
+        weapon.rotation.copy(originalRotation);
+        this.reloadAnimation = null;
+        return;
+    }
 
-        // Animation sequence
-        if (this.currentWeapon === 'blaster') {
-            // Quick downward snap and tilt
-            const peak = 0.5; // at what point animation changes
-            if (progress < peak) {
-                const phaseProgress = progress / peak;
-                weapon.position.y = originalPosition.y + downwardMotion * phaseProgress;
-                weapon.rotation.x = originalRotation.x + rotation * phaseProgress;
-                weapon.rotation.z = originalRotation.z + (rotation / 2) * phaseProgress;
-            } else {
-                const phaseProgress = (progress - peak) / (1 - peak);
-                weapon.position.y = (originalPosition.y + downwardMotion) - (downwardMotion * phaseProgress);
-                weapon.rotation.x = (originalRotation.x + rotation) - (rotation * phaseProgress);
-                weapon.rotation.z = (originalRotation.z + rotation / 2) - ((rotation/2) * phaseProgress);
-            }
-        } else if (this.currentWeapon === 'shotgun') {
-            // Pumping animation
-            const pumpTime = 0.4;
-            const returnTime = 0.8;
-            
-            if (progress < pumpTime) { // "Pump back"
-                const phaseProgress = progress / pumpTime;
-                weapon.position.z = originalPosition.z - 0.2 * phaseProgress;
-            } else if (progress < returnTime) { // Hold
-                 weapon.position.z = originalPosition.z - 0.2;
-            } else { // "Pump forward"
-                const phaseProgress = (progress - returnTime) / (1 - returnTime);
-                weapon.position.z = (originalPosition.z - 0.2) + (0.2 * phaseProgress);
-            }
+    // Use a sinusoidal ease-in-out for smooth motion
+    progress = 0.5 * (1 - Math.cos(progress * Math.PI));
+
+    // Animation sequence
+    if (weaponType === 'blaster') {
+        // Quick downward snap and tilt
+        const downwardMotion = -0.2;
+        const rotation = -Math.PI / 4;
+        const peak = 0.5; // at what point animation changes
+        if (progress < peak) {
+            const phaseProgress = progress / peak;
+            weapon.position.y = originalPosition.y + downwardMotion * phaseProgress;
+            weapon.rotation.x = originalRotation.x + rotation * phaseProgress;
+            weapon.rotation.z = originalRotation.z + (rotation / 2) * phaseProgress;
+        } else {
+            const phaseProgress = (progress - peak) / (1 - peak);
+            weapon.position.y = (originalPosition.y + downwardMotion) - (downwardMotion * phaseProgress);
+            weapon.rotation.x = (originalRotation.x + rotation) - (rotation * phaseProgress);
+            weapon.rotation.z = (originalRotation.z + rotation / 2) - ((rotation/2) * phaseProgress);
         }
+    } else if (weaponType === 'shotgun') {
+        // Pumping animation
+        const pumpTime = 0.4;
+        const returnTime = 0.8;
         
-        requestAnimationFrame(animate);
-    };
-    
-    animate();
+        if (progress < pumpTime) { // "Pump back"
+            const phaseProgress = progress / pumpTime;
+            weapon.position.z = originalPosition.z - 0.2 * phaseProgress;
+        } else if (progress < returnTime) { // Hold
+             weapon.position.z = originalPosition.z - 0.2;
+        } else { // "Pump forward"
+            const phaseProgress = (progress - returnTime) / (1 - returnTime);
+            weapon.position.z = (originalPosition.z - 0.2) + (0.2 * phaseProgress);
+        }
+    }
   }
   
   public getReloadProgress(): number {
     if (!this.isReloading) return 1;
-    return 1 - (this.reloadCooldown / 90);
+    return 1 - (this.reloadCooldown / this.reloadDuration);
   }
   
   public isCurrentlyReloading(): boolean {
@@ -1331,17 +1265,38 @@ export class Player {
     this.audioManager?.playReloadSound();
   }
 
+  // Knocks the player back, e.g. from a nearby blast; see CharacterController.applyImpulse
+  public applyImpulse(impulse: THREE.Vector3) {
+    this.controller.applyImpulse(impulse);
+  }
+
+  // Moves the player onto the ground at x/z, e.g. to the start point of a new arena
+  public teleport(x: number, z: number) {
+    this.position.set(x, this.playerHeight, z);
+    this.previousPosition.copy(this.position);
+    this.velocity.set(0, 0, 0);
+    this.canDoubleJump = false;
+    this.controller.reset();
+    this.camera.position.copy(this.position);
+  }
+
   public reset() {
     this.position.set(0, this.playerHeight, 0);
+    this.previousPosition.copy(this.position);
     this.velocity.set(0, 0, 0);
     this.health = this.maxHealth;
     this.speed = this.baseSpeed; // Reset speed to base
+    this.speedBoostTimer = 0;
+    this.overchargeTimer = 0;
+    this.cameraShakeTimer = 0;
     this.camera.position.copy(this.position);
     this.yaw = 0;
     this.pitch = 0;
-    this.isJumping = false;
+    this.moveAxis.set(0, 0);
+    this.lookRate.set(0, 0);
+    this.aimAssist = true;
     this.canDoubleJump = false;
-    this.jumpVelocity = 0;
+    this.controller.reset();
     this.updateCameraRotation();
     this.levitatedEnemy = null;
     this.levitatedBox = null;
@@ -1349,16 +1304,23 @@ export class Player {
     this.blasterAmmo = this.maxBlasterAmmo;
     this.isReloading = false;
     this.reloadCooldown = 0;
-    
+    this.reloadingWeapon = null;
+    this.autoReloadTimer = 0;
+
+    // Snap any in-flight weapon animations back to rest
+    if (this.reloadAnimation) {
+      this.reloadAnimation.weapon.position.copy(this.reloadAnimation.originalPosition);
+      this.reloadAnimation.weapon.rotation.copy(this.reloadAnimation.originalRotation);
+      this.reloadAnimation = null;
+    }
+    if (this.lightsaberSwing && this.lightsaber) {
+      this.lightsaber.rotation.copy(this.lightsaberSwing.startRotation);
+    }
+    this.lightsaberSwing = null;
+
     // Clear all lasers
     this.cleanupTelekinesisParticles();
-    this.lasers.forEach(laser => {
-      this.scene.remove(laser.mesh);
-      laser.mesh.geometry.dispose();
-      if (laser.mesh.material instanceof THREE.Material) {
-        laser.mesh.material.dispose();
-      }
-    });
+    this.lasers.forEach(laser => this.projectileSystem?.release(laser));
     this.lasers = [];
     
     // Reset weapon visibility
@@ -1381,19 +1343,38 @@ export class Player {
   public increaseSpeed(multiplier: number) {
     const newSpeed = this.speed * multiplier;
     this.speed = Math.min(newSpeed, this.maxSpeed); // Cap the speed
-    setTimeout(() => {
-      this.speed = this.baseSpeed; // Reset to base speed after boost
-    }, 10000); // Speed boost lasts 10 seconds
+    this.speedBoostTimer = 10; // Speed boost lasts 10 seconds
+  }
+
+  // Boss drop: full refill plus a temporary laser damage boost
+  public overcharge(duration: number) {
+    this.health = this.maxHealth;
+    this.blasterAmmo = this.maxBlasterAmmo;
+    this.shotgunAmmo = this.maxShotgunAmmo;
+    this.overchargeTimer = duration;
+    this.updateAmmoDisplay();
+    this.callbacks.onStatusMessage?.('OVERCHARGED!', 2000);
   }
 
   public getPosition(): THREE.Vector3 {
     return this.position.clone();
   }
 
+  // Distance from a point to the nearest part of the player's body, which runs from the feet up to the eyes
+  public distanceToBody(point: THREE.Vector3): number {
+    const feet = this.position.y - this.playerHeight;
+    const bodyY = Math.max(feet, Math.min(this.position.y, point.y));
+    return Math.hypot(point.x - this.position.x, point.y - bodyY, point.z - this.position.z);
+  }
+
   public getHealth(): number {
     return this.health;
   }
 
+  public getMaxHealth(): number {
+    return this.maxHealth;
+  }
+
   public isAttacking(): boolean {
     return this._isAttacking;
   }
@@ -1448,11 +1429,11 @@ export class Player {
     return nearest;
   }
 
-  public findTargetEnemy(enemies: Enemy[]): Enemy | null {
+  public findTargetEnemy(enemies: SpatialHash<Enemy>): Enemy | null {
     let nearest: Enemy | null = null;
     let nearestDistance = Infinity;
 
-    enemies.forEach(enemy => {
+    enemies.query(this.position.x, this.position.z, TARGET_RANGE, this.nearbyEnemies).forEach(enemy => {
       if (!enemy.isAlive()) return;
       
       const distance = enemy.getPosition().distanceTo(this.position);
@@ -1461,7 +1442,7 @@ export class Player {
       const dot = direction.dot(cameraDirection);
 
       // Check if enemy is in front of player and within range
-      if (distance < 10 && dot > 0.7 && distance < nearestDistance) {
+      if (distance < TARGET_RANGE && dot > 0.7 && distance < nearestDistance) {
         nearest = enemy;
         nearestDistance = distance;
       }
@@ -1470,15 +1451,32 @@ export class Player {
     return nearest;
   }
 
+  /**
+   * Gamepad aiming help: while the aim stick is in use, ease the view towards the enemy
+   * findTargetEnemy would pick. Moving, mouse and touch look are never touched.
+   */
+  public updateAimAssist(dt: number, enemies: SpatialHash<Enemy>) {
+    if (!this.aimAssist || this.lookRate.lengthSq() === 0) return;
+
+    const target = this.findTargetEnemy(enemies);
+    if (!target) return;
+
+    const toTarget = target.getPosition().clone().sub(this.position);
+    toTarget.y += AIM_ASSIST_HEIGHT;
+    const targetYaw = Math.atan2(-toTarget.x, -toTarget.z);
+    const targetPitch = Math.atan2(toTarget.y, Math.hypot(toTarget.x, toTarget.z));
+
+    // Shortest way round, so the view never spins through the long side
+    let yawError = targetYaw - this.yaw;
+    yawError = Math.atan2(Math.sin(yawError), Math.cos(yawError));
+
+    const pull = Math.min(1, AIM_ASSIST_RATE * dt);
+    this.turn(yawError * pull, (targetPitch - this.pitch) * pull);
+  }
+
   public cleanup() {
     // Clean up lasers
-    this.lasers.forEach(laser => {
-      this.scene.remove(laser.mesh);
-      laser.mesh.geometry.dispose();
-      if (laser.mesh.material instanceof THREE.Material) {
-        laser.mesh.material.dispose();
-      }
-    });
+    this.lasers.forEach(laser => this.projectileSystem?.release(laser));
     this.lasers = [];
 
     // Clean up weapons
@@ -1529,15 +1527,12 @@ export class Player {
     }
     this.callbacks.onStatusMessage?.('Reloading Shotgun...', 2000);
     this.isReloading = true;
-    this.reloadCooldown = 120; // Slower reload for shotgun
+    this.reloadingWeapon = 'shotgun';
+    this.reloadCooldown = 2; // Slower reload for shotgun
+    this.audioManager?.playReloadSound('shotgun');
+    this.reloadDuration = this.reloadCooldown;
     
     // Animate reload (can be a different animation)
     this.animateReload(); 
-    
-    setTimeout(() => {
-      this.shotgunAmmo = this.maxShotgunAmmo;
-      this.isReloading = false;
-      this.updateAmmoDisplay();
-    }, 2000);
   }
 }
\ No newline at end of file
@@ -1,21 +1,34 @@
 import * as THREE from 'three';
 import { Player } from './Player';
 
-export type PowerUpType = 'health' | 'speed';
+export type PowerUpType = 'health' | 'speed' | 'overcharge';
+
+export const POWER_UP_TYPES: PowerUpType[] = ['health', 'speed', 'overcharge'];
+
+const POWER_UP_COLORS: Record<PowerUpType, { color: number; emissive: number; glow: number }> = {
+  health: { color: 0xff3333, emissive: 0x441111, glow: 0xff6666 },
+  speed: { color: 0x33ff33, emissive: 0x114411, glow: 0x66ff66 },
+  overcharge: { color: 0xffcc00, emissive: 0x664400, glow: 0xffee66 }
+};
+
+const OVERCHARGE_DURATION = 20; // seconds
 
 export class PowerUp {
   private mesh: THREE.Group;
   private position: THREE.Vector3;
   private type: PowerUpType;
-  private rotationSpeed = 0.05;
-  private bobSpeed = 0.1;
+  private previousPosition: THREE.Vector3;
+  private rotationSpeed = 3; // radians per second
+  private bobSpeed = 5; // radians per second
   private bobAmount = 0.3;
   private baseY: number;
+  private time = 0;
 
   constructor(position: THREE.Vector3, type: PowerUpType, scene: THREE.Scene) {
     this.position = position.clone();
     this.position.y += 1; // Hover above ground
     this.baseY = this.position.y;
+    this.previousPosition = this.position.clone();
     this.type = type;
     
     this.createMesh();
@@ -32,8 +45,8 @@ export class PowerUp {
       // Health power-up - red cross/plus shape
       geometry = new THREE.BoxGeometry(0.6, 0.2, 0.2);
       material = new THREE.MeshPhongMaterial({ 
-        color: 0xff3333,
-        emissive: 0x441111,
+        color: POWER_UP_COLORS.health.color,
+        emissive: POWER_UP_COLORS.health.emissive,
         shininess: 100
       });
       
@@ -50,19 +63,30 @@ export class PowerUp {
       // Speed power-up - lightning bolt shape
       geometry = new THREE.ConeGeometry(0.3, 0.8, 6);
       material = new THREE.MeshPhongMaterial({ 
-        color: 0x33ff33,
-        emissive: 0x114411,
+        color: POWER_UP_COLORS.speed.color,
+        emissive: POWER_UP_COLORS.speed.emissive,
         shininess: 100
       });
       
       const cone = new THREE.Mesh(geometry, material);
       this.mesh.add(cone);
+    } else if (this.type === 'overcharge') {
+      // Boss drop - spinning gold core
+      geometry = new THREE.OctahedronGeometry(0.4);
+      material = new THREE.MeshPhongMaterial({
+        color: POWER_UP_COLORS.overcharge.color,
+        emissive: POWER_UP_COLORS.overcharge.emissive,
+        shininess: 100
+      });
+
+      const core = new THREE.Mesh(geometry, material);
+      this.mesh.add(core);
     }
 
     // Add glowing effect
     const glowGeometry = new THREE.SphereGeometry(0.5, 16, 16);
     const glowMaterial = new THREE.MeshBasicMaterial({
-      color: this.type === 'health' ? 0xff6666 : 0x66ff66,
+      color: POWER_UP_COLORS[this.type].glow,
       transparent: true,
       opacity: 0.3
     });
@@ -89,7 +113,7 @@ export class PowerUp {
     particleGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
 
     const particleMaterial = new THREE.PointsMaterial({
-      color: this.type === 'health' ? 0xff3333 : 0x33ff33,
+      color: POWER_UP_COLORS[this.type].color,
       size: 0.05,
       transparent: true,
       opacity: 0.6
@@ -99,20 +123,22 @@ export class PowerUp {
     this.mesh.add(particles);
   }
 
-  public update() {
+  public update(dt: number) {
+    this.time += dt;
+    this.previousPosition.copy(this.position);
+
     // Rotate the power-up
-    this.mesh.rotation.y += this.rotationSpeed;
+    this.mesh.rotation.y += this.rotationSpeed * dt;
     
     // Bob up and down
-    const bobOffset = Math.sin(Date.now() * 0.005) * this.bobAmount;
+    const bobOffset = Math.sin(this.time * this.bobSpeed) * this.bobAmount;
     this.position.y = this.baseY + bobOffset;
-    this.mesh.position.copy(this.position);
 
     // Animate particles
     const particles = this.mesh.children.find(child => child instanceof THREE.Points) as THREE.Points;
     if (particles) {
-      particles.rotation.x += 0.01;
-      particles.rotation.y += 0.015;
+      particles.rotation.x += 0.6 * dt;
+      particles.rotation.y += 0.9 * dt;
     }
 
     // Pulse the glow effect
@@ -123,15 +149,21 @@ export class PowerUp {
     ) as THREE.Mesh;
     
     if (glow && glow.material instanceof THREE.MeshBasicMaterial) {
-      glow.material.opacity = 0.2 + Math.sin(Date.now() * 0.01) * 0.1;
+      glow.material.opacity = 0.2 + Math.sin(this.time * 10) * 0.1;
     }
   }
 
+  public interpolate(alpha: number) {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
+  }
+
   public apply(player: Player) {
     if (this.type === 'health') {
       player.heal(50); // Increased healing amount
     } else if (this.type === 'speed') {
       player.increaseSpeed(1.5);
+    } else if (this.type === 'overcharge') {
+      player.overcharge(OVERCHARGE_DURATION);
     }
   }
 
@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { InstancedBatch } from './InstancedBatch';
+import { ObjectPool, PoolStats } from './ObjectPool';
+
+export type ProjectileKind = 'playerLaser' | 'enemyLaser' | 'enemyBolt';
+
+export interface Projectile {
+  kind: ProjectileKind;
+  position: THREE.Vector3;
+  velocity: THREE.Vector3; // units per second
+  damage: number;
+  life: number; // seconds
+  // Render only
+  orientation: THREE.Quaternion;
+  color: THREE.Color;
+  scale: number;
+  brightness: number; // 0-1; fading shots dim out, since instances can't have their own opacity
+}
+
+// One instanced mesh drawn per projectile; color null means the projectile's own color
+interface ProjectileLayer {
+  batch: InstancedBatch;
+  color: THREE.Color | null;
+  intensity: number;
+}
+
+const INITIAL_CAPACITY = 64;
+
+const POOL_NAMES: Record<ProjectileKind, string> = {
+  playerLaser: 'Player lasers',
+  enemyLaser: 'Enemy lasers',
+  enemyBolt: 'Enemy bolts'
+};
+
+/**
+ * Owns every laser and bolt in flight. Shooters acquire projectiles here and keep their
+ * own lists for the gameplay (movement, hits); this only recycles the objects and draws
+ * each kind as one instanced mesh, so no shot allocates geometry or materials.
+ */
+export class ProjectileSystem {
+  private pools: Record<ProjectileKind, ObjectPool<Projectile>>;
+  private layers: Record<ProjectileKind, ProjectileLayer[]>;
+  private instanceColor = new THREE.Color();
+
+  constructor(scene: THREE.Scene) {
+    const createPool = (kind: ProjectileKind) => new ObjectPool<Projectile>(POOL_NAMES[kind], () => ({
+      kind,
+      position: new THREE.Vector3(),
+      velocity: new THREE.Vector3(),
+      damage: 0,
+      life: 0,
+      orientation: new THREE.Quaternion(),
+      color: new THREE.Color(),
+      scale: 1,
+      brightness: 1
+    }));
+    this.pools = {
+      playerLaser: createPool('playerLaser'),
+      enemyLaser: createPool('enemyLaser'),
+      enemyBolt: createPool('enemyBolt')
+    };
+
+    // Player lasers blend additively, so dimming them reads as fading out
+    const glowing = () => new THREE.MeshBasicMaterial({
+      transparent: true,
+      blending: THREE.AdditiveBlending,
+      depthWrite: false
+    });
+    const batch = (geometry: THREE.BufferGeometry, material: THREE.Material) =>
+      new InstancedBatch(scene, geometry, material, INITIAL_CAPACITY);
+
+    this.layers = {
+      playerLaser: [
+        { batch: batch(new THREE.CylinderGeometry(0.02, 0.02, 2.0), glowing()), color: null, intensity: 1 },
+        { batch: batch(new THREE.CylinderGeometry(0.06, 0.06, 2.0), glowing()), color: new THREE.Color(0xff4444), intensity: 0.6 }
+      ],
+      enemyLaser: [
+        { batch: batch(new THREE.CylinderGeometry(0.05, 0.05, 1), new THREE.MeshBasicMaterial()), color: null, intensity: 1 }
+      ],
+      enemyBolt: [
+        { batch: batch(new THREE.SphereGeometry(0.05, 8, 8), new THREE.MeshBasicMaterial()), color: null, intensity: 1 }
+      ]
+    };
+  }
+
+  // A projectile at the origin with no velocity, damage or life; the caller fills it in
+  public acquire(kind: ProjectileKind): Projectile {
+    const projectile = this.pools[kind].acquire();
+    projectile.position.set(0, 0, 0);
+    projectile.velocity.set(0, 0, 0);
+    projectile.damage = 0;
+    projectile.life = 0;
+    projectile.orientation.identity();
+    projectile.color.setRGB(1, 1, 1);
+    projectile.scale = 1;
+    projectile.brightness = 1;
+    return projectile;
+  }
+
+  public release(projectile: Projectile) {
+    this.pools[projectile.kind].release(projectile);
+  }
+
+  // Writes every projectile in flight into the instanced meshes; call once per rendered frame
+  public sync() {
+    (Object.keys(this.layers) as ProjectileKind[]).forEach(kind => {
+      this.layers[kind].forEach(layer => {
+        layer.batch.begin();
+        this.pools[kind].forEachActive(projectile => {
+          this.instanceColor
+            .copy(layer.color ?? projectile.color)
+            .multiplyScalar(layer.intensity * projectile.brightness);
+          layer.batch.add(projectile.position, projectile.orientation, projectile.scale, this.instanceColor);
+        });
+        layer.batch.end();
+      });
+    });
+  }
+
+  public getPoolStats(): PoolStats[] {
+    return (Object.keys(this.pools) as ProjectileKind[]).map(kind => this.pools[kind].getStats());
+  }
+
+  public cleanup() {
+    (Object.keys(this.layers) as ProjectileKind[]).forEach(kind => {
+      this.layers[kind].forEach(layer => layer.batch.dispose());
+    });
+  }
+}
@@ -0,0 +1,125 @@
+export interface QualityTier {
+  name: string;
+  shadowMapSize: number; // Upper bound on the player's shadow setting; 0 turns shadows off
+  pixelRatio: number; // Upper bound; never above the display's own
+  maxParticles: number; // ParticleSystem budget of live effects
+  fogFar: number; // Fog end, which is also the camera's far plane
+  meshDetail: number; // Curve segments for newly spawned enemies, see Enemy.setMeshDetail
+}
+
+// Best first
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'Ultra', shadowMapSize: 2048, pixelRatio: 2, maxParticles: 100, fogFar: 100, meshDetail: 1 },
+  { name: 'High', shadowMapSize: 2048, pixelRatio: 1.5, maxParticles: 80, fogFar: 90, meshDetail: 1 },
+  { name: 'Medium', shadowMapSize: 1024, pixelRatio: 1, maxParticles: 60, fogFar: 75, meshDetail: 0.75 },
+  { name: 'Low', shadowMapSize: 512, pixelRatio: 0.85, maxParticles: 40, fogFar: 60, meshDetail: 0.5 },
+  { name: 'Minimal', shadowMapSize: 0, pixelRatio: 0.7, maxParticles: 20, fogFar: 45, meshDetail: 0.35 }
+];
+
+export interface QualityStats {
+  fps: number;
+  frameTime: number; // Average over the last sample window, seconds
+  tierIndex: number;
+  tier: QualityTier;
+}
+
+const SAMPLE_WINDOW = 1; // Seconds of frames averaged for each decision
+const HITCH_TIME = 0.1; // Longer frames are hitches (tab switch, GC), not a sign of load
+const DOWNGRADE_RATIO = 1.2; // Step down when frames average this much over the target...
+const UPGRADE_RATIO = 1.05; // ...and only consider stepping up when on target (vsync caps frames at it)
+const SETTLE_TIME = 2; // Seconds ignored after a change while caches and shaders warm up
+const UPGRADE_HOLD = 5; // Seconds on target before trying the next tier up
+const MAX_UPGRADE_HOLD = 60;
+const FAILED_UPGRADE_WINDOW = 8; // A downgrade this soon after an upgrade means the upgrade didn't fit
+
+/**
+ * Holds a target frame rate by moving between quality tiers. Decisions use whole-second
+ * averages and the thresholds for going down and up are apart, so a borderline frame rate
+ * doesn't flip tiers back and forth; every upgrade that has to be undone doubles how long
+ * the next one waits.
+ */
+export class QualityGovernor {
+  private targetFrameTime: number;
+  private tierIndex = 0;
+  private windowTime = 0;
+  private windowFrames = 0;
+  private averageFrameTime = 0;
+  private settleTimer = SETTLE_TIME;
+  private timeOnTarget = 0;
+  private upgradeHold = UPGRADE_HOLD;
+  private timeSinceUpgrade = Infinity;
+
+  constructor(targetFps = 60) {
+    this.targetFrameTime = 1 / targetFps;
+  }
+
+  // Feed the real time of every rendered frame; returns true when the tier changed
+  public update(frameTime: number): boolean {
+    this.timeSinceUpgrade += frameTime;
+    if (frameTime > HITCH_TIME) return false;
+
+    if (this.settleTimer > 0) {
+      this.settleTimer -= frameTime;
+      return false;
+    }
+
+    this.windowTime += frameTime;
+    this.windowFrames++;
+    if (this.windowTime < SAMPLE_WINDOW) return false;
+
+    this.averageFrameTime = this.windowTime / this.windowFrames;
+    this.windowTime = 0;
+    this.windowFrames = 0;
+
+    if (this.averageFrameTime > this.targetFrameTime * DOWNGRADE_RATIO) {
+      this.timeOnTarget = 0;
+      if (this.tierIndex === QUALITY_TIERS.length - 1) return false;
+
+      if (this.timeSinceUpgrade < FAILED_UPGRADE_WINDOW) {
+        this.upgradeHold = Math.min(MAX_UPGRADE_HOLD, this.upgradeHold * 2);
+      }
+      this.setTier(this.tierIndex + 1);
+      return true;
+    }
+
+    if (this.averageFrameTime <= this.targetFrameTime * UPGRADE_RATIO) {
+      this.timeOnTarget += SAMPLE_WINDOW;
+      if (this.tierIndex > 0 && this.timeOnTarget >= this.upgradeHold) {
+        this.setTier(this.tierIndex - 1);
+        this.timeSinceUpgrade = 0;
+        return true;
+      }
+    } else {
+      this.timeOnTarget = 0; // In between: hold the current tier
+    }
+    return false;
+  }
+
+  public getTier(): QualityTier {
+    return QUALITY_TIERS[this.tierIndex];
+  }
+
+  public getStats(): QualityStats {
+    return {
+      fps: this.averageFrameTime > 0 ? 1 / this.averageFrameTime : 0,
+      frameTime: this.averageFrameTime,
+      tierIndex: this.tierIndex,
+      tier: this.getTier()
+    };
+  }
+
+  // Back to the best tier with a fresh history, e.g. when adaptive quality is switched off
+  public reset() {
+    this.setTier(0);
+    this.upgradeHold = UPGRADE_HOLD;
+    this.timeSinceUpgrade = Infinity;
+  }
+
+  private setTier(index: number) {
+    this.tierIndex = index;
+    this.settleTimer = SETTLE_TIME;
+    this.timeOnTarget = 0;
+    this.windowTime = 0;
+    this.windowFrames = 0;
+  }
+}
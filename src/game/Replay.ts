@@ -0,0 +1,167 @@
+import { PlayerInputEvent } from './Player';
+import { INPUT_ACTIONS, InputAction } from './InputBindings';
+import { hasLevelDefinition } from './LevelDefinitions';
+
+export const REPLAY_VERSION = 5;
+// Version 1 predates input actions: raw keys and buttons only. Version 3 adds analog sticks.
+// Version 4 records the starting arena; older replays were all played on the classic one.
+// Version 5 records the aim assist setting; older replays always had it on.
+const SUPPORTED_REPLAY_VERSIONS = [1, 2, 3, 4, 5];
+
+/**
+ * Everything needed to reproduce a run: the seed plus every input event, stamped with
+ * the simulation tick it was applied on. Events are stored as short tuples with the tick
+ * delta from the previous event to keep files small:
+ *   [dt, 'a', action, 0|1] input action up/down
+ *   [dt, 'k', code, 0|1]  key up/down (version 1)
+ *   [dt, 'l', dx, dy]     mouse look
+ *   [dt, 'm', x, y]       analog movement (version 3)
+ *   [dt, 'r', yaw, pitch] analog look rate (version 3)
+ *   [dt, 'b', button, 0|1] mouse button up/down (version 1)
+ *   [dt, 'w', deltaY]     wheel
+ *   [dt, 'x', 0|1]        aim assist off/on (version 5)
+ */
+export interface ReplayData {
+  version: number;
+  seed: number;
+  arena?: string; // Level id the run started on (version 4)
+  tickRate: number; // Simulation ticks per second
+  totalTicks: number;
+  events: ReplayEventTuple[];
+}
+
+export type ReplayEventTuple =
+  | [number, 'a', InputAction, number]
+  | [number, 'k', string, number]
+  | [number, 'l', number, number]
+  | [number, 'm', number, number]
+  | [number, 'r', number, number]
+  | [number, 'b', number, number]
+  | [number, 'w', number]
+  | [number, 'x', number];
+
+export interface TimedInputEvent {
+  tick: number;
+  event: PlayerInputEvent;
+}
+
+function encodeEvent(tickDelta: number, event: PlayerInputEvent): ReplayEventTuple {
+  switch (event.type) {
+    case 'action': return [tickDelta, 'a', event.action, event.pressed ? 1 : 0];
+    case 'key': return [tickDelta, 'k', event.code, event.pressed ? 1 : 0];
+    case 'look': return [tickDelta, 'l', event.deltaX, event.deltaY];
+    case 'move': return [tickDelta, 'm', event.x, event.y];
+    case 'lookRate': return [tickDelta, 'r', event.yaw, event.pitch];
+    case 'mouseButton': return [tickDelta, 'b', event.button, event.pressed ? 1 : 0];
+    case 'wheel': return [tickDelta, 'w', event.deltaY];
+    case 'aimAssist': return [tickDelta, 'x', event.enabled ? 1 : 0];
+  }
+}
+
+function decodeEvent(tuple: ReplayEventTuple): PlayerInputEvent {
+  switch (tuple[1]) {
+    case 'a': return { type: 'action', action: tuple[2], pressed: tuple[3] === 1 };
+    case 'k': return { type: 'key', code: tuple[2], pressed: tuple[3] === 1 };
+    case 'l': return { type: 'look', deltaX: tuple[2], deltaY: tuple[3] };
+    case 'm': return { type: 'move', x: tuple[2], y: tuple[3] };
+    case 'r': return { type: 'lookRate', yaw: tuple[2], pitch: tuple[3] };
+    case 'b': return { type: 'mouseButton', button: tuple[2], pressed: tuple[3] === 1 };
+    case 'w': return { type: 'wheel', deltaY: tuple[2] };
+    case 'x': return { type: 'aimAssist', enabled: tuple[2] === 1 };
+  }
+}
+
+export class ReplayRecorder {
+  private seed = 0;
+  private arena = '';
+  private tickRate = 60;
+  private events: ReplayEventTuple[] = [];
+  private lastTick = 0;
+
+  public start(seed: number, tickRate: number, arena: string) {
+    this.seed = seed;
+    this.arena = arena;
+    this.tickRate = tickRate;
+    this.events = [];
+    this.lastTick = 0;
+  }
+
+  public record(tick: number, event: PlayerInputEvent) {
+    this.events.push(encodeEvent(tick - this.lastTick, event));
+    this.lastTick = tick;
+  }
+
+  public getReplay(totalTicks: number): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      arena: this.arena,
+      tickRate: this.tickRate,
+      totalTicks,
+      events: this.events.slice()
+    };
+  }
+}
+
+// Expands the delta-encoded events into absolute ticks, in playback order
+export function decodeReplayEvents(replay: ReplayData): TimedInputEvent[] {
+  let tick = 0;
+  return replay.events.map(tuple => {
+    tick += tuple[0];
+    return { tick, event: decodeEvent(tuple) };
+  });
+}
+
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+function isValidTuple(tuple: unknown): tuple is ReplayEventTuple {
+  if (!Array.isArray(tuple) || !Number.isInteger(tuple[0]) || tuple[0] < 0) return false;
+  switch (tuple[1]) {
+    case 'a': return tuple.length === 4 && INPUT_ACTIONS.includes(tuple[2]) && (tuple[3] === 0 || tuple[3] === 1);
+    case 'k': return tuple.length === 4 && typeof tuple[2] === 'string' && (tuple[3] === 0 || tuple[3] === 1);
+    case 'l':
+    case 'r': return tuple.length === 4 && Number.isFinite(tuple[2]) && Number.isFinite(tuple[3]);
+    case 'm':
+      return tuple.length === 4 && Number.isFinite(tuple[2]) && Number.isFinite(tuple[3]) &&
+        Math.abs(tuple[2]) <= 1 && Math.abs(tuple[3]) <= 1;
+    case 'b': return tuple.length === 4 && Number.isInteger(tuple[2]) && (tuple[3] === 0 || tuple[3] === 1);
+    case 'w': return tuple.length === 3 && Number.isFinite(tuple[2]);
+    case 'x': return tuple.length === 3 && (tuple[2] === 0 || tuple[2] === 1);
+    default: return false;
+  }
+}
+
+// Throws if the value is not a replay this version can play
+export function validateReplay(data: unknown): ReplayData {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Replay is not an object');
+  }
+
+  const replay = data as Record<string, unknown>;
+  if (!SUPPORTED_REPLAY_VERSIONS.includes(replay.version as number)) {
+    throw new Error(`Unsupported replay version: ${replay.version}`);
+  }
+  if (!Number.isInteger(replay.seed) || (replay.seed as number) < 0 || (replay.seed as number) > 0xffffffff) {
+    throw new Error('Replay has an invalid seed');
+  }
+  if ((replay.version as number) >= 4 && (typeof replay.arena !== 'string' || !hasLevelDefinition(replay.arena))) {
+    throw new Error(`Replay has an unknown arena: ${replay.arena}`);
+  }
+  if (!Number.isFinite(replay.tickRate) || (replay.tickRate as number) <= 0) {
+    throw new Error('Replay has an invalid tick rate');
+  }
+  if (!Number.isInteger(replay.totalTicks) || (replay.totalTicks as number) < 0) {
+    throw new Error('Replay has an invalid length');
+  }
+  if (!Array.isArray(replay.events) || !replay.events.every(isValidTuple)) {
+    throw new Error('Replay has malformed input events');
+  }
+
+  return replay as unknown as ReplayData;
+}
+
+export function parseReplay(text: string): ReplayData {
+  return validateReplay(JSON.parse(text));
+}
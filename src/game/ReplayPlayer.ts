@@ -0,0 +1,75 @@
+import { GameSimulation, FIXED_TIME_STEP, TICK_RATE } from './GameSimulation';
+import { ReplayData, TimedInputEvent, decodeReplayEvents } from './Replay';
+import { DEFAULT_LEVEL_ID } from './LevelDefinitions';
+
+/**
+ * Re-runs a recorded game by feeding its inputs into a GameSimulation on the ticks they
+ * were originally applied. Headless; ReplayViewer adds rendering and playback controls.
+ * Seeking backwards restarts from the seed, since the simulation can't run in reverse.
+ */
+export class ReplayPlayer {
+  private simulation: GameSimulation;
+  private replay: ReplayData;
+  private events: TimedInputEvent[];
+  private nextEventIndex = 0;
+  private tick = 0;
+
+  constructor(replay: ReplayData, simulation: GameSimulation = new GameSimulation({}, replay.seed)) {
+    if (replay.tickRate !== TICK_RATE) {
+      throw new Error(`Replay was recorded at ${replay.tickRate} ticks/s, expected ${TICK_RATE}`);
+    }
+
+    this.replay = replay;
+    this.events = decodeReplayEvents(replay);
+    this.simulation = simulation;
+    this.restart();
+  }
+
+  public restart() {
+    this.simulation.reset(this.replay.seed);
+    this.simulation.setArena(this.replay.arena ?? DEFAULT_LEVEL_ID);
+    this.simulation.startFirstWave();
+    this.nextEventIndex = 0;
+    this.tick = 0;
+  }
+
+  // Advances up to `ticks` simulation steps; returns how many were run
+  public advance(ticks: number): number {
+    let stepped = 0;
+    while (stepped < ticks && !this.isFinished()) {
+      while (this.nextEventIndex < this.events.length && this.events[this.nextEventIndex].tick === this.tick) {
+        this.simulation.applyInput(this.events[this.nextEventIndex].event);
+        this.nextEventIndex++;
+      }
+      this.simulation.step(FIXED_TIME_STEP);
+      this.tick++;
+      stepped++;
+    }
+    return stepped;
+  }
+
+  // Runs to the end of the recording (or the game over), e.g. to check a submitted score
+  public runToEnd() {
+    this.advance(this.replay.totalTicks - this.tick);
+  }
+
+  public isFinished(): boolean {
+    return this.tick >= this.replay.totalTicks || this.simulation.isGameOver();
+  }
+
+  public getTick(): number {
+    return this.tick;
+  }
+
+  public getTotalTicks(): number {
+    return this.replay.totalTicks;
+  }
+
+  public getSimulation(): GameSimulation {
+    return this.simulation;
+  }
+
+  public cleanup() {
+    this.simulation.cleanup();
+  }
+}
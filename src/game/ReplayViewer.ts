@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import { FIXED_TIME_STEP } from './GameSimulation';
+import { ReplayData } from './Replay';
+import { ReplayPlayer } from './ReplayPlayer';
+import { createRenderer, setupSceneLighting } from './SceneSetup';
+
+export interface ReplayViewerCallbacks {
+  onProgress: (tick: number, totalTicks: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+}
+
+const MAX_FRAME_TIME = 0.25; // Same clamp as Game
+const SEEK_TICKS_PER_FRAME = 600; // Catch-up work per frame while scrubbing, keeps the page responsive
+
+/**
+ * Browser front-end for ReplayPlayer. The camera is the simulated player's, so it follows
+ * the recorded yaw/pitch exactly as it did live; no DOM input reaches the simulation.
+ */
+export class ReplayViewer {
+  private player: ReplayPlayer;
+  private camera: THREE.PerspectiveCamera;
+  private scene: THREE.Scene;
+  private renderer: THREE.WebGLRenderer;
+  private callbacks: ReplayViewerCallbacks;
+  private animationId: number | null = null;
+  private playing = false;
+  private speed = 1;
+  private seekTarget: number | null = null;
+  private accumulator = 0;
+  private lastFrameTime: number | null = null;
+
+  constructor(canvas: HTMLCanvasElement, replay: ReplayData, callbacks: ReplayViewerCallbacks) {
+    this.callbacks = callbacks;
+    this.player = new ReplayPlayer(replay);
+
+    const simulation = this.player.getSimulation();
+    this.scene = simulation.getScene();
+    this.camera = simulation.getCamera();
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
+
+    this.renderer = createRenderer(canvas);
+    setupSceneLighting(this.scene);
+
+    window.addEventListener('resize', this.onWindowResize);
+    this.animationId = requestAnimationFrame(this.loop);
+  }
+
+  public play() {
+    if (this.player.isFinished()) {
+      this.seek(0);
+    }
+    this.setPlaying(true);
+  }
+
+  public pause() {
+    this.setPlaying(false);
+  }
+
+  public setSpeed(speed: number) {
+    this.speed = speed;
+  }
+
+  // Jump to a tick; the simulation catches up over the next few frames
+  public seek(tick: number) {
+    const target = Math.max(0, Math.min(this.player.getTotalTicks(), Math.round(tick)));
+    if (target < this.player.getTick()) {
+      this.player.restart();
+    }
+    this.seekTarget = target;
+    this.accumulator = 0;
+  }
+
+  private setPlaying(playing: boolean) {
+    this.playing = playing;
+    this.lastFrameTime = null;
+    this.accumulator = 0;
+    this.callbacks.onPlayingChange(playing);
+  }
+
+  private loop = (timestamp: number) => {
+    this.animationId = requestAnimationFrame(this.loop);
+
+    const frameTime = this.lastFrameTime === null ? 0 : Math.min((timestamp - this.lastFrameTime) / 1000, MAX_FRAME_TIME);
+    this.lastFrameTime = timestamp;
+
+    if (this.seekTarget !== null) {
+      this.player.advance(Math.min(SEEK_TICKS_PER_FRAME, this.seekTarget - this.player.getTick()));
+      if (this.player.getTick() >= this.seekTarget || this.player.isFinished()) {
+        this.seekTarget = null;
+      }
+    } else if (this.playing) {
+      this.accumulator += frameTime * this.speed;
+      const ticks = Math.floor(this.accumulator / FIXED_TIME_STEP);
+      this.accumulator -= ticks * FIXED_TIME_STEP;
+      this.player.advance(ticks);
+
+      if (this.player.isFinished()) {
+        this.setPlaying(false);
+      }
+    }
+
+    const alpha = this.playing ? this.accumulator / FIXED_TIME_STEP : 1;
+    this.player.getSimulation().interpolate(alpha);
+    this.callbacks.onProgress(this.player.getTick(), this.player.getTotalTicks());
+    this.renderer.render(this.scene, this.camera);
+  };
+
+  private onWindowResize = () => {
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+  };
+
+  public cleanup() {
+    if (this.animationId) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+    window.removeEventListener('resize', this.onWindowResize);
+    this.player.cleanup();
+    this.renderer.dispose();
+  }
+}
@@ -0,0 +1,41 @@
+import * as THREE from 'three';
+
+// Shared by everything that renders a GameSimulation (Game, ReplayViewer)
+
+export function createRenderer(canvas: HTMLCanvasElement): THREE.WebGLRenderer {
+  const renderer = new THREE.WebGLRenderer({ canvas, antialias: true });
+  renderer.setSize(window.innerWidth, window.innerHeight);
+  renderer.setClearColor(0x000011);
+  renderer.shadowMap.enabled = true;
+  renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+  return renderer;
+}
+
+// Returns the shadow-casting sun light so its shadow quality can be changed later
+export function setupSceneLighting(scene: THREE.Scene): THREE.DirectionalLight {
+  // The level tints the fog and brings its own ambient and point lights (see LIGHTING_PRESETS)
+  if (!scene.fog) {
+    scene.fog = new THREE.Fog(0x000011, 10, 100);
+  }
+
+  // Directional light
+  const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+  directionalLight.position.set(10, 20, 10);
+  directionalLight.castShadow = true;
+  directionalLight.shadow.mapSize.width = 2048;
+  directionalLight.shadow.mapSize.height = 2048;
+  scene.add(directionalLight);
+
+  return directionalLight;
+}
+
+// Shadow map resolution for the sun; 0 turns its shadows off
+export function applyShadowMapSize(light: THREE.DirectionalLight, size: number) {
+  light.castShadow = size > 0;
+  if (size > 0 && light.shadow.mapSize.width !== size) {
+    light.shadow.mapSize.set(size, size);
+    // The renderer only allocates a shadow map when there is none, so drop the old one
+    light.shadow.map?.dispose();
+    light.shadow.map = null;
+  }
+}
@@ -0,0 +1,87 @@
+import { TICK_RATE } from './GameSimulation';
+import { ReplayData, validateReplay } from './Replay';
+import { ReplayPlayer } from './ReplayPlayer';
+
+// Longest run the verifier will re-simulate: ten minutes of play, which bounds the CPU a single
+// verify-pending-scores call spends. Longer runs are held for review rather than flagged
+export const MAX_VERIFIABLE_TICKS = TICK_RATE * 60 * 10;
+
+// Where a leaderboard entry ends up: 'too_long' entries weren't re-simulated, so they're neither
+// trusted nor suspected, just kept off the leaderboard until someone looks at them
+export type VerificationStatus = 'verified' | 'flagged' | 'too_long';
+
+export interface ScoreClaim {
+  seed: number;
+  survivalTime: number; // whole seconds
+  waveReached: number;
+  replay: unknown; // Untrusted, validated before use
+}
+
+export interface ScoreVerification {
+  verified: boolean;
+  reason: string | null; // Why the claim was rejected
+  survivalTime: number; // What the re-simulation produced
+  waveReached: number;
+  tooLong?: boolean; // Over MAX_VERIFIABLE_TICKS, so never re-simulated
+}
+
+export function calculateScore(survivalTime: number, waveReached: number): number {
+  return Math.floor(survivalTime * 10 + waveReached * 500);
+}
+
+export function getVerificationStatus(result: ScoreVerification): VerificationStatus {
+  if (result.verified) return 'verified';
+  return result.tooLong ? 'too_long' : 'flagged';
+}
+
+/**
+ * Re-runs a submitted replay headlessly and checks that it ends in a game over with the
+ * claimed survival time and wave. Used by the verify-pending-scores edge function.
+ */
+export function verifyScore(claim: ScoreClaim): ScoreVerification {
+  const rejected = (reason: string, survivalTime = 0, waveReached = 0): ScoreVerification =>
+    ({ verified: false, reason, survivalTime, waveReached });
+
+  let replay: ReplayData;
+  try {
+    replay = validateReplay(claim.replay);
+  } catch (error) {
+    return rejected(error instanceof Error ? error.message : 'Invalid replay');
+  }
+
+  if (replay.seed !== claim.seed) {
+    return rejected('Replay seed does not match submitted seed');
+  }
+  if (replay.totalTicks > MAX_VERIFIABLE_TICKS) {
+    return { ...rejected('Replay is too long to verify'), tooLong: true };
+  }
+
+  let player: ReplayPlayer;
+  try {
+    player = new ReplayPlayer(replay);
+  } catch (error) {
+    return rejected(error instanceof Error ? error.message : 'Replay could not be played');
+  }
+
+  try {
+    player.runToEnd();
+    const simulation = player.getSimulation();
+    const survivalTime = simulation.getSurvivalTime();
+    const waveReached = simulation.getCurrentWave();
+
+    if (!simulation.isGameOver() || player.getTick() !== replay.totalTicks) {
+      return rejected('Replay does not end in a game over', survivalTime, waveReached);
+    }
+    if (survivalTime !== claim.survivalTime || waveReached !== claim.waveReached) {
+      return rejected(
+        `Claimed ${claim.survivalTime}s / wave ${claim.waveReached}, replay gives ${survivalTime}s / wave ${waveReached}`,
+        survivalTime,
+        waveReached
+      );
+    }
+
+    return { verified: true, reason: null, survivalTime, waveReached };
+  } finally {
+    player.cleanup();
+  }
+}
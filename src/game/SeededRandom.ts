@@ -0,0 +1,74 @@
+/**
+ * Small seedable PRNG (mulberry32). Every gameplay random roll goes through one of these
+ * so that a run can be reproduced exactly from its seed.
+ */
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // A fresh seed for a new run
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  // Same seed for everyone on a given (UTC) day, for daily challenges
+  static dailySeed(date: Date = new Date()): number {
+    return SeededRandom.seedFromString(date.toISOString().slice(0, 10));
+  }
+
+  // FNV-1a hash, so seeds can be shared as text
+  static seedFromString(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public setSeed(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  // Float in [0, 1), drop-in for Math.random()
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Float in [min, max)
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [0, max)
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  // In-place Fisher-Yates shuffle
+  public shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
@@ -0,0 +1,172 @@
+export type ShadowQuality = 'off' | 'low' | 'medium' | 'high';
+
+export const SHADOW_QUALITIES: ShadowQuality[] = ['off', 'low', 'medium', 'high'];
+
+// Shadow map resolution per quality level (0 = no shadows)
+export const SHADOW_MAP_SIZES: Record<ShadowQuality, number> = {
+  off: 0,
+  low: 512,
+  medium: 1024,
+  high: 2048
+};
+
+export interface SettingsValues {
+  lookSensitivity: number; // Multiplier on mouse, touch and gamepad look speed
+  invertY: boolean;
+  aimAssist: boolean; // Gamepad aiming eases towards the nearest enemy
+  fov: number; // Vertical field of view in degrees
+  shadowQuality: ShadowQuality;
+  particleDensity: number; // Fraction of the particles each effect spawns
+  adaptiveQuality: boolean; // Let QualityGovernor lower detail to hold the frame rate
+  showPerformanceOverlay: boolean;
+  masterVolume: number; // 0-1
+  musicVolume: number;
+  sfxVolume: number;
+  cameraShake: number; // 0 turns screen shake off entirely
+}
+
+type NumericSetting = {
+  [K in keyof SettingsValues]: SettingsValues[K] extends number ? K : never
+}[keyof SettingsValues];
+
+type BooleanSetting = {
+  [K in keyof SettingsValues]: SettingsValues[K] extends boolean ? K : never
+}[keyof SettingsValues];
+
+const BOOLEAN_SETTINGS: BooleanSetting[] = ['invertY', 'aimAssist', 'adaptiveQuality', 'showPerformanceOverlay'];
+
+export const DEFAULT_SETTINGS: SettingsValues = {
+  lookSensitivity: 1,
+  invertY: false,
+  aimAssist: true,
+  fov: 75,
+  shadowQuality: 'high',
+  particleDensity: 1,
+  adaptiveQuality: true,
+  showPerformanceOverlay: false,
+  masterVolume: 0.7,
+  musicVolume: 0.3,
+  sfxVolume: 0.6,
+  cameraShake: 1
+};
+
+// Allowed [min, max] for each numeric setting; out-of-range values are clamped
+export const SETTING_RANGES: Record<NumericSetting, [number, number]> = {
+  lookSensitivity: [0.2, 3],
+  fov: [60, 100],
+  particleDensity: [0.25, 1],
+  masterVolume: [0, 1],
+  musicVolume: [0, 1],
+  sfxVolume: [0, 1],
+  cameraShake: [0, 1]
+};
+
+const STORAGE_KEY = 'galacticWarsSettings';
+
+type SettingsListener = (settings: SettingsValues) => void;
+
+/**
+ * Player preferences, saved to localStorage on every change. The running game subscribes
+ * and applies changes as they happen, so the settings screen needs no restart.
+ */
+export class Settings {
+  private static instance: Settings;
+  private values: SettingsValues = { ...DEFAULT_SETTINGS };
+  private listeners = new Set<SettingsListener>();
+  private storage: Storage | null;
+
+  // Pass null for storage to keep settings in memory only (Node, tests)
+  constructor(storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null) {
+    this.storage = storage;
+    this.load();
+  }
+
+  public static getInstance(): Settings {
+    if (!Settings.instance) {
+      Settings.instance = new Settings();
+    }
+    return Settings.instance;
+  }
+
+  public get(): SettingsValues {
+    return { ...this.values };
+  }
+
+  public update(changes: Partial<SettingsValues>) {
+    this.values = this.sanitize({ ...this.values, ...changes });
+    this.save();
+    this.notify();
+  }
+
+  public resetToDefaults() {
+    this.values = { ...DEFAULT_SETTINGS };
+    this.save();
+    this.notify();
+  }
+
+  // Calls the listener now and after every change; returns the unsubscribe function
+  public subscribe(listener: SettingsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.get());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const values = this.get();
+    this.listeners.forEach(listener => {
+      try {
+        listener(values);
+      } catch (error) {
+        console.warn('Settings listener error:', error);
+      }
+    });
+  }
+
+  // Keeps known, well-typed values in range; anything else falls back to its default
+  private sanitize(candidate: Partial<Record<keyof SettingsValues, unknown>>): SettingsValues {
+    const values = { ...DEFAULT_SETTINGS };
+
+    (Object.keys(SETTING_RANGES) as NumericSetting[]).forEach(key => {
+      const value = candidate[key];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        const [min, max] = SETTING_RANGES[key];
+        values[key] = Math.min(max, Math.max(min, value));
+      }
+    });
+
+    BOOLEAN_SETTINGS.forEach(key => {
+      const value = candidate[key];
+      if (typeof value === 'boolean') {
+        values[key] = value;
+      }
+    });
+    if (SHADOW_QUALITIES.includes(candidate.shadowQuality as ShadowQuality)) {
+      values.shadowQuality = candidate.shadowQuality as ShadowQuality;
+    }
+
+    return values;
+  }
+
+  private load() {
+    try {
+      const stored = this.storage?.getItem(STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        this.values = parsed && typeof parsed === 'object' ? this.sanitize(parsed) : { ...DEFAULT_SETTINGS };
+      }
+    } catch (error) {
+      console.warn('Failed to load settings:', error);
+      this.values = { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  private save() {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.values));
+    } catch (error) {
+      console.warn('Failed to save settings:', error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { OFFLINE_SAMPLE_RATE, SOUND_IDS, SoundId, getSoundDuration, synthesizeSound } from './SoundSynth';
+
+// Duration (seconds), peak and RMS of each effect at the offline sample rate. A recipe change
+// that moves these is audible, so update them on purpose, not to make the test pass.
+const EXPECTED: Record<SoundId, [number, number, number]> = {
+  lightsaber: [0.45, 0.5541, 0.1527],
+  blaster: [0.18, 0.408, 0.0974],
+  shotgun: [0.55, 0.6564, 0.0881],
+  telekinesis: [0.6, 0.2985, 0.074],
+  throw: [0.5, 0.7207, 0.1733],
+  reload: [0.6, 0.7114, 0.0576],
+  jump: [0.25, 0.3475, 0.0988],
+  landing: [0.3, 0.5967, 0.1301],
+  hit: [0.22, 0.4544, 0.0632],
+  pickup: [0.35, 0.4432, 0.129],
+  enemyBolt: [0.25, 0.39, 0.0819],
+  enemyLaser: [0.3, 0.3332, 0.0964],
+  laserCharge: [1.2, 0.392, 0.0805],
+  robotDeath: [0.7, 0.5948, 0.1509],
+  droneDeath: [0.6, 0.3593, 0.0795],
+  explosion: [1.2, 0.7619, 0.0812],
+  bossSlam: [1, 0.6442, 0.0989],
+  bossSweep: [2.5, 0.4224, 0.1534],
+  bossSummon: [1, 0.4954, 0.0936],
+  footstep: [0.18, 0.4219, 0.0787],
+  droneHum: [0.5, 0.2066, 0.0761]
+};
+
+const measure = (samples: Float32Array) => {
+  let peak = 0;
+  let sumSquares = 0;
+  for (const sample of samples) {
+    peak = Math.max(peak, Math.abs(sample));
+    sumSquares += sample * sample;
+  }
+  return { peak, rms: Math.sqrt(sumSquares / samples.length) };
+};
+
+describe('synthesizeSound', () => {
+  it('covers every sound effect', () => {
+    expect([...SOUND_IDS].sort()).toEqual(Object.keys(EXPECTED).sort());
+  });
+
+  for (const id of SOUND_IDS) {
+    it(`renders ${id} at its fixed length and level`, () => {
+      const [duration, peak, rms] = EXPECTED[id];
+      const samples = synthesizeSound(id);
+      const measured = measure(samples);
+
+      expect(getSoundDuration(id)).toBeCloseTo(duration, 6);
+      expect(samples.length).toBe(Math.round(duration * OFFLINE_SAMPLE_RATE));
+      expect(measured.peak).toBeCloseTo(peak, 3);
+      expect(measured.rms).toBeCloseTo(rms, 3);
+    });
+  }
+
+  it('renders the same samples every time', () => {
+    expect(synthesizeSound('explosion')).toEqual(synthesizeSound('explosion'));
+  });
+
+  it('shortens higher-pitched renders', () => {
+    expect(synthesizeSound('footstep', OFFLINE_SAMPLE_RATE, 2).length).toBe(Math.round(0.18 * OFFLINE_SAMPLE_RATE / 2));
+  });
+});
@@ -0,0 +1,528 @@
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * Procedural sound effects rendered straight to samples. Everything here is plain JS with
+ * seeded noise, so the same sound renders to the same samples in the browser and in Node.
+ */
+
+export type SoundId =
+  | 'lightsaber'
+  | 'blaster'
+  | 'shotgun'
+  | 'telekinesis'
+  | 'throw'
+  | 'reload'
+  | 'jump'
+  | 'landing'
+  | 'hit'
+  | 'pickup'
+  | 'enemyBolt'
+  | 'enemyLaser'
+  | 'laserCharge'
+  | 'robotDeath'
+  | 'droneDeath'
+  | 'explosion'
+  | 'bossSlam'
+  | 'bossSweep'
+  | 'bossSummon'
+  | 'footstep'
+  | 'droneHum';
+
+export const OFFLINE_SAMPLE_RATE = 22050;
+
+// Phase-accumulating oscillator, so frequency sweeps stay click-free
+class Oscillator {
+  private phase = 0;
+  private sampleRate: number;
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  public step(frequency: number): number {
+    this.phase = (this.phase + frequency / this.sampleRate) % 1;
+    return this.phase;
+  }
+
+  public sine(frequency: number): number {
+    return Math.sin(2 * Math.PI * this.step(frequency));
+  }
+
+  public square(frequency: number): number {
+    return this.step(frequency) < 0.5 ? 1 : -1;
+  }
+
+  public saw(frequency: number): number {
+    return this.step(frequency) * 2 - 1;
+  }
+
+  public triangle(frequency: number): number {
+    const phase = this.step(frequency);
+    return phase < 0.5 ? phase * 4 - 1 : 3 - phase * 4;
+  }
+}
+
+// One-pole lowpass; cutoff can change per sample
+class Lowpass {
+  private value = 0;
+  private sampleRate: number;
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  public process(input: number, cutoff: number): number {
+    const alpha = 1 - Math.exp((-2 * Math.PI * cutoff) / this.sampleRate);
+    this.value += alpha * (input - this.value);
+    return this.value;
+  }
+}
+
+// Exponential glide from one value to another as progress goes 0 -> 1
+function glide(from: number, to: number, progress: number): number {
+  return from * Math.pow(to / from, Math.min(1, Math.max(0, progress)));
+}
+
+// Short fade in/out so one-shots never start or end on a click
+function edges(time: number, duration: number, fade = 0.005): number {
+  return Math.min(1, time / fade, (duration - time) / fade);
+}
+
+interface SoundRecipe {
+  duration: number; // seconds at pitch 1
+  gain: number;
+  loop?: boolean; // Rendered without fade edges so it repeats seamlessly
+  render: (tools: RecipeTools) => number;
+}
+
+interface RecipeTools {
+  time: number; // seconds into the sound
+  progress: number; // 0 -> 1 over the sound
+  osc: Oscillator[];
+  filter: Lowpass[];
+  noise: () => number; // Seeded white noise in [-1, 1)
+}
+
+const RECIPES: Record<SoundId, SoundRecipe> = {
+  lightsaber: {
+    duration: 0.45,
+    gain: 0.5,
+    render: ({ progress, osc, filter, noise }) => {
+      // Buzzing hum that dips in pitch through the swing, plus an airy whoosh
+      const frequency = glide(140, 80, progress);
+      const hum = osc[0].saw(frequency) * 0.5 + osc[1].sine(frequency * 2.01) * 0.4;
+      const whoosh = filter[0].process(noise(), glide(3000, 600, progress)) * 1.5;
+      return (filter[1].process(hum, 1200) + whoosh * 0.4) * Math.sin(Math.PI * progress);
+    }
+  },
+  blaster: {
+    duration: 0.18,
+    gain: 0.45,
+    render: ({ time, progress, osc }) => {
+      const frequency = glide(1600, 280, progress);
+      const zap = osc[0].square(frequency) * 0.4 + osc[1].sine(frequency * 0.5) * 0.6;
+      return zap * Math.exp(-time * 18);
+    }
+  },
+  shotgun: {
+    duration: 0.55,
+    gain: 0.4,
+    render: ({ time, progress, osc, filter, noise }) => {
+      // Noise blast over a low thump, with a darker tail
+      const blast = filter[0].process(noise(), glide(5000, 400, progress)) * Math.exp(-time * 14);
+      const thump = osc[0].sine(glide(110, 40, progress * 3)) * Math.exp(-time * 10);
+      return blast * 1.4 + thump * 0.8;
+    }
+  },
+  telekinesis: {
+    duration: 0.6,
+    gain: 0.35,
+    render: ({ time, progress, osc }) => {
+      const frequency = glide(280, 620, progress);
+      const tremolo = 0.6 + 0.4 * Math.sin(2 * Math.PI * 12 * time);
+      const tone = osc[0].sine(frequency) + osc[1].sine(frequency * 1.012) * 0.8;
+      return tone * tremolo * Math.sin(Math.PI * progress) * 0.5;
+    }
+  },
+  throw: {
+    duration: 0.5,
+    gain: 0.35,
+    render: ({ progress, osc, filter, noise }) => {
+      const wind = filter[0].process(noise(), glide(400, 2500, Math.sin(Math.PI * progress))) * 2;
+      const tone = osc[0].sine(glide(200, 50, progress)) * 0.5;
+      return (wind + tone) * Math.sin(Math.PI * progress);
+    }
+  },
+  reload: {
+    duration: 0.6,
+    gain: 0.4,
+    render: ({ time, osc, filter, noise }) => {
+      // Three mechanical clicks with a short servo whir between the first two
+      let sound = 0;
+      for (const clickTime of [0, 0.28, 0.5]) {
+        const sinceClick = time - clickTime;
+        if (sinceClick >= 0) {
+          sound += filter[0].process(noise(), 4000) * Math.exp(-sinceClick * 120) * 2;
+          sound += osc[0].sine(1800) * Math.exp(-sinceClick * 80) * 0.3;
+        }
+      }
+      if (time > 0.08 && time < 0.26) {
+        sound += osc[1].triangle(300 + 60 * Math.sin(2 * Math.PI * 25 * time)) * 0.25;
+      }
+      return sound;
+    }
+  },
+  jump: {
+    duration: 0.25,
+    gain: 0.3,
+    render: ({ time, progress, osc, filter, noise }) => {
+      const tone = osc[0].sine(glide(120, 380, progress));
+      const air = filter[0].process(noise(), 1500) * 0.6;
+      return (tone + air) * Math.exp(-time * 9);
+    }
+  },
+  landing: {
+    duration: 0.3,
+    gain: 0.5,
+    render: ({ time, progress, osc, filter, noise }) => {
+      const thud = osc[0].sine(glide(90, 40, progress)) * Math.exp(-time * 12);
+      const grit = filter[0].process(noise(), 900) * Math.exp(-time * 25) * 1.5;
+      return thud + grit;
+    }
+  },
+  hit: {
+    duration: 0.22,
+    gain: 0.45,
+    render: ({ time, osc, noise }) => {
+      // Inharmonic partials read as metal
+      const ring = osc[0].sine(820) * 0.5 + osc[1].sine(1230) * 0.35 + osc[2].sine(1760) * 0.25;
+      const click = noise() * Math.exp(-time * 200);
+      return ring * Math.exp(-time * 22) + click * 0.6;
+    }
+  },
+  pickup: {
+    duration: 0.35,
+    gain: 0.35,
+    render: ({ time, osc }) => {
+      // Quick rising two-note chime
+      const frequency = time < 0.1 ? 660 : 990;
+      const noteTime = time < 0.1 ? time : time - 0.1;
+      return (osc[0].sine(frequency) + osc[1].triangle(frequency * 2) * 0.3) * Math.exp(-noteTime * 10);
+    }
+  },
+  enemyBolt: {
+    duration: 0.25,
+    gain: 0.35,
+    render: ({ time, progress, osc, filter, noise }) => {
+      const tone = osc[0].triangle(glide(700, 240, progress));
+      const fizz = filter[0].process(noise(), 2500) * 0.4;
+      return (tone + fizz) * Math.exp(-time * 12);
+    }
+  },
+  enemyLaser: {
+    duration: 0.3,
+    gain: 0.4,
+    render: ({ time, progress, osc, filter }) => {
+      const frequency = glide(2400, 900, progress);
+      const beam = filter[0].process(osc[0].saw(frequency), 3500) + osc[1].sine(frequency * 0.5) * 0.5;
+      return beam * Math.exp(-time * 9);
+    }
+  },
+  laserCharge: {
+    duration: 1.2,
+    gain: 0.3,
+    render: ({ time, progress, osc }) => {
+      // Rising whine with a tremolo that speeds up towards the shot
+      const tremolo = 0.5 + 0.5 * Math.sin(2 * Math.PI * glide(4, 30, progress) * time);
+      const tone = osc[0].sine(glide(200, 1200, progress)) + osc[1].sine(glide(300, 1800, progress)) * 0.4;
+      return tone * tremolo * progress;
+    }
+  },
+  robotDeath: {
+    duration: 0.7,
+    gain: 0.45,
+    render: ({ progress, osc, filter, noise }) => {
+      // Power-down: a stepped square wave falling away under electrical crackle
+      const stepped = Math.floor(glide(420, 50, progress) / 20) * 20;
+      const tone = filter[0].process(osc[0].square(stepped), 2000) * 0.6;
+      const crackle = (noise() > 0.9 ? 1 : 0) * noise() * 0.8;
+      return (tone + crackle) * (1 - progress);
+    }
+  },
+  droneDeath: {
+    duration: 0.6,
+    gain: 0.4,
+    render: ({ progress, osc, filter, noise }) => {
+      const whine = osc[0].saw(glide(900, 140, progress)) * 0.5;
+      const rattle = filter[0].process(noise(), 1200) * 0.8;
+      return (whine + rattle) * (1 - progress);
+    }
+  },
+  explosion: {
+    duration: 1.2,
+    gain: 0.35,
+    render: ({ time, progress, osc, filter, noise }) => {
+      const rumble = filter[1].process(filter[0].process(noise(), glide(3000, 150, progress)), 800) * 3;
+      const boom = osc[0].sine(glide(70, 28, progress)) * Math.exp(-time * 4);
+      return (rumble + boom) * Math.exp(-time * 3.5);
+    }
+  },
+  bossSlam: {
+    duration: 1.0,
+    gain: 0.3,
+    render: ({ time, progress, osc, filter, noise }) => {
+      const impact = osc[0].sine(glide(75, 22, progress * 2)) * Math.exp(-time * 3);
+      const debris = filter[0].process(noise(), glide(1800, 200, progress)) * Math.exp(-time * 6) * 2;
+      return impact + debris;
+    }
+  },
+  bossSweep: {
+    duration: 2.5,
+    gain: 0.45,
+    render: ({ time, osc, filter }) => {
+      // Sustained buzzing beam with a slow vibrato
+      const vibrato = 1 + 0.03 * Math.sin(2 * Math.PI * 6 * time);
+      const beam = osc[0].saw(110 * vibrato) * 0.5 + osc[1].saw(221 * vibrato) * 0.35 + osc[2].sine(880 * vibrato) * 0.2;
+      return filter[0].process(beam, 2500) * Math.min(1, time * 8, (2.5 - time) * 4);
+    }
+  },
+  bossSummon: {
+    duration: 1.0,
+    gain: 0.4,
+    render: ({ time, progress, osc }) => {
+      // Three rising blips over an eerie shimmer
+      const note = [330, 440, 660][Math.min(2, Math.floor(time / 0.2))];
+      const blip = time < 0.6 ? osc[0].triangle(note) * Math.exp(-(time % 0.2) * 15) : 0;
+      const shimmer = osc[1].sine(glide(880, 1760, progress)) * 0.3 * Math.sin(Math.PI * progress);
+      return blip + shimmer;
+    }
+  },
+  footstep: {
+    duration: 0.18,
+    gain: 0.4,
+    render: ({ time, progress, osc, filter, noise }) => {
+      // Dull metal foot on the floor: a low knock with a short clank on top
+      const knock = osc[0].sine(glide(130, 55, progress)) * Math.exp(-time * 30);
+      const clank = osc[1].sine(540) * Math.exp(-time * 45) * 0.25;
+      const scuff = filter[0].process(noise(), 1500) * Math.exp(-time * 50);
+      return knock + clank + scuff;
+    }
+  },
+  droneHum: {
+    duration: 0.5,
+    gain: 0.25,
+    loop: true,
+    render: ({ time, osc }) => {
+      // Every partial and the blade flutter fit a whole number of cycles into the loop
+      const flutter = 0.7 + 0.3 * Math.sin(2 * Math.PI * 40 * time);
+      const motor = osc[0].triangle(160) * 0.5 + osc[1].sine(320) * 0.3 + osc[2].sine(80) * 0.3;
+      return motor * flutter;
+    }
+  }
+};
+
+export const SOUND_IDS = Object.keys(RECIPES) as SoundId[];
+
+// Seeds the noise from the sound's name so each sound is identical on every render
+function seedFor(id: string): number {
+  return SeededRandom.seedFromString(`sfx:${id}`);
+}
+
+export function getSoundDuration(id: SoundId, pitch = 1): number {
+  return RECIPES[id].duration / pitch;
+}
+
+/**
+ * Renders one sound effect to mono samples. Pitch speeds the whole sound up (or slows it
+ * down), like playing a tape faster, so higher pitches are also shorter.
+ */
+export function synthesizeSound(id: SoundId, sampleRate = OFFLINE_SAMPLE_RATE, pitch = 1): Float32Array {
+  const recipe = RECIPES[id];
+  const renderRate = sampleRate / pitch;
+  const length = Math.max(1, Math.round(recipe.duration * renderRate));
+  const samples = new Float32Array(length);
+  const random = new SeededRandom(seedFor(id));
+  const tools: RecipeTools = {
+    time: 0,
+    progress: 0,
+    osc: [new Oscillator(renderRate), new Oscillator(renderRate), new Oscillator(renderRate)],
+    filter: [new Lowpass(renderRate), new Lowpass(renderRate)],
+    noise: () => random.next() * 2 - 1
+  };
+
+  for (let i = 0; i < length; i++) {
+    const time = i / renderRate;
+    tools.time = time;
+    tools.progress = time / recipe.duration;
+    const value = recipe.render(tools) * recipe.gain * (recipe.loop ? 1 : edges(time, recipe.duration));
+    samples[i] = Math.max(-1, Math.min(1, value));
+  }
+  return samples;
+}
+
+export type MusicStem = 'calm' | 'pulse' | 'drums' | 'lead' | 'danger';
+
+export const MUSIC_STEMS: MusicStem[] = ['calm', 'pulse', 'drums', 'lead', 'danger'];
+
+const MUSIC_BPM = 112;
+const MUSIC_BARS = 4;
+const STEPS_PER_BAR = 16; // Sixteenth notes
+const BASS_NOTES = [55, 55, 65.41, 49]; // A1 A1 C2 G1, one per bar
+const PAD_CHORDS = [
+  [220, 261.63, 329.63],
+  [220, 261.63, 329.63],
+  [261.63, 329.63, 392],
+  [196, 246.94, 293.66]
+];
+
+// Drum patterns, one character per sixteenth: x = hit
+const KICK_PATTERN = 'x.....x.x.....x.';
+const SNARE_PATTERN = '....x.......x...';
+const HAT_PATTERN = '..x...x...x...x.';
+
+// The lead arpeggio is picked once from a seeded walk over each bar's chord tones
+const LEAD_STEPS: (number | null)[] = (() => {
+  const random = new SeededRandom(seedFor('music:lead'));
+  const steps: (number | null)[] = [];
+  let tone = 0;
+  for (let step = 0; step < MUSIC_BARS * STEPS_PER_BAR; step++) {
+    const chord = PAD_CHORDS[Math.floor(step / STEPS_PER_BAR)];
+    if (step % 2 === 1 && random.chance(0.4)) {
+      steps.push(null); // Let the previous note ring
+      continue;
+    }
+    tone = Math.max(0, Math.min(chord.length * 2 - 1, tone + random.int(3) - 1));
+    steps.push(chord[tone % chord.length] * (tone >= chord.length ? 4 : 2));
+  }
+  return steps;
+})();
+
+interface StemTools extends RecipeTools {
+  bar: number;
+  step: number; // Sixteenth within the bar
+  sinceStep: number; // seconds since the current sixteenth started
+  sinceBeat: number; // seconds since the current beat started
+  stepLength: number; // seconds
+}
+
+const STEMS: Record<MusicStem, (tools: StemTools) => number> = {
+  // Between waves: a soft, slow pad with a bell on each bar
+  calm: ({ time, bar, progress, osc, filter }) => {
+    const chord = PAD_CHORDS[bar];
+    const pad = (osc[0].sine(chord[0]) + osc[1].sine(chord[1]) * 0.8 + osc[2].triangle(chord[2] / 2) * 0.6) / 2.4;
+    const sinceBar = (progress * MUSIC_BARS) % 1;
+    const bell = Math.sin(2 * Math.PI * chord[2] * 2 * time) * Math.exp(-sinceBar * 8) * 0.3;
+    return (filter[0].process(pad, 900) * 0.5 + bell) * 0.6;
+  },
+  // The core of every wave: eighth-note bass under a pad whose filter breathes once per bar
+  pulse: ({ time, bar, sinceBeat, osc, filter }) => {
+    const beat = 60 / MUSIC_BPM;
+    const eighth = sinceBeat % (beat / 2);
+    const bass = osc[0].saw(BASS_NOTES[bar]) * Math.exp(-eighth * 10) * 0.35;
+    const chord = PAD_CHORDS[bar];
+    const padRaw = (osc[1].saw(chord[0]) + osc[2].saw(chord[1])) / 2;
+    const barLength = beat * 4;
+    const cutoff = 500 + 400 * Math.sin((2 * Math.PI * time) / barLength);
+    return bass + filter[0].process(padRaw, cutoff) * 0.3;
+  },
+  drums: ({ step, sinceStep, osc, filter, noise }) => {
+    const kick = KICK_PATTERN[step] === 'x' ? osc[0].sine(glide(120, 45, sinceStep * 12)) * Math.exp(-sinceStep * 18) : 0;
+    const snareNoise = noise();
+    const snare = SNARE_PATTERN[step] === 'x' ? filter[0].process(snareNoise, 4000) * Math.exp(-sinceStep * 22) * 1.2 : 0;
+    // Noise through (1 - lowpass) is a cheap highpass
+    const hat = HAT_PATTERN[step] === 'x' ? (snareNoise - filter[1].process(snareNoise, 6000)) * Math.exp(-sinceStep * 60) * 0.5 : 0;
+    return (kick * 0.6 + snare * 0.35 + hat) * 0.6;
+  },
+  // High threat: a plucky sixteenth-note arpeggio
+  lead: ({ bar, step, sinceStep, stepLength, osc, filter }) => {
+    // Bars always start on a note, so walking back over held steps always finds one
+    let index = bar * STEPS_PER_BAR + step;
+    while (LEAD_STEPS[index] === null) index--;
+    const sinceNote = sinceStep + (bar * STEPS_PER_BAR + step - index) * stepLength;
+    const pluck = osc[0].square(LEAD_STEPS[index] as number) * Math.exp(-sinceNote * 14);
+    return filter[0].process(pluck, glide(4000, 800, sinceNote * 8)) * 0.25;
+  },
+  // Low health: a heartbeat over a dissonant low drone
+  danger: ({ time, sinceBeat, osc, filter }) => {
+    const lub = Math.exp(-sinceBeat * 25);
+    const dub = sinceBeat > 0.18 ? Math.exp(-(sinceBeat - 0.18) * 25) * 0.7 : 0;
+    const heartbeat = osc[0].sine(50) * (lub + dub);
+    const drone = filter[0].process(osc[1].saw(55) + osc[2].saw(58.27), 300) * 0.3;
+    const swell = 0.6 + 0.4 * Math.sin((2 * Math.PI * time * MUSIC_BPM) / 60 / 8);
+    return (heartbeat * 0.6 + drone * swell) * 0.7;
+  }
+};
+
+export function getMusicLoopDuration(): number {
+  return (60 / MUSIC_BPM) * 4 * MUSIC_BARS;
+}
+
+/**
+ * Renders one stem of the four-bar music loop. Every stem has the same length and tempo, so
+ * stems started together stay locked and can be faded in and out independently.
+ */
+export function synthesizeMusicStem(stem: MusicStem, sampleRate = OFFLINE_SAMPLE_RATE): Float32Array {
+  const beat = 60 / MUSIC_BPM;
+  const stepLength = (beat * 4) / STEPS_PER_BAR;
+  const duration = getMusicLoopDuration();
+  const length = Math.round(duration * sampleRate);
+  const samples = new Float32Array(length);
+  const random = new SeededRandom(seedFor(`music:${stem}`));
+  const tools: StemTools = {
+    time: 0,
+    progress: 0,
+    osc: [new Oscillator(sampleRate), new Oscillator(sampleRate), new Oscillator(sampleRate)],
+    filter: [new Lowpass(sampleRate), new Lowpass(sampleRate)],
+    noise: () => random.next() * 2 - 1,
+    bar: 0,
+    step: 0,
+    sinceStep: 0,
+    sinceBeat: 0,
+    stepLength
+  };
+
+  for (let i = 0; i < length; i++) {
+    const time = i / sampleRate;
+    const totalSteps = Math.floor(time / stepLength);
+    tools.time = time;
+    tools.progress = time / duration;
+    tools.bar = Math.floor(totalSteps / STEPS_PER_BAR) % MUSIC_BARS;
+    tools.step = totalSteps % STEPS_PER_BAR;
+    tools.sinceStep = time - totalSteps * stepLength;
+    tools.sinceBeat = time % beat;
+    samples[i] = Math.max(-1, Math.min(1, STEMS[stem](tools) * edges(time, duration, 0.002)));
+  }
+  return samples;
+}
+
+/**
+ * The tension stinger that announces a new wave: a rising, detuned swell that cuts off into a
+ * low hit. It plays on the music bus, over whatever stems are running.
+ */
+export function synthesizeStinger(sampleRate = OFFLINE_SAMPLE_RATE): Float32Array {
+  const duration = 2.2;
+  const swellLength = 1.4;
+  const length = Math.round(duration * sampleRate);
+  const samples = new Float32Array(length);
+  const random = new SeededRandom(seedFor('music:stinger'));
+  const osc = [new Oscillator(sampleRate), new Oscillator(sampleRate), new Oscillator(sampleRate)];
+  const filter = new Lowpass(sampleRate);
+
+  for (let i = 0; i < length; i++) {
+    const time = i / sampleRate;
+    let value: number;
+    if (time < swellLength) {
+      const progress = time / swellLength;
+      const frequency = glide(110, 440, progress);
+      const swell = osc[0].saw(frequency) + osc[1].saw(frequency * 1.06); // A minor second apart
+      value = filter.process(swell, glide(300, 5000, progress)) * progress * progress * 0.3;
+    } else {
+      const since = time - swellLength;
+      const hit = osc[2].sine(glide(90, 35, since * 3)) * Math.exp(-since * 4);
+      const crash = filter.process(random.next() * 2 - 1, 3000) * Math.exp(-since * 6);
+      value = hit * 0.6 + crash * 0.5;
+    }
+    samples[i] = Math.max(-1, Math.min(1, value * edges(time, duration)));
+  }
+  return samples;
+}
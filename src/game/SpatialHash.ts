@@ -0,0 +1,137 @@
+// Cell range an item covers, plus bookkeeping for ordering and de-duplicating query results
+interface SpatialEntry<T> {
+  item: T;
+  order: number;
+  minX: number;
+  minZ: number;
+  maxX: number;
+  maxZ: number;
+  queryStamp: number;
+}
+
+const CELL_LIMIT = 1 << 10; // Cells are clamped to +/- this, so a stray far-off position can't stall a query
+const CELL_KEY_OFFSET = 1 << 15; // Cell coordinates are shifted positive to pack two into one key
+const CELL_KEY_STRIDE = 1 << 16;
+
+/**
+ * Uniform grid over the ground plane (x/z) for broad-phase queries. Each item covers the
+ * cells its square bounds touch, and a query returns every item whose cells overlap the
+ * query's, so results are a superset the caller still tests exactly. Results come back in
+ * insertion order, so swapping a loop over an array for a query never changes which of
+ * several equal candidates wins.
+ */
+export class SpatialHash<T> {
+  private cellSize: number;
+  private cells = new Map<number, SpatialEntry<T>[]>();
+  private entries = new Map<T, SpatialEntry<T>>();
+  private nextOrder = 0;
+  private queryStamp = 0;
+  private scratch: SpatialEntry<T>[] = [];
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  public clear() {
+    this.cells.clear();
+    this.entries.clear();
+    this.nextOrder = 0;
+  }
+
+  // Adds an item covering a circle (radius 0 for a point); an item already present is moved
+  public insert(item: T, x: number, z: number, radius = 0) {
+    this.insertBox(item, x - radius, z - radius, x + radius, z + radius);
+  }
+
+  public insertBox(item: T, minX: number, minZ: number, maxX: number, maxZ: number) {
+    const cellMinX = this.toCell(minX);
+    const cellMinZ = this.toCell(minZ);
+    const cellMaxX = this.toCell(maxX);
+    const cellMaxZ = this.toCell(maxZ);
+
+    let entry = this.entries.get(item);
+    if (entry) {
+      if (entry.minX === cellMinX && entry.minZ === cellMinZ && entry.maxX === cellMaxX && entry.maxZ === cellMaxZ) {
+        return; // Still in the same cells
+      }
+      this.unlink(entry);
+    } else {
+      entry = { item, order: this.nextOrder++, minX: 0, minZ: 0, maxX: 0, maxZ: 0, queryStamp: 0 };
+      this.entries.set(item, entry);
+    }
+
+    entry.minX = cellMinX;
+    entry.minZ = cellMinZ;
+    entry.maxX = cellMaxX;
+    entry.maxZ = cellMaxZ;
+    for (let cellX = cellMinX; cellX <= cellMaxX; cellX++) {
+      for (let cellZ = cellMinZ; cellZ <= cellMaxZ; cellZ++) {
+        const key = this.cellKey(cellX, cellZ);
+        const cell = this.cells.get(key);
+        if (cell) {
+          cell.push(entry);
+        } else {
+          this.cells.set(key, [entry]);
+        }
+      }
+    }
+  }
+
+  public remove(item: T) {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    this.unlink(entry);
+    this.entries.delete(item);
+  }
+
+  // Candidates within radius of a point (by cell, not exact distance)
+  public query(x: number, z: number, radius: number, out: T[] = []): T[] {
+    return this.queryBox(x - radius, z - radius, x + radius, z + radius, out);
+  }
+
+  public queryBox(minX: number, minZ: number, maxX: number, maxZ: number, out: T[] = []): T[] {
+    const stamp = ++this.queryStamp;
+    const found = this.scratch;
+    found.length = 0;
+
+    const cellMaxX = this.toCell(maxX);
+    const cellMaxZ = this.toCell(maxZ);
+    for (let cellX = this.toCell(minX); cellX <= cellMaxX; cellX++) {
+      for (let cellZ = this.toCell(minZ); cellZ <= cellMaxZ; cellZ++) {
+        const cell = this.cells.get(this.cellKey(cellX, cellZ));
+        if (!cell) continue;
+        for (const entry of cell) {
+          if (entry.queryStamp === stamp) continue; // Spans several cells; already found
+          entry.queryStamp = stamp;
+          found.push(entry);
+        }
+      }
+    }
+
+    found.sort((a, b) => a.order - b.order);
+    out.length = 0;
+    found.forEach(entry => out.push(entry.item));
+    return out;
+  }
+
+  private unlink(entry: SpatialEntry<T>) {
+    for (let cellX = entry.minX; cellX <= entry.maxX; cellX++) {
+      for (let cellZ = entry.minZ; cellZ <= entry.maxZ; cellZ++) {
+        const key = this.cellKey(cellX, cellZ);
+        const cell = this.cells.get(key);
+        if (!cell) continue;
+        const index = cell.indexOf(entry);
+        if (index > -1) cell.splice(index, 1);
+        if (cell.length === 0) this.cells.delete(key);
+      }
+    }
+  }
+
+  private toCell(coordinate: number): number {
+    return Math.max(-CELL_LIMIT, Math.min(CELL_LIMIT, Math.floor(coordinate / this.cellSize)));
+  }
+
+  private cellKey(cellX: number, cellZ: number): number {
+    return (cellX + CELL_KEY_OFFSET) * CELL_KEY_STRIDE + (cellZ + CELL_KEY_OFFSET);
+  }
+}
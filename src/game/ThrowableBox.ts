@@ -1,22 +1,34 @@
 import * as THREE from 'three';
 import { Enemy } from './Enemy';
+import { ParticleSystem } from './ParticleSystem';
+import { SeededRandom } from './SeededRandom';
+import { SpatialHash } from './SpatialHash';
+import { Level } from './Level';
+
+const ENEMY_HIT_DISTANCE = 2;
+const ENEMY_KNOCKBACK = 12; // units per second along the box's path, for a mass of 1
+const ENEMY_KNOCKBACK_LIFT = 4; // units per second upwards
 
 export class ThrowableBox {
   private mesh: THREE.Group;
   private position: THREE.Vector3;
-  private velocity = new THREE.Vector3();
+  private previousPosition: THREE.Vector3;
+  private velocity = new THREE.Vector3(); // units per second
   private isThrown = false;
   private isLevitating = false;
-  private rotationVelocity = new THREE.Vector3();
-  private scene: THREE.Scene;
+  private rotationVelocity = new THREE.Vector3(); // radians per second
+  private particleSystem: ParticleSystem | null = null;
   private damage = 40;
   private hasHitEnemy = false;
   private stuckCheckTimer = 0;
   private lastPosition = new THREE.Vector3();
+  private time = 0;
+  private random: SeededRandom;
 
-  constructor(position: THREE.Vector3, scene: THREE.Scene) {
+  constructor(position: THREE.Vector3, scene: THREE.Scene, random: SeededRandom) {
     this.position = position.clone();
-    this.scene = scene;
+    this.random = random;
+    this.previousPosition = position.clone();
     this.createMesh();
     scene.add(this.mesh);
   }
@@ -83,43 +95,51 @@ export class ThrowableBox {
     this.mesh.position.copy(this.position);
   }
 
-  public update(enemies: Enemy[], level?: any) {
+  public setParticleSystem(particleSystem: ParticleSystem) {
+    this.particleSystem = particleSystem;
+  }
+
+  public update(dt: number, enemies: SpatialHash<Enemy>, level?: any) {
+    this.time += dt;
+    this.previousPosition.copy(this.position);
+
     if (this.isLevitating) {
       // Rotate while levitating
-      this.mesh.rotation.y += 0.05;
-      this.mesh.rotation.x += 0.02;
+      this.mesh.rotation.y += 3 * dt;
+      this.mesh.rotation.x += 1.2 * dt;
       
       // Update glow effect
       const glow = this.mesh.getObjectByName('glow') as THREE.Mesh;
       if (glow && glow.material instanceof THREE.MeshBasicMaterial) {
-        glow.material.opacity = 0.3 + Math.sin(Date.now() * 0.01) * 0.2;
-        glow.rotation.x += 0.03;
-        glow.rotation.y += 0.05;
+        glow.material.opacity = 0.3 + Math.sin(this.time * 10) * 0.2;
+        glow.rotation.x += 1.8 * dt;
+        glow.rotation.y += 3 * dt;
       }
       return;
     }
 
     if (this.isThrown) {
-      this.handleThrowPhysics(enemies, level);
-    } else {
-      // Static box - just sit there
-      this.mesh.position.copy(this.position);
+      this.handleThrowPhysics(dt, enemies, level);
     }
   }
 
-  private handleThrowPhysics(enemies: Enemy[], level?: any) {
+  public interpolate(alpha: number) {
+    this.mesh.position.lerpVectors(this.previousPosition, this.position, alpha);
+  }
+
+  private handleThrowPhysics(dt: number, enemies: SpatialHash<Enemy>, level?: any) {
     const oldPosition = this.position.clone();
     
     // Check if box is stuck
-    this.stuckCheckTimer++;
-    if (this.stuckCheckTimer > 120) { // Check every 2 seconds
+    this.stuckCheckTimer += dt;
+    if (this.stuckCheckTimer > 2) { // Check every 2 seconds
       const distance = this.position.distanceTo(this.lastPosition);
-      if (distance < 0.05 && this.velocity.length() < 0.02) {
+      if (distance < 0.05 && this.velocity.length() < 1.2) {
         // Box is stuck, force it to stop being thrown
         this.isThrown = false;
         this.velocity.set(0, 0, 0);
         this.rotationVelocity.set(0, 0, 0);
-        this.position.y = 0.5;
+        this.position.y = this.getRestingHeight(level);
         this.hasHitEnemy = false; // Reset so it can damage enemies again
         this.stuckCheckTimer = 0;
         return;
@@ -129,37 +149,43 @@ export class ThrowableBox {
     }
     
     // Update position
-    this.position.add(this.velocity);
+    this.position.addScaledVector(this.velocity, dt);
     
     // Apply gravity
-    this.velocity.y -= 0.015;
+    this.velocity.y -= 54 * dt;
     
     // Apply air resistance
-    this.velocity.multiplyScalar(0.98);
+    this.velocity.multiplyScalar(Math.pow(0.3, dt));
     
     // Update rotation
-    this.mesh.rotation.x += this.rotationVelocity.x;
-    this.mesh.rotation.y += this.rotationVelocity.y;
-    this.mesh.rotation.z += this.rotationVelocity.z;
+    this.mesh.rotation.x += this.rotationVelocity.x * dt;
+    this.mesh.rotation.y += this.rotationVelocity.y * dt;
+    this.mesh.rotation.z += this.rotationVelocity.z * dt;
     
     // Slow down rotation
-    this.rotationVelocity.multiplyScalar(0.95);
+    this.rotationVelocity.multiplyScalar(Math.pow(0.05, dt));
 
     // Check collision with enemies
     if (!this.hasHitEnemy) {
-      for (const enemy of enemies) {
+      for (const enemy of enemies.query(this.position.x, this.position.z, ENEMY_HIT_DISTANCE)) {
         if (enemy.isAlive()) {
           const distance = this.position.distanceTo(enemy.getPosition());
-          if (distance < 2) {
+          if (distance < ENEMY_HIT_DISTANCE) {
             enemy.takeDamage(this.damage);
             this.hasHitEnemy = true;
             
             // Create impact effect
             this.createImpactEffect();
             
+            // Knock the enemy along the box's path
+            const impulse = new THREE.Vector3(this.velocity.x, 0, this.velocity.z);
+            if (impulse.lengthSq() > 0) impulse.normalize().multiplyScalar(ENEMY_KNOCKBACK);
+            impulse.y = ENEMY_KNOCKBACK_LIFT;
+            enemy.applyImpulse(impulse);
+            
             // Bounce off the enemy
             const bounceDirection = this.position.clone().sub(enemy.getPosition()).normalize();
-            this.velocity.copy(bounceDirection.multiplyScalar(0.1));
+            this.velocity.copy(bounceDirection.multiplyScalar(6));
             this.velocity.y = Math.abs(this.velocity.y);
             
             break;
@@ -179,21 +205,22 @@ export class ThrowableBox {
       
       // Add some rotation on bounce
       this.rotationVelocity.set(
-        (Math.random() - 0.5) * 0.2,
-        (Math.random() - 0.5) * 0.2,
-        (Math.random() - 0.5) * 0.2
+        (this.random.next() - 0.5) * 12,
+        (this.random.next() - 0.5) * 12,
+        (this.random.next() - 0.5) * 12
       );
     }
 
-    // Check ground collision
-    if (this.position.y <= 0.5) {
-      this.position.y = 0.5;
+    // Check ground collision, landing on platforms and ramps as well as the floor
+    const restingHeight = this.getRestingHeight(level);
+    if (this.position.y <= restingHeight) {
+      this.position.y = restingHeight;
       this.velocity.y = Math.abs(this.velocity.y) * 0.3; // Bounce with energy loss
       this.velocity.x *= 0.8; // Friction
       this.velocity.z *= 0.8;
       
       // Stop if moving very slowly
-      if (this.velocity.length() < 0.02) {
+      if (this.velocity.length() < 1.2) {
         this.isThrown = false;
         this.velocity.set(0, 0, 0);
         this.rotationVelocity.set(0, 0, 0);
@@ -201,63 +228,17 @@ export class ThrowableBox {
         this.stuckCheckTimer = 0;
       }
     }
+  }
 
-    this.mesh.position.copy(this.position);
+  // Center height of the box resting on the ground below it
+  private getRestingHeight(level?: Level): number {
+    const bottom = new THREE.Vector3(this.position.x, this.position.y - 0.5, this.position.z);
+    return (level ? level.getGroundHeight(bottom, 0.5) : 0) + 0.5;
   }
 
   private createImpactEffect() {
     // Create sparks/debris effect
-    const particleCount = 30;
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
-
-    for (let i = 0; i < particleCount; i++) {
-      // Spread particles around impact point
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      const radius = Math.random() * 2;
-
-      positions[i * 3] = Math.sin(phi) * Math.cos(theta) * radius;
-      positions[i * 3 + 1] = Math.cos(phi) * radius;
-      positions[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * radius;
-
-      // Orange/yellow spark colors
-      colors[i * 3] = 1; // Red
-      colors[i * 3 + 1] = 0.5 + Math.random() * 0.5; // Green
-      colors[i * 3 + 2] = 0; // Blue
-    }
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-
-    const material = new THREE.PointsMaterial({
-      size: 0.1,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1
-    });
-
-    const sparks = new THREE.Points(geometry, material);
-    sparks.position.copy(this.position);
-    this.scene.add(sparks);
-
-    // Remove sparks after animation
-    let scale = 0;
-    const animate = () => {
-      scale += 0.1;
-      sparks.scale.setScalar(scale);
-      material.opacity = Math.max(0, 1 - scale * 0.5);
-      
-      if (scale < 3) {
-        requestAnimationFrame(animate);
-      } else {
-        this.scene.remove(sparks);
-        geometry.dispose();
-        material.dispose();
-      }
-    };
-    animate();
+    this.particleSystem?.createImpactSparks(this.position);
   }
 
   public levitate() {
@@ -278,14 +259,14 @@ export class ThrowableBox {
     this.hasHitEnemy = false;
     
     // Set throw velocity
-    this.velocity = direction.normalize().multiplyScalar(0.4);
-    this.velocity.y += 0.1; // Add some upward trajectory
+    this.velocity = direction.normalize().multiplyScalar(24);
+    this.velocity.y += 6; // Add some upward trajectory
     
     // Add random rotation
     this.rotationVelocity.set(
-      (Math.random() - 0.5) * 0.3,
-      (Math.random() - 0.5) * 0.3,
-      (Math.random() - 0.5) * 0.3
+      (this.random.next() - 0.5) * 18,
+      (this.random.next() - 0.5) * 18,
+      (this.random.next() - 0.5) * 18
     );
     
     // Hide glow effect
@@ -297,7 +278,6 @@ export class ThrowableBox {
 
   public setPosition(position: THREE.Vector3) {
     this.position.copy(position);
-    this.mesh.position.copy(position);
   }
 
   public getPosition(): THREE.Vector3 {
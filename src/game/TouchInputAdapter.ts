@@ -0,0 +1,120 @@
+import { PlayerInputEvent } from './Player';
+import { InputAction } from './InputBindings';
+
+const TOUCH_LOOK_SCALE = 1.5; // Swipes turn a little faster than the same distance of mouse movement
+const AXIS_PRECISION = 100; // Joystick values are rounded to hundredths, like gamepad sticks
+
+// Phones and tablets: the main pointer is a finger. Touch laptops still report a fine pointer.
+export function isTouchDevice(): boolean {
+  return typeof window !== 'undefined' && !!window.matchMedia?.('(pointer: coarse)').matches;
+}
+
+/**
+ * Touch input for devices without pointer lock. A finger dragged across the canvas looks
+ * around; the on-screen joystick and buttons (TouchControls) call setMove and setAction.
+ * Everything ends up as the same input events the mouse, keyboard and gamepad send.
+ */
+export class TouchInputAdapter {
+  private canvas: HTMLCanvasElement;
+  private sink: (event: PlayerInputEvent) => void;
+  private lookTouchId: number | null = null;
+  private lastTouchX = 0;
+  private lastTouchY = 0;
+  private move: [number, number] = [0, 0];
+  private heldActions = new Set<InputAction>();
+  private active = false;
+  private lookSensitivity = 1;
+  private invertY = false;
+
+  constructor(canvas: HTMLCanvasElement, sink: (event: PlayerInputEvent) => void) {
+    this.canvas = canvas;
+    this.sink = sink;
+
+    // Not passive: preventDefault stops the page from scrolling or zooming under the swipe
+    this.canvas.addEventListener('touchstart', this.onTouchStart, { passive: false });
+    this.canvas.addEventListener('touchmove', this.onTouchMove, { passive: false });
+    this.canvas.addEventListener('touchend', this.onTouchEnd);
+    this.canvas.addEventListener('touchcancel', this.onTouchEnd);
+  }
+
+  public setLookSettings(sensitivity: number, invertY: boolean) {
+    this.lookSensitivity = sensitivity;
+    this.invertY = invertY;
+  }
+
+  // True once the canvas has been touched, so the mouse path (pointer lock) can stand aside
+  public isActive(): boolean {
+    return this.active;
+  }
+
+  // Joystick position, -1..1 with y forward
+  public setMove(x: number, y: number) {
+    const quantizedX = Math.round(x * AXIS_PRECISION) / AXIS_PRECISION;
+    const quantizedY = Math.round(y * AXIS_PRECISION) / AXIS_PRECISION;
+    if (quantizedX === this.move[0] && quantizedY === this.move[1]) return;
+    this.move = [quantizedX, quantizedY];
+    this.sink({ type: 'move', x: quantizedX, y: quantizedY });
+  }
+
+  public setAction(action: InputAction, pressed: boolean) {
+    if (pressed === this.heldActions.has(action)) return;
+    if (pressed) {
+      this.heldActions.add(action);
+    } else {
+      this.heldActions.delete(action);
+    }
+    this.sink({ type: 'action', action, pressed });
+  }
+
+  // One-shot actions like weapon selection
+  public tapAction(action: InputAction) {
+    this.setAction(action, true);
+    this.setAction(action, false);
+  }
+
+  // Lets go of everything, e.g. when the controls are hidden by the pause screen
+  public releaseAll() {
+    this.setMove(0, 0);
+    this.heldActions.forEach(action => this.setAction(action, false));
+    this.lookTouchId = null;
+  }
+
+  private onTouchStart = (event: TouchEvent) => {
+    event.preventDefault();
+    this.active = true;
+    if (this.lookTouchId !== null) return;
+
+    const touch = event.changedTouches[0];
+    this.lookTouchId = touch.identifier;
+    this.lastTouchX = touch.clientX;
+    this.lastTouchY = touch.clientY;
+  };
+
+  private onTouchMove = (event: TouchEvent) => {
+    event.preventDefault();
+    const touch = Array.from(event.changedTouches).find(changed => changed.identifier === this.lookTouchId);
+    if (!touch) return;
+
+    const deltaX = touch.clientX - this.lastTouchX;
+    const deltaY = touch.clientY - this.lastTouchY;
+    this.lastTouchX = touch.clientX;
+    this.lastTouchY = touch.clientY;
+    if (deltaX === 0 && deltaY === 0) return;
+
+    const scale = TOUCH_LOOK_SCALE * this.lookSensitivity;
+    this.sink({ type: 'look', deltaX: deltaX * scale, deltaY: deltaY * scale * (this.invertY ? -1 : 1) });
+  };
+
+  private onTouchEnd = (event: TouchEvent) => {
+    if (Array.from(event.changedTouches).some(changed => changed.identifier === this.lookTouchId)) {
+      this.lookTouchId = null;
+    }
+  };
+
+  public cleanup() {
+    this.canvas.removeEventListener('touchstart', this.onTouchStart);
+    this.canvas.removeEventListener('touchmove', this.onTouchMove);
+    this.canvas.removeEventListener('touchend', this.onTouchEnd);
+    this.canvas.removeEventListener('touchcancel', this.onTouchEnd);
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { getEnemyArchetype } from './EnemyArchetypes';
+import { EnemyType } from './Enemy';
+import { SeededRandom } from './SeededRandom';
+import { WaveDirector, WaveScriptFile } from './WaveDirector';
+import campaign from './waves/campaign.json';
+
+const scripts = campaign as unknown as WaveScriptFile;
+
+const costOf = (types: EnemyType[]) => types.reduce((sum, type) => sum + getEnemyArchetype(type).spawn.cost, 0);
+const countOf = (types: EnemyType[], type: EnemyType) => types.filter(entry => entry === type).length;
+
+describe('WaveDirector.planWave', () => {
+  it('only spawns unlocked archetypes in the opening waves', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const plan = new WaveDirector(new SeededRandom(seed)).planWave(1);
+      for (const type of plan.initial) {
+        expect(getEnemyArchetype(type).spawn.unlockWave).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+
+  it('spends each scripted budget without going over', () => {
+    const director = new WaveDirector(new SeededRandom(7));
+    for (const script of scripts.waves) {
+      const plan = director.planWave(script.wave);
+      if (plan.boss) continue;
+      const cheapest = Math.min(...plan.initial.map(type => getEnemyArchetype(type).spawn.cost));
+      expect(costOf(plan.initial)).toBeLessThanOrEqual(script.budget);
+      expect(costOf(plan.initial)).toBeGreaterThan(script.budget - cheapest);
+    }
+  });
+
+  it('includes the guaranteed enemies', () => {
+    const director = new WaveDirector(new SeededRandom(3));
+    for (const script of scripts.waves) {
+      const plan = director.planWave(script.wave);
+      for (const entry of script.guaranteed ?? []) {
+        expect(countOf(plan.initial, entry.type)).toBeGreaterThanOrEqual(entry.count);
+      }
+    }
+  });
+
+  it('keeps event waves to their pool', () => {
+    const swarm = scripts.waves.find(script => script.wave === 5)!;
+    const plan = new WaveDirector(new SeededRandom(11)).planWave(5);
+
+    expect(plan.event?.name).toBe(swarm.event!.name);
+    plan.initial.forEach(type => expect(swarm.pool).toContain(type));
+    expect(plan.subWaves).toHaveLength(1);
+    plan.subWaves[0].types.forEach(type => expect(type).toBe('drone'));
+    expect(plan.total).toBe(plan.initial.length + plan.subWaves[0].types.length);
+  });
+
+  it('leads boss waves with the boss', () => {
+    const every = scripts.bosses!.every;
+    const plan = new WaveDirector(new SeededRandom(5)).planWave(every);
+
+    expect(plan.boss).toBe(scripts.bosses!.types[0]);
+    expect(plan.initial[0]).toBe(plan.boss);
+    expect(countOf(plan.initial, plan.boss!)).toBe(1);
+  });
+
+  it('keeps growing past the scripted waves', () => {
+    const director = new WaveDirector(new SeededRandom(9));
+    const last = scripts.waves.length;
+    const early = director.planWave(last + 1);
+    const late = director.planWave(last + 9);
+
+    expect(costOf(late.initial)).toBeGreaterThan(costOf(early.initial));
+  });
+
+  it('is the same for the same seed', () => {
+    const first = new WaveDirector(new SeededRandom(42)).planWave(7);
+    const second = new WaveDirector(new SeededRandom(42)).planWave(7);
+    expect(second).toEqual(first);
+  });
+});
+
+describe('WaveDirector reinforcements', () => {
+  it('holds back anything over the alive cap', () => {
+    const director = new WaveDirector(new SeededRandom(1), { ...scripts, maxAlive: 3 });
+    const initial = director.startWave(4);
+
+    expect(initial).toHaveLength(3);
+    expect(director.getPendingCount()).toBe(director.getTotalEnemies() - 3);
+    expect(director.update(1 / 60, 3)).toEqual([]); // No room yet
+  });
+
+  it('sends reinforcements as room frees up', () => {
+    const director = new WaveDirector(new SeededRandom(1), { ...scripts, maxAlive: 3 });
+    director.startWave(4);
+    const pending = director.getPendingCount();
+
+    let spawned = 0;
+    for (let tick = 0; tick < 60 * 30 && director.hasPendingSpawns(); tick++) {
+      spawned += director.update(1 / 60, 0).length;
+    }
+    expect(spawned).toBe(pending);
+  });
+});
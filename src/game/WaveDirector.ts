@@ -0,0 +1,415 @@
+import { EnemyType } from './Enemy';
+import { EnemyArchetype, getEnemyArchetype, getEnemyArchetypes } from './EnemyArchetypes';
+import { SeededRandom } from './SeededRandom';
+import campaign from './waves/campaign.json' with { type: 'json' };
+
+export interface GuaranteedEnemies {
+  type: EnemyType;
+  count: number;
+}
+
+export interface WaveEvent {
+  name: string;
+  description?: string;
+}
+
+// A batch of enemies bought with a threat budget
+interface SpawnGroupScript {
+  budget: number;
+  guaranteed?: GuaranteedEnemies[]; // Always included; their cost comes out of the budget
+  pool?: EnemyType[]; // Restricts budget picks; defaults to every unlocked archetype
+}
+
+export interface SubWaveScript extends SpawnGroupScript {
+  delay: number; // seconds after the wave starts
+  aliveBelow?: number; // Also arrives early once this few enemies remain (default 0)
+}
+
+export interface WaveScript extends SpawnGroupScript {
+  wave: number;
+  event?: WaveEvent;
+  subWaves?: SubWaveScript[];
+}
+
+export interface EndlessConfig {
+  budget: number; // Budget of the first wave after the scripted ones
+  budgetPerWave: number;
+  eventEvery: number; // Every Nth wave replays a scripted event wave's pool (0 disables)
+  subWaves: number;
+  subWaveDelay: number; // seconds between sub-waves
+  subWaveShare: number; // Fraction of the budget held back for sub-waves
+}
+
+export interface BossSchedule {
+  every: number; // A boss joins every Nth wave
+  types: EnemyType[]; // Boss archetypes, taken in turn
+}
+
+export interface WaveScriptFile {
+  maxAlive: number; // Enemies alive at once; the rest wait as reinforcements
+  waves: WaveScript[];
+  endless: EndlessConfig;
+  bosses?: BossSchedule;
+}
+
+interface PlannedSubWave {
+  delay: number;
+  aliveBelow: number;
+  types: EnemyType[];
+  arrived: boolean;
+}
+
+export interface WavePlan {
+  wave: number;
+  event: WaveEvent | null;
+  boss: EnemyType | null;
+  initial: EnemyType[];
+  subWaves: PlannedSubWave[];
+  total: number;
+}
+
+const REINFORCEMENT_INTERVAL = 1; // seconds between reinforcement batches
+const REINFORCEMENT_BATCH = 4; // Most enemies a single batch adds
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a parsed wave script file, collecting every problem (including unknown enemy
+ * types) so the thrown error lists them all along with the file name.
+ */
+export function validateWaveScripts(data: unknown, source: string): WaveScriptFile {
+  const problems: string[] = [];
+
+  const expectNumber = (value: unknown, path: string, min = 0, integer = false) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+      problems.push(`${path} must be ${integer ? 'an integer' : 'a number'} >= ${min}`);
+    }
+  };
+  const expectType = (value: unknown, path: string) => {
+    if (typeof value !== 'string') {
+      problems.push(`${path} must be an enemy archetype id`);
+      return;
+    }
+    try {
+      getEnemyArchetype(value);
+    } catch {
+      problems.push(`${path} "${value}" is not a registered enemy archetype`);
+    }
+  };
+  const checkGroup = (group: Record<string, unknown>, path: string) => {
+    expectNumber(group.budget, `${path}.budget`);
+    if (group.guaranteed !== undefined) {
+      if (!Array.isArray(group.guaranteed)) {
+        problems.push(`${path}.guaranteed must be an array`);
+      } else {
+        group.guaranteed.forEach((entry, index) => {
+          const entryPath = `${path}.guaranteed[${index}]`;
+          if (!isObject(entry)) {
+            problems.push(`${entryPath} must be an object`);
+            return;
+          }
+          expectType(entry.type, `${entryPath}.type`);
+          expectNumber(entry.count, `${entryPath}.count`, 1, true);
+        });
+      }
+    }
+    if (group.pool !== undefined) {
+      if (!Array.isArray(group.pool) || group.pool.length === 0) {
+        problems.push(`${path}.pool must be a non-empty array`);
+      } else {
+        group.pool.forEach((type, index) => expectType(type, `${path}.pool[${index}]`));
+      }
+    }
+  };
+
+  if (!isObject(data)) {
+    throw new Error(`Invalid wave scripts in ${source}: expected a JSON object`);
+  }
+
+  expectNumber(data.maxAlive, 'maxAlive', 1, true);
+
+  if (!Array.isArray(data.waves) || data.waves.length === 0) {
+    problems.push('waves must be a non-empty array');
+  } else {
+    data.waves.forEach((wave, index) => {
+      const path = `waves[${index}]`;
+      if (!isObject(wave)) {
+        problems.push(`${path} must be an object`);
+        return;
+      }
+      if (wave.wave !== index + 1) {
+        problems.push(`${path}.wave must be ${index + 1} (waves are listed in order from 1)`);
+      }
+      checkGroup(wave, path);
+      if (wave.event !== undefined) {
+        if (!isObject(wave.event) || typeof wave.event.name !== 'string' || wave.event.name.length === 0) {
+          problems.push(`${path}.event must have a name`);
+        }
+      }
+      if (wave.subWaves !== undefined) {
+        if (!Array.isArray(wave.subWaves)) {
+          problems.push(`${path}.subWaves must be an array`);
+        } else {
+          wave.subWaves.forEach((subWave, subIndex) => {
+            const subPath = `${path}.subWaves[${subIndex}]`;
+            if (!isObject(subWave)) {
+              problems.push(`${subPath} must be an object`);
+              return;
+            }
+            checkGroup(subWave, subPath);
+            expectNumber(subWave.delay, `${subPath}.delay`);
+            if (subWave.aliveBelow !== undefined) expectNumber(subWave.aliveBelow, `${subPath}.aliveBelow`, 0, true);
+          });
+        }
+      }
+    });
+  }
+
+  if (!isObject(data.endless)) {
+    problems.push('endless must be an object');
+  } else {
+    const endless = data.endless;
+    expectNumber(endless.budget, 'endless.budget');
+    expectNumber(endless.budgetPerWave, 'endless.budgetPerWave');
+    expectNumber(endless.eventEvery, 'endless.eventEvery', 0, true);
+    expectNumber(endless.subWaves, 'endless.subWaves', 0, true);
+    expectNumber(endless.subWaveDelay, 'endless.subWaveDelay');
+    if (typeof endless.subWaveShare !== 'number' || endless.subWaveShare < 0 || endless.subWaveShare >= 1) {
+      problems.push('endless.subWaveShare must be a number from 0 up to (not including) 1');
+    }
+  }
+
+  if (data.bosses !== undefined) {
+    if (!isObject(data.bosses)) {
+      problems.push('bosses must be an object');
+    } else {
+      const bosses = data.bosses;
+      expectNumber(bosses.every, 'bosses.every', 1, true);
+      if (!Array.isArray(bosses.types) || bosses.types.length === 0) {
+        problems.push('bosses.types must be a non-empty array');
+      } else {
+        bosses.types.forEach((type, index) => {
+          const path = `bosses.types[${index}]`;
+          expectType(type, path);
+          if (typeof type === 'string') {
+            try {
+              if (!getEnemyArchetype(type).boss) problems.push(`${path} "${type}" has no boss config`);
+            } catch {
+              // Already reported by expectType
+            }
+          }
+        });
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid wave scripts in ${source}:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return data as unknown as WaveScriptFile;
+}
+
+const defaultWaveScripts = validateWaveScripts(campaign, 'waves/campaign.json');
+
+/**
+ * Decides what each wave spawns. Scripted waves buy enemies with a threat budget on top of
+ * their guaranteed composition; past the last scripted wave an endless generator keeps growing
+ * the budget. Anything over the alive cap, plus sub-waves once they're due, is fed in as
+ * reinforcements while the wave is being fought.
+ */
+export class WaveDirector {
+  private random: SeededRandom;
+  private scripts: WaveScriptFile;
+  private plan: WavePlan | null = null;
+  private elapsed = 0; // seconds since the wave started
+  private reinforcements: EnemyType[] = [];
+  private reinforcementTimer = 0;
+
+  constructor(random: SeededRandom, scripts: WaveScriptFile = defaultWaveScripts) {
+    this.random = random;
+    this.scripts = scripts;
+  }
+
+  // Plans the wave and returns the enemies to spawn right away
+  public startWave(waveNumber: number): EnemyType[] {
+    this.plan = this.planWave(waveNumber);
+    this.elapsed = 0;
+    this.reinforcementTimer = REINFORCEMENT_INTERVAL;
+
+    const maxAlive = this.scripts.maxAlive;
+    this.reinforcements = this.plan.initial.slice(maxAlive);
+    return this.plan.initial.slice(0, maxAlive);
+  }
+
+  // Returns reinforcements to spawn this tick, given how many enemies are still alive
+  public update(dt: number, aliveCount: number): EnemyType[] {
+    if (!this.plan) return [];
+    this.elapsed += dt;
+
+    for (const subWave of this.plan.subWaves) {
+      if (!subWave.arrived && (this.elapsed >= subWave.delay || aliveCount <= subWave.aliveBelow)) {
+        subWave.arrived = true;
+        this.reinforcements.push(...subWave.types);
+        this.reinforcementTimer = 0; // Sub-waves arrive as a burst
+      }
+    }
+
+    this.reinforcementTimer -= dt;
+    if (this.reinforcements.length === 0 || this.reinforcementTimer > 0) return [];
+
+    const room = Math.min(this.scripts.maxAlive - aliveCount, REINFORCEMENT_BATCH);
+    if (room <= 0) return [];
+
+    this.reinforcementTimer = REINFORCEMENT_INTERVAL;
+    return this.reinforcements.splice(0, room);
+  }
+
+  public planWave(waveNumber: number): WavePlan {
+    const script = this.getWaveScript(waveNumber);
+    const boss = this.getBossType(waveNumber);
+
+    // The boss comes out of the wave's budget and spawns first, so it's never held back
+    const group = boss ? { ...script, budget: script.budget - getEnemyArchetype(boss).spawn.cost } : script;
+    const initial = this.random.shuffle(this.composeGroup(group, waveNumber));
+    if (boss) initial.unshift(boss);
+
+    const subWaves = (script.subWaves ?? []).map(subWave => ({
+      delay: subWave.delay,
+      aliveBelow: subWave.aliveBelow ?? 0,
+      types: this.random.shuffle(this.composeGroup(subWave, waveNumber)),
+      arrived: false
+    }));
+
+    const total = initial.length + subWaves.reduce((sum, subWave) => sum + subWave.types.length, 0);
+    return { wave: waveNumber, event: script.event ?? null, boss, initial, subWaves, total };
+  }
+
+  public hasPendingSpawns(): boolean {
+    return this.getPendingCount() > 0;
+  }
+
+  // Enemies this wave will still spawn
+  public getPendingCount(): number {
+    if (!this.plan) return 0;
+    const waiting = this.plan.subWaves
+      .filter(subWave => !subWave.arrived)
+      .reduce((sum, subWave) => sum + subWave.types.length, 0);
+    return this.reinforcements.length + waiting;
+  }
+
+  public getTotalEnemies(): number {
+    return this.plan?.total ?? 0;
+  }
+
+  public getEvent(): WaveEvent | null {
+    return this.plan?.event ?? null;
+  }
+
+  public getMaxAlive(): number {
+    return this.scripts.maxAlive;
+  }
+
+  public reset() {
+    this.plan = null;
+    this.elapsed = 0;
+    this.reinforcements = [];
+    this.reinforcementTimer = 0;
+  }
+
+  private getBossType(waveNumber: number): EnemyType | null {
+    const bosses = this.scripts.bosses;
+    if (!bosses || waveNumber % bosses.every !== 0) return null;
+    return bosses.types[(waveNumber / bosses.every - 1) % bosses.types.length];
+  }
+
+  private getWaveScript(waveNumber: number): WaveScript {
+    const scripted = this.scripts.waves;
+    if (waveNumber <= scripted.length) {
+      return scripted[Math.max(0, waveNumber - 1)];
+    }
+    return this.generateEndlessWave(waveNumber);
+  }
+
+  // Past the scripted waves the budget keeps growing; every few waves replays an event wave's mix
+  private generateEndlessWave(waveNumber: number): WaveScript {
+    const endless = this.scripts.endless;
+    const wavesPast = waveNumber - this.scripts.waves.length;
+    const budget = endless.budget + endless.budgetPerWave * (wavesPast - 1);
+
+    let template: WaveScript | null = null;
+    const eventWaves = this.scripts.waves.filter(wave => wave.event);
+    if (endless.eventEvery > 0 && waveNumber % endless.eventEvery === 0 && eventWaves.length > 0) {
+      template = eventWaves[this.random.int(eventWaves.length)];
+    }
+
+    // Guaranteed enemies of a replayed event scale up every 10 waves past the script
+    const scale = 1 + Math.floor(wavesPast / 10);
+    const guaranteed = template?.guaranteed?.map(entry => ({ type: entry.type, count: entry.count * scale }));
+
+    const subWaveBudget = endless.subWaves > 0 ? (budget * endless.subWaveShare) / endless.subWaves : 0;
+    const subWaves: SubWaveScript[] = [];
+    for (let i = 0; i < endless.subWaves; i++) {
+      subWaves.push({
+        delay: endless.subWaveDelay * (i + 1),
+        aliveBelow: Math.floor(this.scripts.maxAlive / 4),
+        budget: subWaveBudget,
+        pool: template?.pool
+      });
+    }
+
+    return {
+      wave: waveNumber,
+      budget: budget - subWaveBudget * endless.subWaves,
+      guaranteed,
+      pool: template?.pool,
+      event: template?.event,
+      subWaves
+    };
+  }
+
+  private composeGroup(group: SpawnGroupScript, waveNumber: number): EnemyType[] {
+    const types: EnemyType[] = [];
+    let remaining = group.budget;
+
+    for (const entry of group.guaranteed ?? []) {
+      const archetype = getEnemyArchetype(entry.type);
+      for (let i = 0; i < entry.count; i++) {
+        types.push(archetype.id);
+      }
+      remaining -= archetype.spawn.cost * entry.count;
+    }
+
+    // An explicit pool can name archetypes that never unlock on their own
+    const pool = group.pool
+      ? group.pool.map(type => getEnemyArchetype(type))
+      : getEnemyArchetypes().filter(archetype =>
+          archetype.spawn.unlockWave !== null && waveNumber >= archetype.spawn.unlockWave && archetype.spawn.weight > 0
+        );
+
+    for (;;) {
+      const affordable = pool.filter(archetype => archetype.spawn.cost <= remaining);
+      if (affordable.length === 0) break;
+
+      const archetype = this.pickWeighted(affordable);
+      types.push(archetype.id);
+      remaining -= archetype.spawn.cost;
+    }
+
+    return types;
+  }
+
+  private pickWeighted(archetypes: EnemyArchetype[]): EnemyArchetype {
+    const weightOf = (archetype: EnemyArchetype) => archetype.spawn.weight > 0 ? archetype.spawn.weight : 1;
+    const totalWeight = archetypes.reduce((sum, archetype) => sum + weightOf(archetype), 0);
+
+    let roll = this.random.next() * totalWeight;
+    for (const archetype of archetypes) {
+      roll -= weightOf(archetype);
+      if (roll < 0) return archetype;
+    }
+    return archetypes[archetypes.length - 1];
+  }
+}
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReplayData } from '../game/Replay';
+
+// The client is created when the module loads, so the environment and mock are set up first
+const client = vi.hoisted(() => {
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://example.supabase.co');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+
+  // Query builder: every filter returns the builder, and limit() resolves the query
+  const query = {
+    select: vi.fn(),
+    eq: vi.fn(),
+    in: vi.fn(),
+    order: vi.fn(),
+    limit: vi.fn()
+  };
+  return {
+    rpc: vi.fn(),
+    from: vi.fn(),
+    functions: { invoke: vi.fn() },
+    query
+  };
+});
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => client
+}));
+
+import { LeaderboardService, isSupabaseAvailable } from './supabase';
+
+const entry = {
+  id: '1',
+  username: 'ace',
+  survival_time: 120,
+  wave_reached: 5,
+  score: 3700,
+  created_at: '2024-01-01T00:00:00Z'
+};
+
+const replay: ReplayData = { version: 3, seed: 1234, tickRate: 60, totalTicks: 7200, events: [] };
+
+describe('LeaderboardService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    client.from.mockReturnValue(client.query);
+    client.query.select.mockReturnValue(client.query);
+    client.query.eq.mockReturnValue(client.query);
+    client.query.in.mockReturnValue(client.query);
+    client.query.order.mockReturnValue(client.query);
+  });
+
+  it('uses the configured client', () => {
+    expect(isSupabaseAvailable).toBe(true);
+  });
+
+  describe('getTopScores', () => {
+    it('fetches the best score per user', async () => {
+      client.rpc.mockResolvedValue({ data: [entry], error: null });
+
+      await expect(LeaderboardService.getTopScores(5)).resolves.toEqual([entry]);
+      expect(client.rpc).toHaveBeenCalledWith('get_best_scores_per_user', { score_limit: 5 });
+    });
+
+    it('defaults to the top 10', async () => {
+      client.rpc.mockResolvedValue({ data: [], error: null });
+      await LeaderboardService.getTopScores();
+      expect(client.rpc).toHaveBeenCalledWith('get_best_scores_per_user', { score_limit: 10 });
+    });
+
+    it('returns an empty list on errors or no data', async () => {
+      client.rpc.mockResolvedValue({ data: null, error: { message: 'boom' } });
+      await expect(LeaderboardService.getTopScores()).resolves.toEqual([]);
+
+      client.rpc.mockResolvedValue({ data: null, error: null });
+      await expect(LeaderboardService.getTopScores()).resolves.toEqual([]);
+    });
+  });
+
+  describe('submitScore', () => {
+    it('sends the replay to the verifier', async () => {
+      client.functions.invoke.mockResolvedValue({ data: { status: 'pending' }, error: null });
+
+      await expect(LeaderboardService.submitScore('ace', 120, 5, replay)).resolves.toBe('pending');
+      expect(client.functions.invoke).toHaveBeenCalledWith('verify-score', {
+        body: { username: 'ace', seed: 1234, survivalTime: 120, waveReached: 5, replay }
+      });
+    });
+
+    it('reports flagged scores', async () => {
+      client.functions.invoke.mockResolvedValue({ data: { status: 'flagged', reason: 'mismatch' }, error: null });
+      await expect(LeaderboardService.submitScore('ace', 120, 5, replay)).resolves.toBe('flagged');
+    });
+
+    it('treats failures and unknown responses as errors', async () => {
+      client.functions.invoke.mockResolvedValue({ data: null, error: { message: 'offline' } });
+      await expect(LeaderboardService.submitScore('ace', 120, 5, replay)).resolves.toBe('error');
+
+      client.functions.invoke.mockResolvedValue({ data: { status: 'queued' }, error: null });
+      await expect(LeaderboardService.submitScore('ace', 120, 5, replay)).resolves.toBe('error');
+    });
+  });
+
+  describe('getUserPersonalBest', () => {
+    it('returns the best verified entry', async () => {
+      client.query.limit.mockResolvedValue({ data: [entry], error: null });
+
+      await expect(LeaderboardService.getUserPersonalBest('ace')).resolves.toEqual(entry);
+      expect(client.from).toHaveBeenCalledWith('leaderboard');
+      expect(client.query.eq).toHaveBeenCalledWith('username', 'ace');
+      expect(client.query.in).toHaveBeenCalledWith('verification_status', ['unverified', 'verified']);
+      expect(client.query.order).toHaveBeenCalledWith('score', { ascending: false });
+      expect(client.query.limit).toHaveBeenCalledWith(1);
+    });
+
+    it('returns null without a score or on errors', async () => {
+      client.query.limit.mockResolvedValue({ data: [], error: null });
+      await expect(LeaderboardService.getUserPersonalBest('new')).resolves.toBeNull();
+
+      client.query.limit.mockResolvedValue({ data: null, error: { message: 'boom' } });
+      await expect(LeaderboardService.getUserPersonalBest('ace')).resolves.toBeNull();
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { ReplayData } from '../game/Replay';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -20,6 +21,10 @@ export interface LeaderboardEntry {
   created_at: string;
 }
 
+// 'pending' means the entry is recorded and waiting for the server to re-simulate its replay;
+// 'flagged' means that re-simulation didn't match the claimed result
+export type ScoreSubmissionStatus = 'pending' | 'verified' | 'flagged' | 'error';
+
 export class LeaderboardService {
   static async getTopScores(limit: number = 10): Promise<LeaderboardEntry[]> {
     if (!isSupabaseAvailable || !supabase) {
@@ -39,30 +44,34 @@ export class LeaderboardService {
     return data || [];
   }
 
-  static async submitScore(username: string, survivalTime: number, waveReached: number): Promise<boolean> {
+  static async submitScore(username: string, survivalTime: number, waveReached: number, replay: ReplayData): Promise<ScoreSubmissionStatus> {
     if (!isSupabaseAvailable || !supabase) {
       console.warn('Supabase not available - score not submitted');
-      return false;
+      return 'error';
     }
 
-    // Calculate score based on survival time and wave reached
-    const score = Math.floor(survivalTime * 10 + waveReached * 500);
-
-    const { error } = await supabase
-      .from('leaderboard')
-      .insert({
+    // The verify-score function records the entry and queues its replay for re-simulation
+    const { data, error } = await supabase.functions.invoke('verify-score', {
+      body: {
         username,
-        survival_time: survivalTime,
-        wave_reached: waveReached,
-        score
-      });
+        seed: replay.seed,
+        survivalTime,
+        waveReached,
+        replay
+      }
+    });
 
     if (error) {
       console.error('Error submitting score:', error);
-      return false;
+      return 'error';
+    }
+
+    if (data?.status === 'flagged') {
+      console.warn('Score flagged by verification:', data.reason);
+      return 'flagged';
     }
 
-    return true;
+    return data?.status === 'pending' || data?.status === 'verified' ? data.status : 'error';
   }
 
   static async getUserPersonalBest(username: string): Promise<LeaderboardEntry | null> {
@@ -75,6 +84,7 @@ export class LeaderboardService {
       .from('leaderboard')
       .select('*')
       .eq('username', username)
+      .in('verification_status', ['unverified', 'verified'])
       .order('score', { ascending: false })
       .limit(1);
 
@@ -0,0 +1,72 @@
+/*
+  # verify-pending-scores
+
+  Re-simulates the oldest `pending` leaderboard entry and marks it `verified` or `flagged`, or
+  `too_long` if the run is longer than the verifier re-simulates (held for review, not suspected).
+  One entry per call keeps each run inside the edge function CPU limit; it's called by
+  `verify-score` after each submission and every minute by the `verify-pending-scores` cron job.
+
+  Entries are claimed through `claim_pending_score`, which counts attempts, so an entry whose
+  verification keeps getting killed is flagged instead of being retried forever.
+
+  Only callable with the service role key.
+*/
+
+import { createClient } from '@supabase/supabase-js';
+import { VerificationStatus, getVerificationStatus, verifyScore } from '../../../src/game/ScoreVerifier.ts';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  const { data: entries, error: claimError } = await supabase.rpc('claim_pending_score');
+  if (claimError) {
+    console.error('Error claiming pending score:', claimError);
+    return jsonResponse({ error: 'Could not claim a pending score' }, 500);
+  }
+
+  const entry = entries?.[0];
+  if (!entry) {
+    return jsonResponse({ status: 'idle' });
+  }
+
+  // A replay that breaks the simulation is as suspect as one that doesn't match
+  let status: VerificationStatus = 'flagged';
+  let reason: string | null;
+  try {
+    const result = verifyScore({
+      seed: Number(entry.seed),
+      survivalTime: entry.survival_time,
+      waveReached: entry.wave_reached,
+      replay: entry.replay,
+    });
+    status = getVerificationStatus(result);
+    reason = result.reason;
+  } catch (error) {
+    console.error('Error verifying score:', error);
+    reason = `Verification failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  const { error: updateError } = await supabase
+    .from('leaderboard')
+    .update({ verification_status: status, verification_note: reason })
+    .eq('id', entry.id);
+
+  if (updateError) {
+    console.error('Error recording verification:', updateError);
+    return jsonResponse({ error: 'Could not record verification' }, 500);
+  }
+
+  return jsonResponse({ id: entry.id, status, reason });
+});
@@ -0,0 +1,92 @@
+/*
+  # verify-score
+
+  Accepts a finished run ({ username, seed, survivalTime, waveReached, replay }) and records
+  it as `pending` straight away. Re-simulating a long replay can take seconds of CPU, so it
+  happens afterwards in `verify-pending-scores`, which this function starts for the new entry
+  (a scheduled job picks up anything it misses). Entries whose replay doesn't reproduce the
+  claimed result end up `flagged` (hidden from the leaderboard) so they can be reviewed.
+
+  Clients can no longer insert into `leaderboard` directly; this function writes with the
+  service role key.
+*/
+
+import { createClient } from '@supabase/supabase-js';
+import { calculateScore } from '../../../src/game/ScoreVerifier.ts';
+
+// Supabase's runtime keeps the worker alive for promises handed to waitUntil after responding
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_-]{2,20}$/; // Same rules as UsernameInput
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { username, seed, survivalTime, waveReached, replay } = body;
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    return jsonResponse({ error: 'Invalid username' }, 400);
+  }
+  if (!Number.isInteger(seed) || !Number.isInteger(survivalTime) || !Number.isInteger(waveReached)) {
+    return jsonResponse({ error: 'Invalid score fields' }, 400);
+  }
+
+  const claim = {
+    seed: seed as number,
+    survivalTime: survivalTime as number,
+    waveReached: waveReached as number,
+    replay,
+  };
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  const { error } = await supabase.from('leaderboard').insert({
+    username,
+    survival_time: claim.survivalTime,
+    wave_reached: claim.waveReached,
+    score: calculateScore(claim.survivalTime, claim.waveReached),
+    seed: claim.seed,
+    replay,
+    verification_status: 'pending',
+  });
+
+  if (error) {
+    console.error('Error recording score:', error);
+    return jsonResponse({ error: 'Could not record score' }, 500);
+  }
+
+  // Start verifying now rather than waiting for the next scheduled run
+  EdgeRuntime.waitUntil(
+    fetch(`${supabaseUrl}/functions/v1/verify-pending-scores`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${serviceRoleKey}` },
+    }).catch(error => console.error('Error starting verification:', error))
+  );
+
+  return jsonResponse({ status: 'pending' });
+});
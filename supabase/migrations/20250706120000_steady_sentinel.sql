@@ -0,0 +1,57 @@
+/*
+  # Verified score submissions
+
+  1. Changes to `leaderboard`
+    - `seed` (bigint, PRNG seed of the run)
+    - `replay` (jsonb, recorded inputs used to re-simulate the run)
+    - `verification_status` (text: 'unverified' for entries from before verification, 'verified', 'flagged')
+    - `verification_note` (text, why an entry was flagged)
+
+  2. Security
+    - Drop "Anyone can insert leaderboard entry": clients submit through the `verify-score`
+      edge function, which re-simulates the replay and inserts with the service role
+
+  3. Updates
+    - `get_best_scores_per_user` skips flagged entries
+    - Results are now sorted by score before the limit is applied, so the top scores
+      are returned rather than the first usernames alphabetically
+*/
+
+ALTER TABLE leaderboard ADD COLUMN IF NOT EXISTS seed bigint;
+ALTER TABLE leaderboard ADD COLUMN IF NOT EXISTS replay jsonb;
+ALTER TABLE leaderboard ADD COLUMN IF NOT EXISTS verification_status text NOT NULL DEFAULT 'unverified'
+  CHECK (verification_status IN ('unverified', 'verified', 'flagged'));
+ALTER TABLE leaderboard ADD COLUMN IF NOT EXISTS verification_note text;
+
+DROP POLICY IF EXISTS "Anyone can insert leaderboard entry" ON leaderboard;
+
+CREATE INDEX IF NOT EXISTS leaderboard_verification_status_idx ON leaderboard(verification_status);
+
+CREATE OR REPLACE FUNCTION get_best_scores_per_user(score_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  survival_time integer,
+  wave_reached integer,
+  score integer,
+  created_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT best.id, best.username, best.survival_time, best.wave_reached, best.score, best.created_at
+  FROM (
+    SELECT DISTINCT ON (l.username)
+      l.id,
+      l.username,
+      l.survival_time,
+      l.wave_reached,
+      l.score,
+      l.created_at
+    FROM leaderboard l
+    WHERE l.verification_status <> 'flagged'
+    ORDER BY l.username, l.score DESC, l.created_at DESC
+  ) best
+  ORDER BY best.score DESC, best.created_at DESC
+  LIMIT score_limit;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,98 @@
+/*
+  # Verify score submissions in the background
+
+  1. Changes to `leaderboard`
+    - `verification_status` also allows 'pending': recorded, waiting to be re-simulated, and
+      'too_long': longer than the verifier re-simulates, held for review without being flagged
+    - `verification_attempts` (integer, how many times a worker has claimed the entry)
+
+  2. New functions
+    - `claim_pending_score` hands the oldest pending entry to one worker (skipping entries
+      another worker holds) and counts the attempt. Entries that have used up their attempts,
+      e.g. because verification keeps hitting the CPU limit, are flagged for review instead.
+      Only the service role can call it.
+
+  3. Updates
+    - `get_best_scores_per_user` only shows entries that have passed verification (or predate it)
+
+  4. Scheduling
+    - The `verify-pending-scores` cron job calls the edge function of the same name every minute.
+      It reads the project URL and service role key from the `project_url` and
+      `service_role_key` Vault secrets, which have to be created once per project.
+*/
+
+ALTER TABLE leaderboard DROP CONSTRAINT IF EXISTS leaderboard_verification_status_check;
+ALTER TABLE leaderboard ADD CONSTRAINT leaderboard_verification_status_check
+  CHECK (verification_status IN ('unverified', 'pending', 'verified', 'flagged', 'too_long'));
+ALTER TABLE leaderboard ADD COLUMN IF NOT EXISTS verification_attempts integer NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION claim_pending_score(max_attempts INTEGER DEFAULT 3)
+RETURNS SETOF leaderboard AS $$
+BEGIN
+  UPDATE leaderboard
+  SET verification_status = 'flagged',
+      verification_note = 'Verification did not finish'
+  WHERE verification_status = 'pending'
+    AND verification_attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE leaderboard
+  SET verification_attempts = verification_attempts + 1
+  WHERE leaderboard.id = (
+    SELECT l.id
+    FROM leaderboard l
+    WHERE l.verification_status = 'pending'
+    ORDER BY l.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION claim_pending_score(INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_best_scores_per_user(score_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  survival_time integer,
+  wave_reached integer,
+  score integer,
+  created_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT best.id, best.username, best.survival_time, best.wave_reached, best.score, best.created_at
+  FROM (
+    SELECT DISTINCT ON (l.username)
+      l.id,
+      l.username,
+      l.survival_time,
+      l.wave_reached,
+      l.score,
+      l.created_at
+    FROM leaderboard l
+    WHERE l.verification_status IN ('unverified', 'verified')
+    ORDER BY l.username, l.score DESC, l.created_at DESC
+  ) best
+  ORDER BY best.score DESC, best.created_at DESC
+  LIMIT score_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'verify-pending-scores',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/verify-pending-scores',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    )
+  );
+  $$
+);